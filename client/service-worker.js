@@ -0,0 +1,108 @@
+// Service worker for the organizer PWA. This file is a template: the build
+// fills in the version and the precache list (see vite.config.ts).
+
+const BUILD_VERSION = "__BUILD_VERSION__";
+const PRECACHE_URLS = __PRECACHE_MANIFEST__;
+
+const SHELL_CACHE = `shell-${BUILD_VERSION}`;
+const API_CACHE = "api-v1";
+const FONT_CACHE = "fonts-v1";
+
+// API responses organizers need to open the scanner without a connection
+const CACHED_API_PATTERNS = [
+  /^\/api\/auth\/me$/,
+  /^\/api\/organizer\/events$/,
+  /^\/api\/events\/[^/]+\/guests$/,
+  /^\/api\/events\/[^/]+\/signing-key$/,
+  /^\/api\/events\/[^/]+\/categories$/,
+  /^\/api\/events\/[^/]+\/tables$/,
+  /^\/api\/events\/[^/]+\/zones$/,
+  /^\/api\/events\/[^/]+\/zone-entries$/,
+  /^\/api\/events\/[^/]+\/sessions$/,
+  /^\/api\/events\/[^/]+\/session-attendance$/,
+  /^\/api\/events\/[^/]+\/session-registrations$/,
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(["/", ...PRECACHE_URLS]))
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(
+        keys
+          .filter((key) => key.startsWith("shell-") && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      )
+    ).then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+  if (event.data?.type === "CLEAR_API_CACHE") {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.origin === "https://fonts.googleapis.com" || url.origin === "https://fonts.gstatic.com") {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    if (CACHED_API_PATTERNS.some((pattern) => pattern.test(url.pathname))) {
+      event.respondWith(networkFirst(request, API_CACHE));
+    }
+    return;
+  }
+
+  // Client-side routes all resolve to the app shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(() => caches.match("/").then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  event.respondWith(cacheFirst(request, SHELL_CACHE));
+});
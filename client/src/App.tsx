@@ -1,13 +1,19 @@
+import { useEffect } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { ToastAction } from "@/components/ui/toast";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/lib/auth";
 import { Layout } from "@/components/layout";
 import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useServiceWorker } from "@/hooks/use-service-worker";
 
 import LoginPage from "@/pages/login";
+import RsvpPage from "@/pages/rsvp";
+import RegisterPage from "@/pages/register";
 import DashboardPage from "@/pages/dashboard";
 import EventsPage from "@/pages/events";
 import EventDetailPage from "@/pages/event-detail";
@@ -16,6 +22,7 @@ import EditEventPage from "@/pages/edit-event";
 import AssignOrganizersPage from "@/pages/assign-organizers";
 import AddGuestPage from "@/pages/add-guest";
 import EditGuestPage from "@/pages/edit-guest";
+import EventSeriesPage from "@/pages/event-series";
 import AdminsPage from "@/pages/admins";
 import EventManagersPage from "@/pages/event-managers";
 import OrganizersPage from "@/pages/organizers";
@@ -52,6 +59,7 @@ function ProtectedRoutes() {
         <Route path="/events/:id/add-guest" component={AddGuestPage} />
         <Route path="/events/:eventId/guests/:guestId/edit" component={EditGuestPage} />
         <Route path="/events/:id" component={EventDetailPage} />
+        <Route path="/series/:id" component={EventSeriesPage} />
         <Route path="/admins" component={AdminsPage} />
         <Route path="/event-managers" component={EventManagersPage} />
         <Route path="/organizers" component={OrganizersPage} />
@@ -66,10 +74,33 @@ function ProtectedRoutes() {
   );
 }
 
+function UpdatePrompt() {
+  const { updateAvailable, applyUpdate } = useServiceWorker();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!updateAvailable) return;
+    toast({
+      title: "تحديث جديد متاح",
+      description: "تم نشر إصدار جديد من التطبيق",
+      duration: Infinity,
+      action: (
+        <ToastAction altText="تحديث" onClick={applyUpdate} data-testid="button-apply-update">
+          تحديث
+        </ToastAction>
+      ),
+    });
+  }, [updateAvailable, applyUpdate, toast]);
+
+  return null;
+}
+
 function Router() {
   return (
     <Switch>
       <Route path="/login" component={LoginPage} />
+      <Route path="/rsvp/:token" component={RsvpPage} />
+      <Route path="/register/:token" component={RegisterPage} />
       <Route component={ProtectedRoutes} />
     </Switch>
   );
@@ -81,6 +112,7 @@ function App() {
       <TooltipProvider>
         <AuthProvider>
           <Toaster />
+          <UpdatePrompt />
           <Router />
         </AuthProvider>
       </TooltipProvider>
@@ -4,7 +4,7 @@ import { Calendar, Users, UserCheck, Clock, Plus, ArrowLeft, Package, AlertCircl
 import { Link } from "wouter";
 import { StatsCard } from "@/components/stats-card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { EventStatusBadge } from "@/components/event-status";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import type { Event } from "@shared/schema";
@@ -31,6 +31,7 @@ export function EventManagerDashboard() {
     activeEvents: number;
     totalGuests: number;
     checkedInToday: number;
+    headsPresentToday: number;
   }>({
     queryKey: ["/api/stats/event-manager"],
   });
@@ -164,7 +165,7 @@ export function EventManagerDashboard() {
           title="تسجيل اليوم"
           value={stats?.checkedInToday ?? 0}
           icon={UserCheck}
-          description="حضروا اليوم"
+          description={`حضروا اليوم، ${stats?.headsPresentToday ?? 0} شخص مع المرافقين`}
           delay={0.3}
         />
       </div>
@@ -214,9 +215,7 @@ export function EventManagerDashboard() {
                         </p>
                       </div>
                     </div>
-                    <Badge variant="secondary" className="bg-primary/20 text-primary border-none">
-                      {event.isActive ? "نشط" : "غير نشط"}
-                    </Badge>
+                    <EventStatusBadge status={event.status} />
                   </div>
                 </Link>
               </motion.div>
@@ -1,21 +1,71 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { QrCode, Search, CheckCircle, XCircle, AlertTriangle, Users, Clock, Wifi, WifiOff, Loader2, Camera, CameraOff } from "lucide-react";
+import { QrCode, Search, CheckCircle, XCircle, AlertTriangle, Users, Clock, Wifi, WifiOff, Loader2, Camera, CameraOff, CloudUpload, RefreshCw, Plus, Minus, DoorOpen, LogIn, LogOut } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Guest, Event } from "@shared/schema";
+import {
+  enqueueScan,
+  getQueuedScans,
+  syncPendingScans,
+  clearSyncedScans,
+  type QueuedScan,
+  type QueuedScanStatus,
+} from "@/lib/offline-queue";
+import { isQrToken, verifyQrTokenOffline } from "@/lib/qr-token";
+import type {
+  Guest,
+  OrganizerEvent,
+  CheckInResult,
+  EventSigningKeyInfo,
+  QrTokenPayload,
+  GuestCategory,
+  SeatingTableSummary,
+  AccessZoneSummary,
+  ZoneEntry,
+  EventSessionSummary,
+  SessionAttendance,
+  SessionRegistration,
+} from "@shared/schema";
+import { phoneDigits, phoneSearchDigits } from "@shared/phone";
+import { categoryName } from "@shared/categories";
+import { customFieldSearchText } from "@shared/custom-fields";
+import { CategoryBadge, useEventCategories } from "@/components/event-categories";
+import { useEventTables } from "@/components/event-seating";
+import { tableLabel } from "@shared/seating";
+import { useEventZones, useZoneEntries } from "@/components/event-zones";
+import { useEventSessions, useSessionAttendance, useSessionRegistrations } from "@/components/event-sessions";
+import { canEnterZone, gateName } from "@shared/zones";
+import { countInside, isInside, reentryRefusal } from "@shared/occupancy";
+import {
+  currentSession,
+  formatEventDays,
+  sessionLabel,
+  sessionDetails,
+  sessionCapacityRefusal,
+  sessionSeatHolders,
+} from "@shared/sessions";
+import { checkInRefusal } from "@shared/lifecycle";
 import { Html5Qrcode } from "html5-qrcode";
 
-type CheckInResult = {
-  status: "success" | "duplicate" | "invalid";
-  guest?: Guest;
-  message: string;
-  checkedInAt?: string;
-  checkedInBy?: string;
+const scanStatusLabels: Record<QueuedScanStatus, string> = {
+  pending: "بانتظار المزامنة",
+  success: "تمت المزامنة",
+  duplicate: "مكرر",
+  conflict: "تعارض",
+  invalid: "غير صالح",
+};
+
+const scanStatusStyles: Record<QueuedScanStatus, string> = {
+  pending: "bg-orange-500/20 text-orange-400",
+  success: "bg-green-500/20 text-green-400",
+  duplicate: "bg-yellow-500/20 text-yellow-400",
+  conflict: "bg-red-500/20 text-red-400",
+  invalid: "bg-gray-500/20 text-gray-400",
 };
 
 export function OrganizerDashboard() {
@@ -26,6 +76,12 @@ export function OrganizerDashboard() {
   const [localGuests, setLocalGuests] = useState<Guest[]>([]);
   const [isScannerActive, setIsScannerActive] = useState(false);
   const [scannerError, setScannerError] = useState<string | null>(null);
+  const [queuedScans, setQueuedScans] = useState<QueuedScan[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [companionCount, setCompanionCount] = useState(1);
+  const [scanMode, setScanMode] = useState<"in" | "out">("in");
+  // Session picked by the organizer; null follows the session held now
+  const [pickedSessionId, setPickedSessionId] = useState<string | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const { toast } = useToast();
 
@@ -40,7 +96,7 @@ export function OrganizerDashboard() {
     };
   }, []);
 
-  const { data: events = [] } = useQuery<Event[]>({
+  const { data: events = [] } = useQuery<OrganizerEvent[]>({
     queryKey: ["/api/organizer/events"],
   });
 
@@ -49,6 +105,105 @@ export function OrganizerDashboard() {
     enabled: !!selectedEvent,
   });
 
+  const { data: fetchedSigningKey } = useQuery<EventSigningKeyInfo>({
+    queryKey: ["/api/events", selectedEvent, "signing-key"],
+    enabled: !!selectedEvent,
+  });
+  const [signingKey, setSigningKey] = useState<EventSigningKeyInfo | null>(null);
+
+  const { data: fetchedCategories } = useEventCategories(selectedEvent);
+  const [categories, setCategories] = useState<GuestCategory[]>([]);
+
+  const { data: fetchedTables } = useEventTables(selectedEvent);
+  const [tables, setTables] = useState<SeatingTableSummary[]>([]);
+
+  const { data: fetchedZones } = useEventZones(selectedEvent);
+  const [zones, setZones] = useState<AccessZoneSummary[]>([]);
+
+  const { data: fetchedZoneEntries } = useZoneEntries(selectedEvent);
+  const [zoneEntries, setZoneEntries] = useState<ZoneEntry[]>([]);
+
+  const { data: fetchedSessions } = useEventSessions(selectedEvent);
+  const [sessions, setSessions] = useState<EventSessionSummary[]>([]);
+
+  const { data: fetchedSessionAttendance } = useSessionAttendance(selectedEvent);
+  const [sessionAttendance, setSessionAttendance] = useState<SessionAttendance[]>([]);
+
+  const { data: fetchedSessionRegistrations } = useSessionRegistrations(selectedEvent);
+  const [sessionRegistrations, setSessionRegistrations] = useState<SessionRegistration[]>([]);
+
+  // Organizers assigned to a zone scan at its gate; everyone else at the main entrance
+  const currentEvent = events.find((e) => e.id === selectedEvent);
+  const gateZoneId = currentEvent?.gateZoneId ?? null;
+  const gateZone = gateZoneId ? zones.find((z) => z.id === gateZoneId) : undefined;
+  // Guests check out at the main entrance only
+  const checkingOut = scanMode === "out" && !gateZoneId;
+  // Main entrance scans on events with sessions count for one session; zone
+  // gates admit once for the whole event
+  const activeSession = gateZoneId || sessions.length === 0
+    ? undefined
+    : sessions.find((s) => s.id === pickedSessionId) ?? currentSession(sessions);
+  const sessionId = activeSession?.id ?? null;
+  const missingSession = !gateZoneId && sessions.length > 0 && !activeSession;
+  // Offline scans follow the same check-in window as the server
+  const checkInClosed = currentEvent ? checkInRefusal(currentEvent) : null;
+
+  useEffect(() => {
+    if (fetchedSigningKey) {
+      setSigningKey(fetchedSigningKey);
+      localStorage.setItem(`signing_key_${fetchedSigningKey.eventId}`, JSON.stringify(fetchedSigningKey));
+    }
+  }, [fetchedSigningKey]);
+
+  useEffect(() => {
+    if (fetchedCategories && selectedEvent) {
+      setCategories(fetchedCategories);
+      localStorage.setItem(`categories_${selectedEvent}`, JSON.stringify(fetchedCategories));
+    }
+  }, [fetchedCategories, selectedEvent]);
+
+  useEffect(() => {
+    if (fetchedTables && selectedEvent) {
+      setTables(fetchedTables);
+      localStorage.setItem(`tables_${selectedEvent}`, JSON.stringify(fetchedTables));
+    }
+  }, [fetchedTables, selectedEvent]);
+
+  useEffect(() => {
+    if (fetchedZones && selectedEvent) {
+      setZones(fetchedZones);
+      localStorage.setItem(`zones_${selectedEvent}`, JSON.stringify(fetchedZones));
+    }
+  }, [fetchedZones, selectedEvent]);
+
+  useEffect(() => {
+    if (fetchedZoneEntries && selectedEvent) {
+      setZoneEntries(fetchedZoneEntries);
+      localStorage.setItem(`zone_entries_${selectedEvent}`, JSON.stringify(fetchedZoneEntries));
+    }
+  }, [fetchedZoneEntries, selectedEvent]);
+
+  useEffect(() => {
+    if (fetchedSessions && selectedEvent) {
+      setSessions(fetchedSessions);
+      localStorage.setItem(`sessions_${selectedEvent}`, JSON.stringify(fetchedSessions));
+    }
+  }, [fetchedSessions, selectedEvent]);
+
+  useEffect(() => {
+    if (fetchedSessionAttendance && selectedEvent) {
+      setSessionAttendance(fetchedSessionAttendance);
+      localStorage.setItem(`session_attendance_${selectedEvent}`, JSON.stringify(fetchedSessionAttendance));
+    }
+  }, [fetchedSessionAttendance, selectedEvent]);
+
+  useEffect(() => {
+    if (fetchedSessionRegistrations && selectedEvent) {
+      setSessionRegistrations(fetchedSessionRegistrations);
+      localStorage.setItem(`session_registrations_${selectedEvent}`, JSON.stringify(fetchedSessionRegistrations));
+    }
+  }, [fetchedSessionRegistrations, selectedEvent]);
+
   useEffect(() => {
     if (guests.length > 0) {
       setLocalGuests(guests);
@@ -62,35 +217,398 @@ export function OrganizerDashboard() {
       if (cached) {
         setLocalGuests(JSON.parse(cached));
       }
+      const cachedKey = localStorage.getItem(`signing_key_${selectedEvent}`);
+      setSigningKey(cachedKey ? JSON.parse(cachedKey) : null);
+      const cachedCategories = localStorage.getItem(`categories_${selectedEvent}`);
+      setCategories(cachedCategories ? JSON.parse(cachedCategories) : []);
+      const cachedTables = localStorage.getItem(`tables_${selectedEvent}`);
+      setTables(cachedTables ? JSON.parse(cachedTables) : []);
+      const cachedZones = localStorage.getItem(`zones_${selectedEvent}`);
+      setZones(cachedZones ? JSON.parse(cachedZones) : []);
+      const cachedZoneEntries = localStorage.getItem(`zone_entries_${selectedEvent}`);
+      setZoneEntries(cachedZoneEntries ? JSON.parse(cachedZoneEntries) : []);
+      const cachedSessions = localStorage.getItem(`sessions_${selectedEvent}`);
+      setSessions(cachedSessions ? JSON.parse(cachedSessions) : []);
+      const cachedSessionAttendance = localStorage.getItem(`session_attendance_${selectedEvent}`);
+      setSessionAttendance(cachedSessionAttendance ? JSON.parse(cachedSessionAttendance) : []);
+      const cachedSessionRegistrations = localStorage.getItem(`session_registrations_${selectedEvent}`);
+      setSessionRegistrations(cachedSessionRegistrations ? JSON.parse(cachedSessionRegistrations) : []);
+      setPickedSessionId(null);
+      getQueuedScans(selectedEvent).then(setQueuedScans).catch(() => setQueuedScans([]));
     }
   }, [selectedEvent]);
 
+  const runSync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const synced = await syncPendingScans();
+      if (synced.length > 0) {
+        const conflicts = synced.filter((s) => s.status !== "success").length;
+        toast({
+          title: "تمت المزامنة",
+          description: conflicts > 0
+            ? `تمت مزامنة ${synced.length} عملية دخول، منها ${conflicts} تحتاج مراجعة`
+            : `تمت مزامنة ${synced.length} عملية دخول بنجاح`,
+          variant: conflicts > 0 ? "destructive" : "default",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "zone-entries"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "session-attendance"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "sessions"] });
+      }
+      if (selectedEvent) {
+        setQueuedScans(await getQueuedScans(selectedEvent));
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [selectedEvent, toast]);
+
+  useEffect(() => {
+    if (isOnline) {
+      runSync();
+    }
+  }, [isOnline, runSync]);
+
+  // Scans taken offline at this gate apply locally, in order, until the server confirms them
+  const gateScans = queuedScans.filter(
+    (s) => s.status === "pending" && (s.zoneId ?? null) === gateZoneId && (s.sessionId ?? null) === sessionId
+  );
+  const pendingGuestIds = new Set(gateScans.map((s) => s.guestId));
+  // At a zone gate the list tracks who entered that zone instead of the main check-in
+  const zoneEntryByGuest = new Map<string, ZoneEntry>(
+    zoneEntries.filter((e) => e.zoneId === gateZoneId).map((e) => [e.guestId, e])
+  );
+  // and during a session, who attended that session
+  const sessionAttendanceByGuest = new Map<string, SessionAttendance>(
+    sessionAttendance.filter((a) => a.sessionId === sessionId).map((a) => [a.guestId, a])
+  );
+  // Seats of the session are held by cached attendance, queued entries and
+  // guests registered ahead
+  const sessionPresence = [
+    ...sessionAttendance,
+    ...gateScans
+      .filter((s) => s.sessionId && s.direction !== "out")
+      .map((s) => ({ sessionId: s.sessionId!, guestId: s.guestId })),
+  ];
+  const seatRefusal = (guestId: string) =>
+    activeSession ? sessionCapacityRefusal(activeSession, guestId, sessionPresence, sessionRegistrations) : null;
+  const displayGuests = localGuests.map((g) => {
+    const attended = sessionAttendanceByGuest.get(g.id);
+    let guest: Guest = gateZoneId
+      ? {
+          ...g,
+          isCheckedIn: zoneEntryByGuest.has(g.id),
+          checkedInAt: zoneEntryByGuest.get(g.id)?.enteredAt ?? null,
+          checkedOutAt: null,
+        }
+      : sessionId && !attended
+      ? { ...g, isCheckedIn: false, checkedInAt: null, checkedOutAt: null, reentryCount: 0 }
+      : sessionId && attended
+      ? { ...g, isCheckedIn: true, checkedInAt: attended.checkedInAt }
+      : g;
+    if (!pendingGuestIds.has(g.id)) return guest;
+    for (const scan of gateScans) {
+      if (scan.guestId !== g.id) continue;
+      if (scan.direction === "out") {
+        guest = { ...guest, checkedOutAt: new Date(scan.scannedAt) };
+      } else if (scan.companions) {
+        guest = { ...guest, companionsCheckedIn: (guest.companionsCheckedIn || 0) + scan.companions };
+      } else if (guest.isCheckedIn && guest.checkedOutAt) {
+        guest = { ...guest, checkedOutAt: null, reentryCount: (guest.reentryCount || 0) + 1 };
+      } else {
+        guest = { ...guest, isCheckedIn: true };
+      }
+    }
+    return guest;
+  });
+
+  // Whether the guest may pass this gate; unknown while the zone is not cached
+  const mayEnterGate = (guest: Pick<Guest, "category" | "zoneIds">) =>
+    !gateZoneId || (!!gateZone && canEnterZone(gateZone, guest));
+
+  const deniedAtGate = (guest?: Guest): CheckInResult => ({
+    status: "invalid",
+    guest,
+    message: gateZone
+      ? `الضيف غير مصرح له بدخول ${gateZone.name}`
+      : "بيانات منطقة البوابة غير محفوظة على هذا الجهاز",
+  });
+
+  const remainingCompanions = (guest: Guest) =>
+    Math.max(0, (guest.companions || 0) - (guest.companionsCheckedIn || 0));
+
+  const acceptOffline = async (guest: Guest, companions = 0): Promise<CheckInResult> => {
+    if (checkInClosed) {
+      return { status: "invalid", guest, message: checkInClosed };
+    }
+    if (!mayEnterGate(guest)) {
+      return deniedAtGate(guest);
+    }
+    if (missingSession) {
+      return { status: "invalid", guest, message: "لا توجد جلسة لهذه المناسبة اليوم" };
+    }
+    if (guest.isCheckedIn && guest.checkedOutAt && currentEvent) {
+      const refusal = reentryRefusal(currentEvent, guest);
+      if (refusal) {
+        return { status: "invalid", guest, message: refusal };
+      }
+      const scan = await enqueueScan({
+        eventId: guest.eventId,
+        guestId: guest.id,
+        guestName: guest.name,
+        qrCode: guest.qrCode,
+        zoneId: gateZoneId,
+        sessionId,
+      });
+      setQueuedScans((prev) => [...prev, scan]);
+      return {
+        status: "success",
+        guest: { ...guest, checkedOutAt: null },
+        message: "تم قبول إعادة الدخول دون اتصال وستتم المزامنة عند عودة الإنترنت",
+      };
+    }
+    if (guest.isCheckedIn) {
+      const count = Math.min(companions, remainingCompanions(guest));
+      if (count > 0) {
+        const scan = await enqueueScan({
+          eventId: guest.eventId,
+          guestId: guest.id,
+          guestName: guest.name,
+          qrCode: guest.qrCode,
+          companions: count,
+          zoneId: gateZoneId,
+          sessionId,
+        });
+        setQueuedScans((prev) => [...prev, scan]);
+        return {
+          status: "success",
+          guest: { ...guest, companionsCheckedIn: (guest.companionsCheckedIn || 0) + count },
+          message: `تم قبول دخول ${count} مرافق دون اتصال وستتم المزامنة عند عودة الإنترنت`,
+          companionsAdmitted: count,
+        };
+      }
+      const queued = queuedScans.find((s) => s.guestId === guest.id);
+      return {
+        status: "duplicate",
+        guest,
+        message: "تم استخدام هذه الدعوة مسبقاً!",
+        checkedInAt: guest.checkedInAt?.toString() || queued?.scannedAt,
+      };
+    }
+    const refusal = seatRefusal(guest.id);
+    if (refusal) {
+      return { status: "invalid", guest, message: refusal, sessionName: activeSession?.name };
+    }
+    const scan = await enqueueScan({
+      eventId: guest.eventId,
+      guestId: guest.id,
+      guestName: guest.name,
+      qrCode: guest.qrCode,
+      zoneId: gateZoneId,
+      sessionId,
+    });
+    setQueuedScans((prev) => [...prev, scan]);
+    return {
+      status: "success",
+      guest,
+      message: "تم قبول الدخول دون اتصال وستتم المزامنة عند عودة الإنترنت",
+      zoneName: gateZone?.name,
+      sessionName: activeSession?.name,
+    };
+  };
+
+  const acceptCheckOutOffline = async (guest: Guest): Promise<CheckInResult> => {
+    if (!guest.isCheckedIn) {
+      return { status: "invalid", guest, message: "لم يسجل الضيف دخوله بعد" };
+    }
+    if (guest.checkedOutAt) {
+      return { status: "duplicate", guest, message: "سجل الضيف خروجه مسبقاً" };
+    }
+    const scan = await enqueueScan({
+      eventId: guest.eventId,
+      guestId: guest.id,
+      guestName: guest.name,
+      qrCode: guest.qrCode,
+      zoneId: null,
+      sessionId,
+      direction: "out",
+    });
+    setQueuedScans((prev) => [...prev, scan]);
+    return {
+      status: "success",
+      guest: { ...guest, checkedOutAt: new Date(scan.scannedAt) },
+      message: "تم تسجيل الخروج دون اتصال وستتم المزامنة عند عودة الإنترنت",
+    };
+  };
+
+  const findCachedGuest = (code: string) =>
+    displayGuests.find((g) => g.qrCode === code.trim().toUpperCase());
+
+  // A verified token is enough to admit a guest offline even if they are
+  // missing from the cached list (e.g. added after the list was downloaded)
+  const acceptTokenOffline = async (payload: QrTokenPayload): Promise<CheckInResult> => {
+    const cached = displayGuests.find((g) => g.id === payload.g);
+    if (cached) {
+      return checkingOut ? acceptCheckOutOffline(cached) : acceptOffline(cached);
+    }
+    if (checkingOut) {
+      return { status: "invalid", message: "الضيف غير موجود في قائمة الضيوف المحفوظة" };
+    }
+    if (checkInClosed) {
+      return { status: "invalid", message: checkInClosed };
+    }
+    if (pendingGuestIds.has(payload.g)) {
+      return { status: "duplicate", message: "تم استخدام هذه الدعوة مسبقاً!" };
+    }
+    // Zones granted individually are unknown for an uncached guest; only the
+    // category in the token can open the gate
+    if (!mayEnterGate({ category: payload.c, zoneIds: [] })) {
+      return deniedAtGate();
+    }
+    if (missingSession) {
+      return { status: "invalid", message: "لا توجد جلسة لهذه المناسبة اليوم" };
+    }
+    const refusal = seatRefusal(payload.g);
+    if (refusal) {
+      return { status: "invalid", message: refusal, sessionName: activeSession?.name };
+    }
+    const scan = await enqueueScan({
+      eventId: payload.e,
+      guestId: payload.g,
+      guestName: `ضيف ${categoryName(categories, payload.c)}`,
+      qrCode: "",
+      zoneId: gateZoneId,
+      sessionId,
+    });
+    setQueuedScans((prev) => [...prev, scan]);
+    return {
+      status: "success",
+      message: "تم التحقق من توقيع الدعوة وقبول الدخول دون اتصال",
+      sessionName: activeSession?.name,
+    };
+  };
+
   const checkInMutation = useMutation({
-    mutationFn: async (guestId: string) => {
-      const res = await apiRequest("POST", `/api/guests/${guestId}/check-in`);
-      return res.json();
+    mutationFn: async (guest: Guest): Promise<CheckInResult> => {
+      const offline = () => (checkingOut ? acceptCheckOutOffline(guest) : acceptOffline(guest));
+      if (!navigator.onLine) {
+        return offline();
+      }
+      try {
+        const res = await apiRequest("POST", `/api/guests/${guest.id}/${checkingOut ? "check-out" : "check-in"}`, {
+          eventId: selectedEvent,
+          zoneId: gateZoneId,
+          sessionId,
+        });
+        return res.json();
+      } catch (error) {
+        // fetch rejects with TypeError when the network is unreachable
+        if (error instanceof TypeError) {
+          return offline();
+        }
+        throw error;
+      }
+    },
+    onSuccess: (data: CheckInResult) => {
+      setCheckInResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "zone-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "session-attendance"] });
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: checkingOut ? "فشل في تسجيل الخروج" : "فشل في تسجيل الحضور",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Companions arriving after their guest, admitted against the same invitation
+  const companionsMutation = useMutation({
+    mutationFn: async ({ guestId, count }: { guestId: string; count: number }): Promise<CheckInResult> => {
+      const guest = displayGuests.find((g) => g.id === guestId);
+      if (guest && !navigator.onLine) {
+        return acceptOffline(guest, count);
+      }
+      try {
+        const res = await apiRequest("POST", `/api/guests/${guestId}/check-in`, {
+          companions: count,
+          eventId: selectedEvent,
+          zoneId: gateZoneId,
+          sessionId,
+        });
+        return res.json();
+      } catch (error) {
+        if (guest && error instanceof TypeError) {
+          return acceptOffline(guest, count);
+        }
+        throw error;
+      }
     },
     onSuccess: (data: CheckInResult) => {
       setCheckInResult(data);
+      setCompanionCount(1);
       queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
     },
     onError: () => {
       toast({
         title: "خطأ",
-        description: "فشل في تسجيل الحضور",
+        description: "فشل في تسجيل دخول المرافقين",
         variant: "destructive",
       });
     },
   });
 
   const checkInByCodeMutation = useMutation({
-    mutationFn: async (code: string) => {
-      const res = await apiRequest("POST", `/api/check-in/code`, { code, eventId: selectedEvent });
-      return res.json();
+    mutationFn: async (code: string): Promise<CheckInResult> => {
+      const text = code.trim();
+      let tokenPayload: QrTokenPayload | null = null;
+
+      // Reject forged tokens and tokens for other events before any request
+      if (isQrToken(text) && signingKey) {
+        const check = await verifyQrTokenOffline(text, signingKey);
+        if (!check.ok) {
+          return { status: "invalid", message: check.message };
+        }
+        tokenPayload = check.payload;
+      }
+
+      const offlineLookup = () => {
+        if (tokenPayload) {
+          return acceptTokenOffline(tokenPayload);
+        }
+        const guest = findCachedGuest(code);
+        if (!guest) {
+          return { status: "invalid" as const, message: "الكود غير موجود في قائمة الضيوف المحفوظة" };
+        }
+        return checkingOut ? acceptCheckOutOffline(guest) : acceptOffline(guest);
+      };
+
+      if (!navigator.onLine) {
+        return offlineLookup();
+      }
+      try {
+        const res = await apiRequest("POST", checkingOut ? `/api/check-out/code` : `/api/check-in/code`, {
+          code: text,
+          eventId: selectedEvent,
+          zoneId: gateZoneId,
+          sessionId,
+        });
+        return res.json();
+      } catch (error) {
+        if (error instanceof TypeError) {
+          return offlineLookup();
+        }
+        throw error;
+      }
     },
     onSuccess: (data: CheckInResult) => {
       setCheckInResult(data);
       queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "zone-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "session-attendance"] });
     },
     onError: () => {
       setCheckInResult({
@@ -161,15 +679,18 @@ export function OrganizerDashboard() {
     }
   }, [selectedEvent]);
 
-  const filteredGuests = localGuests.filter(
+  // Phones match in any format: 050..., 96650..., +966 50 ... or Arabic digits
+  const phoneQuery = phoneSearchDigits(searchQuery);
+  const filteredGuests = displayGuests.filter(
     (guest) =>
       guest.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      guest.phone?.includes(searchQuery) ||
-      guest.qrCode?.includes(searchQuery.toUpperCase())
+      (phoneQuery.length >= 3 && phoneDigits(guest.phone).includes(phoneQuery)) ||
+      guest.qrCode?.includes(searchQuery.toUpperCase()) ||
+      (searchQuery.trim() !== "" && customFieldSearchText(guest.customFields).includes(searchQuery.trim().toLowerCase()))
   );
 
   const handleCheckIn = (guest: Guest) => {
-    if (guest.isCheckedIn) {
+    if (!checkingOut && isInside(guest)) {
       setCheckInResult({
         status: "duplicate",
         guest,
@@ -178,14 +699,7 @@ export function OrganizerDashboard() {
       });
       return;
     }
-    checkInMutation.mutate(guest.id);
-  };
-
-  const categoryLabels: Record<string, string> = {
-    vip: "VIP",
-    regular: "عادي",
-    media: "إعلام",
-    sponsor: "راعي",
+    checkInMutation.mutate(guest);
   };
 
   if (!selectedEvent) {
@@ -222,7 +736,7 @@ export function OrganizerDashboard() {
                   <div>
                     <h3 className="text-xl font-bold text-white">{event.name}</h3>
                     <p className="text-muted-foreground">
-                      {new Date(event.date).toLocaleDateString("ar-SA")}
+                      {formatEventDays(event)}
                     </p>
                   </div>
                 </div>
@@ -234,8 +748,22 @@ export function OrganizerDashboard() {
     );
   }
 
-  const currentEvent = events.find((e) => e.id === selectedEvent);
-  const checkedInCount = localGuests.filter((g) => g.isCheckedIn).length;
+  const checkedInCount = displayGuests.filter((g) => g.isCheckedIn).length;
+  const gateGuestCount = gateZoneId ? displayGuests.filter(mayEnterGate).length : displayGuests.length;
+  const headsPresent = displayGuests.reduce(
+    (sum, g) => (g.isCheckedIn ? sum + 1 + (g.companionsCheckedIn || 0) : sum),
+    0
+  );
+  const headsExpected = displayGuests.reduce((sum, g) => sum + 1 + (g.companions || 0), 0);
+  const inside = countInside(displayGuests);
+  const resultGuest = checkInResult?.guest;
+  // Companions are admitted at the main entrance only, while their guest is inside
+  const resultRemaining =
+    resultGuest && checkInResult?.status !== "invalid" && !gateZoneId && isInside(resultGuest)
+      ? remainingCompanions(resultGuest)
+      : 0;
+  const pendingCount = pendingGuestIds.size;
+  const syncedScans = queuedScans.filter((s) => s.status !== "pending");
 
   return (
     <div className="space-y-6">
@@ -250,6 +778,24 @@ export function OrganizerDashboard() {
           <span className="text-sm text-muted-foreground">
             {isOnline ? 'متصل' : 'غير متصل'}
           </span>
+          {pendingCount > 0 && (
+            <Badge variant="secondary" className="bg-orange-500/20 text-orange-400" data-testid="badge-pending-sync">
+              <CloudUpload className="w-3 h-3 ml-1" />
+              {pendingCount} بانتظار المزامنة
+            </Badge>
+          )}
+          {isOnline && pendingCount > 0 && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={runSync}
+              disabled={isSyncing}
+              className="h-8 w-8 text-muted-foreground"
+              data-testid="button-sync-now"
+            >
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
+            </Button>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -265,17 +811,80 @@ export function OrganizerDashboard() {
 
       {/* Event Info */}
       <div className="glass-card rounded-2xl p-6">
-        <h2 className="text-2xl font-bold text-white mb-2">{currentEvent?.name}</h2>
+        <div className="flex flex-wrap items-center gap-3 mb-2">
+          <h2 className="text-2xl font-bold text-white">{currentEvent?.name}</h2>
+          <Badge variant="secondary" className="bg-primary/20 text-primary" data-testid="badge-gate">
+            <DoorOpen className="w-3 h-3 ml-1" />
+            {gateName(zones, gateZoneId)}
+          </Badge>
+        </div>
         <div className="flex items-center gap-4 text-muted-foreground">
           <div className="flex items-center gap-2">
             <Users className="w-4 h-4" />
-            <span>{checkedInCount} / {localGuests.length}</span>
+            <span>{checkedInCount} / {gateGuestCount}</span>
           </div>
+          {!gateZoneId && headsExpected > displayGuests.length && (
+            <div className="flex items-center gap-2" data-testid="text-heads-present">
+              <span>الأشخاص: {headsPresent} / {headsExpected}</span>
+            </div>
+          )}
+          {!gateZoneId && (
+            <div className="flex items-center gap-2" data-testid="text-occupancy">
+              <DoorOpen className="w-4 h-4" />
+              <span>داخل الآن: {inside.people}</span>
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <Clock className="w-4 h-4" />
             <span>{currentEvent?.startTime} - {currentEvent?.endTime}</span>
           </div>
         </div>
+        {checkInClosed && (
+          <p className="text-orange-400 text-sm mt-3" data-testid="text-check-in-closed">
+            {checkInClosed}
+          </p>
+        )}
+        {!gateZoneId && sessions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <span className="text-sm text-muted-foreground">الجلسة:</span>
+            <Select
+              value={pickedSessionId ?? "current"}
+              onValueChange={(value) => setPickedSessionId(value === "current" ? null : value)}
+            >
+              <SelectTrigger className="glass-input h-10 rounded-xl text-white w-64" data-testid="select-session">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">الجلسة الجارية تلقائياً</SelectItem>
+                {sessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {sessionLabel(session)}
+                    {session.room && ` (${session.room})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activeSession ? (
+              <>
+                <Badge variant="secondary" className="bg-green-500/20 text-green-400" data-testid="badge-active-session">
+                  {activeSession.name}
+                </Badge>
+                {sessionDetails(activeSession) && (
+                  <span className="text-sm text-muted-foreground">{sessionDetails(activeSession)}</span>
+                )}
+                {activeSession.capacity !== null && (
+                  <span className="text-sm text-muted-foreground" data-testid="text-session-seats">
+                    المقاعد: {sessionSeatHolders(activeSession.id, sessionPresence, sessionRegistrations).size} / {activeSession.capacity}
+                  </span>
+                )}
+              </>
+            ) : (
+              <Badge variant="secondary" className="bg-orange-500/20 text-orange-400" data-testid="badge-active-session">
+                لا توجد جلسة اليوم
+              </Badge>
+            )}
+          </div>
+        )}
       </div>
 
       {/* QR Scanner Section */}
@@ -285,6 +894,30 @@ export function OrganizerDashboard() {
             <Camera className="w-5 h-5" />
             مسح الكيو آر
           </h3>
+          {!gateZoneId && (
+            <div className="flex rounded-xl bg-white/5 p-1" data-testid="toggle-scan-mode">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setScanMode("in")}
+                className={scanMode === "in" ? "bg-primary/30 text-white" : "text-muted-foreground"}
+                data-testid="button-mode-in"
+              >
+                <LogIn className="w-4 h-4 ml-1" />
+                دخول
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setScanMode("out")}
+                className={scanMode === "out" ? "bg-orange-500/30 text-white" : "text-muted-foreground"}
+                data-testid="button-mode-out"
+              >
+                <LogOut className="w-4 h-4 ml-1" />
+                خروج
+              </Button>
+            </div>
+          )}
           <Button
             onClick={isScannerActive ? stopScanner : startScanner}
             variant={isScannerActive ? "destructive" : "default"}
@@ -325,6 +958,48 @@ export function OrganizerDashboard() {
         )}
       </div>
 
+      {/* Offline Sync Results */}
+      {syncedScans.length > 0 && (
+        <div className="glass-card rounded-2xl p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <CloudUpload className="w-5 h-5" />
+              نتائج مزامنة الدخول دون اتصال
+            </h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={async () => {
+                if (!selectedEvent) return;
+                await clearSyncedScans(selectedEvent);
+                setQueuedScans(await getQueuedScans(selectedEvent));
+              }}
+              className="text-muted-foreground"
+              data-testid="button-clear-sync-results"
+            >
+              مسح
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {syncedScans.map((scan) => (
+              <div key={scan.id} className="flex items-center justify-between bg-white/5 rounded-xl p-3">
+                <div>
+                  <p className="text-white font-medium">{scan.guestName}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {new Date(scan.scannedAt).toLocaleTimeString("ar-SA")}
+                    {scan.message && ` - ${scan.message}`}
+                    {scan.checkedInBy && ` (${scan.checkedInBy})`}
+                  </p>
+                </div>
+                <Badge variant="secondary" className={scanStatusStyles[scan.status]}>
+                  {scanStatusLabels[scan.status]}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
@@ -345,7 +1020,10 @@ export function OrganizerDashboard() {
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.9 }}
             className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
-            onClick={() => setCheckInResult(null)}
+            onClick={() => {
+              setCheckInResult(null);
+              setCompanionCount(1);
+            }}
           >
             <motion.div
               initial={{ y: 50 }}
@@ -382,15 +1060,33 @@ export function OrganizerDashboard() {
                       <span className="opacity-80">الاسم:</span>
                       <span className="font-bold">{checkInResult.guest.name}</span>
                     </div>
+                    {checkInResult.sessionName && (
+                      <div className="flex justify-between">
+                        <span className="opacity-80">الجلسة:</span>
+                        <span className="font-bold" data-testid="text-result-session">{checkInResult.sessionName}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="opacity-80">الفئة:</span>
                       <Badge variant="secondary" className="bg-white/30 text-white border-none">
-                        {categoryLabels[checkInResult.guest.category || "regular"]}
+                        {categoryName(categories, checkInResult.guest.category)}
                       </Badge>
                     </div>
+                    {checkInResult.guest.tableId && tables.some((t) => t.id === checkInResult.guest!.tableId) && (
+                      <div className="flex justify-between items-center">
+                        <span className="opacity-80">الطاولة:</span>
+                        <span className="text-2xl font-bold" data-testid="text-guest-table">
+                          {tableLabel(tables.find((t) => t.id === checkInResult.guest!.tableId)!)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="opacity-80">المرافقين:</span>
-                      <span className="font-bold">{checkInResult.guest.companions}</span>
+                      <span className="font-bold" data-testid="text-companions-present">
+                        {(checkInResult.guest.companions ?? 0) > 0
+                          ? `الحاضرون ${checkInResult.guest.companionsCheckedIn || 0} من ${checkInResult.guest.companions}`
+                          : 0}
+                      </span>
                     </div>
                     {checkInResult.guest.notes && (
                       <div className="pt-3 border-t border-white/20">
@@ -409,8 +1105,59 @@ export function OrganizerDashboard() {
                   </p>
                 )}
 
+                {resultGuest && resultRemaining > 0 && (
+                  <div className="bg-white/20 rounded-2xl p-4 mb-4 space-y-3">
+                    <p className="text-sm opacity-90">
+                      المرافقون المتبقون: {resultRemaining}
+                    </p>
+                    <div className="flex items-center justify-center gap-4">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setCompanionCount((c) => Math.min(resultRemaining, c + 1))}
+                        disabled={companionCount >= resultRemaining}
+                        className="bg-white/20 hover:bg-white/30 text-white"
+                        data-testid="button-companions-increase"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                      <span className="text-2xl font-bold w-10" data-testid="text-companion-count">
+                        {Math.min(companionCount, resultRemaining)}
+                      </span>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setCompanionCount((c) => Math.max(1, c - 1))}
+                        disabled={companionCount <= 1}
+                        className="bg-white/20 hover:bg-white/30 text-white"
+                        data-testid="button-companions-decrease"
+                      >
+                        <Minus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => companionsMutation.mutate({
+                        guestId: resultGuest.id,
+                        count: Math.min(companionCount, resultRemaining),
+                      })}
+                      disabled={companionsMutation.isPending}
+                      className="w-full h-12 bg-white/30 hover:bg-white/40 text-white border-none"
+                      data-testid="button-admit-companions"
+                    >
+                      {companionsMutation.isPending ? (
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                      ) : (
+                        "تسجيل دخول المرافقين"
+                      )}
+                    </Button>
+                  </div>
+                )}
+
                 <Button
-                  onClick={() => setCheckInResult(null)}
+                  onClick={() => {
+                    setCheckInResult(null);
+                    setCompanionCount(1);
+                  }}
                   className="w-full h-14 text-lg bg-white/20 hover:bg-white/30 text-white border-none"
                   data-testid="button-close-result"
                 >
@@ -435,7 +1182,7 @@ export function OrganizerDashboard() {
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               className={`glass-card rounded-2xl p-5 ${
-                guest.isCheckedIn ? "opacity-60" : ""
+                (checkingOut ? !isInside(guest) : isInside(guest)) ? "opacity-60" : ""
               }`}
             >
               <div className="flex items-center justify-between">
@@ -456,19 +1203,17 @@ export function OrganizerDashboard() {
                   <div>
                     <h3 className="text-white font-medium">{guest.name}</h3>
                     <div className="flex items-center gap-2 flex-wrap">
-                      <Badge
-                        variant="secondary"
-                        className={`text-xs ${
-                          guest.category === "vip"
-                            ? "bg-yellow-500/20 text-yellow-400"
-                            : "bg-white/10 text-white/70"
-                        }`}
-                      >
-                        {categoryLabels[guest.category || "regular"]}
-                      </Badge>
+                      <CategoryBadge categories={categories} categoryKey={guest.category} className="text-xs" />
+                      {guest.isCheckedIn && guest.checkedOutAt && (
+                        <Badge variant="secondary" className="bg-orange-500/20 text-orange-400 text-xs" data-testid={`badge-outside-${guest.id}`}>
+                          خارج المكان
+                        </Badge>
+                      )}
                       {(guest.companions ?? 0) > 0 && (
                         <span className="text-muted-foreground text-sm">
-                          +{guest.companions} مرافق
+                          {guest.isCheckedIn
+                            ? `${guest.companionsCheckedIn || 0}/${guest.companions} مرافق`
+                            : `+${guest.companions} مرافق`}
                         </span>
                       )}
                       <span className="text-muted-foreground text-xs font-mono">
@@ -479,9 +1224,9 @@ export function OrganizerDashboard() {
                 </div>
                 <Button
                   onClick={() => handleCheckIn(guest)}
-                  disabled={checkInMutation.isPending}
+                  disabled={checkInMutation.isPending || !mayEnterGate(guest) || (checkingOut && !isInside(guest))}
                   className={`${
-                    guest.isCheckedIn
+                    (checkingOut ? !isInside(guest) : isInside(guest))
                       ? "bg-gray-500/20 text-gray-400"
                       : "gradient-primary text-white"
                   }`}
@@ -489,8 +1234,14 @@ export function OrganizerDashboard() {
                 >
                   {checkInMutation.isPending ? (
                     <Loader2 className="w-5 h-5 animate-spin" />
-                  ) : guest.isCheckedIn ? (
+                  ) : checkingOut ? (
+                    isInside(guest) ? "تسجيل خروج" : guest.isCheckedIn ? "خرج" : "لم يدخل"
+                  ) : isInside(guest) ? (
                     "تم الدخول"
+                  ) : !mayEnterGate(guest) ? (
+                    "غير مصرح"
+                  ) : guest.isCheckedIn ? (
+                    "إعادة دخول"
                   ) : (
                     "تسجيل"
                   )}
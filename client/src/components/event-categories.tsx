@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, Check, X, ArrowUp, ArrowDown, Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { Guest, GuestCategory } from "@shared/schema";
+import { categoryColor, categoryName } from "@shared/categories";
+
+const DEFAULT_NEW_COLOR = "#8B5CF6";
+
+export function useEventCategories(eventId: string | null | undefined) {
+  return useQuery<GuestCategory[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+    enabled: !!eventId,
+  });
+}
+
+export function CategoryBadge({
+  categories,
+  categoryKey,
+  className = "",
+}: {
+  categories: Pick<GuestCategory, "key" | "name" | "color">[];
+  categoryKey: string | null | undefined;
+  className?: string;
+}) {
+  const color = categoryColor(categories, categoryKey);
+  return (
+    <Badge
+      variant="secondary"
+      className={`border-none ${className}`}
+      style={{ backgroundColor: `${color}33`, color }}
+    >
+      {categoryName(categories, categoryKey)}
+    </Badge>
+  );
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendCategoryRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء حفظ الفئة");
+  }
+  return data;
+}
+
+export function EventCategories({ eventId, guests }: { eventId: string; guests: Guest[] }) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_NEW_COLOR);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editColor, setEditColor] = useState(DEFAULT_NEW_COLOR);
+
+  const { data: categories = [], isLoading } = useEventCategories(eventId);
+
+  const guestCounts = new Map<string, number>();
+  for (const guest of guests) {
+    const key = guest.category || "";
+    guestCounts.set(key, (guestCounts.get(key) || 0) + 1);
+  }
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "categories"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendCategoryRequest("POST", `/api/events/${eventId}/categories`, { name: newName, color: newColor }),
+    onSuccess: () => {
+      toast({ title: "تمت الإضافة", description: `تمت إضافة الفئة "${newName.trim()}"` });
+      setNewName("");
+      setNewColor(DEFAULT_NEW_COLOR);
+      invalidate();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (id: string) =>
+      sendCategoryRequest("PATCH", `/api/categories/${id}`, { name: editName, color: editColor }),
+    onSuccess: () => {
+      setEditingId(null);
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendCategoryRequest("DELETE", `/api/categories/${id}`),
+    onSuccess: () => {
+      toast({ title: "تم الحذف", description: "تم حذف الفئة" });
+      invalidate();
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ids: string[]) =>
+      sendCategoryRequest("POST", `/api/events/${eventId}/categories/reorder`, { ids }),
+    onSuccess: (data: GuestCategory[]) => {
+      queryClient.setQueryData(["/api/events", eventId, "categories"], data);
+    },
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = categories.map((c) => c.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const startEditing = (category: GuestCategory) => {
+    setEditingId(category.id);
+    setEditName(category.name);
+    setEditColor(category.color);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">فئات الضيوف</h3>
+          <p className="text-muted-foreground text-sm">
+            تظهر الفئات في نماذج الضيوف والرفع والتقارير وبطاقات الدعوة بالترتيب المحدد هنا
+          </p>
+        </div>
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newName.trim()) createMutation.mutate();
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="اسم الفئة، مثل: أهل العريس"
+            className="glass-input h-10 rounded-xl text-white flex-1 min-w-[200px]"
+            data-testid="input-category-name"
+          />
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="h-10 w-14 rounded-xl bg-transparent border border-white/20 cursor-pointer"
+            data-testid="input-category-color"
+          />
+          <Button
+            type="submit"
+            disabled={!newName.trim() || createMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-add-category"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 ml-2" />
+            )}
+            إضافة فئة
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : categories.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <Tags className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد فئات</p>
+        </div>
+      ) : (
+        <div className="glass-card rounded-2xl divide-y divide-white/10">
+          {categories.map((category, index) => (
+            <div
+              key={category.id}
+              className="flex items-center gap-4 p-4"
+              data-testid={`row-category-${category.id}`}
+            >
+              <div className="flex flex-col">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0 || reorderMutation.isPending}
+                  className="h-6 w-6 text-muted-foreground"
+                  data-testid={`button-category-up-${category.id}`}
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => move(index, 1)}
+                  disabled={index === categories.length - 1 || reorderMutation.isPending}
+                  className="h-6 w-6 text-muted-foreground"
+                  data-testid={`button-category-down-${category.id}`}
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+              </div>
+
+              {editingId === category.id ? (
+                <>
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    className="glass-input h-10 rounded-xl text-white flex-1"
+                    data-testid={`input-edit-category-name-${category.id}`}
+                  />
+                  <input
+                    type="color"
+                    value={editColor}
+                    onChange={(e) => setEditColor(e.target.value)}
+                    className="h-10 w-14 rounded-xl bg-transparent border border-white/20 cursor-pointer"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => updateMutation.mutate(category.id)}
+                    disabled={!editName.trim() || updateMutation.isPending}
+                    className="text-green-400"
+                    data-testid={`button-save-category-${category.id}`}
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setEditingId(null)}
+                    className="text-muted-foreground"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <CategoryBadge categories={categories} categoryKey={category.key} className="text-sm" />
+                  </div>
+                  <span className="text-muted-foreground text-sm">
+                    {guestCounts.get(category.key) || 0} ضيف
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => startEditing(category)}
+                    className="text-muted-foreground"
+                    data-testid={`button-edit-category-${category.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(category.id)}
+                    disabled={deleteMutation.isPending || categories.length <= 1}
+                    className="text-red-400 hover:text-red-300"
+                    data-testid={`button-delete-category-${category.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
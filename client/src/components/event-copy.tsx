@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, Copy, BookmarkPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { Event, EventTemplate } from "@shared/schema";
+
+interface DuplicateResult {
+  event: Event;
+  guests: number;
+  skippedGuests: number;
+  organizers: number;
+}
+
+export function useEventTemplates() {
+  return useQuery<EventTemplate[]>({
+    queryKey: ["/api/event-templates"],
+  });
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendCopyRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء حفظ المناسبة");
+  }
+  return data;
+}
+
+export async function deleteEventTemplate(id: string) {
+  await sendCopyRequest("DELETE", `/api/event-templates/${id}`);
+  queryClient.invalidateQueries({ queryKey: ["/api/event-templates"] });
+}
+
+// New draft event on another day with this event's setup, guests and team
+export function DuplicateEventDialog({ event }: { event: Event }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [date, setDate] = useState("");
+  const [copyGuests, setCopyGuests] = useState(true);
+  const [copyOrganizers, setCopyOrganizers] = useState(true);
+
+  const duplicateMutation = useMutation({
+    mutationFn: (): Promise<DuplicateResult> =>
+      sendCopyRequest("POST", `/api/events/${event.id}/duplicate`, {
+        name,
+        date: new Date(date).toISOString(),
+        copyGuests,
+        copyOrganizers,
+      }),
+    onSuccess: (result) => {
+      toast({
+        title: "تم نسخ المناسبة",
+        description: result.skippedGuests > 0
+          ? `نُسخ ${result.guests} ضيف بأكواد دخول جديدة، ولم يُنسخ ${result.skippedGuests} لاكتمال سعة الباقة`
+          : "أُنشئت النسخة كمسودة، راجعها ثم انشرها",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quota/info"] });
+      setOpen(false);
+      setLocation(`/events/${result.event.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل نسخ المناسبة", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setName(event.name);
+      setDate("");
+      setCopyGuests(true);
+      setCopyOrganizers(true);
+    }
+    setOpen(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+          data-testid="button-duplicate-event"
+        >
+          <Copy className="w-4 h-4 ml-2" />
+          نسخ المناسبة
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass border-white/10 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">نسخ المناسبة</DialogTitle>
+        </DialogHeader>
+        <p className="text-muted-foreground text-sm">
+          تُنسخ الإعدادات والفئات والحقول والمناطق والطاولات والجلسات وقوالب الرسائل، وتبدأ النسخة كمسودة
+        </p>
+        <div className="space-y-2">
+          <Label className="text-white">اسم المناسبة</Label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="glass-input h-10 rounded-xl text-white"
+            data-testid="input-duplicate-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-white">تاريخ المناسبة</Label>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="glass-input h-10 rounded-xl text-white"
+            data-testid="input-duplicate-date"
+          />
+        </div>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <Checkbox
+            checked={copyGuests}
+            onCheckedChange={(checked) => setCopyGuests(checked === true)}
+            data-testid="checkbox-duplicate-guests"
+          />
+          <span className="text-white">نسخ قائمة الضيوف بأكواد دخول جديدة</span>
+        </label>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <Checkbox
+            checked={copyOrganizers}
+            onCheckedChange={(checked) => setCopyOrganizers(checked === true)}
+            data-testid="checkbox-duplicate-organizers"
+          />
+          <span className="text-white">نسخ فريق المنظمين</span>
+        </label>
+        <DialogFooter>
+          <Button
+            onClick={() => duplicateMutation.mutate()}
+            disabled={!name.trim() || !date || duplicateMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-confirm-duplicate"
+          >
+            {duplicateMutation.isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+            نسخ
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Keep this event's settings and setup to start new events from
+export function SaveTemplateDialog({ event }: { event: Event }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: (): Promise<EventTemplate> =>
+      sendCopyRequest("POST", "/api/event-templates", { name, eventId: event.id }),
+    onSuccess: (template) => {
+      toast({ title: "تم حفظ القالب", description: `يظهر القالب ${template.name} عند إنشاء مناسبة جديدة` });
+      queryClient.invalidateQueries({ queryKey: ["/api/event-templates"] });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل حفظ القالب", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (next: boolean) => {
+    if (next) setName(event.name);
+    setOpen(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+          data-testid="button-save-template"
+        >
+          <BookmarkPlus className="w-4 h-4 ml-2" />
+          حفظ كقالب
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass border-white/10 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">حفظ المناسبة كقالب</DialogTitle>
+        </DialogHeader>
+        <p className="text-muted-foreground text-sm">
+          يحفظ القالب الموقع والأوقات وإعدادات الدخول والفئات والحقول والمناطق وقوالب الرسائل، دون الضيوف
+        </p>
+        <div className="space-y-2">
+          <Label className="text-white">اسم القالب</Label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="glass-input h-10 rounded-xl text-white"
+            data-testid="input-template-name"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-confirm-save-template"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+            حفظ
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,428 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, Check, X, ArrowUp, ArrowDown, ListPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldType,
+  type GuestCustomFields,
+  type GuestField,
+} from "@shared/schema";
+
+// Radix Select items cannot have an empty value
+const NO_OPTION = "__none__";
+
+// Form state of the custom field inputs: text for everything but yes/no fields
+export type CustomFieldFormValues = Record<string, string | boolean>;
+
+export function useEventFields(eventId: string | null | undefined) {
+  return useQuery<GuestField[]>({
+    queryKey: ["/api/events", eventId, "fields"],
+    enabled: !!eventId,
+  });
+}
+
+export function toCustomFieldFormValues(values: GuestCustomFields | null | undefined): CustomFieldFormValues {
+  const formValues: CustomFieldFormValues = {};
+  for (const key of Object.keys(values || {})) {
+    const value = values![key];
+    formValues[key] = typeof value === "boolean" ? value : String(value);
+  }
+  return formValues;
+}
+
+// Inputs for the event's custom fields inside the guest forms; blank inputs
+// are sent as "" so the server clears them
+export function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+}: {
+  fields: GuestField[];
+  values: CustomFieldFormValues;
+  onChange: (values: CustomFieldFormValues) => void;
+}) {
+  const setValue = (key: string, value: string | boolean) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => {
+        const value = values[field.key];
+        const text = typeof value === "string" ? value : "";
+        return (
+          <div key={field.key} className="space-y-2">
+            {field.type === "boolean" ? (
+              <div className="flex items-center justify-between">
+                <Label className="text-white">{field.label}</Label>
+                <Switch
+                  checked={value === true}
+                  onCheckedChange={(checked) => setValue(field.key, checked)}
+                  data-testid={`switch-custom-field-${field.key}`}
+                />
+              </div>
+            ) : field.type === "select" ? (
+              <>
+                <Label className="text-white">{field.label}</Label>
+                <Select
+                  value={text || NO_OPTION}
+                  onValueChange={(option) => setValue(field.key, option === NO_OPTION ? "" : option)}
+                >
+                  <SelectTrigger
+                    className="glass-input h-12 rounded-xl text-white"
+                    data-testid={`select-custom-field-${field.key}`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-white/10">
+                    <SelectItem value={NO_OPTION}>—</SelectItem>
+                    {/* A value saved before its option was removed stays selectable */}
+                    {(text && !field.options.includes(text) ? [...field.options, text] : field.options).map(
+                      (option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </>
+            ) : (
+              <>
+                <Label className="text-white">{field.label}</Label>
+                <Input
+                  value={text}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid={`input-custom-field-${field.key}`}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendFieldRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء حفظ الحقل");
+  }
+  return data;
+}
+
+// Choices are typed comma-separated, in Arabic or Latin commas
+function parseOptions(text: string): string[] {
+  return text
+    .split(/[,،]/)
+    .map((option) => option.trim())
+    .filter(Boolean);
+}
+
+export function EventFields({ eventId }: { eventId: string }) {
+  const { toast } = useToast();
+  const [newLabel, setNewLabel] = useState("");
+  const [newType, setNewType] = useState<CustomFieldType>("text");
+  const [newOptions, setNewOptions] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editLabel, setEditLabel] = useState("");
+  const [editOptions, setEditOptions] = useState("");
+
+  const { data: fields = [], isLoading } = useEventFields(eventId);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "fields"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendFieldRequest("POST", `/api/events/${eventId}/fields`, {
+        label: newLabel,
+        type: newType,
+        options: newType === "select" ? parseOptions(newOptions) : [],
+      }),
+    onSuccess: () => {
+      toast({ title: "تمت الإضافة", description: `تمت إضافة الحقل "${newLabel.trim()}"` });
+      setNewLabel("");
+      setNewType("text");
+      setNewOptions("");
+      invalidate();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (field: GuestField) =>
+      sendFieldRequest("PATCH", `/api/fields/${field.id}`, {
+        label: editLabel,
+        ...(field.type === "select" ? { options: parseOptions(editOptions) } : {}),
+      }),
+    onSuccess: () => {
+      setEditingId(null);
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendFieldRequest("DELETE", `/api/fields/${id}`),
+    onSuccess: () => {
+      toast({ title: "تم الحذف", description: "تم حذف الحقل وقيمه" });
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ids: string[]) => sendFieldRequest("POST", `/api/events/${eventId}/fields/reorder`, { ids }),
+    onSuccess: (data: GuestField[]) => {
+      queryClient.setQueryData(["/api/events", eventId, "fields"], data);
+    },
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = fields.map((f) => f.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const startEditing = (field: GuestField) => {
+    setEditingId(field.id);
+    setEditLabel(field.label);
+    setEditOptions(field.options.join("، "));
+  };
+
+  const canCreate = newLabel.trim() && (newType !== "select" || parseOptions(newOptions).length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">حقول الضيوف الإضافية</h3>
+          <p className="text-muted-foreground text-sm">
+            تظهر في نموذج الضيف ويمكن رفعها من أعمدة Excel والبحث فيها، وتضاف إلى التصدير والتقارير
+          </p>
+        </div>
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canCreate) createMutation.mutate();
+          }}
+        >
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="اسم الحقل، مثل: الشركة"
+            className="glass-input h-10 rounded-xl text-white flex-1 min-w-[200px]"
+            data-testid="input-field-label"
+          />
+          <Select value={newType} onValueChange={(value) => setNewType(value as CustomFieldType)}>
+            <SelectTrigger className="glass-input h-10 rounded-xl text-white w-40" data-testid="select-field-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass border-white/10">
+              {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {CUSTOM_FIELD_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {newType === "select" && (
+            <Input
+              value={newOptions}
+              onChange={(e) => setNewOptions(e.target.value)}
+              placeholder="الخيارات مفصولة بفواصل: نباتي، بدون جلوتين"
+              className="glass-input h-10 rounded-xl text-white flex-1 min-w-[240px]"
+              data-testid="input-field-options"
+            />
+          )}
+          <Button
+            type="submit"
+            disabled={!canCreate || createMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-add-field"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 ml-2" />
+            )}
+            إضافة حقل
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : fields.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <ListPlus className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد حقول إضافية</p>
+        </div>
+      ) : (
+        <div className="glass-card rounded-2xl divide-y divide-white/10">
+          {fields.map((field, index) => (
+            <div key={field.id} className="flex items-center gap-4 p-4" data-testid={`row-field-${field.id}`}>
+              <div className="flex flex-col">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0 || reorderMutation.isPending}
+                  className="h-6 w-6 text-muted-foreground"
+                  data-testid={`button-field-up-${field.id}`}
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => move(index, 1)}
+                  disabled={index === fields.length - 1 || reorderMutation.isPending}
+                  className="h-6 w-6 text-muted-foreground"
+                  data-testid={`button-field-down-${field.id}`}
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+              </div>
+
+              {editingId === field.id ? (
+                <>
+                  <Input
+                    value={editLabel}
+                    onChange={(e) => setEditLabel(e.target.value)}
+                    className="glass-input h-10 rounded-xl text-white flex-1"
+                    data-testid={`input-edit-field-label-${field.id}`}
+                  />
+                  {field.type === "select" && (
+                    <Input
+                      value={editOptions}
+                      onChange={(e) => setEditOptions(e.target.value)}
+                      className="glass-input h-10 rounded-xl text-white flex-1"
+                      data-testid={`input-edit-field-options-${field.id}`}
+                    />
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => updateMutation.mutate(field)}
+                    disabled={!editLabel.trim() || updateMutation.isPending}
+                    className="text-green-400"
+                    data-testid={`button-save-field-${field.id}`}
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setEditingId(null)}
+                    className="text-muted-foreground"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium">{field.label}</p>
+                    {field.type === "select" && (
+                      <p className="text-muted-foreground text-sm truncate">{field.options.join("، ")}</p>
+                    )}
+                  </div>
+                  <Badge variant="secondary" className="bg-white/10 text-white/70">
+                    {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+                  </Badge>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => startEditing(field)}
+                    className="text-muted-foreground"
+                    data-testid={`button-edit-field-${field.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={deleteMutation.isPending}
+                        className="text-red-400 hover:text-red-300"
+                        data-testid={`button-delete-field-${field.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="glass border-white/10">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle className="text-white">حذف الحقل</AlertDialogTitle>
+                        <AlertDialogDescription className="text-muted-foreground">
+                          سيتم حذف حقل "{field.label}" وقيمه من جميع ضيوف المناسبة. لا يمكن التراجع عن هذا الإجراء.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter className="gap-2">
+                        <AlertDialogCancel className="border-white/20 text-white hover:bg-white/10">
+                          إلغاء
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate(field.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                          data-testid={`button-confirm-delete-field-${field.id}`}
+                        >
+                          حذف
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Send, Trash2, RefreshCw, MessageSquare, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  MESSAGE_PLACEHOLDERS,
+  type Guest,
+  type GuestMessage,
+  type MessageChannel,
+  type MessageStatus,
+  type MessageTemplate,
+} from "@shared/schema";
+
+export const messageStatusLabels: Record<MessageStatus, string> = {
+  queued: "في الانتظار",
+  sent: "تم الإرسال",
+  failed: "فشل الإرسال",
+};
+
+export const messageStatusStyles: Record<MessageStatus, string> = {
+  queued: "bg-yellow-500/20 text-yellow-400",
+  sent: "bg-green-500/20 text-green-400",
+  failed: "bg-red-500/20 text-red-400",
+};
+
+const channelLabels: Record<MessageChannel, string> = {
+  whatsapp: "واتساب",
+  sms: "رسالة نصية",
+  email: "بريد إلكتروني",
+};
+
+const DEFAULT_TEMPLATE_BODY =
+  `مرحباً ${MESSAGE_PLACEHOLDERS.name}، يسعدنا دعوتكم لحضور ${MESSAGE_PLACEHOLDERS.eventName} بتاريخ ${MESSAGE_PLACEHOLDERS.eventDate}.\n` +
+  `كود الدخول: ${MESSAGE_PLACEHOLDERS.accessCode}\n` +
+  `رابط الدعوة: ${MESSAGE_PLACEHOLDERS.invitationLink}\n` +
+  `لتأكيد الحضور أو الاعتذار: ${MESSAGE_PLACEHOLDERS.rsvpLink}`;
+
+const DEFAULT_EMAIL_BODY =
+  `<h2>${MESSAGE_PLACEHOLDERS.eventName}</h2>\n` +
+  `<p>مرحباً ${MESSAGE_PLACEHOLDERS.name}،</p>\n` +
+  `<p>يسعدنا دعوتكم لحضور ${MESSAGE_PLACEHOLDERS.eventName} بتاريخ ${MESSAGE_PLACEHOLDERS.eventDate} في ${MESSAGE_PLACEHOLDERS.location}.</p>\n` +
+  `<p>يرجى إبراز رمز QR التالي عند الدخول:</p>\n` +
+  `<p style="text-align:center">${MESSAGE_PLACEHOLDERS.qrImage}</p>\n` +
+  `<p>كود الدخول: <strong>${MESSAGE_PLACEHOLDERS.accessCode}</strong></p>\n` +
+  `<p><a href="${MESSAGE_PLACEHOLDERS.invitationLink}">عرض بطاقة الدعوة</a></p>\n` +
+  `<p><a href="${MESSAGE_PLACEHOLDERS.rsvpLink}">تأكيد الحضور أو الاعتذار</a></p>`;
+
+// Guests a template can reach: email templates need an email, the rest a phone
+function countRecipients(guests: Guest[], channel: MessageChannel): number {
+  return guests.filter((g) => (channel === "email" ? g.email : g.phone)).length;
+}
+
+// Shared with the guest table so both read the same cached delivery log
+export function useEventMessages(eventId: string | undefined) {
+  return useQuery<GuestMessage[]>({
+    queryKey: ["/api/events", eventId, "messages"],
+    enabled: !!eventId,
+    // Poll while a bulk send is still draining the queue
+    refetchInterval: (query) =>
+      query.state.data?.some((m) => m.status === "queued") ? 3000 : false,
+  });
+}
+
+interface EventMessagingProps {
+  eventId: string;
+  guests: Guest[];
+}
+
+export function EventMessaging({ eventId, guests }: EventMessagingProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [channel, setChannel] = useState<MessageChannel>("whatsapp");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState(DEFAULT_TEMPLATE_BODY);
+
+  const handleChannelChange = (value: MessageChannel) => {
+    // Swap in the matching starter text unless the user already edited it
+    if (body === DEFAULT_TEMPLATE_BODY || body === DEFAULT_EMAIL_BODY) {
+      setBody(value === "email" ? DEFAULT_EMAIL_BODY : DEFAULT_TEMPLATE_BODY);
+    }
+    setChannel(value);
+  };
+
+  const { data: templates = [], isLoading: isLoadingTemplates } = useQuery<MessageTemplate[]>({
+    queryKey: ["/api/events", eventId, "message-templates"],
+  });
+  const { data: messages = [] } = useEventMessages(eventId);
+
+  const counts = messages.reduce(
+    (acc, m) => ({ ...acc, [m.status]: acc[m.status] + 1 }),
+    { queued: 0, sent: 0, failed: 0 } as Record<MessageStatus, number>
+  );
+  const guestsWithPhone = countRecipients(guests, "sms");
+  const guestsWithEmail = countRecipients(guests, "email");
+
+  const createTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/message-templates`, {
+        name,
+        channel,
+        subject: channel === "email" ? subject : null,
+        body,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "تم الحفظ", description: "تم إنشاء قالب الرسالة" });
+      setName("");
+      setSubject("");
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "message-templates"] });
+    },
+    onError: () => {
+      toast({ title: "فشل الحفظ", description: "تأكد من إدخال اسم القالب ونص الرسالة", variant: "destructive" });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      await apiRequest("DELETE", `/api/message-templates/${templateId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "message-templates"] });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/messages/send`, { templateId });
+      return res.json() as Promise<{ queued: number; skippedNoRecipient: number; skippedAlreadySent: number }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "تمت الجدولة",
+        description: `سيتم إرسال ${data.queued} دعوة` +
+          (data.skippedAlreadySent ? `، تم تخطي ${data.skippedAlreadySent} مرسلة مسبقاً` : "") +
+          (data.skippedNoRecipient ? `، ${data.skippedNoRecipient} بدون وسيلة تواصل` : ""),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "messages"] });
+    },
+    onError: () => {
+      toast({ title: "فشل الإرسال", description: "حدث خطأ أثناء جدولة الدعوات", variant: "destructive" });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/messages/retry-failed`);
+      return res.json() as Promise<{ requeued: number }>;
+    },
+    onSuccess: (data) => {
+      toast({ title: "إعادة المحاولة", description: `تمت إعادة جدولة ${data.requeued} رسالة` });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "messages"] });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="glass-card rounded-2xl p-4">
+          <p className="text-muted-foreground text-sm">ضيوف لديهم جوال</p>
+          <p className="text-2xl font-bold text-white">{guestsWithPhone}</p>
+        </div>
+        <div className="glass-card rounded-2xl p-4">
+          <p className="text-muted-foreground text-sm">ضيوف لديهم بريد</p>
+          <p className="text-2xl font-bold text-white">{guestsWithEmail}</p>
+        </div>
+        {(Object.keys(messageStatusLabels) as MessageStatus[]).map((status) => (
+          <div key={status} className="glass-card rounded-2xl p-4">
+            <p className="text-muted-foreground text-sm">{messageStatusLabels[status]}</p>
+            <p className="text-2xl font-bold text-white" data-testid={`text-messages-${status}`}>
+              {counts[status]}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {counts.failed > 0 && (
+        <Button
+          variant="outline"
+          onClick={() => retryMutation.mutate()}
+          disabled={retryMutation.isPending}
+          className="border-red-500/50 text-red-400 hover:bg-red-500/10"
+          data-testid="button-retry-failed-messages"
+        >
+          <RefreshCw className="w-4 h-4 ml-2" />
+          إعادة إرسال الرسائل الفاشلة
+        </Button>
+      )}
+
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Plus className="w-5 h-5 text-primary" />
+          قالب رسالة جديد
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="اسم القالب"
+            className="glass-input h-12 rounded-xl text-white"
+            data-testid="input-template-name"
+          />
+          <Select value={channel} onValueChange={(value) => handleChannelChange(value as MessageChannel)}>
+            <SelectTrigger className="glass-input h-12 rounded-xl text-white" data-testid="select-template-channel">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass border-white/10">
+              <SelectItem value="whatsapp">{channelLabels.whatsapp}</SelectItem>
+              <SelectItem value="sms">{channelLabels.sms}</SelectItem>
+              <SelectItem value="email">{channelLabels.email}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {channel === "email" && (
+          <Input
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            placeholder={`عنوان الرسالة (افتراضياً ${MESSAGE_PLACEHOLDERS.eventName})`}
+            className="glass-input h-12 rounded-xl text-white"
+            data-testid="input-template-subject"
+          />
+        )}
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={channel === "email" ? 9 : 5}
+          dir={channel === "email" ? "ltr" : undefined}
+          className="glass-input rounded-xl text-white resize-none"
+          data-testid="input-template-body"
+        />
+        <div className="flex flex-wrap gap-2">
+          {Object.values(MESSAGE_PLACEHOLDERS)
+            .filter((placeholder) => channel === "email" || placeholder !== MESSAGE_PLACEHOLDERS.qrImage)
+            .map((placeholder) => (
+            <Button
+              key={placeholder}
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => setBody((current) => `${current} ${placeholder}`)}
+              className="bg-white/5 text-primary hover:bg-white/10 font-mono"
+            >
+              {placeholder}
+            </Button>
+          ))}
+        </div>
+        <Button
+          onClick={() => createTemplateMutation.mutate()}
+          disabled={!name.trim() || !body.trim() || createTemplateMutation.isPending}
+          className="gradient-primary"
+          data-testid="button-save-template"
+        >
+          {createTemplateMutation.isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+          حفظ القالب
+        </Button>
+      </div>
+
+      {isLoadingTemplates ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <MessageSquare className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد قوالب رسائل بعد</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map((template) => (
+            <div key={template.id} className="glass-card rounded-2xl p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <h4 className="text-white font-medium">{template.name}</h4>
+                  <Badge variant="secondary" className="bg-white/10 text-white/70">
+                    {channelLabels[template.channel]}
+                  </Badge>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteTemplateMutation.mutate(template.id)}
+                  className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                  data-testid={`button-delete-template-${template.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {template.subject && (
+                <p className="text-white/80 text-sm">{template.subject}</p>
+              )}
+              <p
+                className="text-muted-foreground text-sm whitespace-pre-line line-clamp-6"
+                dir={template.channel === "email" ? "ltr" : undefined}
+              >
+                {template.body}
+              </p>
+              <Button
+                onClick={() => sendMutation.mutate(template.id)}
+                disabled={sendMutation.isPending || countRecipients(guests, template.channel) === 0}
+                className="w-full gradient-primary"
+                data-testid={`button-send-template-${template.id}`}
+              >
+                {sendMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 ml-2" />
+                )}
+                إرسال لجميع الضيوف
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
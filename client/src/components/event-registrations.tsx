@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Check, X, Copy, ClipboardList } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Event, GuestRegistration, RegistrationStatus } from "@shared/schema";
+import { CategoryBadge, useEventCategories } from "@/components/event-categories";
+
+const registrationStatusLabels: Record<RegistrationStatus, string> = {
+  pending: "بانتظار الموافقة",
+  approved: "مقبول",
+  rejected: "مرفوض",
+};
+
+const registrationStatusStyles: Record<RegistrationStatus, string> = {
+  pending: "bg-yellow-500/20 text-yellow-400",
+  approved: "bg-green-500/20 text-green-400",
+  rejected: "bg-red-500/20 text-red-400",
+};
+
+interface ReviewResult {
+  approved: number;
+  rejected: number;
+  skippedForCapacity: number;
+}
+
+export function useEventRegistrations(eventId: string | undefined) {
+  return useQuery<GuestRegistration[]>({
+    queryKey: ["/api/events", eventId, "registrations"],
+    enabled: !!eventId,
+  });
+}
+
+export function EventRegistrations({ event }: { event: Event }) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: registrations = [], isLoading } = useEventRegistrations(event.id);
+  const { data: categories = [] } = useEventCategories(event.id);
+  const pending = registrations.filter((r) => r.status === "pending");
+  const registrationLink = `${window.location.origin}/register/${event.registrationToken}`;
+
+  const toggleMutation = useMutation({
+    mutationFn: async (registrationEnabled: boolean) => {
+      const res = await apiRequest("PATCH", `/api/events/${event.id}`, { registrationEnabled });
+      return res.json();
+    },
+    onSuccess: (_data, registrationEnabled) => {
+      toast({
+        title: registrationEnabled ? "تم فتح التسجيل" : "تم إغلاق التسجيل",
+        description: registrationEnabled
+          ? "يمكن مشاركة رابط التسجيل الآن"
+          : "لن يتم استقبال طلبات تسجيل جديدة",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id] });
+    },
+    onError: () => {
+      toast({ title: "فشل التحديث", description: "حدث خطأ أثناء تحديث المناسبة", variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (action: "approve" | "reject") => {
+      const res = await fetch(`/api/events/${event.id}/registrations/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: Array.from(selected), action }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "فشلت مراجعة الطلبات");
+      }
+      return data as ReviewResult;
+    },
+    onSuccess: (data) => {
+      const parts = [];
+      if (data.approved) parts.push(`تم قبول ${data.approved}`);
+      if (data.rejected) parts.push(`تم رفض ${data.rejected}`);
+      if (data.skippedForCapacity) parts.push(`${data.skippedForCapacity} بقيت معلقة بسبب حد السعة`);
+      toast({ title: "تمت المراجعة", description: parts.join("، ") || "لم يتغير أي طلب" });
+      setSelected(new Set());
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "guests"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشلت المراجعة", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(registrationLink);
+      toast({ title: "تم النسخ", description: "تم نسخ رابط التسجيل" });
+    } catch {
+      toast({ title: "خطأ", description: "فشل نسخ الرابط", variant: "destructive" });
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const allPendingSelected = pending.length > 0 && pending.every((r) => selected.has(r.id));
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-white">التسجيل الذاتي</h3>
+            <p className="text-muted-foreground text-sm">
+              يسجل الضيوف بياناتهم عبر الرابط ثم تظهر طلباتهم هنا للموافقة
+            </p>
+          </div>
+          <Switch
+            checked={!!event.registrationEnabled}
+            onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+            disabled={toggleMutation.isPending}
+            data-testid="switch-registration-enabled"
+          />
+        </div>
+        {event.registrationEnabled && (
+          <div className="flex gap-2">
+            <Input
+              value={registrationLink}
+              readOnly
+              dir="ltr"
+              className="glass-input h-10 rounded-xl text-white"
+              data-testid="input-registration-link"
+            />
+            <Button
+              variant="outline"
+              onClick={handleCopyLink}
+              className="border-white/20 text-white hover:bg-white/10 shrink-0"
+              data-testid="button-copy-registration-link"
+            >
+              <Copy className="w-4 h-4 ml-2" />
+              نسخ
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            checked={allPendingSelected}
+            onCheckedChange={(checked) =>
+              setSelected(checked ? new Set(pending.map((r) => r.id)) : new Set())
+            }
+            disabled={pending.length === 0}
+            data-testid="checkbox-select-all-registrations"
+          />
+          <span className="text-muted-foreground">
+            {pending.length} طلب بانتظار الموافقة
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => reviewMutation.mutate("approve")}
+            disabled={selected.size === 0 || reviewMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-approve-registrations"
+          >
+            {reviewMutation.isPending && reviewMutation.variables === "approve" ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4 ml-2" />
+            )}
+            قبول المحدد
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => reviewMutation.mutate("reject")}
+            disabled={selected.size === 0 || reviewMutation.isPending}
+            className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+            data-testid="button-reject-registrations"
+          >
+            {reviewMutation.isPending && reviewMutation.variables === "reject" ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <X className="w-4 h-4 ml-2" />
+            )}
+            رفض المحدد
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : registrations.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <ClipboardList className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد طلبات تسجيل بعد</p>
+        </div>
+      ) : (
+        <div className="glass-card rounded-2xl divide-y divide-white/10">
+          {registrations.map((registration) => (
+            <div
+              key={registration.id}
+              className="flex items-center gap-4 p-4"
+              data-testid={`row-registration-${registration.id}`}
+            >
+              <Checkbox
+                checked={selected.has(registration.id)}
+                onCheckedChange={(checked) => toggleSelected(registration.id, !!checked)}
+                disabled={registration.status !== "pending"}
+                data-testid={`checkbox-registration-${registration.id}`}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-white font-medium">{registration.name}</p>
+                <p className="text-muted-foreground text-sm" dir="ltr">{registration.phone}</p>
+              </div>
+              <CategoryBadge categories={categories} categoryKey={registration.category} />
+              <span className="text-muted-foreground text-xs hidden md:block">
+                {registration.createdAt ? new Date(registration.createdAt).toLocaleString("ar-SA") : ""}
+              </span>
+              <Badge variant="secondary" className={registrationStatusStyles[registration.status]}>
+                {registrationStatusLabels[registration.status]}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,475 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, Check, X, Armchair, Download, WandSparkles, UserMinus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { Guest, SeatingTableSummary } from "@shared/schema";
+import { seatsForGuest } from "@shared/seating";
+import { CategoryBadge, useEventCategories } from "@/components/event-categories";
+
+// Radix Select items cannot have an empty value
+const ALL = "__all__";
+
+export function useEventTables(eventId: string | null | undefined) {
+  return useQuery<SeatingTableSummary[]>({
+    queryKey: ["/api/events", eventId, "tables"],
+    enabled: !!eventId,
+  });
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendSeatingRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء حفظ الجلوس");
+  }
+  return data;
+}
+
+export function EventSeating({ eventId, eventName, guests }: { eventId: string; eventName: string; guests: Guest[] }) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [newSection, setNewSection] = useState("");
+  const [newCapacity, setNewCapacity] = useState("10");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editSection, setEditSection] = useState("");
+  const [editCapacity, setEditCapacity] = useState("");
+  const [selectedGuests, setSelectedGuests] = useState<string[]>([]);
+  const [targetTable, setTargetTable] = useState("");
+  const [fillCategory, setFillCategory] = useState(ALL);
+  const [fillSection, setFillSection] = useState(ALL);
+
+  const { data: tables = [], isLoading } = useEventTables(eventId);
+  const { data: categories = [] } = useEventCategories(eventId);
+
+  const sections = tables
+    .map((t) => t.section)
+    .filter((section, i, all): section is string => !!section && all.indexOf(section) === i);
+  const unseated = guests.filter((g) => !g.tableId);
+  const totalSeats = tables.reduce((sum, t) => sum + t.capacity, 0);
+  const takenSeats = tables.reduce((sum, t) => sum + t.seatsTaken, 0);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "tables"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendSeatingRequest("POST", `/api/events/${eventId}/tables`, {
+        name: newName,
+        section: newSection,
+        capacity: Number(newCapacity),
+      }),
+    onSuccess: () => {
+      toast({ title: "تمت الإضافة", description: `تمت إضافة "${newName.trim()}"` });
+      setNewName("");
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (id: string) =>
+      sendSeatingRequest("PATCH", `/api/tables/${id}`, {
+        name: editName,
+        section: editSection,
+        capacity: Number(editCapacity),
+      }),
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendSeatingRequest("DELETE", `/api/tables/${id}`),
+    onSuccess: () => {
+      toast({ title: "تم الحذف", description: "تم حذف الطاولة وأصبح ضيوفها بدون طاولة" });
+      refresh();
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ guestIds, tableId }: { guestIds: string[]; tableId: string | null }) =>
+      sendSeatingRequest("POST", `/api/events/${eventId}/seating/assign`, { guestIds, tableId }),
+    onSuccess: () => {
+      setSelectedGuests([]);
+      refresh();
+    },
+    onError,
+  });
+
+  const autoFillMutation = useMutation({
+    mutationFn: () =>
+      sendSeatingRequest("POST", `/api/events/${eventId}/seating/auto-fill`, {
+        category: fillCategory === ALL ? null : fillCategory,
+        section: fillSection === ALL ? null : fillSection,
+      }),
+    onSuccess: (data: { assigned: number; unplaced: number }) => {
+      toast({
+        title: "تم التوزيع",
+        description: data.unplaced > 0
+          ? `تم إجلاس ${data.assigned} ضيف، وبقي ${data.unplaced} ضيف بدون مكان كافٍ`
+          : `تم إجلاس ${data.assigned} ضيف`,
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const handleExport = async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/seating/export`, { credentials: "include" });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "فشل التصدير");
+      }
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `مخطط-الجلوس-${eventName}.xlsx`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "فشل التصدير", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const startEditing = (table: SeatingTableSummary) => {
+    setEditingId(table.id);
+    setEditName(table.name);
+    setEditSection(table.section || "");
+    setEditCapacity(String(table.capacity));
+  };
+
+  const toggleGuest = (id: string, checked: boolean) => {
+    setSelectedGuests((current) => (checked ? [...current, id] : current.filter((g) => g !== id)));
+  };
+
+  const selectedSeats = unseated
+    .filter((g) => selectedGuests.includes(g.id))
+    .reduce((sum, g) => sum + seatsForGuest(g), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">الطاولات</h3>
+            <p className="text-muted-foreground text-sm">
+              {takenSeats} من {totalSeats} مقعد مشغول، و{unseated.length} ضيف بدون طاولة. يأخذ كل ضيف مقعداً له ومقعداً لكل مرافق
+            </p>
+          </div>
+          <Button
+            onClick={handleExport}
+            variant="outline"
+            className="border-primary/50 text-primary hover:bg-primary/10"
+            disabled={tables.length === 0}
+            data-testid="button-export-seating"
+          >
+            <Download className="w-4 h-4 ml-2" />
+            تصدير مخطط الجلوس
+          </Button>
+        </div>
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newName.trim() && Number(newCapacity) > 0) createMutation.mutate();
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="اسم الطاولة، مثل: طاولة 1"
+            className="glass-input h-10 rounded-xl text-white flex-1 min-w-[180px]"
+            data-testid="input-table-name"
+          />
+          <Input
+            value={newSection}
+            onChange={(e) => setNewSection(e.target.value)}
+            placeholder="القسم (اختياري)"
+            className="glass-input h-10 rounded-xl text-white w-40"
+            data-testid="input-table-section"
+          />
+          <Input
+            value={newCapacity}
+            onChange={(e) => setNewCapacity(e.target.value)}
+            type="number"
+            min={1}
+            className="glass-input h-10 rounded-xl text-white w-24"
+            data-testid="input-table-capacity"
+          />
+          <Button
+            type="submit"
+            disabled={!newName.trim() || Number(newCapacity) < 1 || createMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-add-table"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 ml-2" />
+            )}
+            إضافة طاولة
+          </Button>
+        </form>
+      </div>
+
+      {tables.length > 0 && (
+        <div className="glass-card rounded-2xl p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">التوزيع التلقائي</h3>
+            <p className="text-muted-foreground text-sm">
+              يجلس الضيوف بدون طاولة على الطاولات التي فيها مكان بالترتيب، ولا يُفصل الضيف عن مرافقيه
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={fillCategory} onValueChange={setFillCategory}>
+              <SelectTrigger className="glass-input h-10 rounded-xl text-white w-48" data-testid="select-fill-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="glass border-white/10">
+                <SelectItem value={ALL}>جميع الفئات</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.key} value={category.key}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {sections.length > 0 && (
+              <Select value={fillSection} onValueChange={setFillSection}>
+                <SelectTrigger className="glass-input h-10 rounded-xl text-white w-48" data-testid="select-fill-section">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="glass border-white/10">
+                  <SelectItem value={ALL}>جميع الأقسام</SelectItem>
+                  {sections.map((section) => (
+                    <SelectItem key={section} value={section}>
+                      {section}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              onClick={() => autoFillMutation.mutate()}
+              disabled={unseated.length === 0 || autoFillMutation.isPending}
+              className="gradient-primary"
+              data-testid="button-auto-fill"
+            >
+              {autoFillMutation.isPending ? (
+                <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+              ) : (
+                <WandSparkles className="w-4 h-4 ml-2" />
+              )}
+              توزيع تلقائي
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {tables.length > 0 && unseated.length > 0 && (
+        <div className="glass-card rounded-2xl p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-white">بدون طاولة ({unseated.length})</h3>
+            <div className="flex flex-wrap gap-2">
+              <Select value={targetTable} onValueChange={setTargetTable}>
+                <SelectTrigger className="glass-input h-10 rounded-xl text-white w-56" data-testid="select-target-table">
+                  <SelectValue placeholder="اختر الطاولة" />
+                </SelectTrigger>
+                <SelectContent className="glass border-white/10">
+                  {tables.map((table) => (
+                    <SelectItem key={table.id} value={table.id}>
+                      {table.name} ({table.capacity - table.seatsTaken} متاح)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => assignMutation.mutate({ guestIds: selectedGuests, tableId: targetTable })}
+                disabled={!targetTable || selectedGuests.length === 0 || assignMutation.isPending}
+                className="gradient-primary"
+                data-testid="button-assign-table"
+              >
+                إجلاس المحددين{selectedSeats > 0 ? ` (${selectedSeats} مقعد)` : ""}
+              </Button>
+            </div>
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y divide-white/10">
+            {unseated.map((guest) => (
+              <label
+                key={guest.id}
+                className="flex items-center gap-3 py-2 cursor-pointer"
+                data-testid={`row-unseated-${guest.id}`}
+              >
+                <Checkbox
+                  checked={selectedGuests.includes(guest.id)}
+                  onCheckedChange={(checked) => toggleGuest(guest.id, checked === true)}
+                />
+                <span className="text-white flex-1">{guest.name}</span>
+                <CategoryBadge categories={categories} categoryKey={guest.category} className="text-xs" />
+                <span className="text-muted-foreground text-sm w-16 text-left">{seatsForGuest(guest)} مقعد</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : tables.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <Armchair className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد طاولات</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {tables.map((table) => {
+            const seated = guests.filter((g) => g.tableId === table.id);
+            const overCapacity = table.seatsTaken > table.capacity;
+            return (
+              <div key={table.id} className="glass-card rounded-2xl p-4 space-y-3" data-testid={`card-table-${table.id}`}>
+                {editingId === table.id ? (
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      className="glass-input h-9 rounded-xl text-white flex-1 min-w-[120px]"
+                    />
+                    <Input
+                      value={editSection}
+                      onChange={(e) => setEditSection(e.target.value)}
+                      placeholder="القسم"
+                      className="glass-input h-9 rounded-xl text-white w-28"
+                    />
+                    <Input
+                      value={editCapacity}
+                      onChange={(e) => setEditCapacity(e.target.value)}
+                      type="number"
+                      min={1}
+                      className="glass-input h-9 rounded-xl text-white w-20"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateMutation.mutate(table.id)}
+                      disabled={!editName.trim() || Number(editCapacity) < 1 || updateMutation.isPending}
+                      className="text-green-400"
+                      data-testid={`button-save-table-${table.id}`}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setEditingId(null)}
+                      className="text-muted-foreground"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-white font-semibold">{table.name}</p>
+                      {table.section && <p className="text-muted-foreground text-sm">{table.section}</p>}
+                    </div>
+                    <div className="flex">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => startEditing(table)}
+                        className="text-muted-foreground"
+                        data-testid={`button-edit-table-${table.id}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(table.id)}
+                        disabled={deleteMutation.isPending}
+                        className="text-red-400 hover:text-red-300"
+                        data-testid={`button-delete-table-${table.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">المقاعد</span>
+                    <span className={overCapacity ? "text-red-400 font-semibold" : "text-white"}>
+                      {table.seatsTaken} / {table.capacity}
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, (table.seatsTaken / table.capacity) * 100)} className="h-2" />
+                  {overCapacity && (
+                    <p className="text-red-400 text-xs">
+                      تجاوزت الطاولة سعتها بعد تغيير عدد المرافقين، انقل بعض الضيوف
+                    </p>
+                  )}
+                </div>
+
+                {seated.length > 0 && (
+                  <div className="divide-y divide-white/10">
+                    {seated.map((guest) => (
+                      <div key={guest.id} className="flex items-center gap-2 py-1.5">
+                        <span className="text-white text-sm flex-1 truncate">{guest.name}</span>
+                        {(guest.companions ?? 0) > 0 && (
+                          <span className="text-muted-foreground text-xs">+{guest.companions}</span>
+                        )}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => assignMutation.mutate({ guestIds: [guest.id], tableId: null })}
+                          disabled={assignMutation.isPending}
+                          className="h-7 w-7 text-muted-foreground hover:text-red-300"
+                          data-testid={`button-unseat-${guest.id}`}
+                        >
+                          <UserMinus className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
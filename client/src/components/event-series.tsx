@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, Repeat, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { MAX_SERIES_OCCURRENCES, type Event, type EventSeries, type EventSeriesSummary, type Recurrence } from "@shared/schema";
+import { RECURRENCE_LABELS, recurrenceDates, customRecurrenceDates } from "@shared/recurrence";
+import { eventDayRange, formatSessionDate } from "@shared/sessions";
+
+export function useEventSeries(seriesId: string | null | undefined) {
+  return useQuery<EventSeriesSummary>({
+    queryKey: ["/api/series", seriesId],
+    enabled: !!seriesId,
+  });
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendSeriesRequest(eventId: string, body: unknown) {
+  const res = await fetch(`/api/events/${eventId}/series`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء إنشاء السلسلة");
+  }
+  return data as EventSeries;
+}
+
+// Repeat an event weekly, monthly or on picked days; every occurrence gets the
+// event's guest list with new access codes and its organizer team
+export function EventSeriesDialog({ event }: { event: Event }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [recurrence, setRecurrence] = useState<Recurrence>("weekly");
+  const [count, setCount] = useState(3);
+  const [dates, setDates] = useState<string[]>([]);
+  const [newDate, setNewDate] = useState("");
+
+  const { first } = eventDayRange(event);
+  const validCount = count >= 1 && count < MAX_SERIES_OCCURRENCES;
+  const days = recurrence === "custom"
+    ? customRecurrenceDates(first, dates) ?? []
+    : recurrenceDates(first, recurrence, validCount ? count : 0);
+
+  const seriesMutation = useMutation({
+    mutationFn: () =>
+      sendSeriesRequest(event.id, recurrence === "custom" ? { recurrence, dates } : { recurrence, count }),
+    onSuccess: (series) => {
+      toast({ title: "تم إنشاء السلسلة", description: `أُضيفت ${days.length} مناسبة تالية إلى ${series.name}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quota/info"] });
+      setOpen(false);
+      setLocation(`/series/${series.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل إنشاء السلسلة", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addDate = () => {
+    if (newDate > first && !dates.includes(newDate) && dates.length < MAX_SERIES_OCCURRENCES - 1) {
+      setDates((prev) => [...prev, newDate]);
+    }
+    setNewDate("");
+  };
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setRecurrence("weekly");
+      setCount(3);
+      setDates([]);
+      setNewDate("");
+    }
+    setOpen(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+          data-testid="button-repeat-event"
+        >
+          <Repeat className="w-4 h-4 ml-2" />
+          تكرار المناسبة
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass border-white/10 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">تكرار المناسبة</DialogTitle>
+        </DialogHeader>
+        <p className="text-muted-foreground text-sm">
+          تُنشأ كل مناسبة بإعدادات هذه المناسبة وقائمة ضيوفها (بأكواد دخول جديدة) وفريق منظميها، وتُحتسب كل منها من حصة الباقة
+        </p>
+        <div className="space-y-2">
+          <Label className="text-white">التكرار</Label>
+          <Select value={recurrence} onValueChange={(value) => setRecurrence(value as Recurrence)}>
+            <SelectTrigger className="glass-input h-10 rounded-xl text-white" data-testid="select-recurrence">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-card border-white/10">
+              {(Object.keys(RECURRENCE_LABELS) as Recurrence[]).map((value) => (
+                <SelectItem key={value} value={value} className="text-white">
+                  {RECURRENCE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {recurrence === "custom" ? (
+          <div className="space-y-2">
+            <Label className="text-white">مواعيد المناسبات التالية</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                min={first}
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+                className="glass-input h-10 rounded-xl text-white flex-1"
+                data-testid="input-series-date"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={addDate}
+                disabled={!newDate}
+                className="border-white/20 text-white hover:bg-white/10"
+                data-testid="button-add-series-date"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label className="text-white">عدد المناسبات التالية</Label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_SERIES_OCCURRENCES - 1}
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value) || 0)}
+              className="glass-input h-10 rounded-xl text-white"
+              data-testid="input-series-count"
+            />
+          </div>
+        )}
+        {days.length > 0 && (
+          <div className="flex flex-wrap gap-2" data-testid="list-series-dates">
+            {days.map((day) => (
+              <Badge key={day} variant="secondary" className="bg-white/10 text-white gap-1">
+                {formatSessionDate(day)}
+                {recurrence === "custom" && (
+                  <button
+                    type="button"
+                    onClick={() => setDates((prev) => prev.filter((d) => d !== day))}
+                    aria-label="إزالة"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button
+            onClick={() => seriesMutation.mutate()}
+            disabled={days.length === 0 || seriesMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-confirm-series"
+          >
+            {seriesMutation.isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+            إنشاء {days.length} مناسبة
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,518 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, Check, X, CalendarDays, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { Event, EventSessionSummary, Guest, SessionAttendance, SessionRegistration } from "@shared/schema";
+import { currentSession, eventDayRange, formatSessionDate, sessionDetails, sessionSeatHolders } from "@shared/sessions";
+
+export function useEventSessions(eventId: string | null | undefined) {
+  return useQuery<EventSessionSummary[]>({
+    queryKey: ["/api/events", eventId, "sessions"],
+    enabled: !!eventId,
+  });
+}
+
+export function useSessionAttendance(eventId: string | null | undefined) {
+  return useQuery<SessionAttendance[]>({
+    queryKey: ["/api/events", eventId, "session-attendance"],
+    enabled: !!eventId,
+  });
+}
+
+export function useSessionRegistrations(eventId: string | null | undefined) {
+  return useQuery<SessionRegistration[]>({
+    queryKey: ["/api/events", eventId, "session-registrations"],
+    enabled: !!eventId,
+  });
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendSessionRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء حفظ الجلسة");
+  }
+  return data;
+}
+
+function seatBar(count: number, total: number): number {
+  return total > 0 ? Math.min(100, Math.round((count / total) * 100)) : 0;
+}
+
+type SessionForm = {
+  name: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  speaker: string;
+  room: string;
+  capacity: string;
+};
+
+// Blank capacity leaves the session unlimited
+function sessionPayload(form: SessionForm) {
+  return { ...form, capacity: form.capacity ? Number(form.capacity) : null };
+}
+
+function SessionInputs({
+  value,
+  onChange,
+  days,
+  idPrefix,
+}: {
+  value: SessionForm;
+  onChange: (value: SessionForm) => void;
+  days: { first: string; last: string };
+  idPrefix: string;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Input
+        value={value.name}
+        onChange={(e) => onChange({ ...value, name: e.target.value })}
+        placeholder="اسم الجلسة، مثل: اليوم الأول"
+        className="glass-input h-10 rounded-xl text-white flex-1 min-w-[180px]"
+        data-testid={`input-${idPrefix}-name`}
+      />
+      <Input
+        type="date"
+        value={value.date}
+        min={days.first}
+        max={days.last}
+        onChange={(e) => onChange({ ...value, date: e.target.value })}
+        className="glass-input h-10 rounded-xl text-white w-40"
+        data-testid={`input-${idPrefix}-date`}
+      />
+      <Input
+        type="time"
+        value={value.startTime}
+        onChange={(e) => onChange({ ...value, startTime: e.target.value })}
+        className="glass-input h-10 rounded-xl text-white w-32"
+        data-testid={`input-${idPrefix}-start`}
+      />
+      <Input
+        type="time"
+        value={value.endTime}
+        onChange={(e) => onChange({ ...value, endTime: e.target.value })}
+        className="glass-input h-10 rounded-xl text-white w-32"
+        data-testid={`input-${idPrefix}-end`}
+      />
+      <Input
+        value={value.speaker}
+        onChange={(e) => onChange({ ...value, speaker: e.target.value })}
+        placeholder="المتحدث"
+        className="glass-input h-10 rounded-xl text-white flex-1 min-w-[140px]"
+        data-testid={`input-${idPrefix}-speaker`}
+      />
+      <Input
+        value={value.room}
+        onChange={(e) => onChange({ ...value, room: e.target.value })}
+        placeholder="القاعة"
+        className="glass-input h-10 rounded-xl text-white w-40"
+        data-testid={`input-${idPrefix}-room`}
+      />
+      <Input
+        type="number"
+        min={1}
+        value={value.capacity}
+        onChange={(e) => onChange({ ...value, capacity: e.target.value })}
+        placeholder="السعة (بلا حد)"
+        className="glass-input h-10 rounded-xl text-white w-36"
+        data-testid={`input-${idPrefix}-capacity`}
+      />
+    </div>
+  );
+}
+
+// Guests registered ahead for a session, chosen from the event's guest list
+function SessionRegistrationsDialog({
+  session,
+  guests,
+  registrations,
+  attendance,
+}: {
+  session: EventSessionSummary;
+  guests: Guest[];
+  registrations: SessionRegistration[];
+  attendance: SessionAttendance[];
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: () => sendSessionRequest("PUT", `/api/sessions/${session.id}/registrations`, { guestIds: selected }),
+    onSuccess: () => {
+      toast({ title: "تم الحفظ", description: `المسجلون في ${session.name}: ${selected.length} ضيف` });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", session.eventId, "sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", session.eventId, "session-registrations"] });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setSelected(registrations.filter((r) => r.sessionId === session.id).map((r) => r.guestId));
+      setSearch("");
+    }
+    setOpen(next);
+  };
+
+  const toggleGuest = (guestId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, guestId] : prev.filter((id) => id !== guestId)));
+  };
+
+  const term = search.trim().toLowerCase();
+  const shown = term
+    ? guests.filter((g) => g.name.toLowerCase().includes(term) || (g.phone || "").includes(term))
+    : guests;
+  const seats = sessionSeatHolders(
+    session.id,
+    attendance,
+    selected.map((guestId) => ({ sessionId: session.id, guestId }))
+  ).size;
+  const overCapacity = session.capacity !== null && seats > session.capacity;
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-muted-foreground"
+          data-testid={`button-session-registrations-${session.id}`}
+        >
+          <UserCheck className="w-4 h-4 ml-1" />
+          المسجلون ({session.registeredCount})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass border-white/10 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white">التسجيل المسبق في {session.name}</DialogTitle>
+        </DialogHeader>
+        <p className="text-muted-foreground text-sm">
+          يُحجز للضيف المسجل مقعد في الجلسة حتى وصوله، ولا يدخل غير المسجلين بعد امتلاء المقاعد
+        </p>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="بحث بالاسم أو الجوال"
+          className="glass-input h-10 rounded-xl text-white"
+          data-testid={`input-search-session-guests-${session.id}`}
+        />
+        <div className="max-h-72 overflow-y-auto divide-y divide-white/10">
+          {shown.map((guest) => (
+            <label
+              key={guest.id}
+              className="flex items-center gap-3 py-2 cursor-pointer"
+              data-testid={`row-session-guest-${guest.id}`}
+            >
+              <Checkbox
+                checked={selected.includes(guest.id)}
+                onCheckedChange={(checked) => toggleGuest(guest.id, checked === true)}
+              />
+              <span className="text-white flex-1">{guest.name}</span>
+              {attendance.some((a) => a.sessionId === session.id && a.guestId === guest.id) && (
+                <Badge variant="secondary" className="bg-green-500/20 text-green-400 text-xs">حضر</Badge>
+              )}
+            </label>
+          ))}
+        </div>
+        <DialogFooter className="gap-2 sm:justify-between">
+          <span className={`text-sm ${overCapacity ? "text-red-400" : "text-muted-foreground"}`}>
+            {session.capacity !== null ? `المقاعد المحجوزة ${seats} من ${session.capacity}` : `المحددون ${selected.length}`}
+          </span>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={overCapacity || saveMutation.isPending}
+            className="gradient-primary"
+            data-testid={`button-save-session-registrations-${session.id}`}
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+            حفظ
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function EventSessions({ event, guests }: { event: Event; guests: Guest[] }) {
+  const { toast } = useToast();
+  const days = eventDayRange(event);
+  const emptyForm: SessionForm = {
+    name: "",
+    date: days.first,
+    startTime: "",
+    endTime: "",
+    speaker: "",
+    room: "",
+    capacity: "",
+  };
+  const [newSession, setNewSession] = useState<SessionForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editSession, setEditSession] = useState<SessionForm>(emptyForm);
+
+  const { data: sessions = [], isLoading } = useEventSessions(event.id);
+  const { data: attendance = [] } = useSessionAttendance(event.id);
+  const { data: registrations = [] } = useSessionRegistrations(event.id);
+  const running = currentSession(sessions);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "session-attendance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "session-registrations"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => sendSessionRequest("POST", `/api/events/${event.id}/sessions`, sessionPayload(newSession)),
+    onSuccess: () => {
+      toast({ title: "تمت الإضافة", description: `تمت إضافة "${newSession.name.trim()}"` });
+      setNewSession({ ...emptyForm, date: newSession.date });
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (id: string) => sendSessionRequest("PATCH", `/api/sessions/${id}`, sessionPayload(editSession)),
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendSessionRequest("DELETE", `/api/sessions/${id}`),
+    onSuccess: () => {
+      toast({ title: "تم الحذف", description: "تم حذف الجلسة وسجل حضورها والمسجلين فيها" });
+      refresh();
+    },
+    onError,
+  });
+
+  const startEditing = (session: EventSessionSummary) => {
+    setEditingId(session.id);
+    setEditSession({
+      name: session.name,
+      date: session.date,
+      startTime: session.startTime || "",
+      endTime: session.endTime || "",
+      speaker: session.speaker || "",
+      room: session.room || "",
+      capacity: session.capacity !== null ? String(session.capacity) : "",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">أيام وجلسات المناسبة</h3>
+          <p className="text-muted-foreground text-sm">
+            عند إضافة جلسات يُسجل حضور الضيف في كل جلسة على حدة، ويمسح المنظمون للجلسة الجارية. من خرج بعد جلسة سابقة يدخل الجلسة التالية دون احتساب إعادة دخول. للجلسة ذات السعة مقاعد محدودة يُقدَّم فيها المسجلون مسبقاً
+          </p>
+        </div>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newSession.name.trim()) createMutation.mutate();
+          }}
+        >
+          <SessionInputs value={newSession} onChange={setNewSession} days={days} idPrefix="new-session" />
+          <Button
+            type="submit"
+            disabled={!newSession.name.trim() || !newSession.date || createMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-add-session"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 ml-2" />
+            )}
+            إضافة جلسة
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <CalendarDays className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد جلسات، يُسجل حضور الضيف مرة واحدة للمناسبة كلها</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {sessions.map((session) => (
+            <div key={session.id} className="glass-card rounded-2xl p-4 space-y-3" data-testid={`card-session-${session.id}`}>
+              {editingId === session.id ? (
+                <div className="space-y-3">
+                  <SessionInputs value={editSession} onChange={setEditSession} days={days} idPrefix={`session-${session.id}`} />
+                  <div className="flex gap-2">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateMutation.mutate(session.id)}
+                      disabled={!editSession.name.trim() || !editSession.date || updateMutation.isPending}
+                      className="text-green-400"
+                      data-testid={`button-save-session-${session.id}`}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setEditingId(null)}
+                      className="text-muted-foreground"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-white font-semibold">{session.name}</p>
+                      {running?.id === session.id && (
+                        <Badge variant="secondary" className="bg-green-500/20 text-green-400 text-xs">
+                          جارية الآن
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground text-sm">
+                      {formatSessionDate(session.date)}
+                      {session.startTime && ` · ${session.startTime}${session.endTime ? ` - ${session.endTime}` : ""}`}
+                    </p>
+                    {sessionDetails(session) && (
+                      <p className="text-muted-foreground text-sm" data-testid={`text-session-details-${session.id}`}>
+                        {sessionDetails(session)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => startEditing(session)}
+                      className="text-muted-foreground"
+                      data-testid={`button-edit-session-${session.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={deleteMutation.isPending}
+                          className="text-red-400 hover:text-red-300"
+                          data-testid={`button-delete-session-${session.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent className="glass border-white/10">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle className="text-white">حذف الجلسة</AlertDialogTitle>
+                          <AlertDialogDescription className="text-muted-foreground">
+                            سيتم حذف جلسة "{session.name}" وسجل الحضور والتسجيل فيها، ويبقى حضور الضيوف للمناسبة كما هو. لا يمكن التراجع عن هذا الإجراء.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter className="gap-2">
+                          <AlertDialogCancel className="border-white/20 text-white hover:bg-white/10">
+                            إلغاء
+                          </AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(session.id)}
+                            className="bg-red-600 hover:bg-red-700"
+                            data-testid={`button-confirm-delete-session-${session.id}`}
+                          >
+                            حذف
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">الحضور</span>
+                <span className="text-white" data-testid={`text-session-attended-${session.id}`}>
+                  {session.attendedCount} / {session.capacity ?? guests.length}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className="h-full bg-green-500"
+                  style={{ width: `${seatBar(session.attendedCount, session.capacity ?? guests.length)}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span
+                  className={session.capacity !== null && session.seatsTaken >= session.capacity ? "text-orange-400" : "text-muted-foreground"}
+                  data-testid={`text-session-seats-${session.id}`}
+                >
+                  {session.capacity !== null
+                    ? `المقاعد المشغولة ${session.seatsTaken} من ${session.capacity}`
+                    : "بلا حد للمقاعد"}
+                </span>
+                <SessionRegistrationsDialog
+                  session={session}
+                  guests={guests}
+                  registrations={registrations}
+                  attendance={attendance}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
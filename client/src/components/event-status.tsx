@@ -0,0 +1,123 @@
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { Event, EventStatus } from "@shared/schema";
+import { EVENT_STATUS_LABELS, EVENT_STATUS_TRANSITIONS, transitionLabel } from "@shared/lifecycle";
+
+const STATUS_STYLES: Record<EventStatus, string> = {
+  draft: "bg-gray-500/20 text-gray-300",
+  published: "bg-blue-500/20 text-blue-300",
+  live: "bg-green-500/20 text-green-400",
+  closed: "bg-orange-500/20 text-orange-400",
+  archived: "bg-white/10 text-muted-foreground",
+};
+
+export function EventStatusBadge({ status, className = "" }: { status: EventStatus; className?: string }) {
+  return (
+    <Badge variant="secondary" className={`border-none ${STATUS_STYLES[status]} ${className}`} data-testid="badge-event-status">
+      {EVENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendStatusRequest(eventId: string, status: EventStatus) {
+  const res = await fetch(`/api/events/${eventId}/status`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status }),
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء تغيير حالة المناسبة");
+  }
+  return data as Event;
+}
+
+// Buttons for the statuses the event may move to next
+export function EventStatusActions({ event }: { event: Event }) {
+  const { toast } = useToast();
+
+  const statusMutation = useMutation({
+    mutationFn: (status: EventStatus) => sendStatusRequest(event.id, status),
+    onSuccess: (updated) => {
+      toast({ title: "تم التحديث", description: `حالة المناسبة الآن: ${EVENT_STATUS_LABELS[updated.status]}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل التحديث", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {EVENT_STATUS_TRANSITIONS[event.status].map((status) =>
+        status === "archived" ? (
+          <AlertDialog key={status}>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={statusMutation.isPending}
+                className="border-white/20 text-white hover:bg-white/10"
+                data-testid={`button-status-${status}`}
+              >
+                {transitionLabel(event.status, status)}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="glass border-white/10">
+              <AlertDialogHeader>
+                <AlertDialogTitle className="text-white">أرشفة المناسبة</AlertDialogTitle>
+                <AlertDialogDescription className="text-muted-foreground">
+                  تبقى بيانات الضيوف والحضور متاحة في التقارير، لكن لا يمكن تعديل المناسبة أو تسجيل الحضور فيها حتى إلغاء الأرشفة.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter className="gap-2">
+                <AlertDialogCancel className="border-white/20 text-white hover:bg-white/10">
+                  إلغاء
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => statusMutation.mutate(status)}
+                  data-testid="button-confirm-archive"
+                >
+                  أرشفة
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        ) : (
+          <Button
+            key={status}
+            variant="outline"
+            onClick={() => statusMutation.mutate(status)}
+            disabled={statusMutation.isPending}
+            className={status === "published" || status === "live"
+              ? "gradient-primary border-none"
+              : "border-white/20 text-white hover:bg-white/10"}
+            data-testid={`button-status-${status}`}
+          >
+            {statusMutation.isPending && statusMutation.variables === status && (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            )}
+            {transitionLabel(event.status, status)}
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
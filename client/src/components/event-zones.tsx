@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Pencil, Check, X, DoorOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { AccessZoneSummary, Guest, GuestCategory, ZoneEntry } from "@shared/schema";
+import { CategoryBadge, useEventCategories } from "@/components/event-categories";
+
+export function useEventZones(eventId: string | null | undefined) {
+  return useQuery<AccessZoneSummary[]>({
+    queryKey: ["/api/events", eventId, "zones"],
+    enabled: !!eventId,
+  });
+}
+
+export function useZoneEntries(eventId: string | null | undefined) {
+  return useQuery<ZoneEntry[]>({
+    queryKey: ["/api/events", eventId, "zone-entries"],
+    enabled: !!eventId,
+  });
+}
+
+// The server answers with { error } in Arabic; surface it in the toast
+async function sendZoneRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ أثناء حفظ المنطقة");
+  }
+  return data;
+}
+
+function CategoryToggles({
+  categories,
+  selected,
+  onChange,
+  idPrefix,
+}: {
+  categories: GuestCategory[];
+  selected: string[];
+  onChange: (keys: string[]) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="flex flex-wrap gap-3">
+      {categories.map((category) => (
+        <label key={category.key} className="flex items-center gap-2 cursor-pointer">
+          <Checkbox
+            checked={selected.includes(category.key)}
+            onCheckedChange={(checked) =>
+              onChange(checked === true ? [...selected, category.key] : selected.filter((k) => k !== category.key))
+            }
+            data-testid={`checkbox-${idPrefix}-category-${category.key}`}
+          />
+          <CategoryBadge categories={categories} categoryKey={category.key} className="text-xs" />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Zones granted to a single guest, for the add and edit guest forms. Zones
+// already open to the guest's category are shown as granted.
+export function ZoneAccessInputs({
+  zones,
+  category,
+  value,
+  onChange,
+}: {
+  zones: AccessZoneSummary[];
+  category: string | null | undefined;
+  value: string[];
+  onChange: (zoneIds: string[]) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {zones.map((zone) => {
+        const byCategory = !!category && zone.categories.includes(category);
+        return (
+          <label key={zone.id} className="flex items-center gap-3 cursor-pointer">
+            <Checkbox
+              checked={byCategory || value.includes(zone.id)}
+              disabled={byCategory}
+              onCheckedChange={(checked) =>
+                onChange(checked === true ? [...value, zone.id] : value.filter((id) => id !== zone.id))
+              }
+              data-testid={`checkbox-guest-zone-${zone.id}`}
+            />
+            <span className="text-white">{zone.name}</span>
+            {byCategory && <span className="text-muted-foreground text-xs">متاحة لفئة الضيف</span>}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+export function EventZones({ eventId, guests }: { eventId: string; guests: Guest[] }) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [newCategories, setNewCategories] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editCategories, setEditCategories] = useState<string[]>([]);
+
+  const { data: zones = [], isLoading } = useEventZones(eventId);
+  const { data: entries = [] } = useZoneEntries(eventId);
+  const { data: categories = [] } = useEventCategories(eventId);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "zones"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "organizers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendZoneRequest("POST", `/api/events/${eventId}/zones`, { name: newName, categories: newCategories }),
+    onSuccess: () => {
+      toast({ title: "تمت الإضافة", description: `تمت إضافة "${newName.trim()}"` });
+      setNewName("");
+      setNewCategories([]);
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (id: string) =>
+      sendZoneRequest("PATCH", `/api/zones/${id}`, { name: editName, categories: editCategories }),
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendZoneRequest("DELETE", `/api/zones/${id}`),
+    onSuccess: () => {
+      toast({ title: "تم الحذف", description: "تم حذف المنطقة وانتقل منظموها إلى المدخل الرئيسي" });
+      refresh();
+    },
+    onError,
+  });
+
+  const startEditing = (zone: AccessZoneSummary) => {
+    setEditingId(zone.id);
+    setEditName(zone.name);
+    setEditCategories(zone.categories);
+  };
+
+  const guestName = (guestId: string) => guests.find((g) => g.id === guestId)?.name || "ضيف محذوف";
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">مناطق الدخول</h3>
+          <p className="text-muted-foreground text-sm">
+            لكل منطقة بوابة خاصة يمسح عندها المنظمون المعينون لها، ولا يدخلها إلا ضيوف الفئات المحددة أو من مُنحوا الدخول من صفحة تعديل الضيف. يُسجل دخول المناطق منفصلاً عن تسجيل الحضور عند المدخل الرئيسي
+          </p>
+        </div>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newName.trim()) createMutation.mutate();
+          }}
+        >
+          <div className="flex flex-wrap gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="اسم المنطقة، مثل: صالة كبار الشخصيات"
+              className="glass-input h-10 rounded-xl text-white flex-1 min-w-[200px]"
+              data-testid="input-zone-name"
+            />
+            <Button
+              type="submit"
+              disabled={!newName.trim() || createMutation.isPending}
+              className="gradient-primary"
+              data-testid="button-add-zone"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4 ml-2" />
+              )}
+              إضافة منطقة
+            </Button>
+          </div>
+          <CategoryToggles
+            categories={categories}
+            selected={newCategories}
+            onChange={setNewCategories}
+            idPrefix="new-zone"
+          />
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : zones.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <DoorOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد مناطق، جميع الضيوف يسجلون عند المدخل الرئيسي فقط</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {zones.map((zone) => {
+            const zoneEntries = entries.filter((e) => e.zoneId === zone.id);
+            return (
+              <div key={zone.id} className="glass-card rounded-2xl p-4 space-y-3" data-testid={`card-zone-${zone.id}`}>
+                {editingId === zone.id ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <Input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="glass-input h-9 rounded-xl text-white flex-1"
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => updateMutation.mutate(zone.id)}
+                        disabled={!editName.trim() || updateMutation.isPending}
+                        className="text-green-400"
+                        data-testid={`button-save-zone-${zone.id}`}
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setEditingId(null)}
+                        className="text-muted-foreground"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <CategoryToggles
+                      categories={categories}
+                      selected={editCategories}
+                      onChange={setEditCategories}
+                      idPrefix={`zone-${zone.id}`}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-2">
+                      <p className="text-white font-semibold">{zone.name}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {zone.categories.length === 0 ? (
+                          <span className="text-muted-foreground text-xs">بالمنح الفردي فقط</span>
+                        ) : (
+                          zone.categories.map((key) => (
+                            <CategoryBadge key={key} categories={categories} categoryKey={key} className="text-xs" />
+                          ))
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => startEditing(zone)}
+                        className="text-muted-foreground"
+                        data-testid={`button-edit-zone-${zone.id}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            disabled={deleteMutation.isPending}
+                            className="text-red-400 hover:text-red-300"
+                            data-testid={`button-delete-zone-${zone.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="glass border-white/10">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle className="text-white">حذف المنطقة</AlertDialogTitle>
+                            <AlertDialogDescription className="text-muted-foreground">
+                              سيتم حذف منطقة "{zone.name}" وسجل الدخول إليها، وينتقل المنظمون المعينون لبوابتها إلى المدخل الرئيسي. لا يمكن التراجع عن هذا الإجراء.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter className="gap-2">
+                            <AlertDialogCancel className="border-white/20 text-white hover:bg-white/10">
+                              إلغاء
+                            </AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(zone.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                              data-testid={`button-confirm-delete-zone-${zone.id}`}
+                            >
+                              حذف
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">دخلوا المنطقة</span>
+                  <span className="text-white" data-testid={`text-zone-entered-${zone.id}`}>
+                    {zone.enteredCount} / {zone.entitledCount}
+                  </span>
+                </div>
+
+                {zoneEntries.length > 0 && (
+                  <div className="max-h-40 overflow-y-auto divide-y divide-white/10">
+                    {zoneEntries.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between py-1.5 text-sm">
+                        <span className="text-white truncate">{guestName(entry.guestId)}</span>
+                        <span className="text-muted-foreground text-xs">
+                          {new Date(entry.enteredAt).toLocaleTimeString("ar-SA")}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
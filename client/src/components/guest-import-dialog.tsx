@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Upload, Download, AlertTriangle, XCircle, CheckCircle2, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  GUEST_IMPORT_FIELDS,
+  CUSTOM_FIELD_MAPPING_PREFIX,
+  type GuestImportOptions,
+  type GuestImportPreview,
+  type GuestImportProfile,
+} from "@shared/schema";
+import { categoryName } from "@shared/categories";
+import { useEventCategories } from "@/components/event-categories";
+import { useEventFields } from "@/components/event-fields";
+
+// Radix Select items cannot have an empty value
+const UNMAPPED = "__none__";
+
+interface ImportResult {
+  count: number;
+  merged: number;
+  skippedInvalid: number;
+  skippedForCapacity: number;
+}
+
+async function postSheet(url: string, file: File, options: GuestImportOptions): Promise<Response> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("options", JSON.stringify(options));
+  const res = await fetch(url, { method: "POST", body: formData, credentials: "include" });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || "فشل معالجة الملف");
+  }
+  return res;
+}
+
+// Step 1 of the guest import: validate the sheet on the server without saving.
+// Options left out (sheet, encoding, mapping) are detected by the server.
+export async function previewGuestImport(
+  eventId: string,
+  file: File,
+  options: GuestImportOptions = {}
+): Promise<GuestImportPreview> {
+  const res = await postSheet(`/api/events/${eventId}/upload-guests/preview`, file, options);
+  return res.json();
+}
+
+interface GuestImportDialogProps {
+  eventId: string;
+  file: File;
+  initialPreview: GuestImportPreview;
+  onClose: () => void;
+}
+
+export function GuestImportDialog({ eventId, file, initialPreview, onClose }: GuestImportDialogProps) {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState(initialPreview);
+  // Options that produced the current preview; import and the errors sheet reuse them
+  const [options, setOptions] = useState<GuestImportOptions>({});
+  const [profileId, setProfileId] = useState<string>("");
+  const [profileName, setProfileName] = useState("");
+
+  const { data: categories = [] } = useEventCategories(eventId);
+  const { data: fields = [] } = useEventFields(eventId);
+  const { data: profiles = [] } = useQuery<GuestImportProfile[]>({
+    queryKey: ["/api/import-profiles"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (nextOptions: GuestImportOptions) => previewGuestImport(eventId, file, nextOptions),
+    onSuccess: (data, nextOptions) => {
+      setPreview(data);
+      setOptions(nextOptions);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل قراءة الملف", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/import-profiles", {
+        name: profileName,
+        sheetName: preview.sheet,
+        mapping: preview.mapping,
+      });
+      return res.json() as Promise<GuestImportProfile>;
+    },
+    onSuccess: (profile) => {
+      toast({ title: "تم الحفظ", description: `تم حفظ ملف الاستيراد "${profile.name}"` });
+      setProfileId(profile.id);
+      setProfileName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+    },
+    onError: () => {
+      toast({ title: "فشل الحفظ", description: "حدث خطأ أثناء حفظ ملف الاستيراد", variant: "destructive" });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/import-profiles/${id}`);
+    },
+    onSuccess: () => {
+      setProfileId("");
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+    },
+    onError: () => {
+      toast({ title: "فشل الحذف", description: "حدث خطأ أثناء حذف ملف الاستيراد", variant: "destructive" });
+    },
+  });
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setProfileId(id);
+    previewMutation.mutate({
+      encoding: options.encoding,
+      sheet: profile.sheetName || undefined,
+      mapping: profile.mapping,
+    });
+  };
+
+  // Mapping targets: the built-in guest fields, then the event's custom fields
+  const mappingTargets: [string, string][] = [
+    ...Object.entries(GUEST_IMPORT_FIELDS),
+    ...fields.map((f): [string, string] => [`${CUSTOM_FIELD_MAPPING_PREFIX}${f.key}`, f.label]),
+  ];
+
+  const updateMapping = (field: string, header: string) => {
+    const mapping = { ...preview.mapping };
+    if (header === UNMAPPED) {
+      delete mapping[field];
+    } else {
+      mapping[field] = header;
+    }
+    previewMutation.mutate({ ...options, sheet: preview.sheet, mapping });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await postSheet(`/api/events/${eventId}/upload-guests`, file, options);
+      return res.json() as Promise<ImportResult>;
+    },
+    onSuccess: (data) => {
+      const skipped = [];
+      if (data.skippedInvalid) skipped.push(`${data.skippedInvalid} صف به أخطاء`);
+      if (data.skippedForCapacity) skipped.push(`${data.skippedForCapacity} بسبب حد السعة`);
+      const merged = data.merged ? ` وتحديث ${data.merged} ضيف موجود` : "";
+      toast({
+        title: "تم الاستيراد",
+        description: `تم إضافة ${data.count} ضيف${merged}${skipped.length ? ` (تم تخطي ${skipped.join(" و")})` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الاستيراد", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const errorSheetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await postSheet(`/api/events/${eventId}/upload-guests/errors`, file, options);
+      return res.blob();
+    },
+    onSuccess: (blob) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "أخطاء-الاستيراد.xlsx";
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل التحميل", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { summary } = preview;
+  // Updates of existing guests (merge mode) do not use capacity
+  const createCount =
+    summary.remainingCapacity === null ? summary.toCreate : Math.min(summary.toCreate, summary.remainingCapacity);
+  const importCount = createCount + summary.toUpdate;
+  const hasIssues = summary.invalid > 0 || summary.withWarnings > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="glass border-white/10 max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">معاينة الاستيراد</DialogTitle>
+          <DialogDescription>{file.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="glass-card rounded-xl p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-white/80 text-sm">ملف استيراد محفوظ</Label>
+              <div className="flex gap-2">
+                <Select value={profileId} onValueChange={applyProfile} disabled={profiles.length === 0}>
+                  <SelectTrigger className="glass-input text-white" data-testid="select-import-profile">
+                    <SelectValue placeholder={profiles.length ? "اختر ملف استيراد" : "لا توجد ملفات محفوظة"} />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-white/10">
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {profileId && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteProfileMutation.mutate(profileId)}
+                    disabled={deleteProfileMutation.isPending}
+                    className="text-red-400 hover:bg-red-500/10 shrink-0"
+                    data-testid="button-delete-import-profile"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {preview.sheets.length > 1 && (
+              <div className="space-y-1">
+                <Label className="text-white/80 text-sm">الورقة</Label>
+                <Select
+                  value={preview.sheet}
+                  onValueChange={(sheet) => previewMutation.mutate({ encoding: options.encoding, sheet })}
+                >
+                  <SelectTrigger className="glass-input text-white" data-testid="select-import-sheet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-white/10">
+                    {preview.sheets.map((sheet) => (
+                      <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {preview.encoding && (
+              <div className="space-y-1">
+                <Label className="text-white/80 text-sm">ترميز الملف</Label>
+                <Select
+                  value={preview.encoding}
+                  onValueChange={(encoding) =>
+                    previewMutation.mutate({ ...options, encoding: encoding as GuestImportOptions["encoding"] })
+                  }
+                >
+                  <SelectTrigger className="glass-input text-white" data-testid="select-import-encoding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-white/10">
+                    <SelectItem value="utf-8">UTF-8</SelectItem>
+                    <SelectItem value="windows-1256">Windows-1256 (عربي)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {mappingTargets.map(([field, label]) => (
+              <div key={field} className="space-y-1">
+                <Label className="text-white/80 text-sm">
+                  {label}
+                  {field === "name" && " *"}
+                </Label>
+                <Select
+                  value={preview.mapping[field] ?? UNMAPPED}
+                  onValueChange={(header) => updateMapping(field, header)}
+                  disabled={previewMutation.isPending}
+                >
+                  <SelectTrigger className="glass-input text-white" data-testid={`select-map-${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-white/10">
+                    <SelectItem value={UNMAPPED}>غير مستخدم</SelectItem>
+                    {preview.headers.map((header) => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="اسم ملف الاستيراد، مثل: قائمة الشركة"
+              className="glass-input text-white"
+              data-testid="input-import-profile-name"
+            />
+            <Button
+              variant="outline"
+              onClick={() => saveProfileMutation.mutate()}
+              disabled={!profileName.trim() || saveProfileMutation.isPending}
+              className="border-white/20 text-white hover:bg-white/10 shrink-0"
+              data-testid="button-save-import-profile"
+            >
+              {saveProfileMutation.isPending ? (
+                <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 ml-2" />
+              )}
+              حفظ الربط
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="glass-card rounded-xl p-3 text-center">
+            <p className="text-2xl font-bold text-white">{summary.total}</p>
+            <p className="text-muted-foreground text-sm">إجمالي الصفوف</p>
+          </div>
+          <div className="glass-card rounded-xl p-3 text-center">
+            <p className="text-2xl font-bold text-green-400" data-testid="text-import-valid">{summary.valid}</p>
+            <p className="text-muted-foreground text-sm">صالحة</p>
+          </div>
+          <div className="glass-card rounded-xl p-3 text-center">
+            <p className="text-2xl font-bold text-red-400" data-testid="text-import-invalid">{summary.invalid}</p>
+            <p className="text-muted-foreground text-sm">بها أخطاء</p>
+          </div>
+          <div className="glass-card rounded-xl p-3 text-center">
+            <p className="text-2xl font-bold text-yellow-400">{summary.withWarnings}</p>
+            <p className="text-muted-foreground text-sm">بها تنبيهات</p>
+          </div>
+        </div>
+
+        {summary.remainingCapacity !== null && summary.toCreate > summary.remainingCapacity && (
+          <p className="text-yellow-400 text-sm flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            السعة المتبقية {summary.remainingCapacity} ضيف فقط، سيتم إضافة أول {createCount} ضيف جديد
+          </p>
+        )}
+        {summary.toUpdate > 0 && (
+          <p className="text-white/70 text-sm" data-testid="text-import-updates">
+            سيتم تحديث بيانات {summary.toUpdate} ضيف موجود برقم الجوال نفسه
+          </p>
+        )}
+
+        <div
+          className={`max-h-[40vh] overflow-auto rounded-xl border border-white/10 ${
+            previewMutation.isPending ? "opacity-50" : ""
+          }`}
+        >
+          <table className="w-full text-sm text-white">
+            <thead className="text-white/60 border-b border-white/10 sticky top-0 bg-purple-950/90">
+              <tr>
+                <th className="text-right py-2 px-3">الصف</th>
+                <th className="text-right py-2 px-3">الاسم</th>
+                <th className="text-right py-2 px-3">الجوال</th>
+                <th className="text-right py-2 px-3">الفئة</th>
+                <th className="text-right py-2 px-3">المرافقين</th>
+                <th className="text-right py-2 px-3">الحالة</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row) => (
+                <tr
+                  key={row.rowNumber}
+                  className={`border-b border-white/5 ${row.errors.length > 0 ? "bg-red-500/5" : ""}`}
+                  data-testid={`row-import-${row.rowNumber}`}
+                >
+                  <td className="py-2 px-3 text-muted-foreground">{row.rowNumber}</td>
+                  <td className="py-2 px-3">{row.data.name || "-"}</td>
+                  <td className="py-2 px-3" dir="ltr">{row.data.phone || "-"}</td>
+                  <td className="py-2 px-3">{categoryName(categories, row.data.category)}</td>
+                  <td className="py-2 px-3">{row.data.companions}</td>
+                  <td className="py-2 px-3 space-y-1">
+                    {row.errors.length === 0 && row.warnings.length === 0 && (
+                      <Badge variant="secondary" className="bg-green-500/20 text-green-400">
+                        <CheckCircle2 className="w-3 h-3 ml-1" />
+                        صالح
+                      </Badge>
+                    )}
+                    {row.errors.map((error) => (
+                      <div key={error} className="flex items-center gap-1 text-red-400">
+                        <XCircle className="w-3 h-3 shrink-0" />
+                        {error}
+                      </div>
+                    ))}
+                    {row.warnings.map((warning) => (
+                      <div key={warning} className="flex items-center gap-1 text-yellow-400">
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        {warning}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {hasIssues && (
+            <Button
+              variant="outline"
+              onClick={() => errorSheetMutation.mutate()}
+              disabled={errorSheetMutation.isPending}
+              className="border-white/20 text-white hover:bg-white/10"
+              data-testid="button-download-import-errors"
+            >
+              {errorSheetMutation.isPending ? (
+                <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 ml-2" />
+              )}
+              تحميل ملف الأخطاء
+            </Button>
+          )}
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={importCount === 0 || importMutation.isPending || previewMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4 ml-2" />
+            )}
+            استيراد {importCount} صف
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { Download, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { Guest } from "@shared/schema";
+
+interface GuestQrImageProps {
+  guestId: string;
+  className?: string;
+}
+
+// SVG keeps thumbnails crisp at any size; the browser sends the session cookie
+export function GuestQrImage({ guestId, className = "" }: GuestQrImageProps) {
+  return (
+    <img
+      src={`/api/guests/${guestId}/qr?format=svg`}
+      alt="QR"
+      loading="lazy"
+      className={`bg-white rounded-lg ${className}`}
+      data-testid={`img-guest-qr-${guestId}`}
+    />
+  );
+}
+
+export function GuestQrDownloads({ guestId }: { guestId: string }) {
+  return (
+    <div className="flex gap-2">
+      <Button
+        asChild
+        variant="outline"
+        size="sm"
+        className="border-white/20 text-white hover:bg-white/10"
+        data-testid={`button-download-qr-png-${guestId}`}
+      >
+        <a href={`/api/guests/${guestId}/qr?format=png&download=1`} download>
+          <Download className="w-4 h-4 ml-2" />
+          PNG
+        </a>
+      </Button>
+      <Button
+        asChild
+        variant="outline"
+        size="sm"
+        className="border-white/20 text-white hover:bg-white/10"
+        data-testid={`button-download-qr-svg-${guestId}`}
+      >
+        <a href={`/api/guests/${guestId}/qr?format=svg&download=1`} download>
+          <Download className="w-4 h-4 ml-2" />
+          SVG
+        </a>
+      </Button>
+      <Button
+        asChild
+        variant="outline"
+        size="sm"
+        className="border-white/20 text-white hover:bg-white/10"
+        data-testid={`button-download-invitation-${guestId}`}
+      >
+        <a href={`/api/guests/${guestId}/invitation-card`} download>
+          <FileText className="w-4 h-4 ml-2" />
+          بطاقة PDF
+        </a>
+      </Button>
+    </div>
+  );
+}
+
+// Thumbnail for table rows that opens a larger, downloadable QR
+export function GuestQrPreview({ guest }: { guest: Guest }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button type="button" className="shrink-0" data-testid={`button-preview-qr-${guest.id}`}>
+          <GuestQrImage guestId={guest.id} className="w-10 h-10 p-0.5" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="glass border-white/10 max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-white">{guest.name}</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4">
+          <GuestQrImage guestId={guest.id} className="w-64 h-64 p-2" />
+          <code className="bg-white/10 px-3 py-1 rounded text-sm font-mono text-primary">
+            {guest.qrCode}
+          </code>
+          <GuestQrDownloads guestId={guest.id} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
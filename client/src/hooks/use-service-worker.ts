@@ -0,0 +1,46 @@
+import { useEffect, useState, useCallback } from "react";
+
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    // The worker is only generated by the production build
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+    let refreshing = false;
+    const onControllerChange = () => {
+      if (refreshing) return;
+      refreshing = true;
+      window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener("controllerchange", onControllerChange);
+
+    navigator.serviceWorker.register("/sw.js").then((registration) => {
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+      }
+      registration.addEventListener("updatefound", () => {
+        const installing = registration.installing;
+        if (!installing) return;
+        installing.addEventListener("statechange", () => {
+          // A controller already exists, so this is an update rather than the first install
+          if (installing.state === "installed" && navigator.serviceWorker.controller) {
+            setWaitingWorker(installing);
+          }
+        });
+      });
+    }).catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+
+    return () => {
+      navigator.serviceWorker.removeEventListener("controllerchange", onControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    waitingWorker?.postMessage({ type: "SKIP_WAITING" });
+  }, [waitingWorker]);
+
+  return { updateAvailable: !!waitingWorker, applyUpdate };
+}
@@ -61,6 +61,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         credentials: "include",
       });
     } finally {
+      // Drop cached API responses so the next user never sees this session offline
+      navigator.serviceWorker?.controller?.postMessage({ type: "CLEAR_API_CACHE" });
       setUser(null);
     }
   };
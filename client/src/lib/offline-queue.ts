@@ -0,0 +1,178 @@
+// Durable queue of check-ins accepted while the organizer device is offline.
+// Scans are stored in IndexedDB so they survive reloads and are replayed to
+// the server once the connection comes back.
+
+const DB_NAME = "dawaati-offline";
+const DB_VERSION = 1;
+const STORE = "check_in_queue";
+
+export type QueuedScanStatus = "pending" | "success" | "duplicate" | "conflict" | "invalid";
+
+export interface QueuedScan {
+  id: string;
+  eventId: string;
+  guestId: string;
+  guestName: string;
+  qrCode: string;
+  scannedAt: string;
+  // Companions admitted by this scan, for later arrivals of a guest who is inside
+  companions?: number;
+  // Gate the device was scanning at: an access zone id, or null for the main entrance
+  zoneId?: string | null;
+  // Check-out scans leave the venue; scans without a direction are entries
+  direction?: "in" | "out";
+  // Session the device was scanning for, on events with sessions
+  sessionId?: string | null;
+  status: QueuedScanStatus;
+  message?: string;
+  checkedInBy?: string;
+  syncedAt?: string;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("eventId", "eventId", { unique: false });
+        store.createIndex("status", "status", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+export async function enqueueScan(
+  scan: Omit<QueuedScan, "id" | "status" | "scannedAt">
+): Promise<QueuedScan> {
+  const queued: QueuedScan = {
+    ...scan,
+    id: crypto.randomUUID(),
+    status: "pending",
+    scannedAt: new Date().toISOString(),
+  };
+  await withStore("readwrite", (store) => store.put(queued));
+  return queued;
+}
+
+export async function getQueuedScans(eventId?: string): Promise<QueuedScan[]> {
+  const scans = await withStore<QueuedScan[]>("readonly", (store) =>
+    eventId ? store.index("eventId").getAll(eventId) : store.getAll()
+  );
+  return scans.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+}
+
+async function saveScan(scan: QueuedScan): Promise<void> {
+  await withStore("readwrite", (store) => store.put(scan));
+}
+
+export async function clearSyncedScans(eventId: string): Promise<void> {
+  const scans = await getQueuedScans(eventId);
+  const synced = scans.filter((s) => s.status !== "pending");
+  for (const scan of synced) {
+    await withStore("readwrite", (store) => store.delete(scan.id));
+  }
+}
+
+let isSyncing = false;
+
+// Replays pending scans in the order they were taken. A scan whose guest was
+// already admitted by an earlier scan from this queue is a duplicate; one
+// that the server had already checked in from another gate is a conflict.
+// Network failures leave the scan pending for the next attempt.
+export async function syncPendingScans(): Promise<QueuedScan[]> {
+  if (isSyncing) return [];
+  isSyncing = true;
+
+  const synced: QueuedScan[] = [];
+  try {
+    const pending = (await getQueuedScans()).filter((s) => s.status === "pending");
+    const admittedHere = new Set<string>();
+
+    for (const scan of pending) {
+      const isCheckOut = scan.direction === "out";
+      let res: Response;
+      try {
+        res = await fetch(`/api/guests/${scan.guestId}/${isCheckOut ? "check-out" : "check-in"}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            scannedAt: scan.scannedAt,
+            companions: scan.companions,
+            zoneId: scan.zoneId,
+            sessionId: scan.sessionId,
+          }),
+          credentials: "include",
+        });
+      } catch {
+        break;
+      }
+
+      // Session expired or server down - keep the scan for a later retry. A 403
+      // only refuses this scan's event, so it is recorded like any rejection.
+      if (res.status === 401 || res.status >= 500) {
+        break;
+      }
+
+      const data = await res.json().catch(() => ({}));
+      const updated: QueuedScan = { ...scan, syncedAt: new Date().toISOString() };
+
+      if (isCheckOut) {
+        updated.status = data.status === "success" ? "success" : data.status === "duplicate" ? "conflict" : "invalid";
+        updated.message = data.status === "success"
+          ? "تمت مزامنة الخروج"
+          : data.message || "الدعوة غير صالحة";
+        // The guest's next entry on this device is a re-entry, not a repeat scan
+        if (data.status === "success") admittedHere.delete(scan.guestId);
+      } else if (data.status === "success") {
+        updated.status = "success";
+        updated.message = scan.companions
+          ? `تمت مزامنة دخول ${data.companionsAdmitted ?? scan.companions} مرافق`
+          : "تمت مزامنة الحضور بنجاح";
+        admittedHere.add(scan.guestId);
+      } else if (data.status === "duplicate" && scan.companions) {
+        updated.status = "conflict";
+        updated.message = "دخل جميع المرافقين مسبقاً";
+        updated.checkedInBy = data.checkedInBy;
+      } else if (data.status === "duplicate") {
+        updated.status = admittedHere.has(scan.guestId) ? "duplicate" : "conflict";
+        updated.message = updated.status === "duplicate"
+          ? "تم مسح الدعوة أكثر من مرة على هذا الجهاز"
+          : "تم تسجيل دخول الضيف من بوابة أخرى مسبقاً";
+        updated.checkedInBy = data.checkedInBy;
+      } else {
+        updated.status = "invalid";
+        updated.message = data.message || "الدعوة غير صالحة";
+      }
+
+      await saveScan(updated);
+      synced.push(updated);
+    }
+  } finally {
+    isSyncing = false;
+  }
+
+  return synced;
+}
@@ -0,0 +1,76 @@
+import { QR_TOKEN_PREFIX, type EventSigningKeyInfo, type QrTokenPayload } from "@shared/schema";
+
+// Offline verification of signed QR invitation tokens against the event's
+// Ed25519 public key, so forged codes and codes from other events are
+// rejected at the gate without a round trip.
+
+export type QrTokenCheck =
+  | { ok: true; payload: QrTokenPayload }
+  | { ok: false; message: string };
+
+export function isQrToken(text: string): boolean {
+  return text.startsWith(`${QR_TOKEN_PREFIX}.`);
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function verifyQrTokenOffline(
+  token: string,
+  keyInfo: EventSigningKeyInfo
+): Promise<QrTokenCheck> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== QR_TOKEN_PREFIX) {
+    return { ok: false, message: "رمز الدعوة غير صالح" };
+  }
+
+  let payload: QrTokenPayload;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(parts[1])));
+  } catch {
+    return { ok: false, message: "رمز الدعوة غير صالح" };
+  }
+
+  if (payload.e !== keyInfo.eventId) {
+    return { ok: false, message: "هذا الكود ليس لهذه المناسبة" };
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      keyInfo.publicKey,
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    );
+    const isAuthentic = await crypto.subtle.verify(
+      { name: "Ed25519" },
+      key,
+      base64UrlToBytes(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!isAuthentic) {
+      return { ok: false, message: "رمز الدعوة مزور أو تم التلاعب به" };
+    }
+  } catch {
+    return { ok: false, message: "تعذر التحقق من رمز الدعوة على هذا الجهاز" };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now < payload.nbf) {
+    return { ok: false, message: "الدعوة غير صالحة بعد" };
+  }
+  if (now > payload.exp) {
+    return { ok: false, message: "انتهت صلاحية الدعوة" };
+  }
+
+  return { ok: true, payload };
+}
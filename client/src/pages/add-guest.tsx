@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
@@ -24,15 +24,21 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import type { Event, Guest } from "@shared/schema";
+import { useEventCategories } from "@/components/event-categories";
+import { CustomFieldInputs, useEventFields } from "@/components/event-fields";
+import { ZoneAccessInputs, useEventZones } from "@/components/event-zones";
 
 const guestFormSchema = z.object({
   name: z.string().min(1, "الاسم مطلوب"),
   phone: z.string().optional(),
-  category: z.enum(["vip", "regular", "media", "sponsor"]),
+  email: z.union([z.literal(""), z.string().email("البريد الإلكتروني غير صالح")]).optional(),
+  category: z.string().min(1, "الفئة مطلوبة"),
   companions: z.number().min(0).default(0),
   notes: z.string().optional(),
+  customFields: z.record(z.union([z.string(), z.boolean()])).default({}),
+  zoneIds: z.array(z.string()).default([]),
 });
 
 type GuestFormData = z.infer<typeof guestFormSchema>;
@@ -52,29 +58,56 @@ export default function AddGuestPage() {
     defaultValues: {
       name: "",
       phone: "",
-      category: "regular",
+      email: "",
+      category: "",
       companions: 0,
       notes: "",
+      customFields: {},
+      zoneIds: [],
     },
   });
 
+  const { data: fields = [] } = useEventFields(eventId);
+  const { data: zones = [] } = useEventZones(eventId);
+
+  // New guests start in the event's first category
+  const { data: categories = [] } = useEventCategories(eventId);
+  useEffect(() => {
+    if (categories.length > 0 && !form.getValues("category")) {
+      form.setValue("category", categories[0].key);
+    }
+  }, [categories, form]);
+
   const createMutation = useMutation({
     mutationFn: async (data: GuestFormData) => {
-      const res = await apiRequest("POST", `/api/events/${eventId}/guests`, data);
-      return res.json();
+      const res = await fetch(`/api/events/${eventId}/guests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.error || "حدث خطأ أثناء إضافة الضيف");
+      }
+      return result as Guest & { merged?: boolean; duplicateOf?: { id: string; name: string } };
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
-        title: "تم إضافة الضيف",
-        description: "تم إضافة الضيف بنجاح",
+        title: data.merged ? "تم دمج الضيف" : "تم إضافة الضيف",
+        description: data.merged
+          ? `رقم الجوال مسجل مسبقاً، تم تحديث بيانات الضيف "${data.name}"`
+          : data.duplicateOf
+            ? `تمت الإضافة، لكن رقم الجوال مستخدم أيضاً للضيف "${data.duplicateOf.name}"`
+            : "تم إضافة الضيف بنجاح",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
       navigate(`/events/${eventId}`);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "فشل الإضافة",
-        description: "حدث خطأ أثناء إضافة الضيف",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -142,13 +175,34 @@ export default function AddGuestPage() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">البريد الإلكتروني</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="email"
+                      dir="ltr"
+                      placeholder="name@example.com"
+                      className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                      data-testid="input-guest-email"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="category"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel className="text-white">الفئة</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger 
                         className="glass-input h-12 rounded-xl text-white"
@@ -158,10 +212,11 @@ export default function AddGuestPage() {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="glass border-white/10">
-                      <SelectItem value="regular">عادي</SelectItem>
-                      <SelectItem value="vip">VIP</SelectItem>
-                      <SelectItem value="media">إعلام</SelectItem>
-                      <SelectItem value="sponsor">راعي</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.key} value={category.key}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage className="text-red-400" />
@@ -210,6 +265,38 @@ export default function AddGuestPage() {
               )}
             />
 
+            {fields.length > 0 && (
+              <FormField
+                control={form.control}
+                name="customFields"
+                render={({ field }) => (
+                  <FormItem>
+                    <CustomFieldInputs fields={fields} values={field.value} onChange={field.onChange} />
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {zones.length > 0 && (
+              <FormField
+                control={form.control}
+                name="zoneIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">مناطق الدخول</FormLabel>
+                    <ZoneAccessInputs
+                      zones={zones}
+                      category={form.watch("category")}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="flex gap-4 pt-4">
               <Button
                 type="submit"
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
@@ -8,6 +8,13 @@ import { ArrowRight, Save, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Form,
   FormControl,
@@ -18,15 +25,25 @@ import {
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event } from "@shared/schema";
+import type { Event, ReentryPolicy } from "@shared/schema";
+import { REENTRY_POLICY_LABELS } from "@shared/occupancy";
 
 const eventFormSchema = z.object({
   name: z.string().min(1, "اسم المناسبة مطلوب"),
   description: z.string().optional(),
   date: z.string().min(1, "التاريخ مطلوب"),
+  endDate: z.string().optional(),
   location: z.string().min(1, "الموقع مطلوب"),
   startTime: z.string().min(1, "وقت البداية مطلوب"),
   endTime: z.string().min(1, "وقت النهاية مطلوب"),
+  rsvpMaxCompanions: z.number().min(0).default(0),
+  duplicatePhoneMode: z.enum(["warn", "merge"]).default("warn"),
+  reentryPolicy: z.enum(["allowed", "disallowed", "limited"]).default("allowed"),
+  reentryLimit: z.number().int().min(1, "يجب السماح بمرة واحدة على الأقل").default(1),
+  checkInGraceMinutes: z.number().int().min(0, "المهلة لا تكون سالبة").default(60),
+}).refine((data) => !data.endDate || data.endDate >= data.date, {
+  message: "تاريخ النهاية يجب أن يكون بعد تاريخ البداية أو مثله",
+  path: ["endDate"],
 });
 
 type EventFormData = z.infer<typeof eventFormSchema>;
@@ -41,15 +58,24 @@ export default function EditEventPage() {
     enabled: !!eventId,
   });
 
+  // Occurrences of a series may pass their changes on to the following ones
+  const [scope, setScope] = useState<"this" | "future">("this");
+
   const form = useForm<EventFormData>({
     resolver: zodResolver(eventFormSchema),
     defaultValues: {
       name: "",
       description: "",
       date: "",
+      endDate: "",
       location: "",
       startTime: "",
       endTime: "",
+      rsvpMaxCompanions: 0,
+      duplicatePhoneMode: "warn",
+      reentryPolicy: "allowed",
+      reentryLimit: 1,
+      checkInGraceMinutes: 60,
     },
   });
 
@@ -60,9 +86,15 @@ export default function EditEventPage() {
         name: event.name || "",
         description: event.description || "",
         date: dateStr,
+        endDate: event.endDate ? new Date(event.endDate).toISOString().split("T")[0] : "",
         location: event.location || "",
         startTime: event.startTime || "",
         endTime: event.endTime || "",
+        rsvpMaxCompanions: event.rsvpMaxCompanions || 0,
+        duplicatePhoneMode: event.duplicatePhoneMode || "warn",
+        reentryPolicy: event.reentryPolicy || "allowed",
+        reentryLimit: event.reentryLimit || 1,
+        checkInGraceMinutes: event.checkInGraceMinutes ?? 60,
       });
     }
   }, [event, form]);
@@ -72,6 +104,8 @@ export default function EditEventPage() {
       const res = await apiRequest("PATCH", `/api/events/${eventId}`, {
         ...data,
         date: new Date(data.date).toISOString(),
+        endDate: data.endDate ? new Date(data.endDate).toISOString() : null,
+        scope,
       });
       return res.json();
     },
@@ -82,6 +116,9 @@ export default function EditEventPage() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+      if (event?.seriesId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/series", event.seriesId] });
+      }
       navigate(`/events/${eventId}`);
     },
     onError: () => {
@@ -179,6 +216,25 @@ export default function EditEventPage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">تاريخ النهاية (للمناسبات متعددة الأيام)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        {...field}
+                        className="glass-input h-12 rounded-xl text-white"
+                        data-testid="input-event-end-date"
+                      />
+                    </FormControl>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="location"
@@ -238,6 +294,145 @@ export default function EditEventPage() {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="rsvpMaxCompanions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">الحد الأقصى للمرافقين عند تأكيد الحضور</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="input-event-rsvp-max-companions"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="duplicatePhoneMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">عند تكرار رقم الجوال</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger
+                        className="glass-input h-12 rounded-xl text-white border-white/10"
+                        data-testid="select-duplicate-phone-mode"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="glass-card border-white/10">
+                      <SelectItem value="warn" className="text-white">إضافة الضيف مع التنبيه</SelectItem>
+                      <SelectItem value="merge" className="text-white">دمج البيانات مع الضيف الموجود</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reentryPolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">إعادة الدخول بعد تسجيل الخروج</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger
+                        className="glass-input h-12 rounded-xl text-white border-white/10"
+                        data-testid="select-reentry-policy"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="glass-card border-white/10">
+                      {(Object.keys(REENTRY_POLICY_LABELS) as ReentryPolicy[]).map((policy) => (
+                        <SelectItem key={policy} value={policy} className="text-white">
+                          {REENTRY_POLICY_LABELS[policy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("reentryPolicy") === "limited" && (
+              <FormField
+                control={form.control}
+                name="reentryLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">عدد مرات إعادة الدخول المسموحة لكل ضيف</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        className="glass-input h-12 rounded-xl text-white"
+                        data-testid="input-event-reentry-limit"
+                      />
+                    </FormControl>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="checkInGraceMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">مهلة تسجيل الحضور (بالدقائق)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="input-event-grace-minutes"
+                    />
+                  </FormControl>
+                  <p className="text-muted-foreground text-sm">
+                    يُفتح تسجيل الحضور قبل موعد البداية بهذه المدة، ويبقى مفتوحاً بعد إغلاق المناسبة بالمدة نفسها
+                  </p>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            {event?.seriesId && (
+              <div className="space-y-2">
+                <p className="text-white text-sm font-medium">تطبيق التعديلات على</p>
+                <Select value={scope} onValueChange={(value) => setScope(value as "this" | "future")}>
+                  <SelectTrigger className="glass-input h-12 rounded-xl text-white border-white/10" data-testid="select-edit-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass-card border-white/10">
+                    <SelectItem value="this" className="text-white">هذه المناسبة فقط</SelectItem>
+                    <SelectItem value="future" className="text-white">هذه المناسبة والمناسبات التالية في السلسلة</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-muted-foreground text-sm">
+                  تحتفظ كل مناسبة بتاريخها، وتنتقل إليها الإعدادات التي غيّرتها فقط
+                </p>
+              </div>
+            )}
+
             <div className="flex gap-4 pt-4">
               <Button
                 type="submit"
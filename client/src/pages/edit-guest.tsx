@@ -34,16 +34,24 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { GuestQrImage, GuestQrDownloads } from "@/components/guest-qr";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Guest } from "@shared/schema";
+import { useEventCategories } from "@/components/event-categories";
+import { CustomFieldInputs, useEventFields, toCustomFieldFormValues } from "@/components/event-fields";
+import { ZoneAccessInputs, useEventZones } from "@/components/event-zones";
 
 const guestFormSchema = z.object({
   name: z.string().min(1, "الاسم مطلوب"),
   phone: z.string().optional(),
-  category: z.enum(["vip", "regular", "media", "sponsor"]),
+  email: z.union([z.literal(""), z.string().email("البريد الإلكتروني غير صالح")]).optional(),
+  category: z.string().min(1, "الفئة مطلوبة"),
   companions: z.number().min(0).default(0),
+  rsvpStatus: z.enum(["pending", "confirmed", "declined"]),
   notes: z.string().optional(),
+  customFields: z.record(z.union([z.string(), z.boolean()])).default({}),
+  zoneIds: z.array(z.string()).default([]),
 });
 
 type GuestFormData = z.infer<typeof guestFormSchema>;
@@ -58,14 +66,22 @@ export default function EditGuestPage() {
     enabled: !!guestId,
   });
 
+  const { data: categories = [] } = useEventCategories(eventId);
+  const { data: fields = [] } = useEventFields(eventId);
+  const { data: zones = [] } = useEventZones(eventId);
+
   const form = useForm<GuestFormData>({
     resolver: zodResolver(guestFormSchema),
     defaultValues: {
       name: "",
       phone: "",
-      category: "regular",
+      email: "",
+      category: "",
       companions: 0,
+      rsvpStatus: "pending",
       notes: "",
+      customFields: {},
+      zoneIds: [],
     },
   });
 
@@ -74,30 +90,45 @@ export default function EditGuestPage() {
       form.reset({
         name: guest.name || "",
         phone: guest.phone || "",
-        category: guest.category || "regular",
+        email: guest.email || "",
+        category: guest.category || "",
         companions: guest.companions || 0,
+        rsvpStatus: guest.rsvpStatus || "pending",
         notes: guest.notes || "",
+        customFields: toCustomFieldFormValues(guest.customFields),
+        zoneIds: guest.zoneIds || [],
       });
     }
   }, [guest, form]);
 
   const updateMutation = useMutation({
     mutationFn: async (data: GuestFormData) => {
-      const res = await apiRequest("PATCH", `/api/guests/${guestId}`, data);
-      return res.json();
+      const res = await fetch(`/api/guests/${guestId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.error || "حدث خطأ أثناء تحديث بيانات الضيف");
+      }
+      return result as Guest & { duplicateOf?: { id: string; name: string } };
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "تم التحديث",
-        description: "تم تحديث بيانات الضيف بنجاح",
+        description: data.duplicateOf
+          ? `تم التحديث، لكن رقم الجوال مستخدم أيضاً للضيف "${data.duplicateOf.name}"`
+          : "تم تحديث بيانات الضيف بنجاح",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
       navigate(`/events/${eventId}`);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "فشل التحديث",
-        description: "حدث خطأ أثناء تحديث بيانات الضيف",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -185,6 +216,19 @@ export default function EditGuestPage() {
         </AlertDialog>
       </div>
 
+      {guest && (
+        <div className="glass-card rounded-2xl p-6 flex flex-col sm:flex-row items-center gap-6">
+          <GuestQrImage guestId={guest.id} className="w-40 h-40 p-2" />
+          <div className="flex-1 space-y-3 text-center sm:text-right">
+            <h2 className="text-lg font-semibold text-white">رمز الدعوة</h2>
+            <code className="inline-block bg-white/10 px-3 py-1 rounded text-sm font-mono text-primary">
+              {guest.qrCode}
+            </code>
+            <GuestQrDownloads guestId={guest.id} />
+          </div>
+        </div>
+      )}
+
       <div className="glass-card rounded-2xl p-8">
         <Form {...form}>
           <form
@@ -227,6 +271,26 @@ export default function EditGuestPage() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">البريد الإلكتروني</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="email"
+                      dir="ltr"
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="input-guest-email"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="category"
@@ -243,10 +307,37 @@ export default function EditGuestPage() {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="glass border-white/10">
-                      <SelectItem value="regular">عادي</SelectItem>
-                      <SelectItem value="vip">VIP</SelectItem>
-                      <SelectItem value="media">إعلام</SelectItem>
-                      <SelectItem value="sponsor">راعي</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.key} value={category.key}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="rsvpStatus"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">تأكيد الحضور</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger
+                        className="glass-input h-12 rounded-xl text-white"
+                        data-testid="select-guest-rsvp"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="glass border-white/10">
+                      <SelectItem value="pending">بانتظار الرد</SelectItem>
+                      <SelectItem value="confirmed">مؤكد</SelectItem>
+                      <SelectItem value="declined">معتذر</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage className="text-red-400" />
@@ -294,6 +385,38 @@ export default function EditGuestPage() {
               )}
             />
 
+            {fields.length > 0 && (
+              <FormField
+                control={form.control}
+                name="customFields"
+                render={({ field }) => (
+                  <FormItem>
+                    <CustomFieldInputs fields={fields} values={field.value} onChange={field.onChange} />
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {zones.length > 0 && (
+              <FormField
+                control={form.control}
+                name="zoneIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">مناطق الدخول</FormLabel>
+                    <ZoneAccessInputs
+                      zones={zones}
+                      category={form.watch("category")}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="flex gap-4 pt-4">
               <Button
                 type="submit"
@@ -20,14 +20,62 @@ import {
   Pencil,
   Trash2,
   Settings,
+  QrCode,
+  FileText,
+  MessageSquare,
+  Link2,
+  CheckCircle2,
+  XCircle,
+  HelpCircle,
+  ClipboardList,
+  Tags,
+  ListPlus,
+  Search,
+  Armchair,
+  DoorOpen,
+  CalendarDays,
+  Repeat,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { DataTable } from "@/components/data-table";
+import { GuestQrPreview } from "@/components/guest-qr";
+import {
+  EventMessaging,
+  useEventMessages,
+  messageStatusLabels,
+  messageStatusStyles,
+} from "@/components/event-messaging";
+import { EventRegistrations, useEventRegistrations } from "@/components/event-registrations";
+import { GuestImportDialog, previewGuestImport } from "@/components/guest-import-dialog";
+import { EventCategories, CategoryBadge, useEventCategories } from "@/components/event-categories";
+import { EventFields } from "@/components/event-fields";
+import { EventSeating, useEventTables } from "@/components/event-seating";
+import { EventZones, useEventZones } from "@/components/event-zones";
+import { EventSessions, useEventSessions } from "@/components/event-sessions";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event, Guest, User } from "@shared/schema";
+import type { AssignedOrganizer, Event, Guest, GuestImportPreview, GuestMessage } from "@shared/schema";
+import { phoneDigits, phoneMatchKey, phoneSearchDigits } from "@shared/phone";
+import { customFieldSearchText } from "@shared/custom-fields";
+import { countInside } from "@shared/occupancy";
+import { currentSession, formatEventDays } from "@shared/sessions";
+import { checkInRefusal, isEventReadOnly } from "@shared/lifecycle";
+import { EventStatusActions, EventStatusBadge } from "@/components/event-status";
+import { DuplicateEventDialog, SaveTemplateDialog } from "@/components/event-copy";
+import { EventSeriesDialog } from "@/components/event-series";
+
+// Radix Select items cannot have an empty value
+const MAIN_GATE = "__main__";
 
 export default function EventDetailPage() {
   const [, params] = useRoute("/events/:id");
@@ -35,6 +83,10 @@ export default function EventDetailPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<GuestImportPreview | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [guestSearch, setGuestSearch] = useState("");
   const { toast } = useToast();
 
   const handleCopyCode = async (code: string) => {
@@ -55,6 +107,22 @@ export default function EventDetailPage() {
     }
   };
 
+  const handleCopyRsvpLink = async (guest: Guest) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/rsvp/${guest.rsvpToken}`);
+      toast({
+        title: "تم النسخ",
+        description: `تم نسخ رابط تأكيد الحضور لـ ${guest.name}`,
+      });
+    } catch {
+      toast({
+        title: "خطأ",
+        description: "فشل نسخ الرابط",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleExportExcel = async () => {
     try {
       const res = await fetch(`/api/events/${eventId}/export-guests`, {
@@ -84,7 +152,65 @@ export default function EventDetailPage() {
     }
   };
 
-  const handleDownloadReport = async (reportType: "attendance" | "absence" | "audit") => {
+  const handleExportQrCodes = async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/export-qr-codes?format=png`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "فشل التصدير");
+      }
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `رموز-QR-${event?.name || "event"}.zip`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      toast({
+        title: "تم التصدير",
+        description: "تم تحميل رموز QR بنجاح",
+      });
+    } catch (error: any) {
+      toast({
+        title: "فشل التصدير",
+        description: error.message || "حدث خطأ أثناء تصدير رموز QR",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportInvitationCards = async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/invitation-cards`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "فشل التصدير");
+      }
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `بطاقات-دعوة-${event?.name || "event"}.pdf`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      toast({
+        title: "تم التصدير",
+        description: "تم تحميل بطاقات الدعوة بنجاح",
+      });
+    } catch (error: any) {
+      toast({
+        title: "فشل التصدير",
+        description: error.message || "حدث خطأ أثناء إنشاء بطاقات الدعوة",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadReport = async (reportType: "attendance" | "absence" | "audit" | "movements" | "sessions") => {
     try {
       const res = await fetch(`/api/events/${eventId}/reports/${reportType}`, {
         credentials: "include",
@@ -101,6 +227,8 @@ export default function EventDetailPage() {
         attendance: "تقرير-الحضور",
         absence: "تقرير-الغياب",
         audit: "سجل-العمليات",
+        movements: "سجل-الحركة",
+        sessions: "تقرير-الجلسات",
       };
       a.download = `${reportNames[reportType]}-${event?.name || "event"}.xlsx`;
       a.click();
@@ -128,44 +256,59 @@ export default function EventDetailPage() {
     enabled: !!eventId,
   });
 
-  const { data: organizers = [] } = useQuery<User[]>({
+  const { data: organizers = [] } = useQuery<AssignedOrganizer[]>({
     queryKey: ["/api/events", eventId, "organizers"],
     enabled: !!eventId,
   });
 
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-      const res = await fetch(`/api/events/${eventId}/upload-guests`, {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
-      if (!res.ok) throw new Error("Upload failed");
-      return res.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "تم الرفع بنجاح",
-        description: `تم إضافة ${data.count} ضيف`,
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
-    },
-    onError: () => {
-      toast({
-        title: "فشل الرفع",
-        description: "تأكد من صيغة الملف الصحيحة",
-        variant: "destructive",
-      });
-    },
+  const { data: messages = [] } = useEventMessages(eventId);
+  const { data: registrations = [] } = useEventRegistrations(eventId);
+  const { data: categories = [] } = useEventCategories(eventId);
+  const { data: tables = [] } = useEventTables(eventId);
+  const { data: zones = [] } = useEventZones(eventId);
+  const { data: sessions = [] } = useEventSessions(eventId);
+  const runningSession = currentSession(sessions);
+  const pendingRegistrations = registrations.filter((r) => r.status === "pending").length;
+
+  // Name, email, notes, access code, phone in any format and custom field values
+  const searchText = guestSearch.trim().toLowerCase();
+  const searchDigits = phoneSearchDigits(guestSearch);
+  const visibleGuests = guests.filter((guest) => {
+    if (categoryFilter !== "all" && guest.category !== categoryFilter) return false;
+    if (!searchText) return true;
+    return (
+      guest.name.toLowerCase().includes(searchText) ||
+      (guest.email || "").toLowerCase().includes(searchText) ||
+      (guest.notes || "").toLowerCase().includes(searchText) ||
+      guest.qrCode.toLowerCase().includes(searchText) ||
+      (searchDigits.length >= 3 && phoneDigits(guest.phone).includes(searchDigits)) ||
+      customFieldSearchText(guest.customFields).includes(searchText)
+    );
   });
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Messages arrive newest first, so the first one seen per guest is the latest
+  const latestMessageByGuest = new Map<string, GuestMessage>();
+  for (const message of messages) {
+    if (!latestMessageByGuest.has(message.guestId)) {
+      latestMessageByGuest.set(message.guestId, message);
+    }
+  }
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setIsUploading(true);
-      uploadMutation.mutate(file);
+    e.target.value = "";
+    if (!file || !eventId) return;
+    setIsUploading(true);
+    try {
+      setImportPreview(await previewGuestImport(eventId, file));
+      setImportFile(file);
+    } catch (error) {
+      toast({
+        title: "فشل قراءة الملف",
+        description: error instanceof Error ? error.message : "تأكد من صيغة الملف الصحيحة",
+        variant: "destructive",
+      });
+    } finally {
       setIsUploading(false);
     }
   };
@@ -190,33 +333,93 @@ export default function EventDetailPage() {
     },
   });
 
-  const categoryLabels: Record<string, string> = {
-    vip: "VIP",
-    regular: "عادي",
-    media: "إعلام",
-    sponsor: "راعي",
+  const organizerGateMutation = useMutation({
+    mutationFn: async ({ organizerId, zoneId }: { organizerId: string; zoneId: string | null }) => {
+      await apiRequest("PATCH", `/api/events/${eventId}/organizers/${organizerId}`, { zoneId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "organizers"] });
+    },
+    onError: () => {
+      toast({
+        title: "فشل الحفظ",
+        description: "حدث خطأ أثناء تحديد بوابة المنظم",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rsvpLabels: Record<string, string> = {
+    pending: "بانتظار الرد",
+    confirmed: "مؤكد",
+    declined: "معتذر",
   };
 
+  const rsvpStyles: Record<string, string> = {
+    pending: "bg-gray-500/20 text-gray-400",
+    confirmed: "bg-green-500/20 text-green-400",
+    declined: "bg-red-500/20 text-red-400",
+  };
+
+  // Phones shared by more than one guest, flagged when the event only warns about duplicates
+  const phoneCounts = new Map<string, number>();
+  for (const guest of guests) {
+    const key = phoneMatchKey(guest.phone);
+    if (key) phoneCounts.set(key, (phoneCounts.get(key) || 0) + 1);
+  }
+
   const guestColumns = [
     { key: "name", header: "الاسم" },
-    { key: "phone", header: "الجوال" },
+    {
+      key: "phone",
+      header: "الجوال",
+      render: (guest: Guest) => (
+        <div className="flex items-center gap-2">
+          <span dir="ltr">{guest.phone}</span>
+          {(phoneCounts.get(phoneMatchKey(guest.phone)) || 0) > 1 && (
+            <Badge
+              variant="secondary"
+              className="bg-orange-500/20 text-orange-400"
+              data-testid={`badge-duplicate-phone-${guest.id}`}
+            >
+              مكرر
+            </Badge>
+          )}
+        </div>
+      ),
+    },
     {
       key: "category",
       header: "الفئة",
+      render: (guest: Guest) => <CategoryBadge categories={categories} categoryKey={guest.category} />,
+    },
+    ...(tables.length > 0
+      ? [
+          {
+            key: "table",
+            header: "الطاولة",
+            render: (guest: Guest) => (
+              <span className="text-white/80 text-sm">
+                {tables.find((t) => t.id === guest.tableId)?.name || "-"}
+              </span>
+            ),
+          },
+        ]
+      : []),
+    { key: "companions", header: "المرافقين" },
+    {
+      key: "rsvpStatus",
+      header: "التأكيد",
       render: (guest: Guest) => (
         <Badge
           variant="secondary"
-          className={`${
-            guest.category === "vip"
-              ? "bg-yellow-500/20 text-yellow-400"
-              : "bg-white/10 text-white/70"
-          }`}
+          className={rsvpStyles[guest.rsvpStatus || "pending"]}
+          data-testid={`badge-rsvp-${guest.id}`}
         >
-          {categoryLabels[guest.category || "regular"]}
+          {rsvpLabels[guest.rsvpStatus || "pending"]}
         </Badge>
       ),
     },
-    { key: "companions", header: "المرافقين" },
     {
       key: "isCheckedIn",
       header: "الحالة",
@@ -224,20 +427,43 @@ export default function EventDetailPage() {
         <Badge
           variant="secondary"
           className={`${
-            guest.isCheckedIn
+            guest.isCheckedIn && guest.checkedOutAt
+              ? "bg-orange-500/20 text-orange-400"
+              : guest.isCheckedIn
               ? "bg-green-500/20 text-green-400"
               : "bg-gray-500/20 text-gray-400"
           }`}
         >
-          {guest.isCheckedIn ? "حاضر" : "لم يحضر"}
+          {guest.isCheckedIn && guest.checkedOutAt ? "خرج" : guest.isCheckedIn ? "حاضر" : "لم يحضر"}
         </Badge>
       ),
     },
+    {
+      key: "delivery",
+      header: "الإرسال",
+      render: (guest: Guest) => {
+        const message = latestMessageByGuest.get(guest.id);
+        if (!message) {
+          return <span className="text-muted-foreground text-xs">-</span>;
+        }
+        return (
+          <Badge
+            variant="secondary"
+            className={messageStatusStyles[message.status]}
+            title={message.error || undefined}
+            data-testid={`badge-delivery-${guest.id}`}
+          >
+            {messageStatusLabels[message.status]}
+          </Badge>
+        );
+      },
+    },
     {
       key: "qrCode",
       header: "كود الدخول",
       render: (guest: Guest) => (
         <div className="flex items-center gap-2">
+          <GuestQrPreview guest={guest} />
           <code className="bg-white/10 px-2 py-1 rounded text-xs font-mono text-primary">
             {guest.qrCode}
           </code>
@@ -261,21 +487,43 @@ export default function EventDetailPage() {
       key: "actions",
       header: "الإجراءات",
       render: (guest: Guest) => (
-        <Link href={`/events/${eventId}/guests/${guest.id}/edit`}>
+        <div className="flex items-center gap-1">
+          <Link href={`/events/${eventId}/guests/${guest.id}/edit`}>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 text-muted-foreground hover:text-white"
+              data-testid={`button-edit-guest-${guest.id}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+          </Link>
           <Button
             size="icon"
             variant="ghost"
+            onClick={() => handleCopyRsvpLink(guest)}
             className="h-8 w-8 text-muted-foreground hover:text-white"
-            data-testid={`button-edit-guest-${guest.id}`}
+            title="نسخ رابط تأكيد الحضور"
+            data-testid={`button-copy-rsvp-${guest.id}`}
           >
-            <Pencil className="w-4 h-4" />
+            <Link2 className="w-4 h-4" />
           </Button>
-        </Link>
+        </div>
       ),
     },
   ];
 
   const checkedInCount = guests.filter((g) => g.isCheckedIn).length;
+  const headsPresent = guests.reduce(
+    (sum, g) => (g.isCheckedIn ? sum + 1 + (g.companionsCheckedIn || 0) : sum),
+    0
+  );
+  const headsExpected = guests.reduce((sum, g) => sum + 1 + (g.companions || 0), 0);
+  const inside = countInside(guests);
+  const confirmedGuests = guests.filter((g) => g.rsvpStatus === "confirmed");
+  const declinedCount = guests.filter((g) => g.rsvpStatus === "declined").length;
+  const awaitingCount = guests.length - confirmedGuests.length - declinedCount;
+  const confirmedCompanions = confirmedGuests.reduce((sum, g) => sum + (g.companions || 0), 0);
 
   if (isLoadingEvent) {
     return (
@@ -309,11 +557,14 @@ export default function EventDetailPage() {
             </Button>
           </Link>
           <div>
-            <h1 className="text-3xl font-bold text-white">{event.name}</h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-white">{event.name}</h1>
+              <EventStatusBadge status={event.status} />
+            </div>
             <div className="flex items-center gap-4 text-muted-foreground mt-1">
               <div className="flex items-center gap-1">
                 <Calendar className="w-4 h-4" />
-                <span>{new Date(event.date).toLocaleDateString("ar-SA")}</span>
+                <span>{formatEventDays(event)}</span>
               </div>
               {event.location && (
                 <div className="flex items-center gap-1">
@@ -332,18 +583,51 @@ export default function EventDetailPage() {
             </div>
           </div>
         </div>
-        <Link href={`/events/${eventId}/edit`}>
-          <Button
-            variant="outline"
-            className="border-white/20 text-white hover:bg-white/10"
-            data-testid="button-edit-event"
-          >
-            <Settings className="w-4 h-4 ml-2" />
-            تعديل المناسبة
-          </Button>
-        </Link>
+        <div className="flex flex-wrap items-center gap-2">
+          <EventStatusActions event={event} />
+          {!isEventReadOnly(event) && (
+            <Link href={`/events/${eventId}/edit`}>
+              <Button
+                variant="outline"
+                className="border-white/20 text-white hover:bg-white/10"
+                data-testid="button-edit-event"
+              >
+                <Settings className="w-4 h-4 ml-2" />
+                تعديل المناسبة
+              </Button>
+            </Link>
+          )}
+          <DuplicateEventDialog event={event} />
+          <SaveTemplateDialog event={event} />
+          {event.seriesId ? (
+            <Link href={`/series/${event.seriesId}`}>
+              <Button
+                variant="outline"
+                className="border-white/20 text-white hover:bg-white/10"
+                data-testid="button-view-series"
+              >
+                <Repeat className="w-4 h-4 ml-2" />
+                السلسلة
+              </Button>
+            </Link>
+          ) : (
+            !isEventReadOnly(event) && <EventSeriesDialog event={event} />
+          )}
+        </div>
       </div>
 
+      {isEventReadOnly(event) ? (
+        <div className="glass-card rounded-2xl p-4 text-muted-foreground" data-testid="text-archived">
+          المناسبة مؤرشفة: الضيوف والحضور محفوظون للتقارير، ولا يمكن تعديلها أو تسجيل الحضور فيها
+        </div>
+      ) : (
+        checkInRefusal(event) && (
+          <div className="glass-card rounded-2xl p-4 text-muted-foreground" data-testid="text-check-in-closed">
+            تسجيل الحضور مغلق الآن: {checkInRefusal(event)}
+          </div>
+        )
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -368,6 +652,12 @@ export default function EventDetailPage() {
             <span className="text-muted-foreground">الحاضرون</span>
           </div>
           <p className="text-3xl font-bold text-white">{checkedInCount}</p>
+          <p className="text-sm text-muted-foreground mt-1" data-testid="text-heads-present">
+            الأشخاص مع المرافقين: {headsPresent} من {headsExpected}
+          </p>
+          <p className="text-sm text-muted-foreground" data-testid="text-occupancy">
+            داخل الآن: {inside.people}
+          </p>
         </motion.div>
 
         <motion.div
@@ -402,6 +692,34 @@ export default function EventDetailPage() {
         </motion.div>
       </div>
 
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4 }}
+        className="glass-card rounded-2xl p-4 flex flex-wrap items-center gap-6"
+        data-testid="card-rsvp-summary"
+      >
+        <span className="text-muted-foreground">تأكيد الحضور</span>
+        <div className="flex items-center gap-2">
+          <CheckCircle2 className="w-4 h-4 text-green-500" />
+          <span className="text-white font-semibold" data-testid="text-rsvp-confirmed">{confirmedGuests.length}</span>
+          <span className="text-muted-foreground text-sm">مؤكد</span>
+          {confirmedCompanions > 0 && (
+            <span className="text-muted-foreground text-sm">(+{confirmedCompanions} مرافق)</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500" />
+          <span className="text-white font-semibold" data-testid="text-rsvp-declined">{declinedCount}</span>
+          <span className="text-muted-foreground text-sm">معتذر</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <HelpCircle className="w-4 h-4 text-gray-400" />
+          <span className="text-white font-semibold" data-testid="text-rsvp-pending">{awaitingCount}</span>
+          <span className="text-muted-foreground text-sm">بانتظار الرد</span>
+        </div>
+      </motion.div>
+
       <Tabs defaultValue="guests" className="w-full">
         <TabsList className="glass-card p-1 rounded-xl mb-6">
           <TabsTrigger
@@ -418,6 +736,66 @@ export default function EventDetailPage() {
             <UserPlus className="w-4 h-4 ml-2" />
             فريق العمل
           </TabsTrigger>
+          <TabsTrigger
+            value="messages"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+          >
+            <MessageSquare className="w-4 h-4 ml-2" />
+            الرسائل
+          </TabsTrigger>
+          <TabsTrigger
+            value="registrations"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-registrations"
+          >
+            <ClipboardList className="w-4 h-4 ml-2" />
+            التسجيل
+            {pendingRegistrations > 0 && (
+              <Badge variant="secondary" className="mr-2 bg-yellow-500/20 text-yellow-400">
+                {pendingRegistrations}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger
+            value="categories"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-categories"
+          >
+            <Tags className="w-4 h-4 ml-2" />
+            الفئات
+          </TabsTrigger>
+          <TabsTrigger
+            value="fields"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-fields"
+          >
+            <ListPlus className="w-4 h-4 ml-2" />
+            الحقول
+          </TabsTrigger>
+          <TabsTrigger
+            value="seating"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-seating"
+          >
+            <Armchair className="w-4 h-4 ml-2" />
+            الجلوس
+          </TabsTrigger>
+          <TabsTrigger
+            value="zones"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-zones"
+          >
+            <DoorOpen className="w-4 h-4 ml-2" />
+            المناطق
+          </TabsTrigger>
+          <TabsTrigger
+            value="sessions"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-sessions"
+          >
+            <CalendarDays className="w-4 h-4 ml-2" />
+            الجلسات
+          </TabsTrigger>
           <TabsTrigger
             value="reports"
             className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
@@ -433,21 +811,21 @@ export default function EventDetailPage() {
               type="file"
               ref={fileInputRef}
               onChange={handleFileUpload}
-              accept=".xlsx,.xls,.csv"
+              accept=".xlsx,.xls,.ods,.csv"
               className="hidden"
             />
             <Button
               onClick={() => fileInputRef.current?.click()}
-              disabled={isUploading || uploadMutation.isPending}
+              disabled={isUploading}
               className="gradient-primary"
               data-testid="button-upload-excel"
             >
-              {uploadMutation.isPending ? (
+              {isUploading ? (
                 <Loader2 className="w-5 h-5 ml-2 animate-spin" />
               ) : (
                 <Upload className="w-5 h-5 ml-2" />
               )}
-              رفع ملف إكسل
+              رفع قائمة الضيوف
             </Button>
             <Button
               onClick={handleExportExcel}
@@ -459,6 +837,26 @@ export default function EventDetailPage() {
               <Download className="w-5 h-5 ml-2" />
               تصدير Excel مع الأكواد
             </Button>
+            <Button
+              onClick={handleExportQrCodes}
+              variant="outline"
+              className="border-primary/50 text-primary hover:bg-primary/10"
+              disabled={guests.length === 0}
+              data-testid="button-export-qr-codes"
+            >
+              <QrCode className="w-5 h-5 ml-2" />
+              تحميل رموز QR
+            </Button>
+            <Button
+              onClick={handleExportInvitationCards}
+              variant="outline"
+              className="border-primary/50 text-primary hover:bg-primary/10"
+              disabled={guests.length === 0}
+              data-testid="button-export-invitation-cards"
+            >
+              <FileText className="w-5 h-5 ml-2" />
+              بطاقات الدعوة PDF
+            </Button>
             <Link href={`/events/${eventId}/add-guest`}>
               <Button
                 variant="outline"
@@ -470,14 +868,70 @@ export default function EventDetailPage() {
             </Link>
           </div>
 
+          <div className="flex flex-wrap gap-4">
+            <div className="relative flex-1 min-w-[240px]">
+              <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={guestSearch}
+                onChange={(e) => setGuestSearch(e.target.value)}
+                placeholder="ابحث بالاسم أو الجوال أو الكود أو الحقول الإضافية..."
+                className="glass-input h-10 rounded-xl text-white pr-10"
+                data-testid="input-guest-search"
+              />
+            </div>
+            {categories.length > 1 && (
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="glass-input h-10 rounded-xl text-white w-56" data-testid="select-category-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">جميع الفئات</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.key} value={category.key}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
           <DataTable
             columns={guestColumns}
-            data={guests}
+            data={visibleGuests}
             isLoading={isLoadingGuests}
-            emptyMessage="لا يوجد مدعوين حتى الآن"
+            emptyMessage={guests.length > 0 ? "لا يوجد ضيوف مطابقون للبحث" : "لا يوجد مدعوين حتى الآن"}
           />
         </TabsContent>
 
+        <TabsContent value="messages" className="space-y-6">
+          {eventId && <EventMessaging eventId={eventId} guests={guests} />}
+        </TabsContent>
+
+        <TabsContent value="registrations" className="space-y-6">
+          <EventRegistrations event={event} />
+        </TabsContent>
+
+        <TabsContent value="categories" className="space-y-6">
+          {eventId && <EventCategories eventId={eventId} guests={guests} />}
+        </TabsContent>
+
+        <TabsContent value="fields" className="space-y-6">
+          {eventId && <EventFields eventId={eventId} />}
+        </TabsContent>
+
+        <TabsContent value="seating" className="space-y-6">
+          {eventId && <EventSeating eventId={eventId} eventName={event.name} guests={guests} />}
+        </TabsContent>
+
+        <TabsContent value="zones" className="space-y-6">
+          {eventId && <EventZones eventId={eventId} guests={guests} />}
+        </TabsContent>
+
+        <TabsContent value="sessions" className="space-y-6">
+          <EventSessions event={event} guests={guests} />
+        </TabsContent>
+
         <TabsContent value="team" className="space-y-6">
           <div className="flex gap-4">
             <Link href={`/events/${eventId}/assign-organizers`}>
@@ -520,6 +974,36 @@ export default function EventDetailPage() {
                       <Trash2 className="w-4 h-4" />
                     </Button>
                   </div>
+                  {zones.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-muted-foreground text-sm">بوابة المسح</p>
+                      <Select
+                        value={org.zoneId || MAIN_GATE}
+                        onValueChange={(value) =>
+                          organizerGateMutation.mutate({
+                            organizerId: org.id,
+                            zoneId: value === MAIN_GATE ? null : value,
+                          })
+                        }
+                        disabled={organizerGateMutation.isPending}
+                      >
+                        <SelectTrigger
+                          className="glass-input h-10 rounded-xl text-white"
+                          data-testid={`select-organizer-gate-${org.id}`}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="glass border-white/10">
+                          <SelectItem value={MAIN_GATE}>المدخل الرئيسي</SelectItem>
+                          {zones.map((zone) => (
+                            <SelectItem key={zone.id} value={zone.id}>
+                              {zone.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -529,11 +1013,15 @@ export default function EventDetailPage() {
         <TabsContent value="reports" className="space-y-6">
           <div className="glass-card rounded-2xl p-6">
             <h3 className="text-xl font-bold text-white mb-4">البث المباشر</h3>
-            <div className="grid grid-cols-2 gap-6">
+            <div className="grid grid-cols-3 gap-6">
               <div className="text-center">
                 <p className="text-5xl font-bold text-green-500">{checkedInCount}</p>
                 <p className="text-muted-foreground mt-2">حاضر</p>
               </div>
+              <div className="text-center">
+                <p className="text-5xl font-bold text-primary" data-testid="text-live-occupancy">{inside.people}</p>
+                <p className="text-muted-foreground mt-2">داخل الآن</p>
+              </div>
               <div className="text-center">
                 <p className="text-5xl font-bold text-gray-400">
                   {guests.length - checkedInCount}
@@ -541,6 +1029,13 @@ export default function EventDetailPage() {
                 <p className="text-muted-foreground mt-2">لم يحضر</p>
               </div>
             </div>
+            {runningSession && (
+              <p className="text-muted-foreground text-center mt-4" data-testid="text-running-session">
+                الجلسة الجارية: {runningSession.name}
+                {runningSession.room && ` (${runningSession.room})`} - حضرها {runningSession.attendedCount} من{" "}
+                {runningSession.capacity ?? guests.length}
+              </p>
+            )}
           </div>
 
           <div className="flex flex-wrap gap-4">
@@ -571,9 +1066,41 @@ export default function EventDetailPage() {
               <Download className="w-5 h-5 ml-2" />
               سجل العمليات
             </Button>
+            <Button
+              variant="outline"
+              className="border-white/20 text-white"
+              onClick={() => handleDownloadReport("movements")}
+              data-testid="button-report-movements"
+            >
+              <Download className="w-5 h-5 ml-2" />
+              سجل الدخول والخروج
+            </Button>
+            {sessions.length > 0 && (
+              <Button
+                variant="outline"
+                className="border-white/20 text-white"
+                onClick={() => handleDownloadReport("sessions")}
+                data-testid="button-report-sessions"
+              >
+                <Download className="w-5 h-5 ml-2" />
+                تقرير الجلسات
+              </Button>
+            )}
           </div>
         </TabsContent>
       </Tabs>
+
+      {eventId && importFile && importPreview && (
+        <GuestImportDialog
+          eventId={eventId}
+          file={importFile}
+          initialPreview={importPreview}
+          onClose={() => {
+            setImportFile(null);
+            setImportPreview(null);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,163 @@
+import { motion } from "framer-motion";
+import { useRoute, Link } from "wouter";
+import { ArrowRight, Loader2, Repeat, Users, UserCheck, BarChart3, CalendarDays } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { EventStatusBadge } from "@/components/event-status";
+import { useEventSeries } from "@/components/event-series";
+import { RECURRENCE_LABELS, attendanceRate } from "@shared/recurrence";
+import { formatEventDays } from "@shared/sessions";
+
+export default function EventSeriesPage() {
+  const [, params] = useRoute("/series/:id");
+  const seriesId = params?.id;
+  const { data: series, isLoading } = useEventSeries(seriesId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!series) {
+    return (
+      <div className="glass-card rounded-2xl p-12 text-center">
+        <p className="text-muted-foreground text-lg">السلسلة غير موجودة</p>
+        <Link href="/events">
+          <Button variant="outline" className="mt-4">
+            <ArrowRight className="w-4 h-4 ml-2" />
+            العودة للمناسبات
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { totals, occurrences } = series;
+  const held = occurrences.filter((o) => o.checkedInCount > 0);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4 mb-6">
+        <Link href="/events">
+          <Button variant="ghost" size="icon" className="text-muted-foreground">
+            <ArrowRight className="w-5 h-5" />
+          </Button>
+        </Link>
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-white">{series.name}</h1>
+            <Badge variant="secondary" className="border-none bg-primary/20 text-primary" data-testid="badge-recurrence">
+              <Repeat className="w-3 h-3 ml-1" />
+              {RECURRENCE_LABELS[series.recurrence]}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground mt-1">حضور مناسبات السلسلة مجتمعة</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-2xl p-6"
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <CalendarDays className="w-5 h-5 text-primary" />
+            <span className="text-muted-foreground">المناسبات</span>
+          </div>
+          <p className="text-3xl font-bold text-white" data-testid="text-series-occurrences">{occurrences.length}</p>
+          <p className="text-sm text-muted-foreground mt-1">سُجل فيها حضور: {held.length}</p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass-card rounded-2xl p-6"
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <Users className="w-5 h-5 text-blue-400" />
+            <span className="text-muted-foreground">إجمالي الدعوات</span>
+          </div>
+          <p className="text-3xl font-bold text-white" data-testid="text-series-guests">{totals.guestCount}</p>
+          <p className="text-sm text-muted-foreground mt-1">مع المرافقين: {totals.expectedPeople}</p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass-card rounded-2xl p-6"
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <UserCheck className="w-5 h-5 text-green-500" />
+            <span className="text-muted-foreground">إجمالي الحضور</span>
+          </div>
+          <p className="text-3xl font-bold text-white" data-testid="text-series-checked-in">{totals.checkedInCount}</p>
+          <p className="text-sm text-muted-foreground mt-1">مع المرافقين: {totals.admittedPeople}</p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="glass-card rounded-2xl p-6"
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <BarChart3 className="w-5 h-5 text-yellow-500" />
+            <span className="text-muted-foreground">نسبة الحضور</span>
+          </div>
+          <p className="text-3xl font-bold text-white" data-testid="text-series-rate">{attendanceRate(totals)}%</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            متوسط المناسبات المنعقدة: {held.length > 0 ? Math.round(held.reduce((sum, o) => sum + attendanceRate(o), 0) / held.length) : 0}%
+          </p>
+        </motion.div>
+      </div>
+
+      <div className="glass-card rounded-2xl p-6">
+        <h2 className="text-xl font-bold text-white mb-4">مناسبات السلسلة</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-white">
+            <thead className="text-white/60 border-b border-white/20">
+              <tr>
+                <th className="text-right py-2 px-4">التاريخ</th>
+                <th className="text-right py-2 px-4">المناسبة</th>
+                <th className="text-right py-2 px-4">الحالة</th>
+                <th className="text-right py-2 px-4">الضيوف</th>
+                <th className="text-right py-2 px-4">الحاضرون</th>
+                <th className="text-right py-2 px-4">نسبة الحضور</th>
+              </tr>
+            </thead>
+            <tbody>
+              {occurrences.map((occurrence) => (
+                <tr key={occurrence.id} className="border-b border-white/10" data-testid={`row-occurrence-${occurrence.id}`}>
+                  <td className="py-2 px-4">{formatEventDays(occurrence)}</td>
+                  <td className="py-2 px-4">
+                    <Link href={`/events/${occurrence.id}`} className="hover:text-primary">
+                      {occurrence.name}
+                    </Link>
+                  </td>
+                  <td className="py-2 px-4">
+                    <EventStatusBadge status={occurrence.status} />
+                  </td>
+                  <td className="py-2 px-4">{occurrence.guestCount}</td>
+                  <td className="py-2 px-4">{occurrence.checkedInCount}</td>
+                  <td className="py-2 px-4">
+                    <div className="flex items-center gap-2">
+                      <Progress value={attendanceRate(occurrence)} className="h-2 w-24" />
+                      <span className="text-sm">{attendanceRate(occurrence)}%</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { Calendar, Users, Plus, Search, MoreVertical, Eye, Edit, Trash2 } from "lucide-react";
+import { Calendar, Users, Plus, Search, MoreVertical, Eye, Edit, Trash2, Repeat } from "lucide-react";
 import { Link } from "wouter";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
+import { EventStatusBadge } from "@/components/event-status";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -153,6 +153,7 @@ function EventCard({ event, index, isPast }: { event: Event; index: number; isPa
           month: "long",
           day: "numeric",
         })}
+        {event.endDate && ` - ${new Date(event.endDate).toLocaleDateString("ar-SA", { month: "long", day: "numeric" })}`}
       </p>
 
       {event.location && (
@@ -160,16 +161,15 @@ function EventCard({ event, index, isPast }: { event: Event; index: number; isPa
       )}
 
       <div className="flex items-center justify-between pt-4 border-t border-white/10">
-        <Badge
-          variant="secondary"
-          className={`${
-            event.isActive
-              ? "bg-green-500/20 text-green-400"
-              : "bg-gray-500/20 text-gray-400"
-          }`}
-        >
-          {event.isActive ? "نشط" : "غير نشط"}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <EventStatusBadge status={event.status} />
+          {event.seriesId && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="text-series-occurrence">
+              <Repeat className="w-3 h-3" />
+              سلسلة
+            </span>
+          )}
+        </div>
         <Link href={`/events/${event.id}`}>
           <Button variant="ghost" size="sm" className="text-primary">
             عرض التفاصيل
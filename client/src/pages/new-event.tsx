@@ -1,9 +1,10 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { useLocation } from "wouter";
-import { Calendar, MapPin, Clock, Loader2, ArrowRight, Package, AlertCircle, Infinity } from "lucide-react";
+import { Calendar, MapPin, Clock, Loader2, ArrowRight, Package, AlertCircle, Infinity, Trash2 } from "lucide-react";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -28,6 +29,9 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
 import { useAuth } from "@/lib/auth";
 import { Card, CardContent } from "@/components/ui/card";
+import type { EventTemplate, ReentryPolicy } from "@shared/schema";
+import { REENTRY_POLICY_LABELS } from "@shared/occupancy";
+import { useEventTemplates, deleteEventTemplate } from "@/components/event-copy";
 
 interface CapacityTier {
   id: string;
@@ -48,10 +52,19 @@ const eventFormSchema = z.object({
   name: z.string().min(1, "اسم المناسبة مطلوب"),
   description: z.string().optional(),
   date: z.string().min(1, "تاريخ المناسبة مطلوب"),
+  endDate: z.string().optional(),
   location: z.string().optional(),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  rsvpMaxCompanions: z.number().min(0).default(0),
+  duplicatePhoneMode: z.enum(["warn", "merge"]).default("warn"),
+  reentryPolicy: z.enum(["allowed", "disallowed", "limited"]).default("allowed"),
+  reentryLimit: z.number().int().min(1, "يجب السماح بمرة واحدة على الأقل").default(1),
+  checkInGraceMinutes: z.number().int().min(0, "المهلة لا تكون سالبة").default(60),
   capacityTierId: z.string().optional(),
+}).refine((data) => !data.endDate || data.endDate >= data.date, {
+  message: "تاريخ النهاية يجب أن يكون بعد تاريخ البداية أو مثله",
+  path: ["endDate"],
 });
 
 type EventFormData = z.infer<typeof eventFormSchema>;
@@ -70,15 +83,24 @@ export default function NewEventPage() {
     enabled: user?.role === "event_manager",
   });
 
+  const { data: templates = [] } = useEventTemplates();
+  const [templateId, setTemplateId] = useState("");
+
   const form = useForm<EventFormData>({
     resolver: zodResolver(eventFormSchema),
     defaultValues: {
       name: "",
       description: "",
       date: "",
+      endDate: "",
       location: "",
       startTime: "",
       endTime: "",
+      rsvpMaxCompanions: 0,
+      duplicatePhoneMode: "warn",
+      reentryPolicy: "allowed",
+      reentryLimit: 1,
+      checkInGraceMinutes: 60,
       capacityTierId: "",
     },
   });
@@ -88,14 +110,16 @@ export default function NewEventPage() {
       const res = await apiRequest("POST", "/api/events", {
         ...data,
         date: new Date(data.date).toISOString(),
+        endDate: data.endDate ? new Date(data.endDate).toISOString() : null,
         capacityTierId: data.capacityTierId || null,
+        templateId: templateId || undefined,
       });
       return res.json();
     },
     onSuccess: (data) => {
       toast({
         title: "تم إنشاء المناسبة",
-        description: "تم إنشاء المناسبة بنجاح",
+        description: "أُنشئت المناسبة كمسودة، انشرها عندما تصبح جاهزة",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       setLocation(`/events/${data.id}`);
@@ -109,10 +133,40 @@ export default function NewEventPage() {
     },
   });
 
+  const deleteTemplateMutation = useMutation({
+    mutationFn: deleteEventTemplate,
+    onSuccess: () => {
+      setTemplateId("");
+      toast({ title: "تم حذف القالب" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل حذف القالب", description: error.message, variant: "destructive" });
+    },
+  });
+
   const onSubmit = (data: EventFormData) => {
     createMutation.mutate(data);
   };
 
+  // Fill the form with a template's settings, keeping the name and days typed so far
+  const applyTemplate = (template: EventTemplate) => {
+    const { settings } = template;
+    setTemplateId(template.id);
+    form.reset({
+      ...form.getValues(),
+      description: settings.description ?? "",
+      location: settings.location ?? "",
+      startTime: settings.startTime ?? "",
+      endTime: settings.endTime ?? "",
+      rsvpMaxCompanions: settings.rsvpMaxCompanions ?? 0,
+      duplicatePhoneMode: settings.duplicatePhoneMode,
+      reentryPolicy: settings.reentryPolicy,
+      reentryLimit: settings.reentryLimit,
+      checkInGraceMinutes: settings.checkInGraceMinutes,
+      capacityTierId: settings.capacityTierId ?? "",
+    });
+  };
+
   // Check if user has exceeded quota
   const isQuotaExceeded = quotaInfo?.hasQuota && quotaInfo.remainingQuota <= 0;
 
@@ -160,6 +214,50 @@ export default function NewEventPage() {
         animate={{ opacity: 1, y: 0 }}
         className="glass-card rounded-2xl p-8"
       >
+        {templates.length > 0 && (
+          <div className="space-y-2 mb-6 pb-6 border-b border-white/10">
+            <p className="text-white text-sm font-medium">ابدأ من قالب</p>
+            <div className="flex gap-2">
+              <Select
+                value={templateId}
+                onValueChange={(id) => {
+                  const template = templates.find((t) => t.id === id);
+                  if (template) applyTemplate(template);
+                }}
+              >
+                <SelectTrigger className="glass-input h-12 rounded-xl text-white flex-1" data-testid="select-event-template">
+                  <SelectValue placeholder="اختر قالباً محفوظاً" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templateId && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-12 w-12 text-red-400"
+                  onClick={() => deleteTemplateMutation.mutate(templateId)}
+                  disabled={deleteTemplateMutation.isPending}
+                  data-testid="button-delete-template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {templateId && (
+              <p className="text-muted-foreground text-sm">
+                تُضاف فئات القالب وحقوله ومناطقه وقوالب رسائله إلى المناسبة عند إنشائها
+              </p>
+            )}
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <FormField
@@ -222,6 +320,25 @@ export default function NewEventPage() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">تاريخ النهاية (للمناسبات متعددة الأيام)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="date"
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="input-event-end-date"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="location"
@@ -290,6 +407,127 @@ export default function NewEventPage() {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="rsvpMaxCompanions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">الحد الأقصى للمرافقين عند تأكيد الحضور</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="input-event-rsvp-max-companions"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="duplicatePhoneMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">عند تكرار رقم الجوال</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger
+                        className="glass-input h-12 rounded-xl text-white border-white/10"
+                        data-testid="select-duplicate-phone-mode"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="glass-card border-white/10">
+                      <SelectItem value="warn" className="text-white">إضافة الضيف مع التنبيه</SelectItem>
+                      <SelectItem value="merge" className="text-white">دمج البيانات مع الضيف الموجود</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reentryPolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">إعادة الدخول بعد تسجيل الخروج</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger
+                        className="glass-input h-12 rounded-xl text-white border-white/10"
+                        data-testid="select-reentry-policy"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="glass-card border-white/10">
+                      {(Object.keys(REENTRY_POLICY_LABELS) as ReentryPolicy[]).map((policy) => (
+                        <SelectItem key={policy} value={policy} className="text-white">
+                          {REENTRY_POLICY_LABELS[policy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("reentryPolicy") === "limited" && (
+              <FormField
+                control={form.control}
+                name="reentryLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">عدد مرات إعادة الدخول المسموحة لكل ضيف</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        className="glass-input h-12 rounded-xl text-white"
+                        data-testid="input-event-reentry-limit"
+                      />
+                    </FormControl>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="checkInGraceMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">مهلة تسجيل الحضور (بالدقائق)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="input-event-grace-minutes"
+                    />
+                  </FormControl>
+                  <p className="text-muted-foreground text-sm">
+                    يُفتح تسجيل الحضور قبل موعد البداية بهذه المدة، ويبقى مفتوحاً بعد إغلاق المناسبة بالمدة نفسها
+                  </p>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
             {/* Capacity Tier Selection - Required for Event Managers */}
             {capacityTiers.length > 0 && (
               <FormField
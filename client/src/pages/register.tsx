@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { Calendar, Clock, MapPin, Loader2, XCircle, CheckCircle2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicRegistrationEvent } from "@shared/schema";
+import { formatEventDays } from "@shared/sessions";
+
+async function fetchRegistrationEvent(token: string): Promise<PublicRegistrationEvent> {
+  const res = await fetch(`/api/register/${token}`);
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "رابط التسجيل غير صالح");
+  }
+  return data;
+}
+
+export default function RegisterPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  // Blank until chosen; the server then uses the event's first category
+  const [category, setCategory] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const { data: event, isLoading, error } = useQuery<PublicRegistrationEvent>({
+    queryKey: ["/api/register", token],
+    queryFn: () => fetchRegistrationEvent(token),
+    enabled: !!token,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/register/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, phone, category }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "فشل إرسال الطلب");
+      }
+      return data;
+    },
+    onSuccess: () => setSubmitted(true),
+    onError: (error: Error) => {
+      toast({ title: "تعذر إرسال الطلب", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen gradient-bg flex items-center justify-center">
+        <Loader2 className="w-12 h-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !event) {
+    return (
+      <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+        <div className="glass-card rounded-3xl p-8 max-w-md w-full text-center">
+          <XCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+          <p className="text-white text-lg" data-testid="text-register-error">
+            {error instanceof Error ? error.message : "رابط التسجيل غير صالح"}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-1/4 right-1/4 w-96 h-96 bg-purple-500/20 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 left-1/4 w-80 h-80 bg-violet-600/15 rounded-full blur-3xl" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ duration: 0.5, ease: "easeOut" }}
+        className="relative w-full max-w-md"
+      >
+        <div className="glass-card rounded-3xl p-8 shadow-2xl space-y-6">
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary mb-4 glow-primary">
+              <UserPlus className="w-8 h-8 text-white" />
+            </div>
+            <p className="text-muted-foreground mb-1">التسجيل في</p>
+            <h1 className="text-2xl font-bold text-white" data-testid="text-register-event-name">
+              {event.name}
+            </h1>
+            {event.description && (
+              <p className="text-white/70 mt-2 text-sm">{event.description}</p>
+            )}
+          </div>
+
+          <div className="space-y-2 text-white/80 text-sm">
+            <div className="flex items-center gap-2">
+              <Calendar className="w-4 h-4 text-primary" />
+              <span>{formatEventDays(event)}</span>
+            </div>
+            {event.startTime && (
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-primary" />
+                <span>
+                  {event.startTime}
+                  {event.endTime && ` - ${event.endTime}`}
+                </span>
+              </div>
+            )}
+            {event.location && (
+              <div className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-primary" />
+                <span>{event.location}</span>
+              </div>
+            )}
+          </div>
+
+          {submitted ? (
+            <div
+              className="rounded-2xl p-4 text-center bg-green-500/10 border border-green-500/20"
+              data-testid="text-register-submitted"
+            >
+              <CheckCircle2 className="w-8 h-8 text-green-400 mx-auto mb-2" />
+              <p className="text-white font-semibold">تم استلام طلبك</p>
+              <p className="text-white/70 text-sm mt-1">سيصلك كود الدخول بعد موافقة منظم المناسبة</p>
+            </div>
+          ) : !event.isOpen ? (
+            <p className="text-center text-muted-foreground" data-testid="text-register-closed">
+              التسجيل مغلق لهذه المناسبة
+            </p>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label className="text-white/90">الاسم *</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid="input-register-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white/90">رقم الجوال *</Label>
+                <Input
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  type="tel"
+                  dir="ltr"
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid="input-register-phone"
+                />
+              </div>
+              {event.categories.length > 1 && (
+                <div className="space-y-2">
+                  <Label className="text-white/90">الفئة</Label>
+                  <Select value={category || event.categories[0].key} onValueChange={setCategory}>
+                    <SelectTrigger
+                      className="glass-input h-12 rounded-xl text-white"
+                      data-testid="select-register-category"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="glass border-white/10">
+                      {event.categories.map((c) => (
+                        <SelectItem key={c.key} value={c.key}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <Button
+                type="submit"
+                disabled={!name.trim() || !phone.trim() || submitMutation.isPending}
+                className="w-full h-12 rounded-xl gradient-primary text-white glow-primary"
+                data-testid="button-register-submit"
+              >
+                {submitMutation.isPending && <Loader2 className="w-5 h-5 animate-spin ml-2" />}
+                إرسال طلب التسجيل
+              </Button>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
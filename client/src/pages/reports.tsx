@@ -46,6 +46,8 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { CategoryBadge } from "@/components/event-categories";
+import type { CategoryCount } from "@shared/schema";
 
 type ReportType = "admin" | "eventManager" | "events" | "guests" | "audit";
 
@@ -352,6 +354,9 @@ export default function ReportsPage() {
                 <CardContent className="pt-6 text-center">
                   <div className="text-3xl font-bold text-white">{reportData.summary.checkedInGuests}</div>
                   <div className="text-white/60">الحاضرون</div>
+                  {reportData.summary.heads && (
+                    <div className="text-white/40 text-xs mt-1">{reportData.summary.heads.present} شخص مع المرافقين</div>
+                  )}
                 </CardContent>
               </Card>
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -376,8 +381,7 @@ export default function ReportsPage() {
                           <th className="text-right py-2 px-4">التاريخ</th>
                           <th className="text-right py-2 px-4">الضيوف</th>
                           <th className="text-right py-2 px-4">الحاضرون</th>
-                          <th className="text-right py-2 px-4">VIP</th>
-                          <th className="text-right py-2 px-4">عادي</th>
+                          <th className="text-right py-2 px-4">الفئات</th>
                         </tr>
                       </thead>
                       <tbody>
@@ -387,8 +391,21 @@ export default function ReportsPage() {
                             <td className="py-2 px-4">{new Date(e.date).toLocaleDateString("ar-SA")}</td>
                             <td className="py-2 px-4">{e.totalGuests}</td>
                             <td className="py-2 px-4">{e.checkedIn}</td>
-                            <td className="py-2 px-4">{e.categoryBreakdown?.vip || 0}</td>
-                            <td className="py-2 px-4">{e.categoryBreakdown?.regular || 0}</td>
+                            <td className="py-2 px-4">
+                              <div className="flex flex-wrap gap-1">
+                                {(e.categoryBreakdown as CategoryCount[] | undefined)
+                                  ?.filter((c) => c.count > 0)
+                                  .map((c) => (
+                                    <Badge
+                                      key={c.key}
+                                      className="border-none"
+                                      style={{ backgroundColor: `${c.color}33`, color: c.color }}
+                                    >
+                                      {c.name}: {c.count}
+                                    </Badge>
+                                  ))}
+                              </div>
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -450,6 +467,8 @@ export default function ReportsPage() {
                         <th className="text-right py-2 px-4">الموقع</th>
                         <th className="text-right py-2 px-4">مدير المناسبة</th>
                         <th className="text-right py-2 px-4">الضيوف</th>
+                        <th className="text-right py-2 px-4">المؤكدون</th>
+                        <th className="text-right py-2 px-4">المعتذرون</th>
                         <th className="text-right py-2 px-4">الحاضرون</th>
                         <th className="text-right py-2 px-4">النسبة</th>
                       </tr>
@@ -462,6 +481,8 @@ export default function ReportsPage() {
                           <td className="py-2 px-4">{e.location}</td>
                           <td className="py-2 px-4">{e.managerName}</td>
                           <td className="py-2 px-4">{e.totalGuests}</td>
+                          <td className="py-2 px-4">{e.rsvpBreakdown?.confirmed || 0}</td>
+                          <td className="py-2 px-4">{e.rsvpBreakdown?.declined || 0}</td>
                           <td className="py-2 px-4">{e.checkedIn}</td>
                           <td className="py-2 px-4">{e.checkInRate}%</td>
                         </tr>
@@ -512,35 +533,44 @@ export default function ReportsPage() {
               </Card>
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
                 <CardContent className="pt-6 text-center">
-                  <div className="text-3xl font-bold text-white">{reportData.summary.totalCompanions}</div>
-                  <div className="text-white/60">المرافقون</div>
+                  <div className="text-3xl font-bold text-white">{reportData.summary.companionsCheckedIn ?? 0}/{reportData.summary.totalCompanions}</div>
+                  <div className="text-white/60">المرافقون الحاضرون</div>
                 </CardContent>
               </Card>
             </div>
 
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <Card className="bg-yellow-500/10 backdrop-blur-sm border-yellow-500/20">
-                <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-yellow-300">{reportData.summary.categoryBreakdown?.vip || 0}</div>
-                  <div className="text-yellow-200/60">VIP</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-blue-500/10 backdrop-blur-sm border-blue-500/20">
+              {(reportData.summary.categoryBreakdown as CategoryCount[] | undefined)?.map((c) => (
+                <Card
+                  key={c.key}
+                  className="backdrop-blur-sm"
+                  style={{ backgroundColor: `${c.color}1A`, borderColor: `${c.color}33` }}
+                >
+                  <CardContent className="pt-6 text-center">
+                    <div className="text-2xl font-bold" style={{ color: c.color }}>{c.count}</div>
+                    <div className="text-white/60">{c.name}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <Card className="bg-green-500/10 backdrop-blur-sm border-green-500/20">
                 <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-blue-300">{reportData.summary.categoryBreakdown?.regular || 0}</div>
-                  <div className="text-blue-200/60">عادي</div>
+                  <div className="text-2xl font-bold text-green-300">{reportData.summary.rsvpBreakdown?.confirmed || 0}</div>
+                  <div className="text-green-200/60">أكدوا الحضور</div>
                 </CardContent>
               </Card>
-              <Card className="bg-purple-500/10 backdrop-blur-sm border-purple-500/20">
+              <Card className="bg-red-500/10 backdrop-blur-sm border-red-500/20">
                 <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-purple-300">{reportData.summary.categoryBreakdown?.media || 0}</div>
-                  <div className="text-purple-200/60">إعلام</div>
+                  <div className="text-2xl font-bold text-red-300">{reportData.summary.rsvpBreakdown?.declined || 0}</div>
+                  <div className="text-red-200/60">اعتذروا</div>
                 </CardContent>
               </Card>
-              <Card className="bg-green-500/10 backdrop-blur-sm border-green-500/20">
+              <Card className="bg-white/10 backdrop-blur-sm border-white/20">
                 <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-green-300">{reportData.summary.categoryBreakdown?.sponsor || 0}</div>
-                  <div className="text-green-200/60">راعي</div>
+                  <div className="text-2xl font-bold text-white">{reportData.summary.rsvpBreakdown?.pending || 0}</div>
+                  <div className="text-white/60">بانتظار الرد</div>
                 </CardContent>
               </Card>
             </div>
@@ -558,6 +588,10 @@ export default function ReportsPage() {
                         <th className="text-right py-2 px-4">الهاتف</th>
                         <th className="text-right py-2 px-4">الفئة</th>
                         <th className="text-right py-2 px-4">المرافقين</th>
+                        {reportData.fields?.map((label: string) => (
+                          <th key={label} className="text-right py-2 px-4">{label}</th>
+                        ))}
+                        <th className="text-right py-2 px-4">التأكيد</th>
                         <th className="text-right py-2 px-4">الحالة</th>
                         <th className="text-right py-2 px-4">وقت الحضور</th>
                       </tr>
@@ -567,19 +601,26 @@ export default function ReportsPage() {
                         <tr key={g.id} className="border-b border-white/10">
                           <td className="py-2 px-4">{g.name}</td>
                           <td className="py-2 px-4" dir="ltr">{g.phone || "-"}</td>
+                          <td className="py-2 px-4">
+                            <CategoryBadge
+                              categories={reportData.summary.categoryBreakdown || []}
+                              categoryKey={g.category}
+                            />
+                          </td>
+                          <td className="py-2 px-4">{g.companions || 0}</td>
+                          {reportData.fields?.map((label: string) => (
+                            <td key={label} className="py-2 px-4">{g.customFields?.[label] || "-"}</td>
+                          ))}
                           <td className="py-2 px-4">
                             <Badge className={
-                              g.category === "vip" ? "bg-yellow-500/20 text-yellow-300" :
-                              g.category === "media" ? "bg-purple-500/20 text-purple-300" :
-                              g.category === "sponsor" ? "bg-green-500/20 text-green-300" :
-                              "bg-blue-500/20 text-blue-300"
+                              g.rsvpStatus === "confirmed" ? "bg-green-500/20 text-green-300" :
+                              g.rsvpStatus === "declined" ? "bg-red-500/20 text-red-300" :
+                              "bg-gray-500/20 text-gray-300"
                             }>
-                              {g.category === "vip" ? "VIP" : 
-                               g.category === "media" ? "إعلام" :
-                               g.category === "sponsor" ? "راعي" : "عادي"}
+                              {g.rsvpStatus === "confirmed" ? "مؤكد" :
+                               g.rsvpStatus === "declined" ? "معتذر" : "بانتظار الرد"}
                             </Badge>
                           </td>
-                          <td className="py-2 px-4">{g.companions || 0}</td>
                           <td className="py-2 px-4">
                             <Badge className={g.isCheckedIn ? "bg-green-500/20 text-green-300" : "bg-gray-500/20 text-gray-300"}>
                               {g.isCheckedIn ? "حاضر" : "غير حاضر"}
@@ -659,15 +700,37 @@ export default function ReportsPage() {
                           <td className="py-2 px-4">{l.userName}</td>
                           <td className="py-2 px-4">
                             <Badge className={
-                              l.action === "check_in" ? "bg-green-500/20 text-green-300" :
+                              l.action === "check_in" || l.action === "companions_check_in" ? "bg-green-500/20 text-green-300" :
+                              l.action === "duplicate_check_in" ? "bg-red-500/20 text-red-300" :
                               l.action === "create_event" ? "bg-blue-500/20 text-blue-300" :
                               "bg-purple-500/20 text-purple-300"
                             }>
                               {l.action === "check_in" ? "تسجيل حضور" :
+                               l.action === "companions_check_in" ? "دخول مرافقين" :
+                               l.action === "duplicate_check_in" ? "محاولة دخول مكررة" :
                                l.action === "create_event" ? "إنشاء مناسبة" :
                                l.action === "update_event" ? "تحديث مناسبة" :
                                l.action === "create_guest" ? "إضافة ضيف" :
-                               l.action === "upload_guests" ? "رفع ضيوف" : l.action}
+                               l.action === "upload_guests" ? "رفع ضيوف" :
+                               l.action === "send_invitations" ? "إرسال دعوات" :
+                               l.action === "send_email" ? "إرسال بريد" :
+                               l.action === "approve_registrations" ? "قبول طلبات تسجيل" :
+                               l.action === "reject_registrations" ? "رفض طلبات تسجيل" :
+                               l.action === "assign_seats" ? "توزيع المقاعد" :
+                               l.action === "zone_entry" ? "دخول منطقة" :
+                               l.action === "duplicate_zone_entry" ? "محاولة دخول منطقة مكررة" :
+                               l.action === "zone_denied" ? "رفض دخول منطقة" :
+                               l.action === "check_out" ? "تسجيل خروج" :
+                               l.action === "reentry" ? "إعادة دخول" :
+                               l.action === "reentry_denied" ? "رفض إعادة دخول" :
+                               l.action === "session_check_in" ? "حضور جلسة" :
+                               l.action === "session_full" ? "رفض دخول جلسة ممتلئة" :
+                               l.action === "session_registrations" ? "تسجيل مسبق في جلسة" :
+                               l.action === "event_status" ? "تغيير حالة المناسبة" :
+                               l.action === "duplicate_event" ? "نسخ المناسبة" :
+                               l.action === "save_event_template" ? "حفظ قالب مناسبة" :
+                               l.action === "create_series" ? "تكرار المناسبة" :
+                               l.action === "series_update" ? "تعديل مناسبات السلسلة" : l.action}
                             </Badge>
                           </td>
                           <td className="py-2 px-4">{l.eventName}</td>
@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import {
+  Calendar,
+  Clock,
+  MapPin,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Users,
+  MailQuestion,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { PublicRsvp } from "@shared/schema";
+import { formatEventDays } from "@shared/sessions";
+
+// Public endpoints return {error}; surface that text instead of the status line
+async function rsvpRequest(token: string, body?: unknown): Promise<PublicRsvp> {
+  const res = await fetch(`/api/rsvp/${token}`, {
+    method: body ? "POST" : "GET",
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "حدث خطأ، يرجى المحاولة مرة أخرى");
+  }
+  return data;
+}
+
+export default function RsvpPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [companions, setCompanions] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: rsvp, isLoading, error } = useQuery<PublicRsvp>({
+    queryKey: ["/api/rsvp", token],
+    queryFn: () => rsvpRequest(token),
+    enabled: !!token,
+  });
+
+  useEffect(() => {
+    if (rsvp) {
+      setCompanions(rsvp.guest.companions);
+    }
+  }, [rsvp]);
+
+  const respondMutation = useMutation({
+    mutationFn: (status: "confirmed" | "declined") =>
+      rsvpRequest(token, { status, companions }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/rsvp", token], data);
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "تعذر حفظ الرد",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen gradient-bg flex items-center justify-center">
+        <Loader2 className="w-12 h-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !rsvp) {
+    return (
+      <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+        <div className="glass-card rounded-3xl p-8 max-w-md w-full text-center">
+          <XCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+          <p className="text-white text-lg" data-testid="text-rsvp-error">
+            {error instanceof Error ? error.message : "رابط التأكيد غير صالح"}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { guest, event, maxCompanions, isOpen } = rsvp;
+  const hasAnswered = guest.rsvpStatus !== "pending";
+  const showForm = isOpen && (!hasAnswered || isEditing);
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-1/4 right-1/4 w-96 h-96 bg-purple-500/20 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 left-1/4 w-80 h-80 bg-violet-600/15 rounded-full blur-3xl" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ duration: 0.5, ease: "easeOut" }}
+        className="relative w-full max-w-md"
+      >
+        <div className="glass-card rounded-3xl p-8 shadow-2xl space-y-6">
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary mb-4 glow-primary">
+              <MailQuestion className="w-8 h-8 text-white" />
+            </div>
+            <p className="text-muted-foreground mb-1">مرحباً {guest.name}</p>
+            <h1 className="text-2xl font-bold text-white" data-testid="text-rsvp-event-name">
+              {event.name}
+            </h1>
+            {event.description && (
+              <p className="text-white/70 mt-2 text-sm">{event.description}</p>
+            )}
+          </div>
+
+          <div className="space-y-2 text-white/80 text-sm">
+            <div className="flex items-center gap-2">
+              <Calendar className="w-4 h-4 text-primary" />
+              <span>{formatEventDays(event)}</span>
+            </div>
+            {event.startTime && (
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-primary" />
+                <span>
+                  {event.startTime}
+                  {event.endTime && ` - ${event.endTime}`}
+                </span>
+              </div>
+            )}
+            {event.location && (
+              <div className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-primary" />
+                <span>{event.location}</span>
+              </div>
+            )}
+          </div>
+
+          {hasAnswered && !isEditing && (
+            <div
+              className={`rounded-2xl p-4 text-center ${
+                guest.rsvpStatus === "confirmed"
+                  ? "bg-green-500/10 border border-green-500/20"
+                  : "bg-red-500/10 border border-red-500/20"
+              }`}
+              data-testid="text-rsvp-status"
+            >
+              {guest.rsvpStatus === "confirmed" ? (
+                <>
+                  <CheckCircle2 className="w-8 h-8 text-green-400 mx-auto mb-2" />
+                  <p className="text-white font-semibold">تم تأكيد حضورك، نتطلع لرؤيتك</p>
+                  {guest.companions > 0 && (
+                    <p className="text-white/70 text-sm mt-1">عدد المرافقين: {guest.companions}</p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
+                  <p className="text-white font-semibold">تم تسجيل اعتذارك، شكراً لإبلاغنا</p>
+                </>
+              )}
+            </div>
+          )}
+
+          {!isOpen && (
+            <p className="text-center text-muted-foreground" data-testid="text-rsvp-closed">
+              انتهت فترة تأكيد الحضور لهذه المناسبة
+            </p>
+          )}
+
+          {isOpen && hasAnswered && !isEditing && (
+            <Button
+              variant="outline"
+              onClick={() => setIsEditing(true)}
+              className="w-full border-white/20 text-white hover:bg-white/10"
+              data-testid="button-rsvp-change"
+            >
+              تغيير الرد
+            </Button>
+          )}
+
+          {showForm && (
+            <div className="space-y-4">
+              {maxCompanions > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-white/90 flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    عدد المرافقين (حتى {maxCompanions})
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={maxCompanions}
+                    value={companions}
+                    onChange={(e) =>
+                      setCompanions(Math.min(maxCompanions, Math.max(0, parseInt(e.target.value) || 0)))
+                    }
+                    className="glass-input h-12 rounded-xl text-white"
+                    data-testid="input-rsvp-companions"
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  onClick={() => respondMutation.mutate("confirmed")}
+                  disabled={respondMutation.isPending}
+                  className="h-12 rounded-xl gradient-primary text-white glow-primary"
+                  data-testid="button-rsvp-confirm"
+                >
+                  {respondMutation.isPending && respondMutation.variables === "confirmed" ? (
+                    <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                  ) : (
+                    <CheckCircle2 className="w-5 h-5 ml-2" />
+                  )}
+                  تأكيد الحضور
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => respondMutation.mutate("declined")}
+                  disabled={respondMutation.isPending}
+                  className="h-12 rounded-xl border-white/20 text-white hover:bg-white/10"
+                  data-testid="button-rsvp-decline"
+                >
+                  {respondMutation.isPending && respondMutation.variables === "declined" ? (
+                    <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                  ) : (
+                    <XCircle className="w-5 h-5 ml-2" />
+                  )}
+                  الاعتذار
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
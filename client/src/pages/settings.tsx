@@ -1,10 +1,11 @@
 import { motion } from "framer-motion";
-import { Settings, Save, Loader2, MessageCircle } from "lucide-react";
+import { Settings, Save, Loader2, MessageCircle, Mail, Send, Phone } from "lucide-react";
 import { SiWhatsapp, SiInstagram, SiFacebook, SiX, SiLinkedin } from "react-icons/si";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
@@ -17,6 +18,14 @@ interface SiteSettings {
   facebook?: string | null;
   twitter?: string | null;
   linkedin?: string | null;
+  smtpHost?: string | null;
+  smtpPort?: number | null;
+  smtpSecure?: boolean | null;
+  smtpUser?: string | null;
+  smtpPassword?: string | null;
+  smtpFrom?: string | null;
+  hasSmtpPassword?: boolean;
+  phoneCountryCode?: string | null;
 }
 
 export default function SettingsPage() {
@@ -28,7 +37,15 @@ export default function SettingsPage() {
     facebook: "",
     twitter: "",
     linkedin: "",
+    smtpHost: "",
+    smtpPort: null,
+    smtpSecure: false,
+    smtpUser: "",
+    smtpPassword: "",
+    smtpFrom: "",
+    phoneCountryCode: "966",
   });
+  const [testEmail, setTestEmail] = useState("");
 
   const { data: settings, isLoading } = useQuery<SiteSettings>({
     queryKey: ["/api/settings"],
@@ -43,6 +60,13 @@ export default function SettingsPage() {
         facebook: settings.facebook || "",
         twitter: settings.twitter || "",
         linkedin: settings.linkedin || "",
+        smtpHost: settings.smtpHost || "",
+        smtpPort: settings.smtpPort ?? null,
+        smtpSecure: !!settings.smtpSecure,
+        smtpUser: settings.smtpUser || "",
+        smtpPassword: "",
+        smtpFrom: settings.smtpFrom || "",
+        phoneCountryCode: settings.phoneCountryCode || "966",
       });
     }
   }, [settings]);
@@ -68,6 +92,35 @@ export default function SettingsPage() {
     },
   });
 
+  const testEmailMutation = useMutation({
+    mutationFn: async (to: string) => {
+      const res = await fetch("/api/settings/test-email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "فشل إرسال الرسالة التجريبية");
+      }
+      return data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم الإرسال",
+        description: "تم إرسال رسالة تجريبية، تحقق من صندوق البريد",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "فشل الإرسال",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSave = () => {
     updateMutation.mutate(formData);
   };
@@ -99,7 +152,7 @@ export default function SettingsPage() {
             </div>
             <div>
               <h1 className="text-2xl font-bold text-white" data-testid="text-settings-title">إعدادات الموقع</h1>
-              <p className="text-muted-foreground" data-testid="text-settings-subtitle">إدارة روابط التواصل الاجتماعي</p>
+              <p className="text-muted-foreground" data-testid="text-settings-subtitle">إدارة روابط التواصل الاجتماعي وخادم البريد</p>
             </div>
           </div>
 
@@ -211,6 +264,176 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
           )}
+
+          {!isLoading && (
+            <Card className="glass-card border-white/10" data-testid="card-smtp-settings">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Mail className="w-5 h-5" />
+                  <span>خادم البريد (SMTP)</span>
+                </CardTitle>
+                <CardDescription>
+                  يستخدم لإرسال دعوات البريد الإلكتروني. للتجربة يمكن توجيهه إلى خادم بريد محلي مثل Mailpit على المنفذ 1025
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label className="text-white/90">الخادم</Label>
+                    <Input
+                      value={formData.smtpHost || ""}
+                      onChange={(e) => setFormData({ ...formData, smtpHost: e.target.value })}
+                      placeholder="smtp.example.com"
+                      className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                      dir="ltr"
+                      data-testid="input-smtp-host"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-white/90">المنفذ</Label>
+                    <Input
+                      type="number"
+                      value={formData.smtpPort ?? ""}
+                      onChange={(e) => setFormData({ ...formData, smtpPort: parseInt(e.target.value) || null })}
+                      placeholder="587"
+                      className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                      dir="ltr"
+                      data-testid="input-smtp-port"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label className="text-white/90">اتصال آمن (SSL/TLS)</Label>
+                  <Switch
+                    checked={!!formData.smtpSecure}
+                    onCheckedChange={(checked) => setFormData({ ...formData, smtpSecure: checked })}
+                    data-testid="switch-smtp-secure"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-white/90">اسم المستخدم</Label>
+                    <Input
+                      value={formData.smtpUser || ""}
+                      onChange={(e) => setFormData({ ...formData, smtpUser: e.target.value })}
+                      className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                      dir="ltr"
+                      data-testid="input-smtp-user"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-white/90">كلمة المرور</Label>
+                    <Input
+                      type="password"
+                      value={formData.smtpPassword || ""}
+                      onChange={(e) => setFormData({ ...formData, smtpPassword: e.target.value })}
+                      placeholder={settings?.hasSmtpPassword ? "محفوظة - اتركها فارغة للإبقاء عليها" : ""}
+                      className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                      dir="ltr"
+                      data-testid="input-smtp-password"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-white/90">عنوان المرسل</Label>
+                  <Input
+                    value={formData.smtpFrom || ""}
+                    onChange={(e) => setFormData({ ...formData, smtpFrom: e.target.value })}
+                    placeholder="دعواتي <invitations@example.com>"
+                    className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                    dir="ltr"
+                    data-testid="input-smtp-from"
+                  />
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={updateMutation.isPending}
+                  className="w-full gradient-primary text-white glow-primary"
+                  data-testid="button-save-smtp"
+                >
+                  {updateMutation.isPending ? (
+                    <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                  ) : (
+                    <Save className="w-5 h-5 ml-2" />
+                  )}
+                  حفظ الإعدادات
+                </Button>
+
+                <div className="flex gap-2">
+                  <Input
+                    value={testEmail}
+                    onChange={(e) => setTestEmail(e.target.value)}
+                    placeholder="name@example.com"
+                    className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                    dir="ltr"
+                    data-testid="input-test-email"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => testEmailMutation.mutate(testEmail)}
+                    disabled={!testEmail || testEmailMutation.isPending}
+                    className="border-white/20 text-white hover:bg-white/10 shrink-0"
+                    data-testid="button-send-test-email"
+                  >
+                    {testEmailMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin ml-2" />
+                    ) : (
+                      <Send className="w-4 h-4 ml-2" />
+                    )}
+                    رسالة تجريبية
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading && (
+            <Card className="glass-card border-white/10" data-testid="card-phone-settings">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Phone className="w-5 h-5" />
+                  <span>أرقام جوال الضيوف</span>
+                </CardTitle>
+                <CardDescription>
+                  تحفظ الأرقام بالصيغة الدولية، ويضاف رمز الدولة للأرقام المكتوبة بدونه مثل 0501234567
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label className="text-white/90">رمز الدولة الافتراضي</Label>
+                  <Input
+                    value={formData.phoneCountryCode || ""}
+                    onChange={(e) =>
+                      setFormData({ ...formData, phoneCountryCode: e.target.value.replace(/\D/g, "") })
+                    }
+                    placeholder="966"
+                    maxLength={4}
+                    className="glass-input text-white placeholder:text-muted-foreground border-white/10"
+                    dir="ltr"
+                    data-testid="input-phone-country-code"
+                  />
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={updateMutation.isPending}
+                  className="w-full gradient-primary text-white glow-primary"
+                  data-testid="button-save-phone-settings"
+                >
+                  {updateMutation.isPending ? (
+                    <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                  ) : (
+                    <Save className="w-5 h-5 ml-2" />
+                  )}
+                  حفظ الإعدادات
+                </Button>
+              </CardContent>
+            </Card>
+          )}
         </motion.div>
     </div>
   );
@@ -23,6 +23,13 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { CategoryCount } from "@shared/schema";
+
+// Guests plus their companions
+interface HeadCount {
+  expected: number;
+  present: number;
+}
 
 interface OverviewStats {
   totalAdmins: number;
@@ -37,6 +44,7 @@ interface OverviewStats {
   totalCheckedIn: number;
   todayCheckIns: number;
   checkInRate: number;
+  heads: HeadCount;
 }
 
 interface AdminStat {
@@ -85,13 +93,9 @@ interface EventStat {
   checkedIn: number;
   pending: number;
   checkInRate: number;
+  heads: HeadCount;
   organizersCount: number;
-  categoryBreakdown: {
-    vip: number;
-    regular: number;
-    media: number;
-    sponsor: number;
-  };
+  categoryBreakdown: CategoryCount[];
 }
 
 interface OrganizerStat {
@@ -316,13 +320,6 @@ function EventManagerCard({ manager }: { manager: EventManagerStat }) {
 function EventCard({ event }: { event: EventStat }) {
   const [isOpen, setIsOpen] = useState(false);
 
-  const categoryLabels: Record<string, string> = {
-    vip: "VIP",
-    regular: "عادي",
-    media: "إعلام",
-    sponsor: "راعي",
-  };
-
   return (
     <Card className="glass border-white/10">
       <Collapsible open={isOpen} onOpenChange={setIsOpen}>
@@ -370,6 +367,7 @@ function EventCard({ event }: { event: EventStat }) {
                 {event.checkedIn}
               </p>
               <p className="text-muted-foreground text-xs">حاضرين</p>
+              <p className="text-muted-foreground text-xs">{event.heads.present} شخص</p>
             </div>
             <div className="glass-card p-2 rounded-lg text-center">
               <p className="text-xl font-bold text-orange-400">
@@ -402,14 +400,14 @@ function EventCard({ event }: { event: EventStat }) {
               <div className="space-y-2">
                 <p className="text-sm text-muted-foreground">توزيع الفئات:</p>
                 <div className="grid grid-cols-4 gap-2">
-                  {Object.entries(event.categoryBreakdown).map(([key, value]) => (
+                  {event.categoryBreakdown.map((category) => (
                     <div
-                      key={key}
+                      key={category.key}
                       className="glass-card p-2 rounded-lg text-center"
                     >
-                      <p className="text-lg font-bold text-white">{value}</p>
+                      <p className="text-lg font-bold" style={{ color: category.color }}>{category.count}</p>
                       <p className="text-xs text-muted-foreground">
-                        {categoryLabels[key]}
+                        {category.name}
                       </p>
                     </div>
                   ))}
@@ -585,6 +583,7 @@ export default function StatisticsPage() {
         <StatCard
           title="نسبة الحضور الكلية"
           value={`${stats.overview.checkInRate}%`}
+          subtitle={`${stats.overview.heads.present} من ${stats.overview.heads.expected} شخص مع المرافقين`}
           icon={TrendingUp}
           color="blue"
         />
@@ -0,0 +1,13 @@
+import { randomBytes } from "crypto";
+
+// Generate a secure, unique 12-character alphanumeric code
+export function generateAccessCode(): string {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Removed confusing chars: 0,O,1,I
+  const bytes = randomBytes(12);
+  let code = "";
+  for (let i = 0; i < 12; i++) {
+    code += chars[bytes[i] % chars.length];
+  }
+  // Format: XXXX-XXXX-XXXX for readability
+  return `${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8, 12)}`;
+}
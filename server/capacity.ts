@@ -0,0 +1,41 @@
+import type { Event } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+
+export interface GuestCapacity {
+  // Guest limit of the event's capacity tier, or null when it has none
+  maxGuests: number | null;
+  // How many more guests the event can take; Infinity without a limit
+  remaining: number;
+}
+
+// Guests the event's capacity tier still allows; previews and copies into a
+// new event read it directly, writers go through withGuestCapacity
+export async function getGuestCapacity(event: Event, store: IStorage = storage): Promise<GuestCapacity> {
+  if (!event.capacityTierId) {
+    return { maxGuests: null, remaining: Infinity };
+  }
+  const tier = await store.getCapacityTier(event.capacityTierId);
+  if (!tier || tier.isUnlimited || !tier.maxGuests) {
+    return { maxGuests: null, remaining: Infinity };
+  }
+  const currentGuests = await store.getGuestsByEvent(event.id);
+  return { maxGuests: tier.maxGuests, remaining: Math.max(0, tier.maxGuests - currentGuests.length) };
+}
+
+// Run fn in a transaction holding the event row, with the capacity counted
+// once the lock is taken. Every path adding guests to an existing event (Excel
+// upload, manual add, approved self-registrations) goes through here, so two
+// of them at once cannot pass the tier's guest limit.
+export async function withGuestCapacity<T>(
+  event: Event,
+  fn: (store: IStorage, capacity: GuestCapacity) => Promise<T>
+): Promise<T> {
+  return storage.transaction(async (store) => {
+    await store.lockEvent(event.id);
+    return fn(store, await getGuestCapacity(event, store));
+  });
+}
+
+export function capacityReachedMessage(maxGuests: number | null): string {
+  return `لقد وصلت للحد الأقصى من الضيوف لهذه المناسبة (${maxGuests}). يمكنك ترقية باقة السعة.`;
+}
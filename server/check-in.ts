@@ -0,0 +1,577 @@
+import type { AccessZone, CheckInResult, Event, EventSession, Guest, SessionAttendance, User } from "@shared/schema";
+import { canEnterZone } from "@shared/zones";
+import { partySize, reentryRefusal } from "@shared/occupancy";
+import { currentSession, sessionCapacityRefusal } from "@shared/sessions";
+import { checkInRefusal, checkOutRefusal } from "@shared/lifecycle";
+import { storage } from "./storage";
+import { isQrToken, verifyQrToken } from "./qr-token";
+
+// How the guest was identified at the gate
+export type CheckInLookup =
+  | { type: "guest"; guestId: string }
+  | { type: "code"; code: string }
+  | { type: "token"; token: string }
+  | { type: "qr"; qrData: string };
+
+export interface CheckInOptions {
+  // Event the organizer is currently scanning for, if the client sent one
+  eventId?: string;
+  // Original scan time for check-ins replayed from an offline device
+  scannedAt?: Date;
+  // Companions arriving with this scan; on a guest who is already inside,
+  // a positive count admits that many of the companions still expected
+  companions?: number;
+  // Gate the scanning device was set to: an access zone id, or null for the
+  // main entrance. Organizers always scan at their assigned gate, so a scan
+  // recorded at another one (e.g. queued offline before a reassignment) is refused.
+  zoneId?: string | null;
+  // Session the device was scanning for; when omitted, the session held at
+  // the scan time. Ignored for events without sessions.
+  sessionId?: string | null;
+}
+
+export interface CheckInOutcome {
+  httpStatus: number;
+  result: CheckInResult;
+}
+
+function invalid(httpStatus: number, message: string): CheckInOutcome {
+  return { httpStatus, result: { status: "invalid", message } };
+}
+
+async function findGuest(lookup: CheckInLookup): Promise<Guest | CheckInOutcome> {
+  switch (lookup.type) {
+    case "guest": {
+      const guest = await storage.getGuest(lookup.guestId);
+      return guest ?? invalid(404, "الضيف غير موجود");
+    }
+    case "code": {
+      if (!lookup.code) {
+        return invalid(400, "الكود مطلوب");
+      }
+      // Scanners send whatever the QR holds, which may be a signed token
+      if (isQrToken(lookup.code.trim())) {
+        return findGuest({ type: "token", token: lookup.code.trim() });
+      }
+      const guest = await storage.getGuestByQrCode(lookup.code.trim().toUpperCase());
+      return guest ?? invalid(404, "الكود غير صالح أو غير موجود");
+    }
+    case "token": {
+      const verification = await verifyQrToken(lookup.token);
+      if (!verification.ok) {
+        return invalid(400, verification.message);
+      }
+      const guest = await storage.getGuest(verification.payload.g);
+      if (!guest || guest.eventId !== verification.payload.e) {
+        return invalid(404, "الدعوة غير صالحة");
+      }
+      return guest;
+    }
+    case "qr": {
+      let parsed: { id?: string; code?: string };
+      try {
+        parsed = JSON.parse(lookup.qrData);
+      } catch {
+        return invalid(400, "كود غير صالح");
+      }
+      const guest = parsed?.id ? await storage.getGuest(parsed.id) : undefined;
+      if (!guest || guest.qrCode !== parsed.code) {
+        return invalid(404, "الدعوة غير صالحة");
+      }
+      return guest;
+    }
+  }
+}
+
+async function canCheckInAt(user: User, event: Event): Promise<boolean> {
+  if (user.role === "organizer") {
+    const assignedEvents = await storage.getOrganizerEvents(user.id);
+    return assignedEvents.some((e) => e.id === event.id);
+  }
+  if (user.role === "event_manager") {
+    return event.eventManagerId === user.id;
+  }
+  return user.role === "admin" || user.role === "super_admin";
+}
+
+// The zone whose gate handles the scan, or null for the main entrance
+async function resolveGate(
+  user: User,
+  event: Event,
+  requested: string | null | undefined
+): Promise<{ zone: AccessZone | null } | CheckInOutcome> {
+  let zoneId = requested;
+  if (user.role === "organizer") {
+    const assignment = await storage.getOrganizerAssignment(event.id, user.id);
+    const assigned = assignment?.zoneId ?? null;
+    if (zoneId !== undefined && zoneId !== assigned) {
+      return invalid(400, "لم تعد هذه البوابة مسندة إليك");
+    }
+    zoneId = assigned;
+  }
+  if (!zoneId) return { zone: null };
+
+  const zone = await storage.getAccessZone(zoneId);
+  if (!zone || zone.eventId !== event.id) {
+    return invalid(404, "المنطقة غير موجودة");
+  }
+  return { zone };
+}
+
+// The session a main entrance scan counts for, or null when the event has none
+async function resolveSession(
+  event: Event,
+  requested: string | null | undefined,
+  scannedAt?: Date
+): Promise<{ session: EventSession | null } | CheckInOutcome> {
+  const sessions = await storage.getEventSessionsByEvent(event.id);
+  if (sessions.length === 0) return { session: null };
+
+  if (requested) {
+    const session = sessions.find((s) => s.id === requested);
+    return session ? { session } : invalid(404, "الجلسة غير موجودة");
+  }
+  const session = currentSession(sessions, scannedAt ?? new Date());
+  return session ? { session } : invalid(400, "لا توجد جلسة لهذه المناسبة اليوم");
+}
+
+// Checked once the guest's attendance is recorded, counting everyone else
+// holding a seat, so two gates cannot both take the last one; at worst both
+// are refused and give their seats back
+async function sessionSeatRefusal(session: EventSession, guestId: string): Promise<string | null> {
+  if (session.capacity === null) return null;
+  const attendance = await storage.getSessionAttendanceBySession(session.id);
+  const registrations = await storage.getSessionRegistrationsBySession(session.id);
+  return sessionCapacityRefusal(
+    session,
+    guestId,
+    attendance.filter((a) => a.guestId !== guestId),
+    registrations
+  );
+}
+
+// Record a losing check-in attempt and build the duplicate response naming
+// whoever admitted the guest first, to the event or to the session scanned for
+async function duplicateCheckIn(
+  guest: Guest,
+  userId: string,
+  session?: { name: string; attendance: SessionAttendance | undefined }
+): Promise<CheckInResult> {
+  const firstBy = session ? session.attendance?.checkedInBy : guest.checkedInBy;
+  const checkedInByUser = firstBy ? await storage.getUser(firstBy) : null;
+  const checkedInByName = checkedInByUser?.name || "غير معروف";
+
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId,
+    action: "duplicate_check_in",
+    details: session
+      ? `محاولة دخول مكررة: ${guest.name} - ${session.name} (سجل دخوله مسبقاً: ${checkedInByName})`
+      : `محاولة دخول مكررة: ${guest.name} (سجل دخوله مسبقاً: ${checkedInByName})`,
+    guestId: guest.id,
+  });
+
+  return {
+    status: "duplicate",
+    guest,
+    message: session ? `سجل الضيف حضوره في ${session.name} مسبقاً` : "تم استخدام هذه الدعوة مسبقاً!",
+    checkedInAt: session ? session.attendance?.checkedInAt : guest.checkedInAt,
+    checkedInBy: checkedInByName,
+    sessionName: session?.name,
+  };
+}
+
+// The scanned guest and their event, once the scan passes event matching
+// and the user's access to the event
+async function resolveScan(
+  user: User,
+  lookup: CheckInLookup,
+  options: CheckInOptions
+): Promise<{ guest: Guest; event: Event } | CheckInOutcome> {
+  const found = await findGuest(lookup);
+  if ("httpStatus" in found) return found;
+  const guest = found;
+
+  if (options.eventId && guest.eventId !== options.eventId) {
+    return invalid(400, "هذا الكود ليس لهذه المناسبة");
+  }
+
+  const event = await storage.getEvent(guest.eventId);
+  if (!event) {
+    return invalid(404, "المناسبة غير موجودة");
+  }
+
+  const closed = checkOutRefusal(event);
+  if (closed) {
+    return invalid(400, closed);
+  }
+
+  if (!(await canCheckInAt(user, event))) {
+    return invalid(403, "غير مسموح");
+  }
+
+  return { guest, event };
+}
+
+// Single entry point for every check-in endpoint so event matching, access
+// rules, duplicate handling and audit text stay identical across them.
+export async function performCheckIn(
+  user: User,
+  lookup: CheckInLookup,
+  options: CheckInOptions = {}
+): Promise<CheckInOutcome> {
+  const scan = await resolveScan(user, lookup, options);
+  if ("httpStatus" in scan) return scan;
+  const { guest, event } = scan;
+
+  const refusal = checkInRefusal(event, options.scannedAt);
+  if (refusal) {
+    return invalid(400, refusal);
+  }
+
+  const gate = await resolveGate(user, event, options.zoneId);
+  if ("httpStatus" in gate) return gate;
+  if (gate.zone) {
+    return admitToZone(user, guest, gate.zone, options.scannedAt);
+  }
+
+  const scope = await resolveSession(event, options.sessionId, options.scannedAt);
+  if ("httpStatus" in scope) return scope;
+  const { session } = scope;
+  const sessionAttempt = session
+    ? await storage.attendSession(session, guest.id, user.id, options.scannedAt)
+    : null;
+  if (session && sessionAttempt?.won) {
+    const refusal = await sessionSeatRefusal(session, guest.id);
+    if (refusal) {
+      await storage.leaveSession(session.id, guest.id);
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "session_full",
+        details: `رفض دخول جلسة ممتلئة: ${guest.name} - ${session.name}`,
+        guestId: guest.id,
+      });
+      return { httpStatus: 200, result: { status: "invalid", guest, message: refusal, sessionName: session.name } };
+    }
+  }
+
+  const companions = options.companions ?? 0;
+  const attempt = await storage.checkInGuest(guest.id, user.id, options.scannedAt, companions);
+  if (!attempt.won) {
+    const current = attempt.guest ?? guest;
+    if (session && sessionAttempt?.won) {
+      return arriveForSession(user, current, session, options.scannedAt);
+    }
+    if (current.isCheckedIn && current.checkedOutAt) {
+      return reenter(user, event, current, options.scannedAt);
+    }
+    if (companions > 0) {
+      const admitted = await admitCompanions(current, companions, user.id, options.scannedAt);
+      if (admitted) return admitted;
+    }
+    const duplicate = await duplicateCheckIn(
+      current,
+      user.id,
+      session ? { name: session.name, attendance: sessionAttempt?.attendance } : undefined
+    );
+    return { httpStatus: 200, result: duplicate };
+  }
+
+  const admittedCompanions = attempt.guest?.companionsCheckedIn || 0;
+  await storage.createGuestMovement({
+    eventId: guest.eventId,
+    guestId: guest.id,
+    direction: "in",
+    people: 1 + admittedCompanions,
+    at: options.scannedAt ?? new Date(),
+    byUserId: user.id,
+  });
+  const withCompanions = admittedCompanions > 0 ? ` مع ${admittedCompanions} مرافق` : "";
+  const inSession = session ? ` - ${session.name}` : "";
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "check_in",
+    details: options.scannedAt
+      ? `تم تسجيل حضور (مزامنة دون اتصال): ${guest.name}${withCompanions}${inSession}`
+      : `تم تسجيل حضور: ${guest.name}${withCompanions}${inSession}`,
+    guestId: guest.id,
+  });
+
+  return {
+    httpStatus: 200,
+    result: {
+      status: "success",
+      guest: attempt.guest,
+      message: session ? `تم تسجيل الحضور في ${session.name}` : "تم تسجيل الحضور بنجاح",
+      companionsAdmitted: admittedCompanions,
+      sessionName: session?.name,
+    },
+  };
+}
+
+// Later arrivals of a checked-in guest's companions. Returns null when none
+// of them are still expected, so the caller reports a duplicate scan.
+async function admitCompanions(
+  guest: Guest,
+  requested: number,
+  userId: string,
+  scannedAt?: Date
+): Promise<CheckInOutcome | null> {
+  const remaining = (guest.companions || 0) - (guest.companionsCheckedIn || 0);
+  if (remaining <= 0) return null;
+
+  const count = Math.min(requested, remaining);
+  const updated = await storage.checkInCompanions(guest.id, count);
+  if (!updated) return null;
+
+  await storage.createGuestMovement({
+    eventId: guest.eventId,
+    guestId: guest.id,
+    direction: "in",
+    people: count,
+    at: scannedAt ?? new Date(),
+    byUserId: userId,
+  });
+
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId,
+    action: "companions_check_in",
+    details: scannedAt
+      ? `تم تسجيل دخول ${count} مرافق (مزامنة دون اتصال) للضيف: ${guest.name}`
+      : `تم تسجيل دخول ${count} مرافق للضيف: ${guest.name}`,
+    guestId: guest.id,
+  });
+
+  return {
+    httpStatus: 200,
+    result: {
+      status: "success",
+      guest: updated,
+      message: `تم تسجيل دخول ${count} مرافق`,
+      companionsAdmitted: count,
+    },
+  };
+}
+
+// A guest who attended an earlier session arriving for a new one. Someone who
+// left after the earlier session comes back in without using a re-entry.
+async function arriveForSession(
+  user: User,
+  guest: Guest,
+  session: EventSession,
+  scannedAt?: Date
+): Promise<CheckInOutcome> {
+  const returned = guest.checkedOutAt ? await storage.returnForSession(guest.id) : undefined;
+  if (returned) {
+    await storage.createGuestMovement({
+      eventId: guest.eventId,
+      guestId: guest.id,
+      direction: "in",
+      people: partySize(returned),
+      at: scannedAt ?? new Date(),
+      byUserId: user.id,
+    });
+  }
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "session_check_in",
+    details: scannedAt
+      ? `تم تسجيل حضور جلسة (مزامنة دون اتصال): ${guest.name} - ${session.name}`
+      : `تم تسجيل حضور جلسة: ${guest.name} - ${session.name}`,
+    guestId: guest.id,
+  });
+
+  return {
+    httpStatus: 200,
+    result: {
+      status: "success",
+      guest: returned ?? guest,
+      message: `تم تسجيل الحضور في ${session.name}`,
+      sessionName: session.name,
+    },
+  };
+}
+
+// A checked-out guest scanning back in, subject to the event's re-entry policy
+async function reenter(
+  user: User,
+  event: Event,
+  guest: Guest,
+  scannedAt?: Date
+): Promise<CheckInOutcome> {
+  const refusal = reentryRefusal(event, guest);
+  if (refusal) {
+    await storage.createAuditLog({
+      eventId: guest.eventId,
+      userId: user.id,
+      action: "reentry_denied",
+      details: `رفض إعادة دخول: ${guest.name}`,
+      guestId: guest.id,
+    });
+    return { httpStatus: 200, result: { status: "invalid", guest, message: refusal } };
+  }
+
+  const attempt = await storage.reenterGuest(
+    guest.id,
+    event.reentryPolicy === "limited" ? event.reentryLimit : null
+  );
+  if (!attempt.won || !attempt.guest) {
+    // Another gate let the guest back in first
+    return { httpStatus: 200, result: await duplicateCheckIn(attempt.guest ?? guest, user.id) };
+  }
+
+  await storage.createGuestMovement({
+    eventId: guest.eventId,
+    guestId: guest.id,
+    direction: "in",
+    people: partySize(attempt.guest),
+    at: scannedAt ?? new Date(),
+    byUserId: user.id,
+  });
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "reentry",
+    details: scannedAt
+      ? `تم تسجيل إعادة دخول (مزامنة دون اتصال): ${guest.name}`
+      : `تم تسجيل إعادة دخول: ${guest.name}`,
+    guestId: guest.id,
+  });
+
+  return {
+    httpStatus: 200,
+    result: { status: "success", guest: attempt.guest, message: "تم تسجيل إعادة الدخول" },
+  };
+}
+
+// Check-out scans at the main entrance. The guest leaves with the companions
+// admitted with them, and comes back in with a normal check-in scan.
+export async function performCheckOut(
+  user: User,
+  lookup: CheckInLookup,
+  options: CheckInOptions = {}
+): Promise<CheckInOutcome> {
+  const scan = await resolveScan(user, lookup, options);
+  if ("httpStatus" in scan) return scan;
+  const { guest, event } = scan;
+
+  const gate = await resolveGate(user, event, options.zoneId);
+  if ("httpStatus" in gate) return gate;
+  if (gate.zone) {
+    return invalid(400, "تسجيل الخروج متاح عند المدخل الرئيسي فقط");
+  }
+
+  if (!guest.isCheckedIn) {
+    return { httpStatus: 200, result: { status: "invalid", guest, message: "لم يسجل الضيف دخوله بعد" } };
+  }
+
+  const attempt = await storage.checkOutGuest(guest.id, options.scannedAt);
+  if (!attempt.won || !attempt.guest) {
+    return {
+      httpStatus: 200,
+      result: { status: "duplicate", guest: attempt.guest ?? guest, message: "سجل الضيف خروجه مسبقاً" },
+    };
+  }
+
+  await storage.createGuestMovement({
+    eventId: guest.eventId,
+    guestId: guest.id,
+    direction: "out",
+    people: partySize(attempt.guest),
+    at: options.scannedAt ?? new Date(),
+    byUserId: user.id,
+  });
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "check_out",
+    details: options.scannedAt
+      ? `تم تسجيل خروج (مزامنة دون اتصال): ${guest.name}`
+      : `تم تسجيل خروج: ${guest.name}`,
+    guestId: guest.id,
+  });
+
+  return {
+    httpStatus: 200,
+    result: { status: "success", guest: attempt.guest, message: "تم تسجيل الخروج" },
+  };
+}
+
+// Scans at a zone gate only record the guest's entry to that zone; the main
+// check-in and companion counts are left as they are
+async function admitToZone(
+  user: User,
+  guest: Guest,
+  zone: AccessZone,
+  scannedAt?: Date
+): Promise<CheckInOutcome> {
+  if (!canEnterZone(zone, guest)) {
+    await storage.createAuditLog({
+      eventId: guest.eventId,
+      userId: user.id,
+      action: "zone_denied",
+      details: `رفض دخول ${zone.name}: ${guest.name}`,
+      guestId: guest.id,
+    });
+    return {
+      httpStatus: 200,
+      result: {
+        status: "invalid",
+        guest,
+        message: `الضيف غير مصرح له بدخول ${zone.name}`,
+        zoneName: zone.name,
+      },
+    };
+  }
+
+  const attempt = await storage.enterZone(zone, guest.id, user.id, scannedAt);
+  if (!attempt.won) {
+    const enteredByUser = attempt.entry?.enteredBy
+      ? await storage.getUser(attempt.entry.enteredBy)
+      : null;
+    const enteredByName = enteredByUser?.name || "غير معروف";
+
+    await storage.createAuditLog({
+      eventId: guest.eventId,
+      userId: user.id,
+      action: "duplicate_zone_entry",
+      details: `محاولة دخول مكررة إلى ${zone.name}: ${guest.name} (سجل دخوله مسبقاً: ${enteredByName})`,
+      guestId: guest.id,
+    });
+    return {
+      httpStatus: 200,
+      result: {
+        status: "duplicate",
+        guest,
+        message: `سبق تسجيل دخول الضيف إلى ${zone.name}!`,
+        checkedInAt: attempt.entry?.enteredAt,
+        checkedInBy: enteredByName,
+        zoneName: zone.name,
+      },
+    };
+  }
+
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "zone_entry",
+    details: scannedAt
+      ? `تم تسجيل دخول ${zone.name} (مزامنة دون اتصال): ${guest.name}`
+      : `تم تسجيل دخول ${zone.name}: ${guest.name}`,
+    guestId: guest.id,
+  });
+
+  return {
+    httpStatus: 200,
+    result: {
+      status: "success",
+      guest,
+      message: `تم تسجيل الدخول إلى ${zone.name}`,
+      zoneName: zone.name,
+    },
+  };
+}
@@ -0,0 +1,182 @@
+import type { AccessZone, Event, EventSetup, InsertEvent } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { getGuestCapacity } from "./capacity";
+import { generateAccessCode } from "./access-code";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EventCopyOptions {
+  copyGuests: boolean;
+  copyOrganizers: boolean;
+}
+
+export interface EventCopyResult {
+  guests: number;
+  // Guests left out because the new event's capacity tier had no room for them
+  skippedGuests: number;
+  organizers: number;
+}
+
+async function readEventSetup(eventId: string, store: IStorage): Promise<{ setup: EventSetup; zones: AccessZone[] }> {
+  const categories = await store.getGuestCategoriesByEvent(eventId);
+  const fields = await store.getGuestFieldsByEvent(eventId);
+  const zones = await store.getAccessZonesByEvent(eventId);
+  const messageTemplates = await store.getMessageTemplatesByEvent(eventId);
+
+  return {
+    setup: {
+      categories: categories.map(({ key, name, color }) => ({ key, name, color })),
+      fields: fields.map(({ key, label, type, options }) => ({ key, label, type, options })),
+      zones: zones.map(({ name, categories }) => ({ name, categories })),
+      messageTemplates: messageTemplates.map(({ name, channel, subject, body }) => ({ name, channel, subject, body })),
+    },
+    zones,
+  };
+}
+
+export async function captureEventSetup(eventId: string): Promise<EventSetup> {
+  return (await readEventSetup(eventId, storage)).setup;
+}
+
+// Give a new event the categories, fields, zones and message templates of a
+// setup. Category and field keys are kept, so guest values and zone rules
+// carry over. Returns the created zones in the setup's order.
+export async function applyEventSetup(eventId: string, setup: EventSetup, store: IStorage = storage): Promise<AccessZone[]> {
+  // Added before anything reads the event's categories, which would give it the defaults
+  for (let i = 0; i < setup.categories.length; i++) {
+    await store.createGuestCategory({ ...setup.categories[i], eventId, sortOrder: i });
+  }
+  for (let i = 0; i < setup.fields.length; i++) {
+    await store.createGuestField({ ...setup.fields[i], eventId, sortOrder: i });
+  }
+
+  const zones: AccessZone[] = [];
+  for (let i = 0; i < setup.zones.length; i++) {
+    zones.push(await store.createAccessZone({ ...setup.zones[i], eventId, sortOrder: i }));
+  }
+
+  for (const template of setup.messageTemplates) {
+    await store.createMessageTemplate({ ...template, eventId });
+  }
+  return zones;
+}
+
+// Days a copy of the event placed on another first day is moved by
+function dayOffset(source: Pick<Event, "date">, date: Date): number {
+  return Math.round((date.getTime() - new Date(source.date).getTime()) / DAY_MS);
+}
+
+function shiftDay(day: string, days: number): string {
+  const shifted = new Date(`${day}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+// First and last day of a copy starting on another day; a multi-day event
+// keeps its length
+export function shiftedEventDays(source: Pick<Event, "date" | "endDate">, date: Date): { date: Date; endDate: Date | null } {
+  return {
+    date,
+    endDate: source.endDate ? new Date(new Date(source.endDate).getTime() + dayOffset(source, date) * DAY_MS) : null,
+  };
+}
+
+// A new draft event with the settings of another, on another day
+export function copiedEvent(source: Event, name: string, date: Date): InsertEvent {
+  return {
+    name,
+    ...shiftedEventDays(source, date),
+    description: source.description,
+    location: source.location,
+    startTime: source.startTime,
+    endTime: source.endTime,
+    // The copy stays with the manager of the original when an admin makes it
+    eventManagerId: source.eventManagerId,
+    capacityTierId: source.capacityTierId,
+    rsvpMaxCompanions: source.rsvpMaxCompanions,
+    registrationEnabled: source.registrationEnabled,
+    duplicatePhoneMode: source.duplicatePhoneMode,
+    reentryPolicy: source.reentryPolicy,
+    reentryLimit: source.reentryLimit,
+    checkInGraceMinutes: source.checkInGraceMinutes,
+    status: "draft",
+  };
+}
+
+// Copy everything set up on one event to a new one: categories, fields, zones,
+// message templates, tables and the agenda moved to the new days, and on
+// request the guest list with new access codes and the organizer team.
+// Attendance, RSVP answers and session registrations start over.
+export async function copyEventContents(
+  source: Event,
+  target: Event,
+  options: EventCopyOptions,
+  store: IStorage = storage
+): Promise<EventCopyResult> {
+  const { setup, zones: sourceZones } = await readEventSetup(source.id, store);
+  const zones = await applyEventSetup(target.id, setup, store);
+  const zoneIds = new Map(sourceZones.map((zone, i) => [zone.id, zones[i].id]));
+
+  const tableIds = new Map<string, string>();
+  for (const table of await store.getSeatingTablesByEvent(source.id)) {
+    const copy = await store.createSeatingTable({
+      eventId: target.id,
+      name: table.name,
+      section: table.section,
+      capacity: table.capacity,
+      sortOrder: table.sortOrder,
+    });
+    tableIds.set(table.id, copy.id);
+  }
+
+  const days = dayOffset(source, new Date(target.date));
+  for (const session of await store.getEventSessionsByEvent(source.id)) {
+    await store.createEventSession({
+      eventId: target.id,
+      name: session.name,
+      date: shiftDay(session.date, days),
+      startTime: session.startTime,
+      endTime: session.endTime,
+      speaker: session.speaker,
+      room: session.room,
+      capacity: session.capacity,
+    });
+  }
+
+  const result: EventCopyResult = { guests: 0, skippedGuests: 0, organizers: 0 };
+
+  if (options.copyGuests) {
+    const sourceGuests = await store.getGuestsByEvent(source.id);
+    const { remaining } = await getGuestCapacity(target, store);
+    const copied = await store.createGuests(
+      sourceGuests.slice(0, remaining).map((guest) => ({
+        eventId: target.id,
+        name: guest.name,
+        phone: guest.phone,
+        email: guest.email,
+        category: guest.category,
+        companions: guest.companions,
+        notes: guest.notes,
+        tableId: guest.tableId ? tableIds.get(guest.tableId) ?? null : null,
+        zoneIds: guest.zoneIds.flatMap((id) => zoneIds.get(id) ?? []),
+        customFields: guest.customFields,
+        qrCode: generateAccessCode(),
+      }))
+    );
+    result.guests = copied.length;
+    result.skippedGuests = sourceGuests.length - copied.length;
+  }
+
+  if (options.copyOrganizers) {
+    for (const organizer of await store.getEventOrganizers(source.id)) {
+      await store.assignOrganizer({
+        eventId: target.id,
+        organizerId: organizer.id,
+        zoneId: organizer.zoneId ? zoneIds.get(organizer.zoneId) ?? null : null,
+      });
+      result.organizers++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,47 @@
+import type { Event, EventStatus } from "@shared/schema";
+import { EVENT_STATUS_LABELS, scheduledStatus } from "@shared/lifecycle";
+import { storage } from "./storage";
+
+const SCHEDULE_INTERVAL_MS = 60_000;
+
+// Move an event to another status and audit the change; userId is null when
+// the schedule moves it. Undefined when the event left its status meanwhile.
+export async function changeEventStatus(
+  event: Event,
+  to: EventStatus,
+  userId: string | null
+): Promise<Event | undefined> {
+  const updated = await storage.transitionEventStatus(event.id, event.status, to);
+  if (!updated) return undefined;
+
+  const change = `من ${EVENT_STATUS_LABELS[event.status]} إلى ${EVENT_STATUS_LABELS[to]}`;
+  await storage.createAuditLog({
+    eventId: event.id,
+    userId,
+    action: "event_status",
+    details: userId
+      ? `تم تغيير حالة المناسبة ${change}`
+      : `تم تغيير حالة المناسبة تلقائياً حسب موعدها ${change}`,
+  });
+  return updated;
+}
+
+async function applySchedule() {
+  await storage.migrateLegacyEventActivity();
+  const due = await storage.getEventsByStatus(["published", "live"]);
+  for (const event of due) {
+    const next = scheduledStatus(event);
+    if (next) {
+      await changeEventStatus(event, next, null);
+    }
+  }
+}
+
+// Take published events live at their start time and close live events at
+// their end time, checking once a minute. Events still carrying the old
+// on/off flag get their status first so inactive ones are not reopened.
+export function startEventScheduler() {
+  const run = () => applySchedule().catch((error) => console.error("Event schedule error:", error));
+  run();
+  setInterval(run, SCHEDULE_INTERVAL_MS);
+}
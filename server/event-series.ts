@@ -0,0 +1,78 @@
+import type { Event, EventSeries, EventSeriesSummary, InsertEvent, Recurrence } from "@shared/schema";
+import { isEventActive, isEventReadOnly } from "@shared/lifecycle";
+import { summarizeOccurrence, sumAttendance } from "@shared/recurrence";
+import { storage } from "./storage";
+import { copiedEvent, copyEventContents } from "./event-copy";
+
+// Settings an "all following occurrences" edit carries to the rest of a series;
+// each occurrence keeps its own days and capacity tier
+const SERIES_SETTINGS = [
+  "name",
+  "description",
+  "location",
+  "startTime",
+  "endTime",
+  "rsvpMaxCompanions",
+  "registrationEnabled",
+  "duplicatePhoneMode",
+  "reentryPolicy",
+  "reentryLimit",
+  "checkInGraceMinutes",
+] as const;
+
+// Make an event the first occurrence of a new series and add one occurrence on
+// each of the given days, with the event's setup, guest list (new access codes)
+// and organizer team. Occurrences of a published event are published too.
+// Runs in one transaction, so a failure leaves no partial series behind.
+export async function startEventSeries(source: Event, recurrence: Recurrence, days: string[]): Promise<EventSeries> {
+  return storage.transaction(async (store) => {
+    const series = await store.createEventSeries({
+      name: source.name,
+      eventManagerId: source.eventManagerId,
+      recurrence,
+    });
+    await store.updateEvent(source.id, { seriesId: series.id });
+
+    for (const day of days) {
+      const occurrence = await store.createEvent({
+        ...copiedEvent(source, source.name, new Date(`${day}T00:00:00Z`)),
+        status: isEventActive(source) ? "published" : "draft",
+        seriesId: series.id,
+      });
+      await copyEventContents(source, occurrence, { copyGuests: true, copyOrganizers: true }, store);
+    }
+    return series;
+  });
+}
+
+// Give the occurrences after this one the settings just changed on it, leaving
+// the ones they do not touch as each occurrence has them. Archived occurrences
+// are skipped. Returns how many occurrences were updated.
+export async function updateFollowingOccurrences(event: Event, data: Partial<InsertEvent>): Promise<number> {
+  if (!event.seriesId) return 0;
+
+  const changes: Partial<InsertEvent> = {};
+  for (const key of SERIES_SETTINGS) {
+    if (data[key] !== undefined && data[key] !== event[key]) {
+      Object.assign(changes, { [key]: data[key] });
+    }
+  }
+  if (Object.keys(changes).length === 0) return 0;
+
+  const following = (await storage.getEventsBySeries(event.seriesId)).filter(
+    (o) => o.id !== event.id && new Date(o.date) > new Date(event.date) && !isEventReadOnly(o)
+  );
+  for (const occurrence of following) {
+    await storage.updateEvent(occurrence.id, changes);
+  }
+  return following.length;
+}
+
+export async function getSeriesSummary(series: EventSeries): Promise<EventSeriesSummary> {
+  const occurrences = await Promise.all(
+    (await storage.getEventsBySeries(series.id)).map(async (event) =>
+      summarizeOccurrence(event, await storage.getGuestsByEvent(event.id))
+    )
+  );
+  return { ...series, occurrences, totals: sumAttendance(occurrences) };
+}
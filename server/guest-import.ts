@@ -0,0 +1,367 @@
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import {
+  guestImportOptionsSchema,
+  CUSTOM_FIELD_MAPPING_PREFIX,
+  type CsvEncoding,
+  type DuplicatePhoneMode,
+  type Guest,
+  type GuestImportField,
+  type GuestImportMapping,
+  type GuestImportOptions,
+  type GuestImportRow,
+  type GuestImportPreview,
+  type GuestCategory,
+  type GuestField,
+} from "@shared/schema";
+import { normalizePhone, phoneMatchKey } from "@shared/phone";
+import { parseCustomFieldValue } from "@shared/custom-fields";
+
+// Header aliases used to suggest a mapping; the Arabic headers match the export
+const COLUMN_ALIASES: Record<GuestImportField, string[]> = {
+  name: ["الاسم", "اسم الضيف", "name", "full name", "guest name"],
+  phone: ["الجوال", "رقم الجوال", "الهاتف", "رقم الهاتف", "phone", "mobile", "phone number"],
+  email: ["البريد الإلكتروني", "البريد", "email", "e-mail"],
+  category: ["الفئة", "category", "type"],
+  companions: ["عدد المرافقين", "المرافقين", "companions", "plus ones"],
+  notes: ["ملاحظات", "notes", "comments"],
+};
+
+// Category cells may hold the stored key or the name shown in the app;
+// hamza forms of alef are folded so "اعلام" matches "إعلام"
+function categoryLookupKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[أإآ]/g, "ا");
+}
+
+export const GUEST_IMPORT_EXTENSIONS = [".xlsx", ".xls", ".ods", ".csv"];
+
+// A data row of the chosen sheet, keyed by header, with its spreadsheet row number
+export interface SheetRow {
+  rowNumber: number;
+  cells: Record<string, unknown>;
+}
+
+export interface GuestSheet {
+  sheets: string[];
+  sheet: string;
+  headers: string[];
+  rows: SheetRow[];
+  encoding: CsvEncoding | null;
+}
+
+function readCell(row: SheetRow, header: string | undefined): string {
+  if (!header) return "";
+  const value = row.cells[header];
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+function isBlank(cells: unknown[]): boolean {
+  return cells.every((cell) => cell === undefined || cell === null || String(cell).trim() === "");
+}
+
+// Excel on Arabic Windows saves CSV as Windows-1256; anything that is not
+// valid UTF-8 is assumed to be that
+function decodeCsv(buffer: Buffer, encoding?: CsvEncoding): { text: string; encoding: CsvEncoding } {
+  if (encoding !== "windows-1256") {
+    try {
+      const text = new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(buffer);
+      return { text, encoding: "utf-8" };
+    } catch {
+      if (encoding === "utf-8") {
+        return { text: new TextDecoder("utf-8").decode(buffer), encoding: "utf-8" };
+      }
+    }
+  }
+  return { text: new TextDecoder("windows-1256").decode(buffer), encoding: "windows-1256" };
+}
+
+// Read an uploaded XLSX, XLS, ODS or CSV file. Returns null for other formats.
+export function readGuestSheet(
+  buffer: Buffer,
+  filename: string,
+  options: GuestImportOptions = {}
+): GuestSheet | null {
+  const extension = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+  if (!GUEST_IMPORT_EXTENSIONS.includes(extension)) {
+    return null;
+  }
+
+  let workbook: XLSX.WorkBook;
+  let encoding: CsvEncoding | null = null;
+  if (extension === ".csv") {
+    const decoded = decodeCsv(buffer, options.encoding);
+    encoding = decoded.encoding;
+    // raw keeps cells as text so phone numbers keep their leading zero
+    workbook = XLSX.read(decoded.text, { type: "string", raw: true });
+  } else {
+    workbook = XLSX.read(buffer, { type: "buffer" });
+  }
+
+  const sheets = workbook.SheetNames;
+  const sheet = options.sheet && sheets.includes(options.sheet) ? options.sheet : sheets[0];
+  const worksheet = workbook.Sheets[sheet];
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    defval: "",
+    blankrows: true,
+  });
+  // The matrix starts at the sheet's used range, which may not be row 1
+  const firstRow = worksheet["!ref"] ? XLSX.utils.decode_range(worksheet["!ref"]).s.r + 1 : 1;
+
+  // The first non-empty row holds the headers
+  const headerIndex = matrix.findIndex((cells) => !isBlank(cells));
+  if (headerIndex === -1) {
+    return { sheets, sheet, headers: [], rows: [], encoding };
+  }
+  const headerCells = matrix[headerIndex].map((cell) => String(cell ?? "").trim());
+  const headers = headerCells.filter((header, i) => header && headerCells.indexOf(header) === i);
+
+  const rows: SheetRow[] = [];
+  for (let i = headerIndex + 1; i < matrix.length; i++) {
+    if (isBlank(matrix[i])) continue;
+    const cells: Record<string, unknown> = {};
+    for (let c = 0; c < headerCells.length; c++) {
+      if (headerCells[c] && !(headerCells[c] in cells)) {
+        cells[headerCells[c]] = matrix[i][c] ?? "";
+      }
+    }
+    rows.push({ rowNumber: firstRow + i, cells });
+  }
+
+  return { sheets, sheet, headers, rows, encoding };
+}
+
+// Use the requested mapping where its headers exist in the file; with no
+// mapping, guess each field from the header aliases and custom fields from
+// their labels
+export function resolveMapping(
+  headers: string[],
+  fields: GuestField[],
+  requested?: GuestImportMapping
+): GuestImportMapping {
+  const mapping: GuestImportMapping = {};
+  const targets: [string, string[]][] = (Object.keys(COLUMN_ALIASES) as GuestImportField[]).map(
+    (field) => [field, COLUMN_ALIASES[field]]
+  );
+  for (const field of fields) {
+    targets.push([`${CUSTOM_FIELD_MAPPING_PREFIX}${field.key}`, [field.label.toLowerCase()]]);
+  }
+
+  for (const [target, aliases] of targets) {
+    if (requested) {
+      const header = requested[target];
+      if (header && headers.includes(header)) {
+        mapping[target] = header;
+      }
+      continue;
+    }
+    const header = headers.find((h) => aliases.includes(h.toLowerCase()));
+    if (header) {
+      mapping[target] = header;
+    }
+  }
+  return mapping;
+}
+
+// Validate every sheet row against the event's current guests. Rows with
+// errors are never imported; warnings describe values that were adjusted and
+// phones that repeat, which are added anyway or merged depending on the event.
+export function validateGuestRows(
+  sheetRows: SheetRow[],
+  mapping: GuestImportMapping,
+  existingGuests: Guest[],
+  categories: GuestCategory[],
+  fields: GuestField[],
+  duplicateMode: DuplicatePhoneMode,
+  countryCode: string
+): GuestImportRow[] {
+  const categoryKeys = new Map<string, string>();
+  for (const category of categories) {
+    categoryKeys.set(categoryLookupKey(category.key), category.key);
+    categoryKeys.set(categoryLookupKey(category.name), category.key);
+  }
+  // Rows without a category cell get the event's first category
+  const defaultCategory = categories[0]?.key || "regular";
+  const eventPhones = new Map<string, Guest>();
+  for (const guest of existingGuests) {
+    const key = phoneMatchKey(guest.phone, countryCode);
+    if (key && !eventPhones.has(key)) eventPhones.set(key, guest);
+  }
+  const filePhones = new Map<string, GuestImportRow>();
+  const rows: GuestImportRow[] = [];
+
+  for (const raw of sheetRows) {
+    const { rowNumber } = raw;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    // Cells that were filled in, which are all a merge may overwrite
+    const provided: Partial<GuestImportRow["data"]> = {};
+
+    const name = readCell(raw, mapping.name);
+    if (!name) {
+      errors.push(mapping.name ? "الاسم مطلوب" : "لم يتم تحديد عمود الاسم");
+    } else {
+      provided.name = name;
+    }
+
+    const phoneCell = readCell(raw, mapping.phone);
+    const phone = normalizePhone(phoneCell, countryCode);
+    if (phone === null) {
+      errors.push("رقم الجوال غير صالح");
+    } else if (phone) {
+      provided.phone = phone;
+    }
+
+    const categoryCell = readCell(raw, mapping.category);
+    const category = categoryCell ? categoryKeys.get(categoryLookupKey(categoryCell)) : defaultCategory;
+    if (!category) {
+      errors.push(`الفئة "${categoryCell}" غير معروفة`);
+    } else if (categoryCell) {
+      provided.category = category;
+    }
+
+    let email: string | null = readCell(raw, mapping.email).toLowerCase() || null;
+    if (email && !z.string().email().safeParse(email).success) {
+      warnings.push("البريد الإلكتروني غير صالح وسيتم تجاهله");
+      email = null;
+    }
+    if (email) provided.email = email;
+
+    const companionsCell = readCell(raw, mapping.companions);
+    let companions = 0;
+    if (companionsCell) {
+      const parsed = Number(companionsCell);
+      if (Number.isInteger(parsed) && parsed >= 0) {
+        companions = parsed;
+        provided.companions = parsed;
+      } else {
+        warnings.push(`عدد المرافقين "${companionsCell}" غير صالح وسيعتبر 0`);
+      }
+    }
+
+    const notes = readCell(raw, mapping.notes);
+    if (notes) provided.notes = notes;
+
+    const customFields: GuestImportRow["data"]["customFields"] = {};
+    for (const field of fields) {
+      const result = parseCustomFieldValue(field, readCell(raw, mapping[`${CUSTOM_FIELD_MAPPING_PREFIX}${field.key}`]));
+      if ("error" in result) {
+        warnings.push(`${result.error} وسيتم تجاهله`);
+      } else if (result.value !== null) {
+        customFields[field.key] = result.value;
+      }
+    }
+    if (Object.keys(customFields).length > 0) provided.customFields = customFields;
+
+    const row: GuestImportRow = {
+      rowNumber,
+      data: {
+        name,
+        phone: phone || "",
+        email,
+        category: category || defaultCategory,
+        companions,
+        notes,
+        customFields,
+      },
+      errors,
+      warnings,
+      action: "create",
+    };
+    rows.push(row);
+
+    if (!phone || errors.length > 0) continue;
+
+    const existing = eventPhones.get(phone);
+    const earlier = filePhones.get(phone);
+    if (duplicateMode === "merge" && earlier) {
+      // Later rows win for the cells they fill in, custom fields included
+      const { customFields: laterFields, ...laterCells } = provided;
+      Object.assign(earlier.data, laterCells);
+      Object.assign(earlier.data.customFields, laterFields);
+      if (earlier.updates) {
+        Object.assign(earlier.updates, laterCells);
+        if (laterFields) earlier.updates.customFields = { ...earlier.updates.customFields, ...laterFields };
+      }
+      row.action = "skip";
+      warnings.push(`رقم الجوال مكرر، سيتم دمجه مع الصف ${earlier.rowNumber}`);
+    } else if (duplicateMode === "merge" && existing) {
+      row.action = "update";
+      row.guestId = existing.id;
+      row.updates = { ...provided };
+      // Custom fields are updated one by one, keeping the guest's other values
+      if (provided.customFields) {
+        row.updates.customFields = { ...existing.customFields, ...provided.customFields };
+      }
+      warnings.push(`رقم الجوال مسجل للضيف "${existing.name}" وسيتم تحديث بياناته`);
+      filePhones.set(phone, row);
+    } else if (existing) {
+      warnings.push(`رقم الجوال مسجل مسبقاً للضيف "${existing.name}"`);
+    } else if (earlier) {
+      warnings.push(`رقم الجوال مكرر في الملف (الصف ${earlier.rowNumber})`);
+    } else {
+      filePhones.set(phone, row);
+    }
+  }
+
+  return rows;
+}
+
+export function summarizeImport(
+  sheet: GuestSheet,
+  mapping: GuestImportMapping,
+  rows: GuestImportRow[],
+  remainingCapacity: number
+): GuestImportPreview {
+  const validRows = rows.filter((r) => r.errors.length === 0);
+  const valid = validRows.length;
+  return {
+    sheets: sheet.sheets,
+    sheet: sheet.sheet,
+    headers: sheet.headers,
+    mapping,
+    encoding: sheet.encoding,
+    rows,
+    summary: {
+      total: rows.length,
+      valid,
+      invalid: rows.length - valid,
+      withWarnings: rows.filter((r) => r.warnings.length > 0).length,
+      toCreate: validRows.filter((r) => r.action === "create").length,
+      toUpdate: validRows.filter((r) => r.action === "update").length,
+      // null when the event's tier has no guest limit
+      remainingCapacity: Number.isFinite(remainingCapacity) ? remainingCapacity : null,
+    },
+  };
+}
+
+// Spreadsheet of the rows that need attention, with the original cells plus
+// the problems found, so the manager can fix and re-upload them
+export function buildImportErrorSheet(sheetRows: SheetRow[], rows: GuestImportRow[]): Buffer {
+  const cellsByRow = new Map(sheetRows.map((row) => [row.rowNumber, row.cells]));
+  const flagged = rows
+    .filter((r) => r.errors.length > 0 || r.warnings.length > 0)
+    .map((r) => ({
+      "الصف": r.rowNumber,
+      ...cellsByRow.get(r.rowNumber),
+      "الأخطاء": r.errors.join("، "),
+      "التنبيهات": r.warnings.join("، "),
+    }));
+
+  const workbook = XLSX.utils.book_new();
+  const worksheet = XLSX.utils.json_to_sheet(flagged);
+  worksheet["!dir"] = "rtl";
+  XLSX.utils.book_append_sheet(workbook, worksheet, "أخطاء الاستيراد");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+// Options arrive as a JSON string in the multipart body; null when malformed
+export function parseImportOptions(raw: unknown): GuestImportOptions | null {
+  if (raw === undefined || raw === "") return {};
+  try {
+    const result = guestImportOptionsSchema.safeParse(JSON.parse(String(raw)));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
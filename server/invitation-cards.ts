@@ -0,0 +1,157 @@
+import path from "path";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import type { Event, Guest } from "@shared/schema";
+import { categoryName } from "@shared/categories";
+import { createQrTokenSigner } from "./qr-token";
+import { storage } from "./storage";
+
+const FONT_DIR = path.resolve(process.cwd(), "node_modules/@expo-google-fonts/cairo");
+const FONT_REGULAR = path.join(FONT_DIR, "400Regular/Cairo_400Regular.ttf");
+const FONT_BOLD = path.join(FONT_DIR, "700Bold/Cairo_700Bold.ttf");
+
+const PRIMARY_COLOR = "#5B21B6";
+const TEXT_COLOR = "#1F1235";
+const MUTED_COLOR = "#6B6480";
+
+// Arabic letters only; Arabic-Indic digits read left to right like Latin ones
+const ARABIC_LETTERS = /[\u0621-\u064A\u066E-\u06D3\u06D5\u06FA-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const BIDI_MARKS = /[\u200E\u200F\u061C]/g;
+
+interface TextRun {
+  text: string;
+  rtl: boolean;
+}
+
+// PDFKit shapes Arabic through fontkit but does no bidi reordering, and it
+// lays out a multi-word string left to right in logical order. Each Arabic word
+// is therefore its own run; only non-Arabic words stay together. The runs are
+// placed right to left here.
+function splitDirectionalRuns(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const words = text.replace(BIDI_MARKS, "").split(/\s+/).filter(Boolean);
+  for (const word of words) {
+    const rtl = ARABIC_LETTERS.test(word);
+    const last = runs[runs.length - 1];
+    if (last && !last.rtl && !rtl) {
+      last.text += ` ${word}`;
+    } else {
+      runs.push({ text: word, rtl });
+    }
+  }
+  return runs;
+}
+
+interface LineStyle {
+  font: string;
+  size: number;
+  color: string;
+  maxWidth: number;
+}
+
+// Draw one centred RTL line, shrinking the font until it fits maxWidth
+function drawCenteredLine(doc: PDFKit.PDFDocument, text: string, y: number, style: LineStyle) {
+  const runs = splitDirectionalRuns(text);
+  if (runs.length === 0) return;
+
+  doc.font(style.font);
+  let size = style.size;
+  const measure = () => {
+    doc.fontSize(size);
+    const space = doc.widthOfString(" ");
+    return runs.reduce((width, run) => width + doc.widthOfString(run.text), 0) + space * (runs.length - 1);
+  };
+
+  let width = measure();
+  while (width > style.maxWidth && size > 8) {
+    size -= 1;
+    width = measure();
+  }
+
+  const space = doc.widthOfString(" ");
+  let x = (doc.page.width + width) / 2;
+  doc.fillColor(style.color);
+  for (const run of runs) {
+    x -= doc.widthOfString(run.text);
+    doc.text(run.text, x, y, { lineBreak: false });
+    x -= space;
+  }
+}
+
+function formatEventDate(date: Date): string {
+  return new Date(date).toLocaleDateString("ar-SA-u-ca-gregory-nu-latn", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function drawCard(doc: PDFKit.PDFDocument, event: Event, guest: Guest, category: string, qrImage: Buffer) {
+  const width = doc.page.width;
+  const contentWidth = width - 40;
+
+  doc.rect(0, 0, width, 100).fill(PRIMARY_COLOR);
+  drawCenteredLine(doc, "دعوة خاصة", 14, { font: "regular", size: 11, color: "#E9DDFF", maxWidth: contentWidth });
+  drawCenteredLine(doc, event.name, 40, { font: "bold", size: 20, color: "#FFFFFF", maxWidth: contentWidth });
+
+  drawCenteredLine(doc, "يسعدنا دعوتكم لحضور المناسبة", 108, { font: "regular", size: 10, color: MUTED_COLOR, maxWidth: contentWidth });
+  drawCenteredLine(doc, guest.name, 126, { font: "bold", size: 18, color: TEXT_COLOR, maxWidth: contentWidth });
+  drawCenteredLine(doc, `الفئة: ${category}`, 156, { font: "bold", size: 10, color: PRIMARY_COLOR, maxWidth: contentWidth });
+
+  const details = [
+    event.endDate
+      ? `التاريخ: من ${formatEventDate(event.date)} إلى ${formatEventDate(event.endDate)}`
+      : `التاريخ: ${formatEventDate(event.date)}`,
+  ];
+  if (event.startTime) {
+    details.push(event.endTime ? `الوقت: ${event.startTime} - ${event.endTime}` : `الوقت: ${event.startTime}`);
+  }
+  if (event.location) {
+    details.push(`الموقع: ${event.location}`);
+  }
+  if (guest.companions) {
+    details.push(`عدد المرافقين: ${guest.companions}`);
+  }
+  details.forEach((line, index) => {
+    drawCenteredLine(doc, line, 176 + index * 16, { font: "regular", size: 10, color: TEXT_COLOR, maxWidth: contentWidth });
+  });
+
+  const qrSize = 140;
+  doc.image(qrImage, (width - qrSize) / 2, 250, { width: qrSize, height: qrSize });
+  drawCenteredLine(doc, guest.qrCode, 392, { font: "regular", size: 9, color: MUTED_COLOR, maxWidth: contentWidth });
+}
+
+// One A6 card per guest, each carrying the signed QR token used at the gate
+export async function buildInvitationCardsPdf(event: Event, guests: Guest[]): Promise<Buffer> {
+  const signToken = await createQrTokenSigner(event);
+  const categories = await storage.getGuestCategoriesByEvent(event.id);
+  const qrImages = await Promise.all(
+    guests.map((guest) =>
+      QRCode.toBuffer(signToken(guest), { type: "png", width: 420, margin: 1, errorCorrectionLevel: "M" })
+    )
+  );
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A6",
+      margin: 0,
+      autoFirstPage: false,
+      info: { Title: event.name },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.registerFont("regular", FONT_REGULAR);
+    doc.registerFont("bold", FONT_BOLD);
+
+    guests.forEach((guest, index) => {
+      doc.addPage();
+      drawCard(doc, event, guest, categoryName(categories, guest.category), qrImages[index]);
+    });
+
+    doc.end();
+  });
+}
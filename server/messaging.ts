@@ -0,0 +1,366 @@
+import { appendFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import QRCode from "qrcode";
+import {
+  MESSAGE_PLACEHOLDERS,
+  type Event,
+  type Guest,
+  type GuestMessage,
+  type InsertGuestMessage,
+  type MessageChannel,
+  type MessageTemplate,
+} from "@shared/schema";
+import { formatEventDays } from "@shared/sessions";
+import { storage } from "./storage";
+import { createQrTokenSigner } from "./qr-token";
+
+export interface MessageAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  // Content id referenced from the HTML body as cid:<cid>
+  cid?: string;
+}
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  to: string;
+  body: string;
+  subject?: string;
+  attachments?: MessageAttachment[];
+}
+
+export type SendResult =
+  | { ok: true; providerMessageId?: string }
+  | { ok: false; error: string };
+
+// Implemented once per gateway (WhatsApp Business API, SMS vendor, ...)
+export interface MessageProvider {
+  name: string;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
+
+// Development stand-in: logs each message and appends it to a JSON-lines file
+// instead of contacting a gateway
+export class FileMessageProvider implements MessageProvider {
+  name = "file";
+
+  constructor(private filePath: string) {}
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const providerMessageId = randomUUID();
+    const { attachments, ...logged } = message;
+    await appendFile(
+      this.filePath,
+      JSON.stringify({
+        id: providerMessageId,
+        ...logged,
+        attachments: attachments?.map((a) => a.filename),
+        at: new Date().toISOString(),
+      }) + "\n"
+    );
+    console.log(`[messaging] ${message.channel} -> ${message.to}: ${message.body}`);
+    return { ok: true, providerMessageId };
+  }
+}
+
+// Sends email through the SMTP server configured in site settings; settings
+// are read per message so changes apply without a restart
+export class SmtpEmailProvider implements MessageProvider {
+  name = "smtp";
+  private transport: Transporter | null = null;
+  private transportKey = "";
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const settings = await storage.getSiteSettings();
+    if (!settings?.smtpHost || !settings.smtpFrom) {
+      return { ok: false, error: "لم يتم إعداد خادم البريد (SMTP)" };
+    }
+
+    const config = {
+      host: settings.smtpHost,
+      port: settings.smtpPort || (settings.smtpSecure ? 465 : 587),
+      secure: !!settings.smtpSecure,
+      auth: settings.smtpUser
+        ? { user: settings.smtpUser, pass: settings.smtpPassword || "" }
+        : undefined,
+    };
+    const key = JSON.stringify(config);
+    if (!this.transport || key !== this.transportKey) {
+      this.transport = nodemailer.createTransport(config);
+      this.transportKey = key;
+    }
+
+    const info = await this.transport.sendMail({
+      from: settings.smtpFrom,
+      to: message.to,
+      subject: message.subject || "",
+      html: message.body,
+      attachments: message.attachments,
+    });
+    return { ok: true, providerMessageId: info.messageId };
+  }
+}
+
+const fallbackProvider = new FileMessageProvider(process.env.MESSAGE_LOG_FILE || "messages.log");
+const emailProvider = new SmtpEmailProvider();
+const providers = new Map<MessageChannel, MessageProvider>();
+
+export function registerMessageProvider(channel: MessageChannel, provider: MessageProvider) {
+  providers.set(channel, provider);
+}
+
+function getProvider(channel: MessageChannel): MessageProvider {
+  return providers.get(channel) ?? (channel === "email" ? emailProvider : fallbackProvider);
+}
+
+const EMAIL_QR_CID = "invitation-qr";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export interface InvitationLinks {
+  invitation: string;
+  rsvp: string;
+}
+
+// Fill placeholders; with html set, values are escaped and {صورة_QR} becomes
+// an image referencing the attachment added at send time
+export function renderMessageTemplate(
+  body: string,
+  event: Event,
+  guest: Guest,
+  links: InvitationLinks,
+  html = false
+): string {
+  const escape = html ? escapeHtml : (value: string) => value;
+  const values: Record<string, string> = {
+    [MESSAGE_PLACEHOLDERS.name]: escape(guest.name),
+    [MESSAGE_PLACEHOLDERS.accessCode]: escape(guest.qrCode),
+    [MESSAGE_PLACEHOLDERS.invitationLink]: escape(links.invitation),
+    [MESSAGE_PLACEHOLDERS.rsvpLink]: escape(links.rsvp),
+    [MESSAGE_PLACEHOLDERS.eventName]: escape(event.name),
+    [MESSAGE_PLACEHOLDERS.eventDate]: formatEventDays(event),
+    [MESSAGE_PLACEHOLDERS.location]: escape(event.location || ""),
+    [MESSAGE_PLACEHOLDERS.qrImage]: html
+      ? `<img src="cid:${EMAIL_QR_CID}" alt="QR" width="220" height="220" />`
+      : "",
+  };
+  return Object.entries(values).reduce(
+    (text, [placeholder, value]) => text.split(placeholder).join(value),
+    body
+  );
+}
+
+// Email bodies are wrapped RTL; templates without {صورة_QR} get the QR appended
+function renderEmailBody(body: string, event: Event, guest: Guest, links: InvitationLinks): string {
+  const withQr = body.includes(MESSAGE_PLACEHOLDERS.qrImage)
+    ? body
+    : `${body}\n<p style="text-align:center">${MESSAGE_PLACEHOLDERS.qrImage}</p>`;
+  const content = renderMessageTemplate(withQr, event, guest, links, true);
+  return `<div dir="rtl" style="font-family: Cairo, Tahoma, Arial, sans-serif; line-height: 1.8">${content}</div>`;
+}
+
+export interface QueueResult {
+  queued: number;
+  skippedNoRecipient: number;
+  skippedAlreadySent: number;
+}
+
+// Queue one message per guest. Guests that already have this template queued
+// or sent are skipped, so repeating a bulk send picks up where it stopped.
+// A guest whose earlier message failed gets that row queued again with the
+// fresh content, so a later retry of failed messages cannot send it twice.
+export async function queueInvitationMessages(
+  event: Event,
+  template: MessageTemplate,
+  guests: Guest[],
+  baseUrl: string,
+  createdById: string
+): Promise<QueueResult> {
+  const existing = await storage.getGuestMessagesByEvent(event.id);
+  const forTemplate = existing.filter((m) => m.templateId === template.id);
+  const alreadyHandled = new Set(
+    forTemplate.filter((m) => m.status !== "failed").map((m) => m.guestId)
+  );
+  // Newest failed row per guest; messages come newest first
+  const failedByGuest = new Map<string, GuestMessage>();
+  for (const message of forTemplate) {
+    if (message.status === "failed" && !failedByGuest.has(message.guestId)) {
+      failedByGuest.set(message.guestId, message);
+    }
+  }
+
+  const signToken = await createQrTokenSigner(event);
+  const result: QueueResult = { queued: 0, skippedNoRecipient: 0, skippedAlreadySent: 0 };
+  const isEmail = template.channel === "email";
+  const messages: InsertGuestMessage[] = [];
+  const retries: { id: string; message: InsertGuestMessage }[] = [];
+
+  for (const guest of guests) {
+    const recipient = isEmail ? guest.email : guest.phone;
+    if (!recipient) {
+      result.skippedNoRecipient++;
+      continue;
+    }
+    if (alreadyHandled.has(guest.id)) {
+      result.skippedAlreadySent++;
+      continue;
+    }
+    const links: InvitationLinks = {
+      invitation: `${baseUrl}/api/invitations/${signToken(guest)}`,
+      rsvp: `${baseUrl}/rsvp/${guest.rsvpToken}`,
+    };
+    const message: InsertGuestMessage = {
+      eventId: event.id,
+      guestId: guest.id,
+      templateId: template.id,
+      channel: template.channel,
+      recipient,
+      subject: isEmail
+        ? renderMessageTemplate(template.subject || event.name, event, guest, links)
+        : null,
+      body: isEmail
+        ? renderEmailBody(template.body, event, guest, links)
+        : renderMessageTemplate(template.body, event, guest, links),
+      createdById,
+    };
+    const failed = failedByGuest.get(guest.id);
+    if (failed) {
+      retries.push({ id: failed.id, message });
+    } else {
+      messages.push(message);
+    }
+  }
+
+  for (const { id, message } of retries) {
+    await storage.updateGuestMessage(id, { ...message, status: "queued", error: null });
+  }
+  await storage.createGuestMessages(messages);
+  result.queued = messages.length + retries.length;
+  return result;
+}
+
+// Global send pacing shared by all events, since providers rate-limit per account
+const MESSAGES_PER_MINUTE = Number(process.env.MESSAGES_PER_MINUTE) || 30;
+const SEND_INTERVAL_MS = 60_000 / MESSAGES_PER_MINUTE;
+const BATCH_SIZE = 20;
+
+let nextSendAt = 0;
+const activeDispatches = new Set<string>();
+
+async function waitForSendSlot() {
+  const now = Date.now();
+  const wait = Math.max(0, nextSendAt - now);
+  nextSendAt = Math.max(now, nextSendAt) + SEND_INTERVAL_MS;
+  if (wait > 0) {
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+}
+
+async function buildQrAttachment(
+  message: GuestMessage,
+  signToken: (guest: Guest) => string
+): Promise<MessageAttachment[]> {
+  const guest = await storage.getGuest(message.guestId);
+  if (!guest) return [];
+  const content = await QRCode.toBuffer(signToken(guest), { type: "png", width: 440, margin: 2 });
+  return [{ filename: "invitation-qr.png", content, contentType: "image/png", cid: EMAIL_QR_CID }];
+}
+
+async function deliver(message: GuestMessage, signToken: () => Promise<(guest: Guest) => string>) {
+  const provider = getProvider(message.channel);
+  let result: SendResult;
+  try {
+    const attachments = message.channel === "email"
+      ? await buildQrAttachment(message, await signToken())
+      : undefined;
+    result = await provider.send({
+      channel: message.channel,
+      to: message.recipient,
+      subject: message.subject ?? undefined,
+      body: message.body,
+      attachments,
+    });
+  } catch (error) {
+    result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await storage.updateGuestMessage(message.id, result.ok
+    ? {
+        status: "sent",
+        provider: provider.name,
+        providerMessageId: result.providerMessageId ?? null,
+        attempts: message.attempts + 1,
+        sentAt: new Date(),
+      }
+    : {
+        status: "failed",
+        provider: provider.name,
+        error: result.error,
+        attempts: message.attempts + 1,
+      });
+
+  if (message.channel === "email" && message.createdById) {
+    await storage.createAuditLog({
+      eventId: message.eventId,
+      userId: message.createdById,
+      action: "send_email",
+      details: result.ok
+        ? `تم إرسال دعوة بالبريد إلى ${message.recipient}`
+        : `فشل إرسال دعوة بالبريد إلى ${message.recipient}: ${result.error}`,
+      guestId: message.guestId,
+    });
+  }
+}
+
+// Sends until the event has no queued messages; false when the event is gone
+async function dispatchEvent(eventId: string): Promise<boolean> {
+  const event = await storage.getEvent(eventId);
+  if (!event) return false;
+
+  // The event key is only loaded once an email needs a QR attachment
+  let signer: ((guest: Guest) => string) | null = null;
+  const signToken = async () => (signer ??= await createQrTokenSigner(event));
+
+  while (true) {
+    const batch = await storage.getQueuedMessages(eventId, BATCH_SIZE);
+    if (batch.length === 0) return true;
+    for (const message of batch) {
+      await waitForSendSlot();
+      await deliver(message, signToken);
+    }
+  }
+}
+
+// Start sending an event's queued messages in the background; a no-op if a
+// dispatch for that event is already running. Messages queued while the last
+// batch was finishing are caught by checking once more after the dispatch ends.
+export function startMessageDispatch(eventId: string) {
+  if (activeDispatches.has(eventId)) return;
+  activeDispatches.add(eventId);
+  dispatchEvent(eventId)
+    .catch((error) => {
+      console.error("Message dispatch error:", error);
+      return false;
+    })
+    .then(async (drained) => {
+      activeDispatches.delete(eventId);
+      if (!drained) return;
+      const [late] = await storage.getQueuedMessages(eventId, 1);
+      if (late) startMessageDispatch(eventId);
+    })
+    .catch((error) => console.error("Message dispatch error:", error));
+}
+
+// Pick up messages left queued by a previous process
+export async function resumeMessageDispatch() {
+  const eventIds = await storage.getEventIdsWithQueuedMessages();
+  eventIds.forEach(startMessageDispatch);
+}
@@ -0,0 +1,118 @@
+import { generateKeyPairSync, createPrivateKey, createPublicKey, sign, verify } from "crypto";
+import {
+  QR_TOKEN_PREFIX,
+  type Event,
+  type EventSigningKey,
+  type EventSigningKeyInfo,
+  type Guest,
+  type QrTokenPayload,
+} from "@shared/schema";
+import { eventLastDay } from "@shared/sessions";
+import { storage } from "./storage";
+
+// Tokens become valid a day before the event date and expire two days after
+// its last day, which covers early setup, time zones and events running past
+// midnight.
+const VALID_BEFORE_EVENT_MS = 24 * 60 * 60 * 1000;
+const VALID_AFTER_EVENT_MS = 2 * 24 * 60 * 60 * 1000;
+
+export type QrTokenVerification =
+  | { ok: true; payload: QrTokenPayload }
+  | { ok: false; message: string };
+
+export function isQrToken(text: string): boolean {
+  return text.startsWith(`${QR_TOKEN_PREFIX}.`);
+}
+
+async function getOrCreateEventKey(eventId: string): Promise<EventSigningKey> {
+  const existing = await storage.getEventSigningKey(eventId);
+  if (existing) return existing;
+
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  return storage.createEventSigningKey({
+    eventId,
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+  });
+}
+
+export async function getEventSigningKeyInfo(eventId: string): Promise<EventSigningKeyInfo> {
+  const key = await getOrCreateEventKey(eventId);
+  return {
+    eventId,
+    algorithm: "Ed25519",
+    publicKey: createPublicKey(key.publicKey).export({ format: "jwk" }) as JsonWebKey,
+  };
+}
+
+// Returns a function that signs tokens for guests of this event, so bulk
+// exports load the event key once
+export async function createQrTokenSigner(event: Event): Promise<(guest: Guest) => string> {
+  const key = await getOrCreateEventKey(event.id);
+  const privateKey = createPrivateKey(key.privateKey);
+  const eventTime = new Date(event.date).getTime();
+  const lastDayTime = eventLastDay(event).getTime();
+
+  return (guest: Guest) => {
+    const payload: QrTokenPayload = {
+      v: 1,
+      g: guest.id,
+      e: event.id,
+      c: guest.category || "regular",
+      nbf: Math.floor((eventTime - VALID_BEFORE_EVENT_MS) / 1000),
+      exp: Math.floor((lastDayTime + VALID_AFTER_EVENT_MS) / 1000),
+    };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    const signingInput = `${QR_TOKEN_PREFIX}.${encodedPayload}`;
+    const signature = sign(null, Buffer.from(signingInput), privateKey);
+    return `${signingInput}.${signature.toString("base64url")}`;
+  };
+}
+
+export async function issueQrToken(guest: Guest, event: Event): Promise<string> {
+  const signToken = await createQrTokenSigner(event);
+  return signToken(guest);
+}
+
+export async function verifyQrToken(token: string): Promise<QrTokenVerification> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== QR_TOKEN_PREFIX) {
+    return { ok: false, message: "رمز الدعوة غير صالح" };
+  }
+
+  let payload: QrTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf-8"));
+  } catch {
+    return { ok: false, message: "رمز الدعوة غير صالح" };
+  }
+  if (payload?.v !== 1 || !payload.e || !payload.g) {
+    return { ok: false, message: "رمز الدعوة غير صالح" };
+  }
+
+  // Never create a key while verifying: an event without one never issued tokens
+  const key = await storage.getEventSigningKey(payload.e);
+  if (!key) {
+    return { ok: false, message: "رمز الدعوة غير صالح" };
+  }
+
+  const isAuthentic = verify(
+    null,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    createPublicKey(key.publicKey),
+    Buffer.from(parts[2], "base64url")
+  );
+  if (!isAuthentic) {
+    return { ok: false, message: "رمز الدعوة مزور أو تم التلاعب به" };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now < payload.nbf) {
+    return { ok: false, message: "الدعوة غير صالحة بعد" };
+  }
+  if (now > payload.exp) {
+    return { ok: false, message: "انتهت صلاحية الدعوة" };
+  }
+
+  return { ok: true, payload };
+}
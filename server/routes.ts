@@ -2,27 +2,383 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import { storage } from "./storage";
+import { performCheckIn, performCheckOut } from "./check-in";
+import { getGuestCapacity, withGuestCapacity, capacityReachedMessage } from "./capacity";
+import {
+  readGuestSheet,
+  resolveMapping,
+  validateGuestRows,
+  summarizeImport,
+  buildImportErrorSheet,
+  parseImportOptions,
+} from "./guest-import";
+import { issueQrToken, createQrTokenSigner, getEventSigningKeyInfo, verifyQrToken } from "./qr-token";
+import { buildInvitationCardsPdf } from "./invitation-cards";
+import { queueInvitationMessages, startMessageDispatch, resumeMessageDispatch, SmtpEmailProvider } from "./messaging";
+import { changeEventStatus, startEventScheduler } from "./event-lifecycle";
+import { generateAccessCode } from "./access-code";
+import { captureEventSetup, applyEventSetup, copyEventContents, copiedEvent } from "./event-copy";
+import { startEventSeries, updateFollowingOccurrences, getSeriesSummary } from "./event-series";
+import { DEFAULT_PHONE_COUNTRY_CODE, normalizePhone, phoneMatchKey } from "@shared/phone";
+import { categoryName } from "@shared/categories";
+import { parseCustomFields, mergeCustomFields, customFieldColumns } from "@shared/custom-fields";
+import { summarizeTables, seatsForGuest, planSeating, tableLabel } from "@shared/seating";
+import { summarizeZones } from "@shared/zones";
+import { RECURRENCE_LABELS, recurrenceDates, customRecurrenceDates } from "@shared/recurrence";
+import { EVENT_STATUS_LABELS, canTransition, isEventActive, isEventReadOnly } from "@shared/lifecycle";
+import {
+  summarizeSessions,
+  eventLastDay,
+  eventDayRange,
+  isWithinEventDays,
+  sessionLabel,
+  formatSessionDate,
+  sessionSeatHolders,
+} from "@shared/sessions";
 import { randomBytes, createHash } from "crypto";
-
-// Generate a secure, unique 12-character alphanumeric code
-function generateAccessCode(): string {
-  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Removed confusing chars: 0,O,1,I
-  const bytes = randomBytes(12);
-  let code = "";
-  for (let i = 0; i < 12; i++) {
-    code += chars[bytes[i] % chars.length];
-  }
-  // Format: XXXX-XXXX-XXXX for readability
-  return `${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8, 12)}`;
-}
-import { insertUserSchema, insertEventSchema } from "@shared/schema";
+import {
+  insertUserSchema,
+  insertEventSchema,
+  guestImportProfileSchema,
+  guestCategorySchema,
+  guestFieldSchema,
+  seatingTableSchema,
+  accessZoneSchema,
+  eventSessionSchema,
+  eventTemplateSchema,
+  eventDuplicateSchema,
+  eventSeriesSchema,
+  type User,
+  type Event,
+  type EventTemplate,
+  type Guest,
+  type GuestCategory,
+  type CategoryCount,
+  type SeatingTableSummary,
+  type AccessZoneSummary,
+  type EventSessionSummary,
+  type EventStatus,
+  type OrganizerEvent,
+  type PublicRsvp,
+  type PublicRegistrationEvent,
+  type RsvpStatus,
+} from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
 import * as XLSX from "xlsx";
 import QRCode from "qrcode";
+import archiver from "archiver";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+type QrImageFormat = "png" | "svg";
+
+function parseQrImageFormat(value: unknown): QrImageFormat {
+  return value === "svg" ? "svg" : "png";
+}
+
+// Render QR content as an image; PNG is sized for print, SVG scales freely
+async function renderQrImage(content: string, format: QrImageFormat): Promise<Buffer> {
+  if (format === "svg") {
+    const svg = await QRCode.toString(content, { type: "svg", margin: 2, errorCorrectionLevel: "M" });
+    return Buffer.from(svg, "utf-8");
+  }
+  return QRCode.toBuffer(content, { type: "png", width: 512, margin: 2, errorCorrectionLevel: "M" });
+}
+
+// Public origin used in links sent to guests
+function getBaseUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// Column headers of the guest exports and reports; custom fields share those
+// sheets, so their labels must differ from these
+const RESERVED_FIELD_LABELS = [
+  "#",
+  "الاسم",
+  "الجوال",
+  "البريد الإلكتروني",
+  "الفئة",
+  "عدد المرافقين",
+  "تأكيد الحضور",
+  "ملاحظات",
+  "كود الدخول",
+  "الحالة",
+  "المرافقون الحاضرون",
+  "وقت الحضور",
+  "رمز QR الموقع",
+  "الطاولة",
+];
+
+// Label problem of a new or renamed custom field, or null when it can be used
+function customFieldLabelError(label: string, otherLabels: string[]): string | null {
+  if (RESERVED_FIELD_LABELS.includes(label)) {
+    return `"${label}" اسم محجوز لأحد أعمدة الضيوف`;
+  }
+  if (otherLabels.includes(label)) {
+    return "يوجد حقل بهذا الاسم في المناسبة";
+  }
+  return null;
+}
+
+// Distinct choices of a select field, in the order given
+function uniqueOptions(options: string[]): string[] {
+  return options.filter((option, i) => options.indexOf(option) === i);
+}
+
+// Tables of an event with the seats their guests take
+async function getTableSummaries(eventId: string, guestList?: Guest[]): Promise<SeatingTableSummary[]> {
+  return summarizeTables(
+    await storage.getSeatingTablesByEvent(eventId),
+    guestList || (await storage.getGuestsByEvent(eventId))
+  );
+}
+
+// Error when seating these guests at the table would go over its capacity;
+// guests already at the table take no extra seats
+function seatingCapacityError(table: SeatingTableSummary, guestsToSeat: Guest[]): string | null {
+  const seats = guestsToSeat
+    .filter((g) => g.tableId !== table.id)
+    .reduce((sum, g) => sum + seatsForGuest(g), 0);
+  const free = table.capacity - table.seatsTaken;
+  if (seats > free) {
+    return `لا تتسع ${table.name}: المتبقي ${free} مقعد والمطلوب ${seats}`;
+  }
+  return null;
+}
+
+// Zones of an event with how many guests may enter and how many did
+async function getZoneSummaries(eventId: string): Promise<AccessZoneSummary[]> {
+  return summarizeZones(
+    await storage.getAccessZonesByEvent(eventId),
+    await storage.getGuestsByEvent(eventId),
+    await storage.getZoneEntriesByEvent(eventId)
+  );
+}
+
+// Category keys a zone is opened to; null when one is not an event category
+function resolveZoneCategories(categories: GuestCategory[], keys: string[]): string[] | null {
+  if (keys.some((key) => !categories.some((c) => c.key === key))) return null;
+  return keys.filter((key, i) => keys.indexOf(key) === i);
+}
+
+// Zones granted to a guest individually: undefined leaves them unchanged and
+// null means one of them is not a zone of the event
+async function parseGuestZoneIds(eventId: string, value: unknown): Promise<string[] | null | undefined> {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return null;
+  const zones = await storage.getAccessZonesByEvent(eventId);
+  if (value.some((id) => !zones.some((z) => z.id === id))) return null;
+  return value.filter((id, i) => value.indexOf(id) === i);
+}
+
+// Sessions of an event in calendar order with how many guests attended and
+// registered for each
+async function getSessionSummaries(eventId: string): Promise<EventSessionSummary[]> {
+  return summarizeSessions(
+    await storage.getEventSessionsByEvent(eventId),
+    await storage.getSessionAttendanceByEvent(eventId),
+    await storage.getSessionRegistrationsByEvent(eventId)
+  );
+}
+
+// Last day of an event form: undefined leaves it unchanged, null makes the
+// event single-day
+function parseEndDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (!value) return null;
+  const parsed = new Date(value as string);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+const messageTemplateSchema = z.object({
+  name: z.string().min(1, "اسم القالب مطلوب"),
+  channel: z.enum(["whatsapp", "sms", "email"]).default("whatsapp"),
+  subject: z.string().nullable().optional(),
+  body: z.string().min(1, "نص الرسالة مطلوب"),
+});
+
+// Optional guest email: blank clears it, anything else must look like an address
+function normalizeGuestEmail(value: unknown): string | null | false {
+  const email = typeof value === "string" ? value.trim() : "";
+  if (!email) return null;
+  return z.string().email().safeParse(email).success ? email.toLowerCase() : false;
+}
+
+// Category key sent with a guest; blank means the event's first category and
+// null means the key is not one of the event's categories
+function resolveCategoryKey(categories: GuestCategory[], value: unknown): string | null {
+  if (value === undefined || value === null || value === "") {
+    return categories[0]?.key || "regular";
+  }
+  return categories.some((c) => c.key === value) ? (value as string) : null;
+}
+
+// One spreadsheet cell for an event's guests per category: "VIP: 3، عادي: 12"
+function formatCategoryBreakdown(breakdown: CategoryCount[]): string {
+  return breakdown
+    .filter((c) => c.count > 0)
+    .map((c) => `${c.name}: ${c.count}`)
+    .join("، ");
+}
+
+// Companions arriving with a check-in scan; anything but a positive whole number means none
+function parseCompanionCount(value: unknown): number {
+  const count = Number(value);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// Gate a check-in scan was recorded at: a zone id, null for the main
+// entrance, or undefined when the client did not say
+function parseGateZoneId(value: unknown): string | null | undefined {
+  if (value === null) return null;
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Session a check-in scan was taken for; undefined lets the server pick the
+// session held at the scan time
+function parseSessionId(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Minutes check-in stays open around the event: undefined leaves it unchanged,
+// null is an invalid value
+function parseGraceMinutes(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= 0 ? minutes : null;
+}
+
+// Why a user may not create this many more events on a capacity tier, or null
+// when they may. Event managers must pick a tier and stay within their quota
+// for it; every way of creating an event checks through here.
+async function eventQuotaError(
+  user: User,
+  capacityTierId: string | null | undefined,
+  count = 1
+): Promise<{ status: number; error: string } | null> {
+  // Validate capacity tier for event managers
+  if (user.role === "event_manager" && !capacityTierId) {
+    return { status: 400, error: "يجب اختيار باقة سعة المناسبة" };
+  }
+  if (!capacityTierId) return null;
+
+  // If capacity tier provided, verify it exists
+  const tier = await storage.getCapacityTier(capacityTierId);
+  if (!tier || !tier.isActive) {
+    return { status: 400, error: "باقة السعة غير صالحة" };
+  }
+
+  // Check tier-specific quota for event managers
+  if (user.role === "event_manager") {
+    const userTierQuotas = await storage.getUserTierQuotas(user.id);
+    const tierQuota = userTierQuotas.find(q => String(q.capacityTierId) === String(capacityTierId));
+    const quota = tierQuota?.quota || 0;
+
+    if (quota === 0) {
+      return {
+        status: 403,
+        error: `ليس لديك صلاحية إنشاء مناسبات من باقة "${tier.name}". تواصل مع مالك النظام.`,
+      };
+    }
+
+    const tierEventCount = await storage.getEventCountByManagerAndTier(user.id, capacityTierId);
+    if (tierEventCount >= quota) {
+      return {
+        status: 403,
+        error: `لقد وصلت للحد الأقصى من باقة "${tier.name}" (${quota}). تواصل مع مالك النظام لزيادة حصتك.`,
+      };
+    }
+    if (tierEventCount + count > quota) {
+      return {
+        status: 403,
+        error: `المتبقي من باقة "${tier.name}" ${quota - tierEventCount} مناسبة فقط ولا يكفي لـ ${count} مناسبة. تواصل مع مالك النظام لزيادة حصتك.`,
+      };
+    }
+  }
+  return null;
+}
+
+// Scans replayed from an offline device keep the time they were taken
+function parseScannedAt(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value as string);
+  return !isNaN(parsed.getTime()) && parsed <= new Date() ? parsed : undefined;
+}
+
+// Calling code for guest phones written in a national format
+async function getPhoneCountryCode(): Promise<string> {
+  const settings = await storage.getSiteSettings();
+  return settings?.phoneCountryCode || DEFAULT_PHONE_COUNTRY_CODE;
+}
+
+// The event's other guest with the same phone, compared in E.164
+function findGuestByPhone(guestList: Guest[], phone: string, countryCode: string, exceptId?: string) {
+  if (!phone) return undefined;
+  return guestList.find((g) => g.id !== exceptId && phoneMatchKey(g.phone, countryCode) === phone);
+}
+
+const RSVP_STATUSES: RsvpStatus[] = ["pending", "confirmed", "declined"];
+
+const rsvpLabels: Record<string, string> = {
+  pending: "بانتظار الرد",
+  confirmed: "مؤكد",
+  declined: "معتذر",
+};
+
+function hasEventDayEnded(event: Event): boolean {
+  const eventDay = eventLastDay(event);
+  eventDay.setHours(23, 59, 59, 999);
+  return Date.now() > eventDay.getTime();
+}
+
+// Answers are accepted until the end of the event day
+function isRsvpOpen(event: Event): boolean {
+  return isEventActive(event) && !hasEventDayEnded(event);
+}
+
+function isRegistrationOpen(event: Event): boolean {
+  return !!event.registrationEnabled && isEventActive(event) && !hasEventDayEnded(event);
+}
+
+const registrationSchema = z.object({
+  name: z.string().trim().min(1, "الاسم مطلوب"),
+  phone: z.string().trim().min(1, "رقم الجوال مطلوب"),
+  category: z.string().optional(),
+});
+
+// Guests invited with more companions than the event allows keep their count
+function getRsvpCompanionLimit(event: Event, guest: Guest): number {
+  return Math.max(event.rsvpMaxCompanions || 0, guest.companions || 0);
+}
+
+function toPublicRsvp(event: Event, guest: Guest): PublicRsvp {
+  return {
+    guest: {
+      name: guest.name,
+      companions: guest.companions || 0,
+      rsvpStatus: guest.rsvpStatus || "pending",
+      rsvpAt: guest.rsvpAt,
+    },
+    event: {
+      name: event.name,
+      description: event.description,
+      date: event.date,
+      endDate: event.endDate,
+      location: event.location,
+      startTime: event.startTime,
+      endTime: event.endTime,
+    },
+    maxCompanions: getRsvpCompanionLimit(event, guest),
+    isOpen: isRsvpOpen(event),
+  };
+}
+
+// Strip characters that are not allowed in file names on common systems
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "guest";
+}
+
 declare module "express-session" {
   interface SessionData {
     userId: string;
@@ -75,6 +431,41 @@ function requireRole(...roles: string[]) {
   };
 }
 
+// Records owned by an event that routes reach through their own id
+const eventRecordLookups: Record<string, (id: string) => Promise<{ eventId: string } | undefined>> = {
+  guests: (id) => storage.getGuest(id),
+  categories: (id) => storage.getGuestCategory(id),
+  fields: (id) => storage.getGuestField(id),
+  tables: (id) => storage.getSeatingTable(id),
+  zones: (id) => storage.getAccessZone(id),
+  sessions: (id) => storage.getEventSession(id),
+  "message-templates": (id) => storage.getMessageTemplate(id),
+};
+
+// Archived events are read-only: writes to the event or to anything it owns
+// are refused here rather than in every handler. Status changes still go
+// through so an event can be taken out of the archive, and copies so a past
+// event can be run again.
+async function rejectArchivedEventWrites(req: Request, res: Response, next: NextFunction) {
+  if (req.method === "GET") return next();
+  try {
+    const [, resource, id, action] = req.path.split("/");
+    let eventId: string | undefined;
+    if (resource === "events" && id && action !== "status" && action !== "duplicate") {
+      eventId = id;
+    } else if (id && eventRecordLookups[resource]) {
+      eventId = (await eventRecordLookups[resource](id))?.eventId;
+    }
+    const event = eventId ? await storage.getEvent(eventId) : undefined;
+    if (event && isEventReadOnly(event)) {
+      return res.status(403).json({ error: "المناسبة مؤرشفة ولا يمكن تعديلها" });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ error: "خطأ في التحقق من حالة المناسبة" });
+  }
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -93,6 +484,8 @@ export async function registerRoutes(
     })
   );
 
+  app.use("/api", rejectArchivedEventWrites);
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -373,59 +766,56 @@ export async function registerRoutes(
     try {
       const user = (req as any).user;
 
-      // Validate capacity tier for event managers
-      if (user.role === "event_manager" && !req.body.capacityTierId) {
-        return res.status(400).json({ error: "يجب اختيار باقة سعة المناسبة" });
+      const quotaError = await eventQuotaError(user, req.body.capacityTierId);
+      if (quotaError) {
+        return res.status(quotaError.status).json({ error: quotaError.error });
       }
 
-      // If capacity tier provided, verify it exists
-      if (req.body.capacityTierId) {
-        const tier = await storage.getCapacityTier(req.body.capacityTierId);
-        if (!tier || !tier.isActive) {
-          return res.status(400).json({ error: "باقة السعة غير صالحة" });
-        }
-        
-        // Check tier-specific quota for event managers
-        if (user.role === "event_manager") {
-          const userTierQuotas = await storage.getUserTierQuotas(user.id);
-          const tierQuota = userTierQuotas.find(q => String(q.capacityTierId) === String(req.body.capacityTierId));
-          const quota = tierQuota?.quota || 0;
-          
-          if (quota === 0) {
-            return res.status(403).json({ 
-              error: `ليس لديك صلاحية إنشاء مناسبات من باقة "${tier.name}". تواصل مع مالك النظام.` 
-            });
-          }
-          
-          const tierEventCount = await storage.getEventCountByManagerAndTier(user.id, req.body.capacityTierId);
-          if (tierEventCount >= quota) {
-            return res.status(403).json({ 
-              error: `لقد وصلت للحد الأقصى من باقة "${tier.name}" (${quota}). تواصل مع مالك النظام لزيادة حصتك.` 
-            });
-          }
+      // Categories, fields, zones and message templates of a saved template;
+      // events join a series through /api/events/:id/series only
+      const { templateId, seriesId: _seriesId, ...body } = req.body;
+      let template: EventTemplate | undefined;
+      if (templateId) {
+        template = await storage.getEventTemplate(templateId);
+        if (!template || template.userId !== user.id) {
+          return res.status(404).json({ error: "القالب غير موجود" });
         }
       }
 
       // Parse date string to Date object
       const eventData = {
-        ...req.body,
+        ...body,
         eventManagerId: user.id,
         date: req.body.date ? new Date(req.body.date) : undefined,
-        isActive: true,
+        endDate: parseEndDate(req.body.endDate) ?? null,
+        checkInGraceMinutes: parseGraceMinutes(req.body.checkInGraceMinutes),
+        // New events are prepared as drafts and published when ready
+        status: "draft" as const,
       };
 
       // Validate required fields
       if (!eventData.name || !eventData.date) {
         return res.status(400).json({ error: "اسم المناسبة والتاريخ مطلوبان" });
       }
+      if (eventData.checkInGraceMinutes === null) {
+        return res.status(400).json({ error: "مهلة تسجيل الحضور غير صالحة" });
+      }
+      if (eventData.endDate && eventData.endDate < eventData.date) {
+        return res.status(400).json({ error: "تاريخ نهاية المناسبة قبل تاريخ بدايتها" });
+      }
 
       const event = await storage.createEvent(eventData);
+      if (template) {
+        await applyEventSetup(event.id, template.setup);
+      }
 
       await storage.createAuditLog({
         eventId: event.id,
         userId: user.id,
         action: "create_event",
-        details: `تم إنشاء المناسبة: ${event.name}`,
+        details: template
+          ? `تم إنشاء المناسبة: ${event.name} من القالب ${template.name}`
+          : `تم إنشاء المناسبة: ${event.name}`,
       });
 
       res.json(event);
@@ -447,12 +837,44 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
+      // Status moves through /api/events/:id/status only. An occurrence of a
+      // series passes its changes on to the following ones with scope "future".
+      const { status: _status, seriesId: _seriesId, scope, ...body } = req.body;
       const updateData = {
-        ...req.body,
+        ...body,
         date: req.body.date ? new Date(req.body.date) : undefined,
+        endDate: parseEndDate(req.body.endDate),
+        checkInGraceMinutes: parseGraceMinutes(req.body.checkInGraceMinutes),
+      };
+      if (updateData.checkInGraceMinutes === null) {
+        return res.status(400).json({ error: "مهلة تسجيل الحضور غير صالحة" });
+      }
+
+      // Sessions must stay within the event's days
+      const days = {
+        date: updateData.date ?? event.date,
+        endDate: updateData.endDate === undefined ? event.endDate : updateData.endDate,
       };
+      if (days.endDate && days.endDate < days.date) {
+        return res.status(400).json({ error: "تاريخ نهاية المناسبة قبل تاريخ بدايتها" });
+      }
+      const sessions = await storage.getEventSessionsByEvent(event.id);
+      if (sessions.some((s) => !isWithinEventDays(days, s.date))) {
+        return res.status(400).json({ error: "توجد جلسات خارج أيام المناسبة، عدّل تواريخها أولاً" });
+      }
 
       const updated = await storage.updateEvent(req.params.id, updateData);
+      if (scope === "future") {
+        const following = await updateFollowingOccurrences(event, updateData);
+        if (following > 0) {
+          await storage.createAuditLog({
+            eventId: event.id,
+            userId: user.id,
+            action: "series_update",
+            details: `تم تطبيق تعديلات المناسبة على ${following} مناسبة تالية في السلسلة`,
+          });
+        }
+      }
       res.json(updated);
     } catch (error) {
       console.error("Update event error:", error);
@@ -460,6 +882,163 @@ export async function registerRoutes(
     }
   });
 
+  // Move an event along its lifecycle; the schedule also takes published events
+  // live and closes live ones on its own
+  app.post("/api/events/:id/status", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { status } = req.body;
+      if (!Object.prototype.hasOwnProperty.call(EVENT_STATUS_LABELS, status)) {
+        return res.status(400).json({ error: "حالة المناسبة غير صالحة" });
+      }
+      if (!canTransition(event.status, status)) {
+        return res.status(400).json({
+          error: `لا يمكن نقل المناسبة من ${EVENT_STATUS_LABELS[event.status]} إلى ${EVENT_STATUS_LABELS[status as EventStatus]}`,
+        });
+      }
+
+      const updated = await changeEventStatus(event, status, user.id);
+      if (!updated) {
+        return res.status(409).json({ error: "تغيرت حالة المناسبة، أعد تحميل الصفحة" });
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تغيير حالة المناسبة" });
+    }
+  });
+
+  // Start a new draft event from an existing one on another day, with its
+  // setup and optionally its guests and organizers. Counts against the
+  // manager's quota for the event's capacity tier like any new event.
+  app.post("/api/events/:id/duplicate", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const source = await storage.getEvent(req.params.id);
+
+      if (!source) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && source.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = eventDuplicateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+      const { name, date, copyGuests, copyOrganizers } = parseResult.data;
+
+      const quotaError = await eventQuotaError(user, source.capacityTierId);
+      if (quotaError) {
+        return res.status(quotaError.status).json({ error: quotaError.error });
+      }
+
+      // One transaction, so a copy failing partway leaves no half-copied event
+      const { event, copied } = await storage.transaction(async (store) => {
+        const event = await store.createEvent(copiedEvent(source, name, date));
+        const copied = await copyEventContents(source, event, { copyGuests, copyOrganizers }, store);
+        return { event, copied };
+      });
+
+      const details = [`تم نسخ المناسبة ${source.name} إلى ${event.name}`];
+      if (copyGuests) details.push(`${copied.guests} ضيف`);
+      if (copied.skippedGuests > 0) details.push(`لم يُنسخ ${copied.skippedGuests} ضيف لاكتمال السعة`);
+      if (copyOrganizers) details.push(`${copied.organizers} منظم`);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "duplicate_event",
+        details: details.join("، "),
+      });
+
+      res.json({ event, ...copied });
+    } catch (error) {
+      console.error("Duplicate event error:", error);
+      res.status(500).json({ error: "خطأ في نسخ المناسبة" });
+    }
+  });
+
+  // Repeat an event weekly, monthly or on chosen days: it becomes the first
+  // occurrence of a series and the others are generated from it
+  app.post("/api/events/:id/series", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const source = await storage.getEvent(req.params.id);
+
+      if (!source) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && source.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      if (source.seriesId) {
+        return res.status(400).json({ error: "المناسبة ضمن سلسلة بالفعل" });
+      }
+
+      const parseResult = eventSeriesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+      const { recurrence, count, dates } = parseResult.data;
+
+      const { first } = eventDayRange(source);
+      const days = recurrence === "custom"
+        ? customRecurrenceDates(first, dates!)
+        : recurrenceDates(first, recurrence, count!);
+      if (!days) {
+        return res.status(400).json({ error: "مواعيد السلسلة يجب أن تكون بعد موعد المناسبة" });
+      }
+
+      // Each generated occurrence takes one event of the manager's quota
+      const quotaError = await eventQuotaError(user, source.capacityTierId, days.length);
+      if (quotaError) {
+        return res.status(quotaError.status).json({ error: quotaError.error });
+      }
+
+      const series = await startEventSeries(source, recurrence, days);
+
+      await storage.createAuditLog({
+        eventId: source.id,
+        userId: user.id,
+        action: "create_series",
+        details: `تم تكرار المناسبة ${RECURRENCE_LABELS[recurrence]}: ${days.length} مناسبة تالية`,
+      });
+
+      res.json(series);
+    } catch (error) {
+      console.error("Create series error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء سلسلة المناسبات" });
+    }
+  });
+
+  // A series with the attendance of each occurrence and across all of them
+  app.get("/api/series/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const series = await storage.getEventSeries(req.params.id);
+
+      if (!series) {
+        return res.status(404).json({ error: "السلسلة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && series.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await getSeriesSummary(series));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب سلسلة المناسبات" });
+    }
+  });
+
   app.delete("/api/events/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
@@ -501,11 +1080,12 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/events/:id/upload-guests", requireRole("event_manager", "admin", "super_admin"), upload.single("file"), async (req, res) => {
+  // Guest import step 1: validate the sheet and report per-row problems without saving
+  app.post("/api/events/:id/upload-guests/preview", requireRole("event_manager", "admin", "super_admin"), upload.single("file"), async (req, res) => {
     try {
       const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
+
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -517,67 +1097,40 @@ export async function registerRoutes(
         return res.status(400).json({ error: "لم يتم رفع ملف" });
       }
 
-      const workbook = XLSX.read(req.file.buffer, { type: "buffer" });
-      const sheetName = workbook.SheetNames[0];
-      const sheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(sheet) as Record<string, any>[];
-
-      // Check capacity limit if event has a capacity tier
-      let maxAllowedGuests = Infinity;
-      if (event.capacityTierId) {
-        const tier = await storage.getCapacityTier(event.capacityTierId);
-        if (tier && !tier.isUnlimited && tier.maxGuests) {
-          const currentGuests = await storage.getGuestsByEvent(req.params.id);
-          const remainingCapacity = tier.maxGuests - currentGuests.length;
-          if (remainingCapacity <= 0) {
-            return res.status(403).json({ 
-              error: `لقد وصلت للحد الأقصى من الضيوف لهذه المناسبة (${tier.maxGuests}). يمكنك ترقية باقة السعة.` 
-            });
-          }
-          maxAllowedGuests = remainingCapacity;
-        }
+      const options = parseImportOptions(req.body.options);
+      if (!options) {
+        return res.status(400).json({ error: "خيارات الاستيراد غير صالحة" });
       }
-
-      let guestsToCreate = data.map((row) => ({
-        eventId: req.params.id,
-        name: String(row["الاسم"] || row["Name"] || row["name"] || ""),
-        phone: String(row["الجوال"] || row["Phone"] || row["phone"] || ""),
-        category: ((row["الفئة"] || row["Category"] || "regular").toString().toLowerCase()) as any,
-        companions: parseInt(row["عدد المرافقين"] || row["Companions"] || "0") || 0,
-        notes: String(row["ملاحظات"] || row["Notes"] || ""),
-        qrCode: generateAccessCode(),
-      }));
-
-      // Limit guests to remaining capacity
-      let limitedMessage = "";
-      if (guestsToCreate.length > maxAllowedGuests) {
-        const originalCount = guestsToCreate.length;
-        guestsToCreate = guestsToCreate.slice(0, maxAllowedGuests);
-        limitedMessage = ` (تم إضافة ${guestsToCreate.length} فقط من ${originalCount} بسبب حد السعة)`;
+      const sheet = readGuestSheet(req.file.buffer, req.file.originalname, options);
+      if (!sheet) {
+        return res.status(400).json({ error: "صيغة الملف غير مدعومة، استخدم XLSX أو XLS أو ODS أو CSV" });
       }
+      const fields = await storage.getGuestFieldsByEvent(event.id);
+      const mapping = resolveMapping(sheet.headers, fields, options.mapping);
+      const rows = validateGuestRows(
+        sheet.rows,
+        mapping,
+        await storage.getGuestsByEvent(event.id),
+        await storage.getGuestCategoriesByEvent(event.id),
+        fields,
+        event.duplicatePhoneMode,
+        await getPhoneCountryCode()
+      );
+      const capacity = await getGuestCapacity(event);
 
-      const createdGuests = await storage.createGuests(guestsToCreate);
-
-      await storage.createAuditLog({
-        eventId: req.params.id,
-        userId: user.id,
-        action: "upload_guests",
-        details: `تم رفع ${createdGuests.length} ضيف`,
-      });
-
-      res.json({ count: createdGuests.length, guests: createdGuests });
+      res.json(summarizeImport(sheet, mapping, rows, capacity.remaining));
     } catch (error) {
-      console.error("Upload error:", error);
+      console.error("Upload preview error:", error);
       res.status(500).json({ error: "خطأ في معالجة الملف" });
     }
   });
 
-  // Add single guest
-  app.post("/api/events/:id/guests", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Rows of the uploaded sheet that have errors or warnings, as an Excel file
+  app.post("/api/events/:id/upload-guests/errors", requireRole("event_manager", "admin", "super_admin"), upload.single("file"), async (req, res) => {
     try {
       const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
+
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -585,119 +1138,192 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      // Check capacity limit if event has a capacity tier
-      if (event.capacityTierId) {
-        const tier = await storage.getCapacityTier(event.capacityTierId);
-        if (tier && !tier.isUnlimited && tier.maxGuests) {
-          const currentGuests = await storage.getGuestsByEvent(req.params.id);
-          if (currentGuests.length >= tier.maxGuests) {
-            return res.status(403).json({ 
-              error: `لقد وصلت للحد الأقصى من الضيوف لهذه المناسبة (${tier.maxGuests}). يمكنك ترقية باقة السعة.` 
-            });
-          }
-        }
+      if (!req.file) {
+        return res.status(400).json({ error: "لم يتم رفع ملف" });
       }
 
-      const { name, phone, category, companions, notes } = req.body;
-
-      if (!name || name.trim() === "") {
-        return res.status(400).json({ error: "اسم الضيف مطلوب" });
+      const options = parseImportOptions(req.body.options);
+      if (!options) {
+        return res.status(400).json({ error: "خيارات الاستيراد غير صالحة" });
       }
+      const sheet = readGuestSheet(req.file.buffer, req.file.originalname, options);
+      if (!sheet) {
+        return res.status(400).json({ error: "صيغة الملف غير مدعومة، استخدم XLSX أو XLS أو ODS أو CSV" });
+      }
+      const fields = await storage.getGuestFieldsByEvent(event.id);
+      const mapping = resolveMapping(sheet.headers, fields, options.mapping);
+      const rows = validateGuestRows(
+        sheet.rows,
+        mapping,
+        await storage.getGuestsByEvent(event.id),
+        await storage.getGuestCategoriesByEvent(event.id),
+        fields,
+        event.duplicatePhoneMode,
+        await getPhoneCountryCode()
+      );
+      const buffer = buildImportErrorSheet(sheet.rows, rows);
 
-      const guest = await storage.createGuest({
-        eventId: req.params.id,
-        name: name.trim(),
-        phone: phone || "",
-        category: category || "regular",
-        companions: companions || 0,
-        notes: notes || "",
-        qrCode: generateAccessCode(),
-      });
-
-      await storage.createAuditLog({
-        eventId: req.params.id,
-        userId: user.id,
-        action: "add_guest",
-        details: `تم إضافة ضيف: ${guest.name}`,
-        guestId: guest.id,
-      });
+      const filename = encodeURIComponent(`أخطاء-الاستيراد-${event.name}.xlsx`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
 
-      res.json(guest);
+      res.send(buffer);
     } catch (error) {
-      console.error("Add guest error:", error);
-      res.status(500).json({ error: "خطأ في إضافة الضيف" });
+      console.error("Upload errors sheet error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء ملف الأخطاء" });
     }
   });
 
-  app.post("/api/guests/:id/check-in", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+  // Guest import step 2: re-validate the same file and insert only the valid rows
+  app.post("/api/events/:id/upload-guests", requireRole("event_manager", "admin", "super_admin"), upload.single("file"), async (req, res) => {
     try {
       const user = (req as any).user;
-      const guest = await storage.getGuest(req.params.id);
+      const event = await storage.getEvent(req.params.id);
       
-      if (!guest) {
-        return res.status(404).json({
-          status: "invalid",
-          message: "الضيف غير موجود",
-        });
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
 
-      // Verify access to this event
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === guest.eventId)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      } else if (user.role === "event_manager") {
-        const event = await storage.getEvent(guest.eventId);
-        if (!event || event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
+      if (!req.file) {
+        return res.status(400).json({ error: "لم يتم رفع ملف" });
       }
 
-      if (guest.isCheckedIn) {
-        const checkedInByUser = guest.checkedInBy
-          ? await storage.getUser(guest.checkedInBy)
-          : null;
-        return res.json({
-          status: "duplicate",
-          guest,
-          message: "تم استخدام هذه الدعوة مسبقاً!",
-          checkedInAt: guest.checkedInAt,
-          checkedInBy: checkedInByUser?.name || "غير معروف",
-        });
+      const options = parseImportOptions(req.body.options);
+      if (!options) {
+        return res.status(400).json({ error: "خيارات الاستيراد غير صالحة" });
+      }
+      const sheet = readGuestSheet(req.file.buffer, req.file.originalname, options);
+      if (!sheet) {
+        return res.status(400).json({ error: "صيغة الملف غير مدعومة، استخدم XLSX أو XLS أو ODS أو CSV" });
       }
+      const fields = await storage.getGuestFieldsByEvent(event.id);
+      const mapping = resolveMapping(sheet.headers, fields, options.mapping);
+      const rows = validateGuestRows(
+        sheet.rows,
+        mapping,
+        await storage.getGuestsByEvent(event.id),
+        await storage.getGuestCategoriesByEvent(event.id),
+        fields,
+        event.duplicatePhoneMode,
+        await getPhoneCountryCode()
+      );
+      const validRows = rows.filter((r) => r.errors.length === 0);
+      const newRows = validRows.filter((r) => r.action === "create");
+      const mergeRows = validRows.filter((r) => r.action === "update");
+
+      // The import is all or nothing, as the preview promised, and counts the
+      // event's capacity under its lock; merges add nobody
+      const imported = await withGuestCapacity(event, async (store, capacity) => {
+        if (newRows.length > 0 && mergeRows.length === 0 && capacity.remaining <= 0) {
+          return { capacity, createdGuests: null };
+        }
 
-      const updatedGuest = await storage.checkInGuest(req.params.id, user.id);
+        // Limit guests to remaining capacity
+        const guestsToCreate = newRows.slice(0, Math.max(capacity.remaining, 0)).map((row) => ({
+          eventId: req.params.id,
+          ...row.data,
+          qrCode: generateAccessCode(),
+        }));
+        const createdGuests = await store.createGuests(guestsToCreate);
+        for (const row of mergeRows) {
+          await store.updateGuest(row.guestId!, row.updates!);
+        }
+        return { capacity, createdGuests };
+      });
+      const { createdGuests } = imported;
+      if (!createdGuests) {
+        return res.status(403).json({ error: capacityReachedMessage(imported.capacity.maxGuests) });
+      }
 
       await storage.createAuditLog({
-        eventId: guest.eventId,
+        eventId: req.params.id,
         userId: user.id,
-        action: "check_in",
-        details: `تم تسجيل حضور: ${guest.name}`,
-        guestId: guest.id,
+        action: "upload_guests",
+        details: mergeRows.length
+          ? `تم رفع ${createdGuests.length} ضيف وتحديث ${mergeRows.length} ضيف مكرر`
+          : `تم رفع ${createdGuests.length} ضيف`,
       });
 
       res.json({
-        status: "success",
-        guest: updatedGuest,
-        message: "تم تسجيل الحضور بنجاح",
+        count: createdGuests.length,
+        merged: mergeRows.length,
+        guests: createdGuests,
+        skippedInvalid: rows.length - validRows.length,
+        skippedForCapacity: newRows.length - createdGuests.length,
       });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تسجيل الحضور" });
+      console.error("Upload error:", error);
+      res.status(500).json({ error: "خطأ في معالجة الملف" });
     }
   });
 
-  // Get single guest
-  app.get("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Saved column mappings for guest imports; each user sees only their own
+  app.get("/api/import-profiles", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
-      const guest = await storage.getGuest(req.params.id);
-      
-      if (!guest) {
-        return res.status(404).json({ error: "الضيف غير موجود" });
+      const profiles = await storage.getGuestImportProfilesByUser(user.id);
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب ملفات الاستيراد" });
+    }
+  });
+
+  app.post("/api/import-profiles", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const parseResult = guestImportProfileSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
       }
 
-      const event = await storage.getEvent(guest.eventId);
+      const profile = await storage.createGuestImportProfile({ ...parseResult.data, userId: user.id });
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حفظ ملف الاستيراد" });
+    }
+  });
+
+  app.delete("/api/import-profiles/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const profile = await storage.getGuestImportProfile(req.params.id);
+
+      if (!profile || profile.userId !== user.id) {
+        return res.status(404).json({ error: "ملف الاستيراد غير موجود" });
+      }
+
+      await storage.deleteGuestImportProfile(profile.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف ملف الاستيراد" });
+    }
+  });
+
+  // Saved event templates; each user sees only their own
+  app.get("/api/event-templates", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const templates = await storage.getEventTemplatesByUser(user.id);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب القوالب" });
+    }
+  });
+
+  // Save an event's settings and setup as a template for new events
+  app.post("/api/event-templates", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const parseResult = eventTemplateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const event = await storage.getEvent(parseResult.data.eventId);
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -705,23 +1331,78 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      res.json(guest);
+      const template = await storage.createEventTemplate({
+        userId: user.id,
+        name: parseResult.data.name,
+        settings: {
+          description: event.description,
+          location: event.location,
+          startTime: event.startTime,
+          endTime: event.endTime,
+          capacityTierId: event.capacityTierId,
+          rsvpMaxCompanions: event.rsvpMaxCompanions,
+          duplicatePhoneMode: event.duplicatePhoneMode,
+          reentryPolicy: event.reentryPolicy,
+          reentryLimit: event.reentryLimit,
+          checkInGraceMinutes: event.checkInGraceMinutes,
+        },
+        setup: await captureEventSetup(event.id),
+      });
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "save_event_template",
+        details: `تم حفظ المناسبة كقالب: ${template.name}`,
+      });
+
+      res.json(template);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب بيانات الضيف" });
+      res.status(500).json({ error: "خطأ في حفظ القالب" });
     }
   });
 
-  // Update guest
-  app.patch("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.delete("/api/event-templates/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
-      const guest = await storage.getGuest(req.params.id);
-      
-      if (!guest) {
-        return res.status(404).json({ error: "الضيف غير موجود" });
+      const template = await storage.getEventTemplate(req.params.id);
+
+      if (!template || template.userId !== user.id) {
+        return res.status(404).json({ error: "القالب غير موجود" });
       }
 
-      const event = await storage.getEvent(guest.eventId);
+      await storage.deleteEventTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف القالب" });
+    }
+  });
+
+  // Guest categories of an event; organizers read them to label guests at the door
+  app.get("/api/events/:id/categories", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+      res.json(categories);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الفئات" });
+    }
+  });
+
+  app.post("/api/events/:id/categories", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -729,40 +1410,64 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const { name, phone, category, companions, notes } = req.body;
-      const updated = await storage.updateGuest(req.params.id, {
-        name,
-        phone,
-        category,
-        companions,
-        notes,
-      });
+      const parseResult = guestCategorySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
 
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "update_guest",
-        details: `تم تعديل ضيف: ${guest.name}`,
-        guestId: guest.id,
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+      if (categories.some((c) => c.name === parseResult.data.name)) {
+        return res.status(400).json({ error: "توجد فئة بهذا الاسم في المناسبة" });
+      }
+
+      // Short random key: it is stored on guests and carried in every signed QR token
+      const category = await storage.createGuestCategory({
+        ...parseResult.data,
+        eventId: event.id,
+        key: `c${randomBytes(4).toString("hex")}`,
+        sortOrder: categories.length,
       });
+      res.json(category);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء الفئة" });
+    }
+  });
 
-      res.json(updated);
+  // ids: every category of the event in the new order
+  app.post("/api/events/:id/categories/reorder", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+        return res.status(400).json({ error: "ترتيب الفئات غير صالح" });
+      }
+
+      const categories = await storage.reorderGuestCategories(event.id, ids);
+      res.json(categories);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تحديث الضيف" });
+      res.status(500).json({ error: "خطأ في ترتيب الفئات" });
     }
   });
 
-  // Delete guest
-  app.delete("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.patch("/api/categories/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
-      const guest = await storage.getGuest(req.params.id);
-      
-      if (!guest) {
-        return res.status(404).json({ error: "الضيف غير موجود" });
+      const category = await storage.getGuestCategory(req.params.id);
+
+      if (!category) {
+        return res.status(404).json({ error: "الفئة غير موجودة" });
       }
 
-      const event = await storage.getEvent(guest.eventId);
+      const event = await storage.getEvent(category.eventId);
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -770,45 +1475,64 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      await storage.deleteGuest(req.params.id);
+      const parseResult = guestCategorySchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
 
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "delete_guest",
-        details: `تم حذف ضيف: ${guest.name}`,
-        guestId: guest.id,
-      });
+      const { name } = parseResult.data;
+      if (name !== undefined) {
+        const categories = await storage.getGuestCategoriesByEvent(event.id);
+        if (categories.some((c) => c.id !== category.id && c.name === name)) {
+          return res.status(400).json({ error: "توجد فئة بهذا الاسم في المناسبة" });
+        }
+      }
 
-      res.json({ success: true });
+      const updated = await storage.updateGuestCategory(category.id, parseResult.data);
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في حذف الضيف" });
+      res.status(500).json({ error: "خطأ في تحديث الفئة" });
     }
   });
 
-  // Organizer events
-  app.get("/api/organizer/events", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+  // Categories still held by guests cannot be deleted; they must be moved first
+  app.delete("/api/categories/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
+      const category = await storage.getGuestCategory(req.params.id);
 
-      if (user.role === "organizer") {
-        const events = await storage.getOrganizerEvents(user.id);
-        res.json(events);
-      } else if (canBypassOwnership(user.role)) {
-        // Admin and super_admin see all events
-        const events = await storage.getEvents();
-        res.json(events);
-      } else {
-        const events = await storage.getEventsByManager(user.id);
-        res.json(events);
+      if (!category) {
+        return res.status(404).json({ error: "الفئة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(category.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+      if (categories.length <= 1) {
+        return res.status(400).json({ error: "يجب أن تبقى فئة واحدة على الأقل" });
+      }
+      const guestCount = await storage.countGuestsInCategory(event.id, category.key);
+      if (guestCount > 0) {
+        return res.status(400).json({
+          error: `لا يمكن حذف الفئة لأن ${guestCount} ضيف مسجلون فيها، انقلهم إلى فئة أخرى أولاً`,
+        });
       }
+
+      await storage.deleteGuestCategory(category.id);
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب المناسبات" });
+      res.status(500).json({ error: "خطأ في حذف الفئة" });
     }
   });
 
-  // Event organizers management
-  app.get("/api/events/:id/organizers", requireAuth, async (req, res) => {
+  // Custom guest fields of an event
+  app.get("/api/events/:id/fields", requireAuth, async (req, res) => {
     try {
       const user = await storage.getUser(req.session.userId!);
       if (!user) return res.status(401).json({ error: "غير مصرح" });
@@ -816,31 +1540,22 @@ export async function registerRoutes(
       const event = await storage.getEvent(req.params.id);
       if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
 
-      // Check access - admin/super_admin bypass, event manager owns event, or organizer is assigned
-      if (!canBypassOwnership(user.role)) {
-        if (user.role === "event_manager" && event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      }
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === event.id)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const organizers = await storage.getEventOrganizers(req.params.id);
-      res.json(organizers.map((u) => ({ ...u, password: undefined })));
+      const fields = await storage.getGuestFieldsByEvent(event.id);
+      res.json(fields);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب المنظمين" });
+      res.status(500).json({ error: "خطأ في جلب الحقول" });
     }
   });
 
-  app.post("/api/events/:id/organizers", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.post("/api/events/:id/fields", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
+
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -848,31 +1563,1727 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const { organizerId } = req.body;
-      
-      // Event manager can only assign organizers they created
-      if (user.role === "event_manager") {
-        const organizer = await storage.getUser(organizerId);
-        if (!organizer || organizer.createdById !== user.id) {
-          return res.status(403).json({ error: "لا يمكنك تعيين منظم لم تقم بإنشائه" });
-        }
+      const parseResult = guestFieldSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
       }
-      
-      const assignment = await storage.assignOrganizer({
-        eventId: req.params.id,
-        organizerId,
+
+      const { label, type } = parseResult.data;
+      const options = type === "select" ? uniqueOptions(parseResult.data.options) : [];
+      if (type === "select" && options.length === 0) {
+        return res.status(400).json({ error: "أضف خياراً واحداً على الأقل لحقل القائمة" });
+      }
+
+      const fields = await storage.getGuestFieldsByEvent(event.id);
+      const labelError = customFieldLabelError(label, fields.map((f) => f.label));
+      if (labelError) {
+        return res.status(400).json({ error: labelError });
+      }
+
+      const field = await storage.createGuestField({
+        eventId: event.id,
+        key: `f${randomBytes(4).toString("hex")}`,
+        label,
+        type,
+        options,
+        sortOrder: fields.length,
       });
-      res.json(assignment);
+      res.json(field);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء الحقل" });
+    }
+  });
+
+  // ids: every field of the event in the new order
+  app.post("/api/events/:id/fields/reorder", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+        return res.status(400).json({ error: "ترتيب الحقول غير صالح" });
+      }
+
+      const fields = await storage.reorderGuestFields(event.id, ids);
+      res.json(fields);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في ترتيب الحقول" });
+    }
+  });
+
+  // Renames a field or changes its choices; values already saved are kept
+  app.patch("/api/fields/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const field = await storage.getGuestField(req.params.id);
+
+      if (!field) {
+        return res.status(404).json({ error: "الحقل غير موجود" });
+      }
+
+      const event = await storage.getEvent(field.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = guestFieldSchema.omit({ type: true }).partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const { label } = parseResult.data;
+      if (label !== undefined) {
+        const fields = await storage.getGuestFieldsByEvent(event.id);
+        const labelError = customFieldLabelError(
+          label,
+          fields.filter((f) => f.id !== field.id).map((f) => f.label)
+        );
+        if (labelError) {
+          return res.status(400).json({ error: labelError });
+        }
+      }
+
+      let options: string[] | undefined;
+      if (parseResult.data.options !== undefined && field.type === "select") {
+        options = uniqueOptions(parseResult.data.options);
+        if (options.length === 0) {
+          return res.status(400).json({ error: "أضف خياراً واحداً على الأقل لحقل القائمة" });
+        }
+      }
+
+      const updated = await storage.updateGuestField(field.id, {
+        ...(label !== undefined ? { label } : {}),
+        ...(options ? { options } : {}),
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الحقل" });
+    }
+  });
+
+  // Deleting a field also deletes its values from every guest of the event
+  app.delete("/api/fields/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const field = await storage.getGuestField(req.params.id);
+
+      if (!field) {
+        return res.status(404).json({ error: "الحقل غير موجود" });
+      }
+
+      const event = await storage.getEvent(field.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteGuestField(field.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف الحقل" });
+    }
+  });
+
+  // Seating tables of an event; organizers read them to direct guests after check-in
+  app.get("/api/events/:id/tables", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await getTableSummaries(event.id));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الطاولات" });
+    }
+  });
+
+  app.post("/api/events/:id/tables", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = seatingTableSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const tables = await storage.getSeatingTablesByEvent(event.id);
+      if (tables.some((t) => t.name === parseResult.data.name)) {
+        return res.status(400).json({ error: "توجد طاولة بهذا الاسم في المناسبة" });
+      }
+
+      const table = await storage.createSeatingTable({
+        ...parseResult.data,
+        eventId: event.id,
+        sortOrder: tables.length,
+      });
+      res.json(table);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء الطاولة" });
+    }
+  });
+
+  app.patch("/api/tables/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const table = await storage.getSeatingTable(req.params.id);
+
+      if (!table) {
+        return res.status(404).json({ error: "الطاولة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(table.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = seatingTableSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const summaries = await getTableSummaries(event.id);
+      const { name, capacity } = parseResult.data;
+      if (name !== undefined && summaries.some((t) => t.id !== table.id && t.name === name)) {
+        return res.status(400).json({ error: "توجد طاولة بهذا الاسم في المناسبة" });
+      }
+      const seatsTaken = summaries.find((t) => t.id === table.id)?.seatsTaken || 0;
+      if (capacity !== undefined && capacity < seatsTaken) {
+        return res.status(400).json({
+          error: `يجلس على الطاولة ${seatsTaken} شخص، لا يمكن تقليل السعة عن ذلك`,
+        });
+      }
+
+      const updated = await storage.updateSeatingTable(table.id, parseResult.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الطاولة" });
+    }
+  });
+
+  // Guests seated at a deleted table go back to the unassigned list
+  app.delete("/api/tables/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const table = await storage.getSeatingTable(req.params.id);
+
+      if (!table) {
+        return res.status(404).json({ error: "الطاولة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(table.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteSeatingTable(table.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف الطاولة" });
+    }
+  });
+
+  // Seat guests at a table, or unseat them with tableId null; the whole group
+  // is rejected when the table cannot take all of them with their companions
+  app.post("/api/events/:id/seating/assign", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { guestIds, tableId } = req.body;
+      if (!Array.isArray(guestIds) || !guestIds.every((id) => typeof id === "string")) {
+        return res.status(400).json({ error: "قائمة الضيوف غير صالحة" });
+      }
+
+      const eventGuests = await storage.getGuestsByEvent(event.id);
+      const selected = eventGuests.filter((g) => guestIds.includes(g.id));
+
+      let table: SeatingTableSummary | undefined;
+      if (tableId !== null) {
+        table = (await getTableSummaries(event.id, eventGuests)).find((t) => t.id === tableId);
+        if (!table) {
+          return res.status(404).json({ error: "الطاولة غير موجودة" });
+        }
+        const capacityError = seatingCapacityError(table, selected);
+        if (capacityError) {
+          return res.status(400).json({ error: capacityError });
+        }
+      }
+
+      await storage.assignGuestsToTable(event.id, selected.map((g) => g.id), table ? table.id : null);
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "assign_seats",
+        details: table
+          ? `تم إجلاس ${selected.length} ضيف على ${tableLabel(table)}`
+          : `تم إلغاء جلوس ${selected.length} ضيف`,
+      });
+
+      res.json({ count: selected.length });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في توزيع المقاعد" });
+    }
+  });
+
+  // Seat the unassigned guests, optionally of one category, at the tables
+  // (optionally of one section) that still have room
+  app.post("/api/events/:id/seating/auto-fill", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const category = typeof req.body.category === "string" && req.body.category ? req.body.category : null;
+      const section = typeof req.body.section === "string" && req.body.section ? req.body.section : null;
+
+      const eventGuests = await storage.getGuestsByEvent(event.id);
+      const tables = (await getTableSummaries(event.id, eventGuests)).filter(
+        (t) => !section || t.section === section
+      );
+      if (tables.length === 0) {
+        return res.status(400).json({ error: "لا توجد طاولات للتوزيع عليها" });
+      }
+
+      const waiting = eventGuests.filter((g) => !g.tableId && (!category || g.category === category));
+      const { assignments, unplaced } = planSeating(tables, waiting);
+
+      const byTable = new Map<string, string[]>();
+      assignments.forEach((tableId, guestId) => {
+        byTable.set(tableId, [...(byTable.get(tableId) || []), guestId]);
+      });
+      const tableIds = Array.from(byTable.keys());
+      for (let i = 0; i < tableIds.length; i++) {
+        await storage.assignGuestsToTable(event.id, byTable.get(tableIds[i])!, tableIds[i]);
+      }
+
+      if (assignments.size > 0) {
+        await storage.createAuditLog({
+          eventId: event.id,
+          userId: user.id,
+          action: "assign_seats",
+          details: `توزيع تلقائي: تم إجلاس ${assignments.size} ضيف`,
+        });
+      }
+
+      res.json({ assigned: assignments.size, unplaced: unplaced.length });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في التوزيع التلقائي" });
+    }
+  });
+
+  // Seating chart: one sheet listing each table's guests, one with the table totals
+  app.get("/api/events/:id/seating/export", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const eventGuests = await storage.getGuestsByEvent(event.id);
+      const tables = await getTableSummaries(event.id, eventGuests);
+      if (tables.length === 0) {
+        return res.status(400).json({ error: "لا توجد طاولات للتصدير" });
+      }
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+
+      const chartData: Record<string, string | number>[] = [];
+      for (const table of tables) {
+        for (const guest of eventGuests.filter((g) => g.tableId === table.id)) {
+          chartData.push({
+            "الطاولة": table.name,
+            "القسم": table.section || "",
+            "الاسم": guest.name,
+            "الجوال": guest.phone || "",
+            "الفئة": categoryName(categories, guest.category),
+            "عدد المرافقين": guest.companions || 0,
+            "المقاعد": seatsForGuest(guest),
+          });
+        }
+      }
+      for (const guest of eventGuests.filter((g) => !g.tableId)) {
+        chartData.push({
+          "الطاولة": "بدون طاولة",
+          "القسم": "",
+          "الاسم": guest.name,
+          "الجوال": guest.phone || "",
+          "الفئة": categoryName(categories, guest.category),
+          "عدد المرافقين": guest.companions || 0,
+          "المقاعد": seatsForGuest(guest),
+        });
+      }
+
+      const tablesData = tables.map((table) => ({
+        "الطاولة": table.name,
+        "القسم": table.section || "",
+        "السعة": table.capacity,
+        "المقاعد المشغولة": table.seatsTaken,
+        "المقاعد المتاحة": table.capacity - table.seatsTaken,
+        "عدد الضيوف": table.guestCount,
+      }));
+
+      const workbook = XLSX.utils.book_new();
+      const chartSheet = XLSX.utils.json_to_sheet(chartData);
+      chartSheet["!cols"] = [{ wch: 16 }, { wch: 16 }, { wch: 25 }, { wch: 15 }, { wch: 10 }, { wch: 12 }, { wch: 8 }];
+      XLSX.utils.book_append_sheet(workbook, chartSheet, "مخطط الجلوس");
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(tablesData), "الطاولات");
+
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      const filename = encodeURIComponent(`مخطط-الجلوس-${event.name}.xlsx`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+
+      res.send(buffer);
+    } catch (error) {
+      console.error("Seating export error:", error);
+      res.status(500).json({ error: "خطأ في تصدير مخطط الجلوس" });
+    }
+  });
+
+  // Access zones of an event; organizers read them to check entitlements offline
+  app.get("/api/events/:id/zones", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await getZoneSummaries(event.id));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المناطق" });
+    }
+  });
+
+  // Zone gate admissions of an event, newest first
+  app.get("/api/events/:id/zone-entries", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await storage.getZoneEntriesByEvent(event.id));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب سجل دخول المناطق" });
+    }
+  });
+
+  app.post("/api/events/:id/zones", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = accessZoneSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const zones = await storage.getAccessZonesByEvent(event.id);
+      if (zones.some((z) => z.name === parseResult.data.name)) {
+        return res.status(400).json({ error: "توجد منطقة بهذا الاسم في المناسبة" });
+      }
+      const categories = resolveZoneCategories(
+        await storage.getGuestCategoriesByEvent(event.id),
+        parseResult.data.categories
+      );
+      if (!categories) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
+      }
+
+      const zone = await storage.createAccessZone({
+        eventId: event.id,
+        name: parseResult.data.name,
+        categories,
+        sortOrder: zones.length,
+      });
+      res.json(zone);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء المنطقة" });
+    }
+  });
+
+  app.patch("/api/zones/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const zone = await storage.getAccessZone(req.params.id);
+
+      if (!zone) {
+        return res.status(404).json({ error: "المنطقة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(zone.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = accessZoneSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const { name } = parseResult.data;
+      if (name !== undefined) {
+        const zones = await storage.getAccessZonesByEvent(event.id);
+        if (zones.some((z) => z.id !== zone.id && z.name === name)) {
+          return res.status(400).json({ error: "توجد منطقة بهذا الاسم في المناسبة" });
+        }
+      }
+      const categories = parseResult.data.categories === undefined
+        ? undefined
+        : resolveZoneCategories(await storage.getGuestCategoriesByEvent(event.id), parseResult.data.categories);
+      if (categories === null) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
+      }
+
+      const updated = await storage.updateAccessZone(zone.id, {
+        ...(name !== undefined ? { name } : {}),
+        ...(categories !== undefined ? { categories } : {}),
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث المنطقة" });
+    }
+  });
+
+  // Organizers at a deleted zone's gate go back to the main entrance
+  app.delete("/api/zones/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const zone = await storage.getAccessZone(req.params.id);
+
+      if (!zone) {
+        return res.status(404).json({ error: "المنطقة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(zone.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteAccessZone(zone.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف المنطقة" });
+    }
+  });
+
+  // Sessions of an event; organizers read them to scan for the current session offline
+  app.get("/api/events/:id/sessions", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await getSessionSummaries(event.id));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الجلسات" });
+    }
+  });
+
+  // Attendance records of every session of an event, newest first
+  app.get("/api/events/:id/session-attendance", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await storage.getSessionAttendanceByEvent(event.id));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب حضور الجلسات" });
+    }
+  });
+
+  // Seats reserved ahead at every session of an event; organizers read them to
+  // admit registered guests to a full session offline
+  app.get("/api/events/:id/session-registrations", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await storage.getSessionRegistrationsByEvent(event.id));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المسجلين في الجلسات" });
+    }
+  });
+
+  app.post("/api/events/:id/sessions", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = eventSessionSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+      const data = parseResult.data;
+
+      if (!isWithinEventDays(event, data.date)) {
+        return res.status(400).json({ error: "تاريخ الجلسة خارج أيام المناسبة" });
+      }
+      if (data.startTime && data.endTime && data.endTime < data.startTime) {
+        return res.status(400).json({ error: "وقت نهاية الجلسة قبل وقت بدايتها" });
+      }
+      const sessions = await storage.getEventSessionsByEvent(event.id);
+      if (sessions.some((s) => s.date === data.date && s.name === data.name)) {
+        return res.status(400).json({ error: "توجد جلسة بهذا الاسم في اليوم نفسه" });
+      }
+
+      const session = await storage.createEventSession({ eventId: event.id, ...data });
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء الجلسة" });
+    }
+  });
+
+  app.patch("/api/sessions/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const session = await storage.getEventSession(req.params.id);
+
+      if (!session) {
+        return res.status(404).json({ error: "الجلسة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(session.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = eventSessionSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+      const data = parseResult.data;
+
+      if (!isWithinEventDays(event, data.date)) {
+        return res.status(400).json({ error: "تاريخ الجلسة خارج أيام المناسبة" });
+      }
+      if (data.startTime && data.endTime && data.endTime < data.startTime) {
+        return res.status(400).json({ error: "وقت نهاية الجلسة قبل وقت بدايتها" });
+      }
+      const sessions = await getSessionSummaries(event.id);
+      if (sessions.some((s) => s.id !== session.id && s.date === data.date && s.name === data.name)) {
+        return res.status(400).json({ error: "توجد جلسة بهذا الاسم في اليوم نفسه" });
+      }
+      const seatsTaken = sessions.find((s) => s.id === session.id)?.seatsTaken || 0;
+      if (data.capacity !== null && data.capacity < seatsTaken) {
+        return res.status(400).json({
+          error: `يشغل الجلسة ${seatsTaken} ضيف بين حاضر ومسجل، لا يمكن تقليل السعة عن ذلك`,
+        });
+      }
+
+      const updated = await storage.updateEventSession(session.id, data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الجلسة" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const session = await storage.getEventSession(req.params.id);
+
+      if (!session) {
+        return res.status(404).json({ error: "الجلسة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(session.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteEventSession(session.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف الجلسة" });
+    }
+  });
+
+  // Replace the guests registered for a session; registered guests keep a
+  // seat in the room until they arrive
+  app.put("/api/sessions/:id/registrations", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const session = await storage.getEventSession(req.params.id);
+
+      if (!session) {
+        return res.status(404).json({ error: "الجلسة غير موجودة" });
+      }
+
+      const event = await storage.getEvent(session.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { guestIds } = req.body;
+      if (!Array.isArray(guestIds) || !guestIds.every((id) => typeof id === "string")) {
+        return res.status(400).json({ error: "قائمة الضيوف غير صالحة" });
+      }
+
+      const eventGuests = await storage.getGuestsByEvent(event.id);
+      const selected = eventGuests.filter((g) => guestIds.includes(g.id)).map((g) => g.id);
+
+      if (session.capacity !== null) {
+        const attendance = await storage.getSessionAttendanceBySession(session.id);
+        const seats = sessionSeatHolders(
+          session.id,
+          attendance,
+          selected.map((guestId) => ({ sessionId: session.id, guestId }))
+        ).size;
+        if (seats > session.capacity) {
+          return res.status(400).json({
+            error: `لا تتسع ${session.name}: السعة ${session.capacity} مقعد والمطلوب ${seats}`,
+          });
+        }
+      }
+
+      await storage.setSessionRegistrations(session, selected);
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "session_registrations",
+        details: `تم تحديث المسجلين في ${session.name}: ${selected.length} ضيف`,
+      });
+
+      res.json({ success: true, registered: selected.length });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حفظ المسجلين في الجلسة" });
+    }
+  });
+
+  // Add single guest
+  app.post("/api/events/:id/guests", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { name, companions, notes } = req.body;
+
+      if (!name || name.trim() === "") {
+        return res.status(400).json({ error: "اسم الضيف مطلوب" });
+      }
+
+      const category = resolveCategoryKey(await storage.getGuestCategoriesByEvent(event.id), req.body.category);
+      if (!category) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
+      }
+
+      const email = normalizeGuestEmail(req.body.email);
+      if (email === false) {
+        return res.status(400).json({ error: "البريد الإلكتروني غير صالح" });
+      }
+
+      const countryCode = await getPhoneCountryCode();
+      const phone = normalizePhone(req.body.phone, countryCode);
+      if (phone === null) {
+        return res.status(400).json({ error: "رقم الجوال غير صالح" });
+      }
+
+      const customFieldsResult = parseCustomFields(await storage.getGuestFieldsByEvent(event.id), req.body.customFields);
+      if ("error" in customFieldsResult) {
+        return res.status(400).json({ error: customFieldsResult.error });
+      }
+      const customFieldChanges = customFieldsResult.values;
+
+      const zoneIds = await parseGuestZoneIds(event.id, req.body.zoneIds);
+      if (zoneIds === null) {
+        return res.status(400).json({ error: "المنطقة غير موجودة في هذه المناسبة" });
+      }
+
+      const duplicate = findGuestByPhone(await storage.getGuestsByEvent(event.id), phone, countryCode);
+      if (duplicate && event.duplicatePhoneMode === "merge") {
+        const merged = await storage.updateGuest(duplicate.id, {
+          name: name.trim(),
+          phone,
+          ...(email ? { email } : {}),
+          ...(req.body.category ? { category } : {}),
+          ...(companions ? { companions } : {}),
+          ...(notes ? { notes } : {}),
+          customFields: mergeCustomFields(
+            duplicate.customFields,
+            // Like the other details, blank fields keep the existing guest's values
+            Object.fromEntries(Object.entries(customFieldChanges).filter(([, value]) => value !== null))
+          ),
+          ...(zoneIds?.length ? { zoneIds: Array.from(new Set(duplicate.zoneIds.concat(zoneIds))) } : {}),
+        });
+
+        await storage.createAuditLog({
+          eventId: req.params.id,
+          userId: user.id,
+          action: "update_guest",
+          details: `تم دمج ضيف برقم جوال مكرر مع: ${duplicate.name}`,
+          guestId: duplicate.id,
+        });
+
+        return res.json({ ...merged, merged: true });
+      }
+
+      // Check capacity limit if event has a capacity tier
+      const added = await withGuestCapacity(event, async (store, capacity) => ({
+        capacity,
+        guest: capacity.remaining <= 0
+          ? null
+          : await store.createGuest({
+              eventId: req.params.id,
+              name: name.trim(),
+              phone,
+              email,
+              category,
+              companions: companions || 0,
+              notes: notes || "",
+              customFields: mergeCustomFields({}, customFieldChanges),
+              zoneIds: zoneIds || [],
+              qrCode: generateAccessCode(),
+            }),
+      }));
+      const { guest } = added;
+      if (!guest) {
+        return res.status(403).json({ error: capacityReachedMessage(added.capacity.maxGuests) });
+      }
+
+      await storage.createAuditLog({
+        eventId: req.params.id,
+        userId: user.id,
+        action: "add_guest",
+        details: `تم إضافة ضيف: ${guest.name}`,
+        guestId: guest.id,
+      });
+
+      res.json(duplicate ? { ...guest, duplicateOf: { id: duplicate.id, name: duplicate.name } } : guest);
+    } catch (error) {
+      console.error("Add guest error:", error);
+      res.status(500).json({ error: "خطأ في إضافة الضيف" });
+    }
+  });
+
+  app.post("/api/guests/:id/check-in", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const { httpStatus, result } = await performCheckIn(
+        user,
+        { type: "guest", guestId: req.params.id },
+        {
+          eventId: req.body?.eventId,
+          scannedAt: parseScannedAt(req.body?.scannedAt),
+          companions: parseCompanionCount(req.body?.companions),
+          zoneId: parseGateZoneId(req.body?.zoneId),
+          sessionId: parseSessionId(req.body?.sessionId),
+        }
+      );
+      res.status(httpStatus).json(result);
+    } catch (error) {
+      console.error("Check-in error:", error);
+      res.status(500).json({ status: "invalid", message: "خطأ في تسجيل الحضور" });
+    }
+  });
+
+  app.post("/api/guests/:id/check-out", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const { httpStatus, result } = await performCheckOut(
+        user,
+        { type: "guest", guestId: req.params.id },
+        {
+          eventId: req.body?.eventId,
+          scannedAt: parseScannedAt(req.body?.scannedAt),
+          zoneId: parseGateZoneId(req.body?.zoneId),
+        }
+      );
+      res.status(httpStatus).json(result);
+    } catch (error) {
+      console.error("Check-out error:", error);
+      res.status(500).json({ status: "invalid", message: "خطأ في تسجيل الخروج" });
+    }
+  });
+
+  // Get single guest
+  app.get("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const guest = await storage.getGuest(req.params.id);
+      
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(guest);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب بيانات الضيف" });
+    }
+  });
+
+  // Signed QR token for a guest (verifiable offline with the event public key)
+  app.get("/api/guests/:id/qr-token", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const guest = await storage.getGuest(req.params.id);
+
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const token = await issueQrToken(guest, event);
+      res.json({ token });
+    } catch (error) {
+      console.error("QR token error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء رمز الدعوة" });
+    }
+  });
+
+  // QR image for a guest, encoding the signed invitation token
+  app.get("/api/guests/:id/qr", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const guest = await storage.getGuest(req.params.id);
+
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const format = parseQrImageFormat(req.query.format);
+      const token = await issueQrToken(guest, event);
+      const image = await renderQrImage(token, format);
+
+      res.setHeader("Content-Type", format === "svg" ? "image/svg+xml" : "image/png");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      if (req.query.download) {
+        const filename = encodeURIComponent(`${safeFileName(guest.name)}-${guest.qrCode}.${format}`);
+        res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      }
+      res.send(image);
+    } catch (error) {
+      console.error("QR image error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء صورة QR" });
+    }
+  });
+
+  // Printable invitation card for a single guest
+  app.get("/api/guests/:id/invitation-card", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const guest = await storage.getGuest(req.params.id);
+
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const buffer = await buildInvitationCardsPdf(event, [guest]);
+
+      const filename = encodeURIComponent(`دعوة-${safeFileName(guest.name)}.pdf`);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+
+      res.send(buffer);
+    } catch (error) {
+      console.error("Invitation card error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء بطاقة الدعوة" });
+    }
+  });
+
+  // Update guest
+  app.patch("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const guest = await storage.getGuest(req.params.id);
+      
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { name, category, companions, notes, rsvpStatus } = req.body;
+
+      const email = req.body.email === undefined ? undefined : normalizeGuestEmail(req.body.email);
+      if (email === false) {
+        return res.status(400).json({ error: "البريد الإلكتروني غير صالح" });
+      }
+
+      const countryCode = await getPhoneCountryCode();
+      const phone = req.body.phone === undefined ? undefined : normalizePhone(req.body.phone, countryCode);
+      if (phone === null) {
+        return res.status(400).json({ error: "رقم الجوال غير صالح" });
+      }
+      const duplicate = phone
+        ? findGuestByPhone(await storage.getGuestsByEvent(event.id), phone, countryCode, guest.id)
+        : undefined;
+      if (companions !== undefined && companions < (guest.companionsCheckedIn || 0)) {
+        return res.status(400).json({
+          error: `دخل ${guest.companionsCheckedIn} من المرافقين بالفعل، لا يمكن تقليل العدد عن ذلك`,
+        });
+      }
+      if (companions !== undefined && guest.tableId && companions > (guest.companions || 0)) {
+        const table = (await getTableSummaries(event.id)).find((t) => t.id === guest.tableId);
+        const extraSeats = companions - (guest.companions || 0);
+        if (table && table.seatsTaken + extraSeats > table.capacity) {
+          return res.status(400).json({
+            error: `لا تتسع ${table.name} للمرافقين الإضافيين، انقل الضيف إلى طاولة أخرى أولاً`,
+          });
+        }
+      }
+      // Two existing guests may both have check-ins or messages, so they are never merged here
+      if (duplicate && event.duplicatePhoneMode === "merge") {
+        return res.status(409).json({ error: `رقم الجوال مستخدم للضيف "${duplicate.name}" في هذه المناسبة` });
+      }
+      if (rsvpStatus !== undefined && !RSVP_STATUSES.includes(rsvpStatus)) {
+        return res.status(400).json({ error: "حالة التأكيد غير صالحة" });
+      }
+      if (
+        category !== undefined &&
+        !(await storage.getGuestCategoriesByEvent(event.id)).some((c) => c.key === category)
+      ) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
+      }
+      const customFieldsResult = parseCustomFields(await storage.getGuestFieldsByEvent(event.id), req.body.customFields);
+      if ("error" in customFieldsResult) {
+        return res.status(400).json({ error: customFieldsResult.error });
+      }
+      const zoneIds = await parseGuestZoneIds(event.id, req.body.zoneIds);
+      if (zoneIds === null) {
+        return res.status(400).json({ error: "المنطقة غير موجودة في هذه المناسبة" });
+      }
+
+      // Managers record answers given by phone; the response time is kept for reports
+      const rsvpChanged = rsvpStatus !== undefined && rsvpStatus !== guest.rsvpStatus;
+
+      const updated = await storage.updateGuest(req.params.id, {
+        name,
+        phone,
+        email,
+        category,
+        companions,
+        notes,
+        ...(req.body.customFields !== undefined
+          ? { customFields: mergeCustomFields(guest.customFields, customFieldsResult.values) }
+          : {}),
+        ...(zoneIds !== undefined ? { zoneIds } : {}),
+        ...(rsvpChanged ? { rsvpStatus, rsvpAt: rsvpStatus === "pending" ? null : new Date() } : {}),
+      });
+
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "update_guest",
+        details: `تم تعديل ضيف: ${guest.name}`,
+        guestId: guest.id,
+      });
+
+      res.json(duplicate ? { ...updated, duplicateOf: { id: duplicate.id, name: duplicate.name } } : updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الضيف" });
+    }
+  });
+
+  // Delete guest
+  app.delete("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const guest = await storage.getGuest(req.params.id);
+      
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteGuest(req.params.id);
+
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "delete_guest",
+        details: `تم حذف ضيف: ${guest.name}`,
+        guestId: guest.id,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف الضيف" });
+    }
+  });
+
+  // Organizer events
+  app.get("/api/organizer/events", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      if (user.role === "organizer") {
+        const events = await storage.getOrganizerEvents(user.id);
+        const withGates: OrganizerEvent[] = await Promise.all(
+          events.map(async (event) => {
+            const assignment = await storage.getOrganizerAssignment(event.id, user.id);
+            return { ...event, gateZoneId: assignment?.zoneId ?? null };
+          })
+        );
+        res.json(withGates);
+      } else if (canBypassOwnership(user.role)) {
+        // Admin and super_admin see all events, always at the main entrance
+        const events = await storage.getEvents();
+        res.json(events.map((event): OrganizerEvent => ({ ...event, gateZoneId: null })));
+      } else {
+        const events = await storage.getEventsByManager(user.id);
+        res.json(events.map((event): OrganizerEvent => ({ ...event, gateZoneId: null })));
+      }
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المناسبات" });
+    }
+  });
+
+  // Public key organizers use to verify signed QR tokens while offline
+  app.get("/api/events/:id/signing-key", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      if (user.role === "organizer") {
+        const assignedEvents = await storage.getOrganizerEvents(user.id);
+        if (!assignedEvents.some(e => e.id === event.id)) {
+          return res.status(403).json({ error: "غير مسموح" });
+        }
+      }
+
+      const keyInfo = await getEventSigningKeyInfo(event.id);
+      res.json(keyInfo);
+    } catch (error) {
+      console.error("Signing key error:", error);
+      res.status(500).json({ error: "خطأ في جلب مفتاح التحقق" });
+    }
+  });
+
+  // Event organizers management
+  app.get("/api/events/:id/organizers", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      // Check access - admin/super_admin bypass, event manager owns event, or organizer is assigned
+      if (!canBypassOwnership(user.role)) {
+        if (user.role === "event_manager" && event.eventManagerId !== user.id) {
+          return res.status(403).json({ error: "غير مسموح" });
+        }
+      }
+      if (user.role === "organizer") {
+        const assignedEvents = await storage.getOrganizerEvents(user.id);
+        if (!assignedEvents.some(e => e.id === event.id)) {
+          return res.status(403).json({ error: "غير مسموح" });
+        }
+      }
+
+      const organizers = await storage.getEventOrganizers(req.params.id);
+      res.json(organizers.map((u) => ({ ...u, password: undefined })));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المنظمين" });
+    }
+  });
+
+  app.post("/api/events/:id/organizers", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { organizerId } = req.body;
+      
+      // Event manager can only assign organizers they created
+      if (user.role === "event_manager") {
+        const organizer = await storage.getUser(organizerId);
+        if (!organizer || organizer.createdById !== user.id) {
+          return res.status(403).json({ error: "لا يمكنك تعيين منظم لم تقم بإنشائه" });
+        }
+      }
+      
+      const assignment = await storage.assignOrganizer({
+        eventId: req.params.id,
+        organizerId,
+      });
+      res.json(assignment);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تعيين المنظم" });
+    }
+  });
+
+  app.delete("/api/events/:id/organizers/:organizerId", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.removeOrganizer(req.params.id, req.params.organizerId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إزالة المنظم" });
+    }
+  });
+
+  // Gate an assigned organizer scans at; zoneId null moves them to the main entrance
+  app.patch("/api/events/:id/organizers/:organizerId", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const zoneId = req.body?.zoneId ?? null;
+      if (zoneId !== null) {
+        const zone = await storage.getAccessZone(zoneId);
+        if (!zone || zone.eventId !== event.id) {
+          return res.status(400).json({ error: "المنطقة غير موجودة في هذه المناسبة" });
+        }
+      }
+
+      const assignment = await storage.setOrganizerZone(event.id, req.params.organizerId, zoneId);
+      if (!assignment) {
+        return res.status(404).json({ error: "المنظم غير معين لهذه المناسبة" });
+      }
+      res.json(assignment);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديد بوابة المنظم" });
+    }
+  });
+
+  // Audit logs - Event manager only
+  app.get("/api/events/:id/audit-logs", requireRole("event_manager", "super_admin", "admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      // Event manager can only see their own event logs
+      if (user.role === "event_manager" && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const logs = await storage.getAuditLogsByEvent(req.params.id);
+      res.json(logs);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب السجلات" });
+    }
+  });
+
+  // Stats routes - Role-based
+  app.get("/api/stats/super-admin", requireRole("super_admin"), async (req, res) => {
+    try {
+      const stats = await storage.getStats("super_admin");
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+    }
+  });
+
+  app.get("/api/stats/admin", requireRole("admin", "super_admin"), async (req, res) => {
+    try {
+      const stats = await storage.getStats("admin");
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+    }
+  });
+
+  app.get("/api/stats/event-manager", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const stats = await storage.getStats("event_manager", user.id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+    }
+  });
+
+  app.get("/api/stats/comprehensive", requireRole("super_admin"), async (req, res) => {
+    try {
+      const stats = await storage.getComprehensiveStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Comprehensive stats error:", error);
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات التفصيلية" });
+    }
+  });
+
+  // Export guests to Excel with access codes
+  app.get("/api/events/:id/export-guests", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const guests = await storage.getGuestsByEvent(req.params.id);
+
+      if (guests.length === 0) {
+        return res.status(400).json({ error: "لا يوجد مدعوين للتصدير" });
+      }
+
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+      const fields = await storage.getGuestFieldsByEvent(event.id);
+      const tableNames = new Map(
+        (await storage.getSeatingTablesByEvent(event.id)).map((t): [string, string] => [t.id, tableLabel(t)])
+      );
+
+      const signToken = await createQrTokenSigner(event);
+
+      // Prepare data for Excel
+      const excelData = guests.map((guest, index) => ({
+        "#": index + 1,
+        "الاسم": guest.name,
+        "الجوال": guest.phone || "",
+        "البريد الإلكتروني": guest.email || "",
+        "الفئة": categoryName(categories, guest.category),
+        "عدد المرافقين": guest.companions || 0,
+        "الطاولة": guest.tableId ? tableNames.get(guest.tableId) || "" : "",
+        "تأكيد الحضور": rsvpLabels[guest.rsvpStatus || "pending"],
+        "ملاحظات": guest.notes || "",
+        ...customFieldColumns(fields, guest.customFields),
+        "كود الدخول": guest.qrCode,
+        "الحالة": guest.isCheckedIn ? "حاضر" : "لم يحضر",
+        "المرافقون الحاضرون": guest.companionsCheckedIn || 0,
+        "رمز QR الموقع": signToken(guest),
+      }));
+
+      // Create workbook
+      const workbook = XLSX.utils.book_new();
+      const worksheet = XLSX.utils.json_to_sheet(excelData);
+      
+      // Set column widths
+      worksheet["!cols"] = [
+        { wch: 5 },   // #
+        { wch: 25 },  // الاسم
+        { wch: 15 },  // الجوال
+        { wch: 28 },  // البريد الإلكتروني
+        { wch: 10 },  // الفئة
+        { wch: 12 },  // عدد المرافقين
+        { wch: 16 },  // الطاولة
+        { wch: 14 },  // تأكيد الحضور
+        { wch: 30 },  // ملاحظات
+        ...fields.map(() => ({ wch: 18 })),
+        { wch: 18 },  // كود الدخول
+        { wch: 12 },  // الحالة
+        { wch: 16 },  // المرافقون الحاضرون
+        { wch: 40 },  // رمز QR الموقع
+      ];
+
+      XLSX.utils.book_append_sheet(workbook, worksheet, "المدعوين");
+
+      // Generate buffer
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      // Set headers for file download
+      const filename = encodeURIComponent(`مدعوين-${event.name}.xlsx`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+      
+      res.send(buffer);
+    } catch (error) {
+      console.error("Export error:", error);
+      res.status(500).json({ error: "خطأ في تصدير البيانات" });
+    }
+  });
+
+  // Printable invitation cards for every guest, one card per page
+  app.get("/api/events/:id/invitation-cards", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const guests = await storage.getGuestsByEvent(req.params.id);
+
+      if (guests.length === 0) {
+        return res.status(400).json({ error: "لا يوجد مدعوين للتصدير" });
+      }
+
+      const buffer = await buildInvitationCardsPdf(event, guests);
+
+      const filename = encodeURIComponent(`بطاقات-دعوة-${event.name}.pdf`);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+
+      res.send(buffer);
+    } catch (error) {
+      console.error("Invitation cards error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء بطاقات الدعوة" });
+    }
+  });
+
+  // Download every guest's QR image for an event as a ZIP archive
+  app.get("/api/events/:id/export-qr-codes", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const guests = await storage.getGuestsByEvent(req.params.id);
+
+      if (guests.length === 0) {
+        return res.status(400).json({ error: "لا يوجد مدعوين للتصدير" });
+      }
+
+      const format = parseQrImageFormat(req.query.format);
+      const signToken = await createQrTokenSigner(event);
+
+      const filename = encodeURIComponent(`رموز-QR-${event.name}.zip`);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+
+      const archive = archiver("zip", { zlib: { level: 6 } });
+      archive.on("error", (error) => {
+        console.error("QR archive error:", error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+
+      for (let i = 0; i < guests.length; i++) {
+        const guest = guests[i];
+        const image = await renderQrImage(signToken(guest), format);
+        archive.append(image, {
+          name: `${String(i + 1).padStart(3, "0")}-${safeFileName(guest.name)}-${guest.qrCode}.${format}`,
+        });
+      }
+
+      await archive.finalize();
+    } catch (error) {
+      console.error("QR export error:", error);
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ error: "خطأ في تصدير رموز QR" });
+      }
+    }
+  });
+
+  // Message templates for an event
+  app.get("/api/events/:id/message-templates", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const templates = await storage.getMessageTemplatesByEvent(event.id);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب قوالب الرسائل" });
+    }
+  });
+
+  app.post("/api/events/:id/message-templates", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = messageTemplateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const template = await storage.createMessageTemplate({ ...parseResult.data, eventId: event.id });
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء قالب الرسالة" });
+    }
+  });
+
+  app.patch("/api/message-templates/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const template = await storage.getMessageTemplate(req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ error: "القالب غير موجود" });
+      }
+
+      const event = await storage.getEvent(template.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = messageTemplateSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+
+      const updated = await storage.updateMessageTemplate(template.id, parseResult.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث قالب الرسالة" });
+    }
+  });
+
+  app.delete("/api/message-templates/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const template = await storage.getMessageTemplate(req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ error: "القالب غير موجود" });
+      }
+
+      const event = await storage.getEvent(template.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteMessageTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف قالب الرسالة" });
+    }
+  });
+
+  // Delivery log of invitation messages for an event
+  app.get("/api/events/:id/messages", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const messages = await storage.getGuestMessagesByEvent(event.id);
+      res.json(messages);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تعيين المنظم" });
+      res.status(500).json({ error: "خطأ في جلب الرسائل" });
     }
   });
 
-  app.delete("/api/events/:id/organizers/:organizerId", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Queue invitations for all guests (or the given guestIds) and start sending
+  app.post("/api/events/:id/messages/send", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
+
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -880,78 +3291,167 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      await storage.removeOrganizer(req.params.id, req.params.organizerId);
-      res.json({ success: true });
+      if (event.status === "draft") {
+        return res.status(400).json({ error: "انشر المناسبة قبل إرسال الدعوات" });
+      }
+
+      const { templateId, guestIds } = req.body;
+      const template = templateId ? await storage.getMessageTemplate(templateId) : undefined;
+      if (!template || template.eventId !== event.id) {
+        return res.status(400).json({ error: "القالب غير موجود" });
+      }
+
+      let guests = await storage.getGuestsByEvent(event.id);
+      if (Array.isArray(guestIds)) {
+        const selected = new Set(guestIds);
+        guests = guests.filter((g) => selected.has(g.id));
+      }
+
+      const result = await queueInvitationMessages(event, template, guests, getBaseUrl(req), user.id);
+      startMessageDispatch(event.id);
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "send_invitations",
+        details: `تم جدولة إرسال ${result.queued} دعوة (${template.name})`,
+      });
+
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في إزالة المنظم" });
+      console.error("Send invitations error:", error);
+      res.status(500).json({ error: "خطأ في إرسال الدعوات" });
     }
   });
 
-  // Audit logs - Event manager only
-  app.get("/api/events/:id/audit-logs", requireRole("event_manager", "super_admin", "admin"), async (req, res) => {
+  app.post("/api/events/:id/messages/retry-failed", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
-      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
 
-      // Event manager can only see their own event logs
-      if (user.role === "event_manager" && event.eventManagerId !== user.id) {
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const logs = await storage.getAuditLogsByEvent(req.params.id);
-      res.json(logs);
+      const requeued = await storage.requeueFailedMessages(event.id);
+      startMessageDispatch(event.id);
+      res.json({ requeued });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب السجلات" });
+      res.status(500).json({ error: "خطأ في إعادة إرسال الرسائل" });
     }
   });
 
-  // Stats routes - Role-based
-  app.get("/api/stats/super-admin", requireRole("super_admin"), async (req, res) => {
+  // Public invitation link sent to guests; the signed token is the credential
+  app.get("/api/invitations/:token", async (req, res) => {
     try {
-      const stats = await storage.getStats("super_admin");
-      res.json(stats);
+      const verification = await verifyQrToken(req.params.token);
+      if (!verification.ok) {
+        return res.status(400).json({ error: verification.message });
+      }
+
+      const guest = await storage.getGuest(verification.payload.g);
+      const event = guest ? await storage.getEvent(guest.eventId) : undefined;
+      if (!guest || !event || guest.eventId !== verification.payload.e) {
+        return res.status(404).json({ error: "الدعوة غير صالحة" });
+      }
+
+      const buffer = await buildInvitationCardsPdf(event, [guest]);
+
+      const filename = encodeURIComponent(`دعوة-${safeFileName(guest.name)}.pdf`);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+
+      res.send(buffer);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+      console.error("Invitation link error:", error);
+      res.status(500).json({ error: "خطأ في عرض الدعوة" });
     }
   });
 
-  app.get("/api/stats/admin", requireRole("admin", "super_admin"), async (req, res) => {
+  // Public RSVP page; the guest's rsvpToken is the credential
+  app.get("/api/rsvp/:token", async (req, res) => {
     try {
-      const stats = await storage.getStats("admin");
-      res.json(stats);
+      const guest = await storage.getGuestByRsvpToken(req.params.token);
+      const event = guest ? await storage.getEvent(guest.eventId) : undefined;
+      if (!guest || !event) {
+        return res.status(404).json({ error: "رابط التأكيد غير صالح" });
+      }
+
+      res.json(toPublicRsvp(event, guest));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+      res.status(500).json({ error: "خطأ في جلب الدعوة" });
     }
   });
 
-  app.get("/api/stats/event-manager", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.post("/api/rsvp/:token", async (req, res) => {
     try {
-      const user = (req as any).user;
-      const stats = await storage.getStats("event_manager", user.id);
-      res.json(stats);
+      const guest = await storage.getGuestByRsvpToken(req.params.token);
+      const event = guest ? await storage.getEvent(guest.eventId) : undefined;
+      if (!guest || !event) {
+        return res.status(404).json({ error: "رابط التأكيد غير صالح" });
+      }
+      if (!isRsvpOpen(event)) {
+        return res.status(400).json({ error: "انتهت فترة تأكيد الحضور لهذه المناسبة" });
+      }
+
+      const { status } = req.body;
+      if (status !== "confirmed" && status !== "declined") {
+        return res.status(400).json({ error: "يرجى اختيار تأكيد الحضور أو الاعتذار" });
+      }
+
+      let companions = guest.companions || 0;
+      if (status === "confirmed" && req.body.companions !== undefined) {
+        companions = Number(req.body.companions);
+        const limit = getRsvpCompanionLimit(event, guest);
+        if (!Number.isInteger(companions) || companions < 0 || companions > limit) {
+          return res.status(400).json({ error: `عدد المرافقين يجب أن يكون بين 0 و ${limit}` });
+        }
+        // Companions already admitted at the door cannot be taken back
+        companions = Math.max(companions, guest.companionsCheckedIn || 0);
+      }
+
+      const updated = await storage.updateGuest(guest.id, {
+        rsvpStatus: status,
+        rsvpAt: new Date(),
+        companions,
+      });
+
+      res.json(toPublicRsvp(event, updated!));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+      console.error("RSVP error:", error);
+      res.status(500).json({ error: "خطأ في حفظ الرد" });
     }
   });
 
-  app.get("/api/stats/comprehensive", requireRole("super_admin"), async (req, res) => {
+  // Self-registrations submitted through the event's public link
+  app.get("/api/events/:id/registrations", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
-      const stats = await storage.getComprehensiveStats();
-      res.json(stats);
+      const user = (req as any).user;
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const registrations = await storage.getGuestRegistrationsByEvent(req.params.id);
+      res.json(registrations);
     } catch (error) {
-      console.error("Comprehensive stats error:", error);
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات التفصيلية" });
+      res.status(500).json({ error: "خطأ في جلب طلبات التسجيل" });
     }
   });
 
-  // Export guests to Excel with access codes
-  app.get("/api/events/:id/export-guests", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Approve or reject pending registrations in bulk. Approved registrants
+  // become guests and count against the capacity tier like uploaded guests.
+  app.post("/api/events/:id/registrations/review", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
@@ -959,62 +3459,131 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const guests = await storage.getGuestsByEvent(req.params.id);
-
-      if (guests.length === 0) {
-        return res.status(400).json({ error: "لا يوجد مدعوين للتصدير" });
+      const { ids, action } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ error: "يرجى اختيار طلب واحد على الأقل" });
+      }
+      if (action !== "approve" && action !== "reject") {
+        return res.status(400).json({ error: "الإجراء غير صالح" });
       }
 
-      const categoryLabels: Record<string, string> = {
-        vip: "VIP",
-        regular: "عادي",
-        media: "إعلام",
-        sponsor: "راعي",
-      };
+      if (action === "reject") {
+        const rejected = await storage.reviewGuestRegistrations(event.id, ids, "rejected", user.id);
+        if (rejected.length > 0) {
+          await storage.createAuditLog({
+            eventId: event.id,
+            userId: user.id,
+            action: "reject_registrations",
+            details: `تم رفض ${rejected.length} طلب تسجيل`,
+          });
+        }
+        return res.json({ approved: 0, rejected: rejected.length, skippedForCapacity: 0 });
+      }
 
-      // Prepare data for Excel
-      const excelData = guests.map((guest, index) => ({
-        "#": index + 1,
-        "الاسم": guest.name,
-        "الجوال": guest.phone || "",
-        "الفئة": categoryLabels[guest.category || "regular"],
-        "عدد المرافقين": guest.companions || 0,
-        "ملاحظات": guest.notes || "",
-        "كود الدخول": guest.qrCode,
-        "الحالة": guest.isCheckedIn ? "حاضر" : "لم يحضر",
+      // A request may name a category deleted since it was submitted
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+
+      // Oldest requests are approved first when capacity runs short
+      const { capacity, approved, skippedForCapacity } = await withGuestCapacity(event, async (store, capacity) => ({
+        capacity,
+        ...(await store.approveGuestRegistrations(event.id, ids, user.id, capacity.remaining, (registration) => ({
+          eventId: event.id,
+          name: registration.name,
+          phone: registration.phone,
+          category: resolveCategoryKey(categories, registration.category) || resolveCategoryKey(categories, null)!,
+          companions: 0,
+          notes: "",
+          qrCode: generateAccessCode(),
+        }))),
       }));
+      if (approved.length === 0 && skippedForCapacity > 0) {
+        return res.status(403).json({ error: capacityReachedMessage(capacity.maxGuests) });
+      }
 
-      // Create workbook
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(excelData);
-      
-      // Set column widths
-      worksheet["!cols"] = [
-        { wch: 5 },   // #
-        { wch: 25 },  // الاسم
-        { wch: 15 },  // الجوال
-        { wch: 10 },  // الفئة
-        { wch: 12 },  // عدد المرافقين
-        { wch: 30 },  // ملاحظات
-        { wch: 18 },  // كود الدخول
-        { wch: 12 },  // الحالة
-      ];
+      if (approved.length > 0) {
+        await storage.createAuditLog({
+          eventId: event.id,
+          userId: user.id,
+          action: "approve_registrations",
+          details: `تم قبول ${approved.length} طلب تسجيل`,
+        });
+      }
 
-      XLSX.utils.book_append_sheet(workbook, worksheet, "المدعوين");
+      res.json({ approved: approved.length, rejected: 0, skippedForCapacity });
+    } catch (error) {
+      console.error("Review registrations error:", error);
+      res.status(500).json({ error: "خطأ في مراجعة طلبات التسجيل" });
+    }
+  });
 
-      // Generate buffer
-      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+  // Public self-registration page; the event's registrationToken is the credential
+  app.get("/api/register/:token", async (req, res) => {
+    try {
+      const event = await storage.getEventByRegistrationToken(req.params.token);
+      if (!event) {
+        return res.status(404).json({ error: "رابط التسجيل غير صالح" });
+      }
 
-      // Set headers for file download
-      const filename = encodeURIComponent(`مدعوين-${event.name}.xlsx`);
-      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
-      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
-      res.setHeader("Content-Length", buffer.length);
-      
-      res.send(buffer);
+      const details: PublicRegistrationEvent = {
+        name: event.name,
+        description: event.description,
+        date: event.date,
+        endDate: event.endDate,
+        location: event.location,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        isOpen: isRegistrationOpen(event),
+        categories: (await storage.getGuestCategoriesByEvent(event.id)).map((c) => ({ key: c.key, name: c.name })),
+      };
+      res.json(details);
     } catch (error) {
-      console.error("Export error:", error);
-      res.status(500).json({ error: "خطأ في تصدير البيانات" });
+      res.status(500).json({ error: "خطأ في جلب المناسبة" });
+    }
+  });
+
+  app.post("/api/register/:token", async (req, res) => {
+    try {
+      const event = await storage.getEventByRegistrationToken(req.params.token);
+      if (!event) {
+        return res.status(404).json({ error: "رابط التسجيل غير صالح" });
+      }
+      if (!isRegistrationOpen(event)) {
+        return res.status(400).json({ error: "التسجيل مغلق لهذه المناسبة" });
+      }
+
+      const parsed = registrationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "بيانات غير صالحة" });
+      }
+      const { name } = parsed.data;
+      const category = resolveCategoryKey(await storage.getGuestCategoriesByEvent(event.id), parsed.data.category);
+      if (!category) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
+      }
+      const countryCode = await getPhoneCountryCode();
+      const phone = normalizePhone(parsed.data.phone, countryCode);
+      if (!phone) {
+        return res.status(400).json({ error: "رقم الجوال غير صالح" });
+      }
+
+      // One request per phone number: pending or approved requests and
+      // existing guests all count
+      const [registrations, guests] = await Promise.all([
+        storage.getGuestRegistrationsByEvent(event.id),
+        storage.getGuestsByEvent(event.id),
+      ]);
+      const alreadyRegistered =
+        registrations.some((r) => phoneMatchKey(r.phone, countryCode) === phone && r.status !== "rejected") ||
+        !!findGuestByPhone(guests, phone, countryCode);
+      if (alreadyRegistered) {
+        return res.status(400).json({ error: "هذا الرقم مسجل مسبقاً في المناسبة" });
+      }
+
+      await storage.createGuestRegistration({ eventId: event.id, name, phone, category });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "خطأ في إرسال طلب التسجيل" });
     }
   });
 
@@ -1022,7 +3591,7 @@ export async function registerRoutes(
   app.get("/api/events/:id/reports/:type", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
-      const reportType = req.params.type as "attendance" | "absence" | "audit";
+      const reportType = req.params.type as "attendance" | "absence" | "audit" | "movements" | "sessions";
       const event = await storage.getEvent(req.params.id);
       
       if (!event) {
@@ -1032,12 +3601,8 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const categoryLabels: Record<string, string> = {
-        vip: "VIP",
-        regular: "عادي",
-        media: "إعلام",
-        sponsor: "راعي",
-      };
+      const categories = await storage.getGuestCategoriesByEvent(event.id);
+      const fields = await storage.getGuestFieldsByEvent(event.id);
 
       let excelData: any[] = [];
       let sheetName = "";
@@ -1060,10 +3625,13 @@ export async function registerRoutes(
           "#": index + 1,
           "الاسم": guest.name,
           "الجوال": guest.phone || "",
-          "الفئة": categoryLabels[guest.category || "regular"],
+          "الفئة": categoryName(categories, guest.category),
           "عدد المرافقين": guest.companions || 0,
+          "تأكيد الحضور": rsvpLabels[guest.rsvpStatus || "pending"],
           "ملاحظات": guest.notes || "",
+          ...customFieldColumns(fields, guest.customFields),
           ...(reportType === "attendance" ? {
+            "المرافقون الحاضرون": guest.companionsCheckedIn || 0,
             "وقت الحضور": guest.checkedInAt 
               ? new Date(guest.checkedInAt).toLocaleString("ar-SA")
               : "",
@@ -1079,24 +3647,139 @@ export async function registerRoutes(
 
         const actionLabels: Record<string, string> = {
           check_in: "تسجيل حضور",
+          companions_check_in: "دخول مرافقين",
+          duplicate_check_in: "محاولة دخول مكررة",
           upload_guests: "رفع ضيوف",
           add_guest: "إضافة ضيف",
           delete_guest: "حذف ضيف",
           assign_organizer: "تعيين منظم",
           remove_organizer: "إزالة منظم",
+          send_invitations: "إرسال دعوات",
+          send_email: "إرسال بريد",
+          approve_registrations: "قبول طلبات تسجيل",
+          reject_registrations: "رفض طلبات تسجيل",
+          assign_seats: "توزيع المقاعد",
+          zone_entry: "دخول منطقة",
+          duplicate_zone_entry: "محاولة دخول منطقة مكررة",
+          zone_denied: "رفض دخول منطقة",
+          check_out: "تسجيل خروج",
+          reentry: "إعادة دخول",
+          reentry_denied: "رفض إعادة دخول",
+          session_check_in: "حضور جلسة",
+          session_full: "رفض دخول جلسة ممتلئة",
+          session_registrations: "تسجيل مسبق في جلسة",
+          event_status: "تغيير حالة المناسبة",
+          duplicate_event: "نسخ المناسبة",
+          save_event_template: "حفظ قالب مناسبة",
+          create_series: "تكرار المناسبة",
+          series_update: "تعديل مناسبات السلسلة",
         };
 
         excelData = await Promise.all(logs.map(async (log, index) => {
-          const logUser = await storage.getUser(log.userId);
+          const logUser = log.userId ? await storage.getUser(log.userId) : undefined;
           return {
             "#": index + 1,
             "التاريخ": log.timestamp ? new Date(log.timestamp).toLocaleString("ar-SA") : "",
-            "المستخدم": logUser?.name || "غير معروف",
+            "المستخدم": log.userId ? logUser?.name || "غير معروف" : "النظام",
             "العملية": actionLabels[log.action] || log.action,
             "التفاصيل": log.details || "",
           };
         }));
         sheetName = "سجل العمليات";
+      } else if (reportType === "movements") {
+        const movements = await storage.getGuestMovementsByEvent(event.id);
+
+        if (movements.length === 0) {
+          return res.status(400).json({ error: "لا توجد حركات دخول أو خروج لتصديرها" });
+        }
+
+        const guests = await storage.getGuestsByEvent(event.id);
+        const guestNames = new Map<string, string>(guests.map((g) => [g.id, g.name]));
+        const userNames = new Map<string, string>();
+        for (let i = 0; i < movements.length; i++) {
+          const userId = movements[i].byUserId;
+          if (userId && !userNames.has(userId)) {
+            userNames.set(userId, (await storage.getUser(userId))?.name || "غير معروف");
+          }
+        }
+
+        excelData = movements.map((movement, index) => ({
+          "#": index + 1,
+          "الضيف": guestNames.get(movement.guestId) || "ضيف محذوف",
+          "الحركة": movement.direction === "in" ? "دخول" : "خروج",
+          "عدد الأشخاص": movement.people,
+          "الوقت": new Date(movement.at).toLocaleString("ar-SA"),
+          "المنظم": movement.byUserId ? userNames.get(movement.byUserId) || "" : "",
+        }));
+        sheetName = "سجل الحركة";
+      } else if (reportType === "sessions") {
+        const sessions = await getSessionSummaries(event.id);
+
+        if (sessions.length === 0) {
+          return res.status(400).json({ error: "لا توجد جلسات لهذه المناسبة" });
+        }
+
+        const guests = await storage.getGuestsByEvent(event.id);
+        const attendance = await storage.getSessionAttendanceByEvent(event.id);
+        const attended = new Set(attendance.map((a) => `${a.sessionId}:${a.guestId}`));
+        const registrations = await storage.getSessionRegistrationsByEvent(event.id);
+        const registered = new Set(registrations.map((r) => `${r.sessionId}:${r.guestId}`));
+
+        const summaryData = sessions.map((session) => ({
+          "الجلسة": session.name,
+          "التاريخ": formatSessionDate(session.date),
+          "الوقت": session.startTime ? `${session.startTime} - ${session.endTime || ""}` : "",
+          "المتحدث": session.speaker || "",
+          "القاعة": session.room || "",
+          "السعة": session.capacity ?? "",
+          "المسجلون": session.registeredCount,
+          "الحضور": session.attendedCount,
+          "نسبة الحضور": guests.length > 0 ? `${Math.round((session.attendedCount / guests.length) * 100)}%` : "0%",
+        }));
+        summaryData.push({
+          "الجلسة": "المناسبة كاملة",
+          "التاريخ": "",
+          "الوقت": "",
+          "المتحدث": "",
+          "القاعة": "",
+          "السعة": "",
+          "المسجلون": registrations.length,
+          "الحضور": guests.filter((g) => g.isCheckedIn).length,
+          "نسبة الحضور": guests.length > 0
+            ? `${Math.round((guests.filter((g) => g.isCheckedIn).length / guests.length) * 100)}%`
+            : "0%",
+        });
+
+        // One row per guest with a column per session
+        excelData = guests.map((guest, index) => {
+          const row: Record<string, string | number> = {
+            "#": index + 1,
+            "الاسم": guest.name,
+            "الجوال": guest.phone || "",
+            "الفئة": categoryName(categories, guest.category),
+          };
+          let count = 0;
+          for (let i = 0; i < sessions.length; i++) {
+            const key = `${sessions[i].id}:${guest.id}`;
+            const present = attended.has(key);
+            if (present) count++;
+            row[sessionLabel(sessions[i])] = present ? "حاضر" : registered.has(key) ? "مسجل" : "";
+          }
+          row["الجلسات المحضورة"] = `${count} من ${sessions.length}`;
+          return row;
+        });
+        sheetName = "الحضور حسب الجلسة";
+
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryData), "ملخص الجلسات");
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(excelData), sheetName);
+        const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+        const filename = encodeURIComponent(`تقرير-الجلسات-${event.name}.xlsx`);
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+        res.setHeader("Content-Length", buffer.length);
+        return res.send(buffer);
       } else {
         return res.status(400).json({ error: "نوع التقرير غير صالح" });
       }
@@ -1111,6 +3794,7 @@ export async function registerRoutes(
         attendance: "تقرير-الحضور",
         absence: "تقرير-الغياب",
         audit: "سجل-العمليات",
+        movements: "سجل-الحركة",
       };
       const filename = encodeURIComponent(`${reportNames[reportType]}-${event.name}.xlsx`);
       res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
@@ -1130,64 +3814,37 @@ export async function registerRoutes(
       const user = (req as any).user;
       const { code, eventId } = req.body;
 
-      if (!code) {
-        return res.status(400).json({ status: "invalid", message: "الكود مطلوب" });
-      }
-
-      // Find guest by QR code
-      const guest = await storage.getGuestByQrCode(code.toUpperCase());
-      if (!guest) {
-        return res.status(404).json({ status: "invalid", message: "الكود غير صالح أو غير موجود" });
-      }
-
-      // Verify guest belongs to the selected event
-      if (eventId && guest.eventId !== eventId) {
-        return res.status(400).json({ status: "invalid", message: "هذا الكود ليس لهذه المناسبة" });
-      }
-
-      // Verify access to the event
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === guest.eventId)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      } else if (user.role === "event_manager") {
-        const event = await storage.getEvent(guest.eventId);
-        if (!event || event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
+      const { httpStatus, result } = await performCheckIn(
+        user,
+        { type: "code", code: typeof code === "string" ? code : "" },
+        {
+          eventId,
+          companions: parseCompanionCount(req.body.companions),
+          zoneId: parseGateZoneId(req.body.zoneId),
+          sessionId: parseSessionId(req.body.sessionId),
         }
-      }
-
-      if (guest.isCheckedIn) {
-        const checkedInByUser = guest.checkedInBy
-          ? await storage.getUser(guest.checkedInBy)
-          : null;
-        return res.json({
-          status: "duplicate",
-          guest,
-          message: "تم استخدام هذه الدعوة مسبقاً!",
-          checkedInAt: guest.checkedInAt,
-          checkedInBy: checkedInByUser?.name || "غير معروف",
-        });
-      }
-
-      const updatedGuest = await storage.checkInGuest(guest.id, user.id);
+      );
+      res.status(httpStatus).json(result);
+    } catch (error) {
+      console.error("Check-in by code error:", error);
+      res.status(500).json({ status: "invalid", message: "خطأ في التحقق من الكود" });
+    }
+  });
 
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "check_in",
-        details: `تم تسجيل حضور عبر المسح: ${guest.name}`,
-        guestId: guest.id,
-      });
+  // Check-out by text code
+  app.post("/api/check-out/code", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { code, eventId } = req.body;
 
-      res.json({
-        status: "success",
-        guest: updatedGuest,
-        message: "تم تسجيل الحضور بنجاح",
-      });
+      const { httpStatus, result } = await performCheckOut(
+        user,
+        { type: "code", code: typeof code === "string" ? code : "" },
+        { eventId, zoneId: parseGateZoneId(req.body.zoneId) }
+      );
+      res.status(httpStatus).json(result);
     } catch (error) {
-      console.error("Check-in by code error:", error);
+      console.error("Check-out by code error:", error);
       res.status(500).json({ status: "invalid", message: "خطأ في التحقق من الكود" });
     }
   });
@@ -1196,63 +3853,22 @@ export async function registerRoutes(
   app.post("/api/check-in/verify-qr", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
     try {
       const user = (req as any).user;
-      const { qrData } = req.body;
-
-      let parsedData;
-      try {
-        parsedData = JSON.parse(qrData);
-      } catch {
-        return res.status(400).json({ status: "invalid", message: "كود غير صالح" });
-      }
-
-      const guest = await storage.getGuest(parsedData.id);
-      if (!guest || guest.qrCode !== parsedData.code) {
-        return res.status(404).json({ status: "invalid", message: "الدعوة غير صالحة" });
-      }
-
-      // Verify access to the event
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === guest.eventId)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      } else if (user.role === "event_manager") {
-        const event = await storage.getEvent(guest.eventId);
-        if (!event || event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
+      const { qrData, eventId } = req.body;
+
+      const { httpStatus, result } = await performCheckIn(
+        user,
+        { type: "qr", qrData: typeof qrData === "string" ? qrData : "" },
+        {
+          eventId,
+          companions: parseCompanionCount(req.body.companions),
+          zoneId: parseGateZoneId(req.body.zoneId),
+          sessionId: parseSessionId(req.body.sessionId),
         }
-      }
-
-      if (guest.isCheckedIn) {
-        const checkedInByUser = guest.checkedInBy
-          ? await storage.getUser(guest.checkedInBy)
-          : null;
-        return res.json({
-          status: "duplicate",
-          guest,
-          message: "تم استخدام هذه الدعوة مسبقاً!",
-          checkedInAt: guest.checkedInAt,
-          checkedInBy: checkedInByUser?.name || "غير معروف",
-        });
-      }
-
-      const updatedGuest = await storage.checkInGuest(guest.id, user.id);
-
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "check_in",
-        details: `تم تسجيل حضور: ${guest.name}`,
-        guestId: guest.id,
-      });
-
-      res.json({
-        status: "success",
-        guest: updatedGuest,
-        message: "تم تسجيل الحضور بنجاح",
-      });
+      );
+      res.status(httpStatus).json(result);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في التحقق من الكود" });
+      console.error("Verify QR error:", error);
+      res.status(500).json({ status: "invalid", message: "خطأ في التحقق من الكود" });
     }
   });
 
@@ -1439,11 +4055,10 @@ export async function registerRoutes(
             ["نسبة الحضور", (reportData.summary?.checkInRate || 0) + "%"],
             [],
             ["المناسبات"],
-            ["الاسم", "التاريخ", "الموقع", "الضيوف", "الحاضرون", "VIP", "عادي", "إعلام", "راعي"],
+            ["الاسم", "التاريخ", "الموقع", "الضيوف", "الحاضرون", "الفئات"],
             ...(reportData.events || []).map((e: any) => [
               e.name, e.date, e.location, e.totalGuests, e.checkedIn,
-              e.categoryBreakdown?.vip || 0, e.categoryBreakdown?.regular || 0,
-              e.categoryBreakdown?.media || 0, e.categoryBreakdown?.sponsor || 0
+              formatCategoryBreakdown(e.categoryBreakdown || [])
             ]),
           ];
           break;
@@ -1458,11 +4073,15 @@ export async function registerRoutes(
             ["إجمالي الضيوف", reportData.summary?.totalGuests || 0],
             ["الحاضرون", reportData.summary?.checkedInGuests || 0],
             ["نسبة الحضور", (reportData.summary?.checkInRate || 0) + "%"],
+            ["الأشخاص الحاضرون (مع المرافقين)", reportData.summary?.heads?.present || 0],
+            ["الأشخاص المتوقعون (مع المرافقين)", reportData.summary?.heads?.expected || 0],
             [],
             ["المناسبات"],
-            ["الاسم", "التاريخ", "الموقع", "مدير المناسبة", "الضيوف", "الحاضرون", "المتبقون", "النسبة%"],
+            ["الاسم", "التاريخ", "الموقع", "مدير المناسبة", "الضيوف", "المؤكدون", "المعتذرون", "الحاضرون", "المتبقون", "النسبة%", "الأشخاص الحاضرون"],
             ...(reportData.events || []).map((e: any) => [
-              e.name, e.date, e.location, e.managerName, e.totalGuests, e.checkedIn, e.pending, e.checkInRate
+              e.name, e.date, e.location, e.managerName, e.totalGuests,
+              e.rsvpBreakdown?.confirmed || 0, e.rsvpBreakdown?.declined || 0,
+              e.checkedIn, e.pending, e.checkInRate, e.heads?.present || 0
             ]),
           ];
           break;
@@ -1481,11 +4100,25 @@ export async function registerRoutes(
             ["الحاضرون", reportData.summary?.checkedIn || 0],
             ["المتبقون", reportData.summary?.pending || 0],
             ["إجمالي المرافقين", reportData.summary?.totalCompanions || 0],
+            ["المرافقون الحاضرون", reportData.summary?.companionsCheckedIn || 0],
+            ["الأشخاص الحاضرون (مع المرافقين)", reportData.summary?.heads?.present || 0],
+            ["أكدوا الحضور", reportData.summary?.rsvpBreakdown?.confirmed || 0],
+            ["اعتذروا", reportData.summary?.rsvpBreakdown?.declined || 0],
+            ["بانتظار الرد", reportData.summary?.rsvpBreakdown?.pending || 0],
+            [],
+            ["الفئات"],
+            ...(reportData.summary?.categoryBreakdown || []).map((c: CategoryCount) => [c.name, c.count]),
             [],
             ["الضيوف"],
-            ["الاسم", "الهاتف", "الفئة", "المرافقين", "الملاحظات", "الحالة", "وقت الحضور"],
+            [
+              "الاسم", "الهاتف", "الفئة", "المرافقين", "المرافقون الحاضرون", "الملاحظات",
+              ...(reportData.fields || []),
+              "تأكيد الحضور", "الحالة", "وقت الحضور",
+            ],
             ...(reportData.guests || []).map((g: any) => [
-              g.name, g.phone, g.category, g.companions, g.notes,
+              g.name, g.phone, g.categoryName, g.companions, g.companionsCheckedIn || 0, g.notes,
+              ...(reportData.fields || []).map((label: string) => g.customFields?.[label] || ""),
+              rsvpLabels[g.rsvpStatus || "pending"],
               g.isCheckedIn ? "حاضر" : "غير حاضر", g.checkedInAt || ""
             ]),
           ];
@@ -1569,7 +4202,11 @@ export async function registerRoutes(
   app.get("/api/settings/public", async (req, res) => {
     try {
       const settings = await storage.getSiteSettings();
-      res.json(settings || {});
+      if (!settings) {
+        return res.json({});
+      }
+      const { whatsapp, instagram, facebook, twitter, linkedin } = settings;
+      res.json({ whatsapp, instagram, facebook, twitter, linkedin });
     } catch (error) {
       res.status(500).json({ error: "خطأ في جلب الإعدادات" });
     }
@@ -1579,7 +4216,12 @@ export async function registerRoutes(
   app.get("/api/settings", requireRole("super_admin"), async (req, res) => {
     try {
       const settings = await storage.getSiteSettings();
-      res.json(settings || {});
+      if (!settings) {
+        return res.json({});
+      }
+      // Never send the SMTP password back to the browser
+      const { smtpPassword, ...rest } = settings;
+      res.json({ ...rest, hasSmtpPassword: !!smtpPassword });
     } catch (error) {
       res.status(500).json({ error: "خطأ في جلب الإعدادات" });
     }
@@ -1599,6 +4241,13 @@ export async function registerRoutes(
         facebook: urlSchema,
         twitter: urlSchema,
         linkedin: urlSchema,
+        smtpHost: z.string().nullable().optional(),
+        smtpPort: z.number().int().min(1).max(65535).nullable().optional(),
+        smtpSecure: z.boolean().optional(),
+        smtpUser: z.string().nullable().optional(),
+        smtpPassword: z.string().nullable().optional(),
+        smtpFrom: z.string().nullable().optional(),
+        phoneCountryCode: z.string().trim().regex(/^\d{1,4}$/).nullable().optional(),
       });
       
       const parseResult = settingsSchema.safeParse(req.body);
@@ -1607,19 +4256,54 @@ export async function registerRoutes(
       }
       
       const { whatsapp, instagram, facebook, twitter, linkedin } = parseResult.data;
+      const { smtpHost, smtpPort, smtpSecure, smtpUser, smtpPassword, smtpFrom, phoneCountryCode } = parseResult.data;
       const settings = await storage.updateSiteSettings({
         whatsapp: whatsapp || null,
         instagram: instagram || null,
         facebook: facebook || null,
         twitter: twitter || null,
         linkedin: linkedin || null,
+        smtpHost: smtpHost?.trim() || null,
+        smtpPort: smtpPort || null,
+        smtpSecure: !!smtpSecure,
+        smtpUser: smtpUser?.trim() || null,
+        // A blank password keeps the stored one, since the form never receives it
+        ...(smtpPassword ? { smtpPassword } : {}),
+        smtpFrom: smtpFrom?.trim() || null,
+        phoneCountryCode: phoneCountryCode || DEFAULT_PHONE_COUNTRY_CODE,
       });
-      res.json(settings);
+      const { smtpPassword: _password, ...rest } = settings;
+      res.json({ ...rest, hasSmtpPassword: !!settings.smtpPassword });
     } catch (error) {
       res.status(500).json({ error: "خطأ في تحديث الإعدادات" });
     }
   });
 
+  // Site Settings - Send a test email with the saved SMTP settings (super_admin only)
+  app.post("/api/settings/test-email", requireRole("super_admin"), async (req, res) => {
+    try {
+      const to = normalizeGuestEmail(req.body.to);
+      if (!to) {
+        return res.status(400).json({ error: "البريد الإلكتروني غير صالح" });
+      }
+
+      const result = await new SmtpEmailProvider().send({
+        channel: "email",
+        to,
+        subject: "رسالة تجريبية",
+        body: `<div dir="rtl">تم إعداد خادم البريد بنجاح.</div>`,
+      });
+      if (!result.ok) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Test email error:", error);
+      const reason = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: `فشل إرسال الرسالة التجريبية: ${reason}` });
+    }
+  });
+
   // Capacity Tiers - Get all (public for event creation form)
   app.get("/api/capacity-tiers", requireAuth, async (req, res) => {
     try {
@@ -1875,5 +4559,10 @@ export async function registerRoutes(
     }
   });
 
+  resumeMessageDispatch().catch((error) => {
+    console.error("Failed to resume queued messages:", error);
+  });
+  startEventScheduler();
+
   return httpServer;
 }
@@ -1,20 +1,39 @@
 import {
   users,
   events,
+  eventSeries,
   guests,
   eventOrganizers,
   auditLogs,
   siteSettings,
   capacityTiers,
   userTierQuotas,
+  eventSigningKeys,
+  messageTemplates,
+  guestMessages,
+  guestRegistrations,
+  guestImportProfiles,
+  eventTemplates,
+  guestCategories,
+  guestFields,
+  seatingTables,
+  accessZones,
+  zoneEntries,
+  guestMovements,
+  eventSessions,
+  sessionAttendance,
+  sessionRegistrations,
   type User,
   type InsertUser,
   type Event,
   type InsertEvent,
+  type EventSeries,
+  type InsertEventSeries,
   type Guest,
   type InsertGuest,
   type EventOrganizer,
   type InsertEventOrganizer,
+  type AssignedOrganizer,
   type AuditLog,
   type InsertAuditLog,
   type SiteSettings,
@@ -23,11 +42,100 @@ import {
   type InsertCapacityTier,
   type UserTierQuota,
   type InsertUserTierQuota,
+  type EventSigningKey,
+  type InsertEventSigningKey,
+  type MessageTemplate,
+  type InsertMessageTemplate,
+  type GuestMessage,
+  type InsertGuestMessage,
+  type GuestRegistration,
+  type InsertGuestRegistration,
+  type RegistrationStatus,
+  type GuestImportProfile,
+  type InsertGuestImportProfile,
+  type EventTemplate,
+  type InsertEventTemplate,
+  type GuestCategory,
+  type InsertGuestCategory,
+  type GuestField,
+  type InsertGuestField,
+  type SeatingTable,
+  type InsertSeatingTable,
+  type AccessZone,
+  type InsertAccessZone,
+  type ZoneEntry,
+  type GuestMovement,
+  type InsertGuestMovement,
+  type EventSession,
+  type InsertEventSession,
+  type SessionAttendance,
+  type SessionRegistration,
+  type EventStatus,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, gte, lte, sql } from "drizzle-orm";
+import { DEFAULT_GUEST_CATEGORIES, categoryName, countByCategory } from "@shared/categories";
+import { customFieldColumns } from "@shared/custom-fields";
+import { isEventActive } from "@shared/lifecycle";
+import { db as defaultDb } from "./db";
+import type * as schema from "@shared/schema";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+import { eq, and, asc, desc, gte, lte, inArray, isNotNull, sql } from "drizzle-orm";
+
+// Outcome of a check-in attempt: `won` is true only for the caller whose
+// update flipped the guest to checked in; `guest` is the current row either way.
+export interface CheckInAttempt {
+  won: boolean;
+  guest: Guest | undefined;
+}
+
+// Outcome of a zone gate scan: `won` is false when the guest had already
+// entered the zone, and `entry` is their first entry either way
+export interface ZoneEntryAttempt {
+  won: boolean;
+  entry: ZoneEntry | undefined;
+}
+
+// Outcome of recording a guest at a session: `won` is false when they had
+// already attended it, and `attendance` is their first record either way
+export interface SessionAttendanceAttempt {
+  won: boolean;
+  attendance: SessionAttendance | undefined;
+}
+
+// Registrations turned into guests, and how many selected requests were left
+// pending because the event ran out of capacity
+export interface RegistrationApproval {
+  approved: GuestRegistration[];
+  skippedForCapacity: number;
+}
+
+// RSVP answers for a set of guests, shared by the event and guest reports
+function countRsvpResponses(guestList: Guest[]) {
+  return {
+    confirmed: guestList.filter((g) => g.rsvpStatus === "confirmed").length,
+    declined: guestList.filter((g) => g.rsvpStatus === "declined").length,
+    pending: guestList.filter((g) => !g.rsvpStatus || g.rsvpStatus === "pending").length,
+  };
+}
+
+// People expected and actually present: each guest plus their companions
+function countHeads(guestList: Guest[]) {
+  return {
+    expected: guestList.reduce((sum, g) => sum + 1 + (g.companions || 0), 0),
+    present: guestList
+      .filter((g) => g.isCheckedIn)
+      .reduce((sum, g) => sum + 1 + (g.companionsCheckedIn || 0), 0),
+  };
+}
+
+// The pool or a transaction on it; storage methods run the same against both
+type Database = PgDatabase<NodePgQueryResultHKT, typeof schema>;
 
 export interface IStorage {
+  // Run fn against a storage bound to one transaction; everything written
+  // through it is rolled back when fn throws
+  transaction<T>(fn: (store: IStorage) => Promise<T>): Promise<T>;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -41,24 +149,91 @@ export interface IStorage {
   getEvent(id: string): Promise<Event | undefined>;
   getEvents(): Promise<Event[]>;
   getEventsByManager(managerId: string): Promise<Event[]>;
+  getEventByRegistrationToken(registrationToken: string): Promise<Event | undefined>;
   createEvent(event: InsertEvent): Promise<Event>;
   updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event | undefined>;
+  getEventsByStatus(statuses: EventStatus[]): Promise<Event[]>;
+  transitionEventStatus(id: string, from: EventStatus, to: EventStatus): Promise<Event | undefined>;
+  lockEvent(id: string): Promise<void>;
+  migrateLegacyEventActivity(): Promise<number>;
   deleteEvent(id: string): Promise<void>;
 
+  // Event Series
+  getEventSeries(id: string): Promise<EventSeries | undefined>;
+  createEventSeries(series: InsertEventSeries): Promise<EventSeries>;
+  getEventsBySeries(seriesId: string): Promise<Event[]>;
+
   // Guests
   getGuest(id: string): Promise<Guest | undefined>;
   getGuestByQrCode(qrCode: string): Promise<Guest | undefined>;
+  getGuestByRsvpToken(rsvpToken: string): Promise<Guest | undefined>;
   getGuestsByEvent(eventId: string): Promise<Guest[]>;
   createGuest(guest: InsertGuest): Promise<Guest>;
   createGuests(guests: InsertGuest[]): Promise<Guest[]>;
   updateGuest(id: string, data: Partial<Guest>): Promise<Guest | undefined>;
   deleteGuest(id: string): Promise<void>;
-  checkInGuest(id: string, organizerId: string): Promise<Guest | undefined>;
+  checkInGuest(id: string, organizerId: string, checkedInAt?: Date, companions?: number): Promise<CheckInAttempt>;
+  checkInCompanions(id: string, count: number): Promise<Guest | undefined>;
+  checkOutGuest(id: string, checkedOutAt?: Date): Promise<CheckInAttempt>;
+  reenterGuest(id: string, maxReentries: number | null): Promise<CheckInAttempt>;
+  returnForSession(id: string): Promise<Guest | undefined>;
+  createGuestMovement(movement: InsertGuestMovement): Promise<GuestMovement>;
+  getGuestMovementsByEvent(eventId: string): Promise<GuestMovement[]>;
+
+  // Guest Categories
+  getGuestCategoriesByEvent(eventId: string): Promise<GuestCategory[]>;
+  getGuestCategory(id: string): Promise<GuestCategory | undefined>;
+  createGuestCategory(category: InsertGuestCategory): Promise<GuestCategory>;
+  updateGuestCategory(id: string, data: Partial<InsertGuestCategory>): Promise<GuestCategory | undefined>;
+  deleteGuestCategory(id: string): Promise<void>;
+  reorderGuestCategories(eventId: string, ids: string[]): Promise<GuestCategory[]>;
+  countGuestsInCategory(eventId: string, key: string): Promise<number>;
+
+  // Custom guest fields
+  getGuestFieldsByEvent(eventId: string): Promise<GuestField[]>;
+  getGuestField(id: string): Promise<GuestField | undefined>;
+  createGuestField(field: InsertGuestField): Promise<GuestField>;
+  updateGuestField(id: string, data: Partial<InsertGuestField>): Promise<GuestField | undefined>;
+  deleteGuestField(id: string): Promise<void>;
+  reorderGuestFields(eventId: string, ids: string[]): Promise<GuestField[]>;
+
+  // Seating
+  getSeatingTablesByEvent(eventId: string): Promise<SeatingTable[]>;
+  getSeatingTable(id: string): Promise<SeatingTable | undefined>;
+  createSeatingTable(table: InsertSeatingTable): Promise<SeatingTable>;
+  updateSeatingTable(id: string, data: Partial<InsertSeatingTable>): Promise<SeatingTable | undefined>;
+  deleteSeatingTable(id: string): Promise<void>;
+  assignGuestsToTable(eventId: string, guestIds: string[], tableId: string | null): Promise<void>;
+
+  // Access Zones
+  getAccessZonesByEvent(eventId: string): Promise<AccessZone[]>;
+  getAccessZone(id: string): Promise<AccessZone | undefined>;
+  createAccessZone(zone: InsertAccessZone): Promise<AccessZone>;
+  updateAccessZone(id: string, data: Partial<InsertAccessZone>): Promise<AccessZone | undefined>;
+  deleteAccessZone(id: string): Promise<void>;
+  getZoneEntriesByEvent(eventId: string): Promise<ZoneEntry[]>;
+  enterZone(zone: AccessZone, guestId: string, userId: string, enteredAt?: Date): Promise<ZoneEntryAttempt>;
+
+  // Event Sessions
+  getEventSessionsByEvent(eventId: string): Promise<EventSession[]>;
+  getEventSession(id: string): Promise<EventSession | undefined>;
+  createEventSession(session: InsertEventSession): Promise<EventSession>;
+  updateEventSession(id: string, data: Partial<InsertEventSession>): Promise<EventSession | undefined>;
+  deleteEventSession(id: string): Promise<void>;
+  getSessionAttendanceByEvent(eventId: string): Promise<SessionAttendance[]>;
+  attendSession(session: EventSession, guestId: string, userId: string, checkedInAt?: Date): Promise<SessionAttendanceAttempt>;
+  leaveSession(sessionId: string, guestId: string): Promise<void>;
+  getSessionAttendanceBySession(sessionId: string): Promise<SessionAttendance[]>;
+  getSessionRegistrationsByEvent(eventId: string): Promise<SessionRegistration[]>;
+  getSessionRegistrationsBySession(sessionId: string): Promise<SessionRegistration[]>;
+  setSessionRegistrations(session: EventSession, guestIds: string[]): Promise<void>;
 
   // Event Organizers
-  getEventOrganizers(eventId: string): Promise<User[]>;
+  getEventOrganizers(eventId: string): Promise<AssignedOrganizer[]>;
   getOrganizerEvents(organizerId: string): Promise<Event[]>;
+  getOrganizerAssignment(eventId: string, organizerId: string): Promise<EventOrganizer | undefined>;
   assignOrganizer(data: InsertEventOrganizer): Promise<EventOrganizer>;
+  setOrganizerZone(eventId: string, organizerId: string, zoneId: string | null): Promise<EventOrganizer | undefined>;
   removeOrganizer(eventId: string, organizerId: string): Promise<void>;
 
   // Audit Logs
@@ -94,135 +269,654 @@ export interface IStorage {
   setUserTierQuota(userId: string, capacityTierId: string, quota: number): Promise<UserTierQuota>;
   deleteUserTierQuotas(userId: string): Promise<void>;
   getEventCountByManagerAndTier(managerId: string, capacityTierId: string): Promise<number>;
+
+  // Event Signing Keys
+  getEventSigningKey(eventId: string): Promise<EventSigningKey | undefined>;
+  createEventSigningKey(data: InsertEventSigningKey): Promise<EventSigningKey>;
+
+  // Message Templates
+  getMessageTemplatesByEvent(eventId: string): Promise<MessageTemplate[]>;
+  getMessageTemplate(id: string): Promise<MessageTemplate | undefined>;
+  createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
+  updateMessageTemplate(id: string, data: Partial<InsertMessageTemplate>): Promise<MessageTemplate | undefined>;
+  deleteMessageTemplate(id: string): Promise<void>;
+
+  // Guest Messages
+  getGuestMessagesByEvent(eventId: string): Promise<GuestMessage[]>;
+  createGuestMessages(messages: InsertGuestMessage[]): Promise<GuestMessage[]>;
+  updateGuestMessage(id: string, data: Partial<InsertGuestMessage>): Promise<GuestMessage | undefined>;
+  getQueuedMessages(eventId: string, limit: number): Promise<GuestMessage[]>;
+  getEventIdsWithQueuedMessages(): Promise<string[]>;
+  requeueFailedMessages(eventId: string): Promise<number>;
+
+  // Guest Registrations
+  getGuestRegistrationsByEvent(eventId: string): Promise<GuestRegistration[]>;
+  createGuestRegistration(registration: InsertGuestRegistration): Promise<GuestRegistration>;
+  reviewGuestRegistrations(eventId: string, ids: string[], status: RegistrationStatus, reviewedById: string): Promise<GuestRegistration[]>;
+  updateGuestRegistration(id: string, data: Partial<InsertGuestRegistration>): Promise<GuestRegistration | undefined>;
+  approveGuestRegistrations(
+    eventId: string,
+    ids: string[],
+    reviewedById: string,
+    limit: number,
+    toGuest: (registration: GuestRegistration) => InsertGuest
+  ): Promise<RegistrationApproval>;
+
+  // Guest Import Profiles
+  getGuestImportProfilesByUser(userId: string): Promise<GuestImportProfile[]>;
+  getGuestImportProfile(id: string): Promise<GuestImportProfile | undefined>;
+  createGuestImportProfile(profile: InsertGuestImportProfile): Promise<GuestImportProfile>;
+  deleteGuestImportProfile(id: string): Promise<void>;
+
+  // Event Templates
+  getEventTemplatesByUser(userId: string): Promise<EventTemplate[]>;
+  getEventTemplate(id: string): Promise<EventTemplate | undefined>;
+  createEventTemplate(template: InsertEventTemplate): Promise<EventTemplate>;
+  deleteEventTemplate(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database = defaultDb) {}
+
+  async transaction<T>(fn: (store: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new DatabaseStorage(tx)));
+  }
+
   // Users
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await this.db.insert(users).values(insertUser).returning();
     return user;
   }
 
   async getUsersByRole(role: string): Promise<User[]> {
-    return db.select().from(users).where(eq(users.role, role as any));
+    return this.db.select().from(users).where(eq(users.role, role as any));
   }
 
   async getUsersByCreator(createdById: string): Promise<User[]> {
-    return db.select().from(users).where(eq(users.createdById, createdById));
+    return this.db.select().from(users).where(eq(users.createdById, createdById));
   }
 
   async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
-    const [user] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    const [user] = await this.db.update(users).set(data).where(eq(users.id, id)).returning();
     return user || undefined;
   }
 
   async deleteUser(id: string): Promise<void> {
-    await db.delete(users).where(eq(users.id, id));
+    await this.db.delete(users).where(eq(users.id, id));
   }
 
   // Events
   async getEvent(id: string): Promise<Event | undefined> {
-    const [event] = await db.select().from(events).where(eq(events.id, id));
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
     return event || undefined;
   }
 
   async getEvents(): Promise<Event[]> {
-    return db.select().from(events).orderBy(desc(events.date));
+    return this.db.select().from(events).orderBy(desc(events.date));
   }
 
   async getEventsByManager(managerId: string): Promise<Event[]> {
-    return db.select().from(events).where(eq(events.eventManagerId, managerId)).orderBy(desc(events.date));
+    return this.db.select().from(events).where(eq(events.eventManagerId, managerId)).orderBy(desc(events.date));
+  }
+
+  async getEventByRegistrationToken(registrationToken: string): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.registrationToken, registrationToken));
+    return event || undefined;
   }
 
   async createEvent(insertEvent: InsertEvent): Promise<Event> {
-    const [event] = await db.insert(events).values(insertEvent).returning();
+    const [event] = await this.db.insert(events).values(insertEvent).returning();
     return event;
   }
 
   async updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event | undefined> {
-    const [event] = await db.update(events).set(data).where(eq(events.id, id)).returning();
+    const [event] = await this.db.update(events).set(data).where(eq(events.id, id)).returning();
+    return event || undefined;
+  }
+
+  async getEventsByStatus(statuses: EventStatus[]): Promise<Event[]> {
+    return this.db.select().from(events).where(inArray(events.status, statuses));
+  }
+
+  // Only moves the event if it is still in `from`, so a manual change and the
+  // scheduler cannot both apply; undefined when it was moved meanwhile
+  async transitionEventStatus(id: string, from: EventStatus, to: EventStatus): Promise<Event | undefined> {
+    const [event] = await this.db
+      .update(events)
+      .set(to === "closed" && from !== "archived" ? { status: to, closedAt: new Date() } : { status: to })
+      .where(and(eq(events.id, id), eq(events.status, from)))
+      .returning();
     return event || undefined;
   }
 
+  // Holds the event row until the surrounding transaction ends, so writers
+  // that take this lock run one after another
+  async lockEvent(id: string): Promise<void> {
+    await this.db.select({ id: events.id }).from(events).where(eq(events.id, id)).for("update");
+  }
+
+  // Events switched off before lifecycle statuses existed are closed, without
+  // a closing time so no check-in grace applies; active ones stay published.
+  // Clears the old flag so each event is moved once; returns how many moved.
+  async migrateLegacyEventActivity(): Promise<number> {
+    const moved = await this.db
+      .update(events)
+      .set({
+        status: sql`case when ${events.isActive} then ${events.status} else 'closed'::event_status end`,
+        isActive: null,
+      })
+      .where(isNotNull(events.isActive))
+      .returning({ id: events.id });
+    return moved.length;
+  }
+
   async deleteEvent(id: string): Promise<void> {
-    await db.delete(events).where(eq(events.id, id));
+    await this.db.delete(events).where(eq(events.id, id));
+  }
+
+  // Event Series
+  async getEventSeries(id: string): Promise<EventSeries | undefined> {
+    const [series] = await this.db.select().from(eventSeries).where(eq(eventSeries.id, id));
+    return series || undefined;
+  }
+
+  async createEventSeries(series: InsertEventSeries): Promise<EventSeries> {
+    const [created] = await this.db.insert(eventSeries).values(series).returning();
+    return created;
+  }
+
+  async getEventsBySeries(seriesId: string): Promise<Event[]> {
+    return this.db.select().from(events)
+      .where(eq(events.seriesId, seriesId))
+      .orderBy(asc(events.date), asc(events.createdAt));
   }
 
   // Guests
   async getGuest(id: string): Promise<Guest | undefined> {
-    const [guest] = await db.select().from(guests).where(eq(guests.id, id));
+    const [guest] = await this.db.select().from(guests).where(eq(guests.id, id));
     return guest || undefined;
   }
 
   async getGuestByQrCode(qrCode: string): Promise<Guest | undefined> {
-    const [guest] = await db.select().from(guests).where(eq(guests.qrCode, qrCode));
+    const [guest] = await this.db.select().from(guests).where(eq(guests.qrCode, qrCode));
+    return guest || undefined;
+  }
+
+  async getGuestByRsvpToken(rsvpToken: string): Promise<Guest | undefined> {
+    const [guest] = await this.db.select().from(guests).where(eq(guests.rsvpToken, rsvpToken));
     return guest || undefined;
   }
 
   async getGuestsByEvent(eventId: string): Promise<Guest[]> {
-    return db.select().from(guests).where(eq(guests.eventId, eventId));
+    return this.db.select().from(guests).where(eq(guests.eventId, eventId));
   }
 
   async createGuest(insertGuest: InsertGuest): Promise<Guest> {
-    const [guest] = await db.insert(guests).values(insertGuest).returning();
+    const [guest] = await this.db.insert(guests).values(insertGuest).returning();
     return guest;
   }
 
   async createGuests(insertGuests: InsertGuest[]): Promise<Guest[]> {
     if (insertGuests.length === 0) return [];
-    return db.insert(guests).values(insertGuests).returning();
+    return this.db.insert(guests).values(insertGuests).returning();
   }
 
   async updateGuest(id: string, data: Partial<Guest>): Promise<Guest | undefined> {
-    const [guest] = await db.update(guests).set(data).where(eq(guests.id, id)).returning();
+    const [guest] = await this.db.update(guests).set(data).where(eq(guests.id, id)).returning();
     return guest || undefined;
   }
 
   async deleteGuest(id: string): Promise<void> {
-    await db.delete(guests).where(eq(guests.id, id));
+    await this.db.delete(zoneEntries).where(eq(zoneEntries.guestId, id));
+    await this.db.delete(guestMovements).where(eq(guestMovements.guestId, id));
+    await this.db.delete(sessionAttendance).where(eq(sessionAttendance.guestId, id));
+    await this.db.delete(sessionRegistrations).where(eq(sessionRegistrations.guestId, id));
+    await this.db.delete(guests).where(eq(guests.id, id));
   }
 
-  async checkInGuest(id: string, organizerId: string): Promise<Guest | undefined> {
-    const [guest] = await db
+  async checkInGuest(
+    id: string,
+    organizerId: string,
+    checkedInAt: Date = new Date(),
+    companions = 0
+  ): Promise<CheckInAttempt> {
+    // Conditional update so concurrent scans of the same code have exactly one winner
+    const [updated] = await this.db
       .update(guests)
       .set({
         isCheckedIn: true,
-        checkedInAt: new Date(),
+        checkedInAt,
         checkedInBy: organizerId,
+        companionsCheckedIn: sql`LEAST(${companions}, COALESCE(${guests.companions}, 0))`,
       })
-      .where(eq(guests.id, id))
+      .where(and(eq(guests.id, id), sql`${guests.isCheckedIn} IS NOT TRUE`))
       .returning();
-    return guest || undefined;
+
+    if (updated) {
+      return { won: true, guest: updated };
+    }
+    return { won: false, guest: await this.getGuest(id) };
+  }
+
+  // Admits more companions of a checked-in guest; undefined when that would
+  // exceed the guest's allowance, so concurrent gates cannot over-admit
+  async checkInCompanions(id: string, count: number): Promise<Guest | undefined> {
+    const [updated] = await this.db
+      .update(guests)
+      .set({ companionsCheckedIn: sql`${guests.companionsCheckedIn} + ${count}` })
+      .where(
+        and(
+          eq(guests.id, id),
+          eq(guests.isCheckedIn, true),
+          sql`${guests.companionsCheckedIn} + ${count} <= COALESCE(${guests.companions}, 0)`
+        )
+      )
+      .returning();
+    return updated || undefined;
+  }
+
+  // Like check-in, only the update that flips the guest out wins
+  async checkOutGuest(id: string, checkedOutAt: Date = new Date()): Promise<CheckInAttempt> {
+    const [updated] = await this.db
+      .update(guests)
+      .set({ checkedOutAt })
+      .where(and(eq(guests.id, id), eq(guests.isCheckedIn, true), sql`${guests.checkedOutAt} IS NULL`))
+      .returning();
+
+    if (updated) {
+      return { won: true, guest: updated };
+    }
+    return { won: false, guest: await this.getGuest(id) };
+  }
+
+  // Brings a checked-out guest back in; maxReentries null means no limit
+  async reenterGuest(id: string, maxReentries: number | null): Promise<CheckInAttempt> {
+    const [updated] = await this.db
+      .update(guests)
+      .set({ checkedOutAt: null, reentryCount: sql`${guests.reentryCount} + 1` })
+      .where(
+        and(
+          eq(guests.id, id),
+          sql`${guests.checkedOutAt} IS NOT NULL`,
+          maxReentries === null ? undefined : sql`${guests.reentryCount} < ${maxReentries}`
+        )
+      )
+      .returning();
+
+    if (updated) {
+      return { won: true, guest: updated };
+    }
+    return { won: false, guest: await this.getGuest(id) };
+  }
+
+  // A guest who left after an earlier session is back for a new one; the
+  // re-entry limit starts over for the new session
+  async returnForSession(id: string): Promise<Guest | undefined> {
+    const [updated] = await this.db
+      .update(guests)
+      .set({ checkedOutAt: null, reentryCount: 0 })
+      .where(and(eq(guests.id, id), sql`${guests.checkedOutAt} IS NOT NULL`))
+      .returning();
+    return updated || undefined;
+  }
+
+  async createGuestMovement(movement: InsertGuestMovement): Promise<GuestMovement> {
+    const [created] = await this.db.insert(guestMovements).values(movement).returning();
+    return created;
+  }
+
+  async getGuestMovementsByEvent(eventId: string): Promise<GuestMovement[]> {
+    return this.db
+      .select()
+      .from(guestMovements)
+      .where(eq(guestMovements.eventId, eventId))
+      .orderBy(asc(guestMovements.at));
+  }
+
+  // Guest Categories
+  // Events get the default categories the first time theirs are read, which
+  // also covers events created before categories were configurable
+  async getGuestCategoriesByEvent(eventId: string): Promise<GuestCategory[]> {
+    const query = () =>
+      this.db
+        .select()
+        .from(guestCategories)
+        .where(eq(guestCategories.eventId, eventId))
+        .orderBy(asc(guestCategories.sortOrder), asc(guestCategories.createdAt));
+
+    const categories = await query();
+    if (categories.length > 0) return categories;
+
+    await this.db
+      .insert(guestCategories)
+      .values(DEFAULT_GUEST_CATEGORIES.map((c, i) => ({ ...c, eventId, sortOrder: i })))
+      .onConflictDoNothing();
+    return query();
+  }
+
+  async getGuestCategory(id: string): Promise<GuestCategory | undefined> {
+    const [category] = await this.db.select().from(guestCategories).where(eq(guestCategories.id, id));
+    return category || undefined;
+  }
+
+  async createGuestCategory(category: InsertGuestCategory): Promise<GuestCategory> {
+    const [created] = await this.db.insert(guestCategories).values(category).returning();
+    return created;
+  }
+
+  async updateGuestCategory(id: string, data: Partial<InsertGuestCategory>): Promise<GuestCategory | undefined> {
+    const [category] = await this.db.update(guestCategories).set(data).where(eq(guestCategories.id, id)).returning();
+    return category || undefined;
+  }
+
+  // Also closes the event's access zones to the category
+  async deleteGuestCategory(id: string): Promise<void> {
+    const category = await this.getGuestCategory(id);
+    if (!category) return;
+    await this.db
+      .update(accessZones)
+      .set({ categories: sql`${accessZones.categories} - ${category.key}` })
+      .where(eq(accessZones.eventId, category.eventId));
+    await this.db.delete(guestCategories).where(eq(guestCategories.id, id));
+  }
+
+  // ids in the new order; categories of other events are ignored
+  async reorderGuestCategories(eventId: string, ids: string[]): Promise<GuestCategory[]> {
+    for (let i = 0; i < ids.length; i++) {
+      await this.db
+        .update(guestCategories)
+        .set({ sortOrder: i })
+        .where(and(eq(guestCategories.id, ids[i]), eq(guestCategories.eventId, eventId)));
+    }
+    return this.getGuestCategoriesByEvent(eventId);
+  }
+
+  async countGuestsInCategory(eventId: string, key: string): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(guests)
+      .where(and(eq(guests.eventId, eventId), eq(guests.category, key)));
+    return row?.count || 0;
+  }
+
+  // Custom Guest Fields
+  async getGuestFieldsByEvent(eventId: string): Promise<GuestField[]> {
+    return this.db
+      .select()
+      .from(guestFields)
+      .where(eq(guestFields.eventId, eventId))
+      .orderBy(asc(guestFields.sortOrder), asc(guestFields.createdAt));
+  }
+
+  async getGuestField(id: string): Promise<GuestField | undefined> {
+    const [field] = await this.db.select().from(guestFields).where(eq(guestFields.id, id));
+    return field || undefined;
+  }
+
+  async createGuestField(field: InsertGuestField): Promise<GuestField> {
+    const [created] = await this.db.insert(guestFields).values(field).returning();
+    return created;
+  }
+
+  async updateGuestField(id: string, data: Partial<InsertGuestField>): Promise<GuestField | undefined> {
+    const [field] = await this.db.update(guestFields).set(data).where(eq(guestFields.id, id)).returning();
+    return field || undefined;
+  }
+
+  // Also removes the field's values from the event's guests
+  async deleteGuestField(id: string): Promise<void> {
+    const field = await this.getGuestField(id);
+    if (!field) return;
+    await this.db
+      .update(guests)
+      .set({ customFields: sql`${guests.customFields} - ${field.key}` })
+      .where(eq(guests.eventId, field.eventId));
+    await this.db.delete(guestFields).where(eq(guestFields.id, id));
+  }
+
+  // ids in the new order; fields of other events are ignored
+  async reorderGuestFields(eventId: string, ids: string[]): Promise<GuestField[]> {
+    for (let i = 0; i < ids.length; i++) {
+      await this.db
+        .update(guestFields)
+        .set({ sortOrder: i })
+        .where(and(eq(guestFields.id, ids[i]), eq(guestFields.eventId, eventId)));
+    }
+    return this.getGuestFieldsByEvent(eventId);
+  }
+
+  // Seating
+  async getSeatingTablesByEvent(eventId: string): Promise<SeatingTable[]> {
+    return this.db
+      .select()
+      .from(seatingTables)
+      .where(eq(seatingTables.eventId, eventId))
+      .orderBy(asc(seatingTables.sortOrder), asc(seatingTables.createdAt));
+  }
+
+  async getSeatingTable(id: string): Promise<SeatingTable | undefined> {
+    const [table] = await this.db.select().from(seatingTables).where(eq(seatingTables.id, id));
+    return table || undefined;
+  }
+
+  async createSeatingTable(table: InsertSeatingTable): Promise<SeatingTable> {
+    const [created] = await this.db.insert(seatingTables).values(table).returning();
+    return created;
+  }
+
+  async updateSeatingTable(id: string, data: Partial<InsertSeatingTable>): Promise<SeatingTable | undefined> {
+    const [table] = await this.db.update(seatingTables).set(data).where(eq(seatingTables.id, id)).returning();
+    return table || undefined;
+  }
+
+  // Guests seated at the table become unassigned
+  async deleteSeatingTable(id: string): Promise<void> {
+    await this.db.update(guests).set({ tableId: null }).where(eq(guests.tableId, id));
+    await this.db.delete(seatingTables).where(eq(seatingTables.id, id));
+  }
+
+  // tableId null unseats the guests; guests of other events are ignored
+  async assignGuestsToTable(eventId: string, guestIds: string[], tableId: string | null): Promise<void> {
+    if (guestIds.length === 0) return;
+    await this.db
+      .update(guests)
+      .set({ tableId })
+      .where(and(eq(guests.eventId, eventId), inArray(guests.id, guestIds)));
+  }
+
+  // Access Zones
+  async getAccessZonesByEvent(eventId: string): Promise<AccessZone[]> {
+    return this.db
+      .select()
+      .from(accessZones)
+      .where(eq(accessZones.eventId, eventId))
+      .orderBy(asc(accessZones.sortOrder), asc(accessZones.createdAt));
+  }
+
+  async getAccessZone(id: string): Promise<AccessZone | undefined> {
+    const [zone] = await this.db.select().from(accessZones).where(eq(accessZones.id, id));
+    return zone || undefined;
+  }
+
+  async createAccessZone(zone: InsertAccessZone): Promise<AccessZone> {
+    const [created] = await this.db.insert(accessZones).values(zone).returning();
+    return created;
+  }
+
+  async updateAccessZone(id: string, data: Partial<InsertAccessZone>): Promise<AccessZone | undefined> {
+    const [zone] = await this.db.update(accessZones).set(data).where(eq(accessZones.id, id)).returning();
+    return zone || undefined;
+  }
+
+  // Removes the zone's entries and individual grants; organizers at its gate
+  // move to the main entrance
+  async deleteAccessZone(id: string): Promise<void> {
+    const zone = await this.getAccessZone(id);
+    if (!zone) return;
+    await this.db
+      .update(guests)
+      .set({ zoneIds: sql`${guests.zoneIds} - ${zone.id}` })
+      .where(eq(guests.eventId, zone.eventId));
+    await this.db.update(eventOrganizers).set({ zoneId: null }).where(eq(eventOrganizers.zoneId, zone.id));
+    await this.db.delete(zoneEntries).where(eq(zoneEntries.zoneId, zone.id));
+    await this.db.delete(accessZones).where(eq(accessZones.id, id));
+  }
+
+  async getZoneEntriesByEvent(eventId: string): Promise<ZoneEntry[]> {
+    return this.db
+      .select()
+      .from(zoneEntries)
+      .where(eq(zoneEntries.eventId, eventId))
+      .orderBy(desc(zoneEntries.enteredAt));
+  }
+
+  // The unique (zone, guest) constraint gives concurrent gates a single winner
+  async enterZone(
+    zone: AccessZone,
+    guestId: string,
+    userId: string,
+    enteredAt: Date = new Date()
+  ): Promise<ZoneEntryAttempt> {
+    const [created] = await this.db
+      .insert(zoneEntries)
+      .values({ eventId: zone.eventId, zoneId: zone.id, guestId, enteredBy: userId, enteredAt })
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      return { won: true, entry: created };
+    }
+    const [existing] = await this.db
+      .select()
+      .from(zoneEntries)
+      .where(and(eq(zoneEntries.zoneId, zone.id), eq(zoneEntries.guestId, guestId)));
+    return { won: false, entry: existing };
+  }
+
+  // Event Sessions
+  async getEventSessionsByEvent(eventId: string): Promise<EventSession[]> {
+    return this.db
+      .select()
+      .from(eventSessions)
+      .where(eq(eventSessions.eventId, eventId))
+      .orderBy(asc(eventSessions.date), asc(eventSessions.startTime), asc(eventSessions.createdAt));
+  }
+
+  async getEventSession(id: string): Promise<EventSession | undefined> {
+    const [session] = await this.db.select().from(eventSessions).where(eq(eventSessions.id, id));
+    return session || undefined;
+  }
+
+  async createEventSession(session: InsertEventSession): Promise<EventSession> {
+    const [created] = await this.db.insert(eventSessions).values(session).returning();
+    return created;
+  }
+
+  async updateEventSession(id: string, data: Partial<InsertEventSession>): Promise<EventSession | undefined> {
+    const [session] = await this.db.update(eventSessions).set(data).where(eq(eventSessions.id, id)).returning();
+    return session || undefined;
+  }
+
+  async deleteEventSession(id: string): Promise<void> {
+    await this.db.delete(sessionAttendance).where(eq(sessionAttendance.sessionId, id));
+    await this.db.delete(sessionRegistrations).where(eq(sessionRegistrations.sessionId, id));
+    await this.db.delete(eventSessions).where(eq(eventSessions.id, id));
+  }
+
+  async getSessionAttendanceByEvent(eventId: string): Promise<SessionAttendance[]> {
+    return this.db
+      .select()
+      .from(sessionAttendance)
+      .where(eq(sessionAttendance.eventId, eventId))
+      .orderBy(desc(sessionAttendance.checkedInAt));
+  }
+
+  // The unique (session, guest) constraint gives concurrent gates a single winner
+  async attendSession(
+    session: EventSession,
+    guestId: string,
+    userId: string,
+    checkedInAt: Date = new Date()
+  ): Promise<SessionAttendanceAttempt> {
+    const [created] = await this.db
+      .insert(sessionAttendance)
+      .values({ eventId: session.eventId, sessionId: session.id, guestId, checkedInBy: userId, checkedInAt })
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      return { won: true, attendance: created };
+    }
+    const [existing] = await this.db
+      .select()
+      .from(sessionAttendance)
+      .where(and(eq(sessionAttendance.sessionId, session.id), eq(sessionAttendance.guestId, guestId)));
+    return { won: false, attendance: existing };
+  }
+
+  // Gives back a seat taken by a scan that was refused afterwards
+  async leaveSession(sessionId: string, guestId: string): Promise<void> {
+    await this.db
+      .delete(sessionAttendance)
+      .where(and(eq(sessionAttendance.sessionId, sessionId), eq(sessionAttendance.guestId, guestId)));
+  }
+
+  async getSessionAttendanceBySession(sessionId: string): Promise<SessionAttendance[]> {
+    return this.db.select().from(sessionAttendance).where(eq(sessionAttendance.sessionId, sessionId));
+  }
+
+  async getSessionRegistrationsByEvent(eventId: string): Promise<SessionRegistration[]> {
+    return this.db.select().from(sessionRegistrations).where(eq(sessionRegistrations.eventId, eventId));
+  }
+
+  async getSessionRegistrationsBySession(sessionId: string): Promise<SessionRegistration[]> {
+    return this.db.select().from(sessionRegistrations).where(eq(sessionRegistrations.sessionId, sessionId));
+  }
+
+  // Replaces the guests registered for a session; registrations kept keep
+  // their original time
+  async setSessionRegistrations(session: EventSession, guestIds: string[]): Promise<void> {
+    const existing = await this.getSessionRegistrationsBySession(session.id);
+    const removed = existing.filter((r) => !guestIds.includes(r.guestId)).map((r) => r.id);
+    if (removed.length > 0) {
+      await this.db.delete(sessionRegistrations).where(inArray(sessionRegistrations.id, removed));
+    }
+    if (guestIds.length > 0) {
+      await this.db
+        .insert(sessionRegistrations)
+        .values(guestIds.map((guestId) => ({ eventId: session.eventId, sessionId: session.id, guestId })))
+        .onConflictDoNothing();
+    }
   }
 
   // Event Organizers
-  async getEventOrganizers(eventId: string): Promise<User[]> {
-    const assignments = await db
+  async getEventOrganizers(eventId: string): Promise<AssignedOrganizer[]> {
+    const assignments = await this.db
       .select()
       .from(eventOrganizers)
       .where(eq(eventOrganizers.eventId, eventId));
     
     if (assignments.length === 0) return [];
     
-    const organizerIds = assignments.map((a) => a.organizerId);
     const organizers = await Promise.all(
-      organizerIds.map((id) => this.getUser(id))
+      assignments.map(async (a) => {
+        const user = await this.getUser(a.organizerId);
+        return user ? { ...user, zoneId: a.zoneId } : undefined;
+      })
     );
-    return organizers.filter((o): o is User => o !== undefined);
+    return organizers.filter((o): o is AssignedOrganizer => o !== undefined);
   }
 
   async getOrganizerEvents(organizerId: string): Promise<Event[]> {
-    const assignments = await db
+    const assignments = await this.db
       .select()
       .from(eventOrganizers)
       .where(eq(eventOrganizers.organizerId, organizerId));
@@ -233,16 +927,36 @@ export class DatabaseStorage implements IStorage {
     const eventList = await Promise.all(
       eventIds.map((id) => this.getEvent(id))
     );
-    return eventList.filter((e): e is Event => e !== undefined && e.isActive === true);
+    // Closed events stay listed so queued scans can sync and guests check out
+    return eventList.filter(
+      (e): e is Event => e !== undefined && e.status !== "draft" && e.status !== "archived"
+    );
+  }
+
+  async getOrganizerAssignment(eventId: string, organizerId: string): Promise<EventOrganizer | undefined> {
+    const [assignment] = await this.db
+      .select()
+      .from(eventOrganizers)
+      .where(and(eq(eventOrganizers.eventId, eventId), eq(eventOrganizers.organizerId, organizerId)));
+    return assignment || undefined;
   }
 
   async assignOrganizer(data: InsertEventOrganizer): Promise<EventOrganizer> {
-    const [assignment] = await db.insert(eventOrganizers).values(data).returning();
+    const [assignment] = await this.db.insert(eventOrganizers).values(data).returning();
     return assignment;
   }
 
+  async setOrganizerZone(eventId: string, organizerId: string, zoneId: string | null): Promise<EventOrganizer | undefined> {
+    const [assignment] = await this.db
+      .update(eventOrganizers)
+      .set({ zoneId })
+      .where(and(eq(eventOrganizers.eventId, eventId), eq(eventOrganizers.organizerId, organizerId)))
+      .returning();
+    return assignment || undefined;
+  }
+
   async removeOrganizer(eventId: string, organizerId: string): Promise<void> {
-    await db
+    await this.db
       .delete(eventOrganizers)
       .where(
         and(
@@ -254,12 +968,12 @@ export class DatabaseStorage implements IStorage {
 
   // Audit Logs
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    const [auditLog] = await db.insert(auditLogs).values(log).returning();
+    const [auditLog] = await this.db.insert(auditLogs).values(log).returning();
     return auditLog;
   }
 
   async getAuditLogsByEvent(eventId: string): Promise<AuditLog[]> {
-    return db
+    return this.db
       .select()
       .from(auditLogs)
       .where(eq(auditLogs.eventId, eventId))
@@ -268,9 +982,9 @@ export class DatabaseStorage implements IStorage {
 
   // Stats
   async getStats(role: string, userId?: string): Promise<Record<string, number>> {
-    const allUsers = await db.select().from(users);
-    const allEvents = await db.select().from(events);
-    const allGuests = await db.select().from(guests);
+    const allUsers = await this.db.select().from(users);
+    const allEvents = await this.db.select().from(events);
+    const allGuests = await this.db.select().from(guests);
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -280,7 +994,7 @@ export class DatabaseStorage implements IStorage {
         totalAdmins: allUsers.filter((u) => u.role === "admin").length,
         totalEventManagers: allUsers.filter((u) => u.role === "event_manager").length,
         totalEvents: allEvents.length,
-        activeEvents: allEvents.filter((e) => e.isActive).length,
+        activeEvents: allEvents.filter(isEventActive).length,
       };
     }
 
@@ -288,7 +1002,7 @@ export class DatabaseStorage implements IStorage {
       return {
         totalEventManagers: allUsers.filter((u) => u.role === "event_manager").length,
         totalEvents: allEvents.length,
-        activeEvents: allEvents.filter((e) => e.isActive).length,
+        activeEvents: allEvents.filter(isEventActive).length,
         totalGuests: allGuests.length,
       };
     }
@@ -300,11 +1014,14 @@ export class DatabaseStorage implements IStorage {
       
       return {
         totalEvents: userEvents.length,
-        activeEvents: userEvents.filter((e) => e.isActive).length,
+        activeEvents: userEvents.filter(isEventActive).length,
         totalGuests: userGuests.length,
         checkedInToday: userGuests.filter(
           (g) => g.isCheckedIn && g.checkedInAt && new Date(g.checkedInAt) >= today
         ).length,
+        headsPresentToday: countHeads(
+          userGuests.filter((g) => g.checkedInAt && new Date(g.checkedInAt) >= today)
+        ).present,
       };
     }
 
@@ -312,10 +1029,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getComprehensiveStats(): Promise<any> {
-    const allUsers = await db.select().from(users);
-    const allEvents = await db.select().from(events);
-    const allGuests = await db.select().from(guests);
-    const allAssignments = await db.select().from(eventOrganizers);
+    const allUsers = await this.db.select().from(users);
+    const allEvents = await this.db.select().from(events);
+    const allGuests = await this.db.select().from(guests);
+    const allAssignments = await this.db.select().from(eventOrganizers);
+    const allCategories = await this.db.select().from(guestCategories).orderBy(asc(guestCategories.sortOrder));
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -352,7 +1070,7 @@ export class DatabaseStorage implements IStorage {
         isActive: manager.isActive,
         createdAt: manager.createdAt,
         eventsCount: managerEvents.length,
-        activeEventsCount: managerEvents.filter((e) => e.isActive).length,
+        activeEventsCount: managerEvents.filter(isEventActive).length,
         totalGuests: managerGuests.length,
         checkedInGuests: checkedInGuests.length,
         organizersCount: managerOrganizers.length,
@@ -364,7 +1082,7 @@ export class DatabaseStorage implements IStorage {
             name: event.name,
             date: event.date,
             location: event.location,
-            isActive: event.isActive,
+            isActive: isEventActive(event),
             totalGuests: eventGuests.length,
             checkedIn: eventGuests.filter((g) => g.isCheckedIn).length,
             organizersCount: eventOrgs.length,
@@ -379,19 +1097,17 @@ export class DatabaseStorage implements IStorage {
       const manager = eventManagers.find((m) => m.id === event.eventManagerId);
       const checkedIn = eventGuests.filter((g) => g.isCheckedIn);
       
-      const categoryBreakdown = {
-        vip: eventGuests.filter((g) => g.category === "vip").length,
-        regular: eventGuests.filter((g) => g.category === "regular").length,
-        media: eventGuests.filter((g) => g.category === "media").length,
-        sponsor: eventGuests.filter((g) => g.category === "sponsor").length,
-      };
+      const categoryBreakdown = countByCategory(
+        allCategories.filter((c) => c.eventId === event.id),
+        eventGuests
+      );
 
       return {
         id: event.id,
         name: event.name,
         date: event.date,
         location: event.location,
-        isActive: event.isActive,
+        isActive: isEventActive(event),
         createdAt: event.createdAt,
         managerName: manager?.name || "غير معروف",
         managerId: event.eventManagerId,
@@ -399,6 +1115,7 @@ export class DatabaseStorage implements IStorage {
         checkedIn: checkedIn.length,
         pending: eventGuests.length - checkedIn.length,
         checkInRate: eventGuests.length > 0 ? Math.round((checkedIn.length / eventGuests.length) * 100) : 0,
+        heads: countHeads(eventGuests),
         organizersCount: eventOrgs.length,
         categoryBreakdown,
       };
@@ -434,11 +1151,12 @@ export class DatabaseStorage implements IStorage {
         totalOrganizers: organizers.length,
         activeOrganizers: organizers.filter((o) => o.isActive).length,
         totalEvents: allEvents.length,
-        activeEvents: allEvents.filter((e) => e.isActive).length,
+        activeEvents: allEvents.filter(isEventActive).length,
         totalGuests: allGuests.length,
         totalCheckedIn,
         todayCheckIns,
         checkInRate: allGuests.length > 0 ? Math.round((totalCheckedIn / allGuests.length) * 100) : 0,
+        heads: countHeads(allGuests),
       },
       admins: adminStats,
       eventManagers: eventManagerStats,
@@ -452,10 +1170,10 @@ export class DatabaseStorage implements IStorage {
     const admin = await this.getUser(adminId);
     if (!admin || admin.role !== "admin") return null;
 
-    const allUsers = await db.select().from(users);
-    const allEvents = await db.select().from(events);
-    const allGuests = await db.select().from(guests);
-    const allAssignments = await db.select().from(eventOrganizers);
+    const allUsers = await this.db.select().from(users);
+    const allEvents = await this.db.select().from(events);
+    const allGuests = await this.db.select().from(guests);
+    const allAssignments = await this.db.select().from(eventOrganizers);
 
     // Event managers created by this admin
     const eventManagersCreated = allUsers.filter(
@@ -521,7 +1239,7 @@ export class DatabaseStorage implements IStorage {
           name: e.name,
           date: e.date,
           location: e.location,
-          isActive: e.isActive,
+          isActive: isEventActive(e),
           managerName: manager?.name,
           totalGuests: eGuests.length,
           checkedIn: eGuests.filter((g) => g.isCheckedIn).length,
@@ -534,11 +1252,12 @@ export class DatabaseStorage implements IStorage {
     const manager = await this.getUser(managerId);
     if (!manager || manager.role !== "event_manager") return null;
 
-    const allUsers = await db.select().from(users);
-    const allGuests = await db.select().from(guests);
-    const allAssignments = await db.select().from(eventOrganizers);
+    const allUsers = await this.db.select().from(users);
+    const allGuests = await this.db.select().from(guests);
+    const allAssignments = await this.db.select().from(eventOrganizers);
+    const allCategories = await this.db.select().from(guestCategories).orderBy(asc(guestCategories.sortOrder));
     
-    let managerEvents = await db.select().from(events).where(eq(events.eventManagerId, managerId));
+    let managerEvents = await this.db.select().from(events).where(eq(events.eventManagerId, managerId));
     
     // Apply date filter
     if (startDate) {
@@ -574,7 +1293,7 @@ export class DatabaseStorage implements IStorage {
       },
       summary: {
         eventsCount: managerEvents.length,
-        activeEventsCount: managerEvents.filter((e) => e.isActive).length,
+        activeEventsCount: managerEvents.filter(isEventActive).length,
         totalGuests: eventGuests.length,
         checkedInGuests: checkedInGuests.length,
         checkInRate: eventGuests.length > 0 ? Math.round((checkedInGuests.length / eventGuests.length) * 100) : 0,
@@ -584,18 +1303,16 @@ export class DatabaseStorage implements IStorage {
       events: managerEvents.map((e) => {
         const eGuests = eventGuests.filter((g) => g.eventId === e.id);
         const eOrgs = allAssignments.filter((a) => a.eventId === e.id);
-        const categoryBreakdown = {
-          vip: eGuests.filter((g) => g.category === "vip").length,
-          regular: eGuests.filter((g) => g.category === "regular").length,
-          media: eGuests.filter((g) => g.category === "media").length,
-          sponsor: eGuests.filter((g) => g.category === "sponsor").length,
-        };
+        const categoryBreakdown = countByCategory(
+          allCategories.filter((c) => c.eventId === e.id),
+          eGuests
+        );
         return {
           id: e.id,
           name: e.name,
           date: e.date,
           location: e.location,
-          isActive: e.isActive,
+          isActive: isEventActive(e),
           totalGuests: eGuests.length,
           checkedIn: eGuests.filter((g) => g.isCheckedIn).length,
           organizersCount: eOrgs.length,
@@ -616,11 +1333,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getEventsReport(startDate?: Date, endDate?: Date, eventId?: string): Promise<any> {
-    const allUsers = await db.select().from(users);
-    const allGuests = await db.select().from(guests);
-    const allAssignments = await db.select().from(eventOrganizers);
+    const allUsers = await this.db.select().from(users);
+    const allGuests = await this.db.select().from(guests);
+    const allAssignments = await this.db.select().from(eventOrganizers);
+    const allCategories = await this.db.select().from(guestCategories).orderBy(asc(guestCategories.sortOrder));
     
-    let allEvents = await db.select().from(events);
+    let allEvents = await this.db.select().from(events);
     
     if (eventId) {
       allEvents = allEvents.filter((e) => e.id === eventId);
@@ -641,27 +1359,26 @@ export class DatabaseStorage implements IStorage {
     return {
       summary: {
         eventsCount: allEvents.length,
-        activeEventsCount: allEvents.filter((e) => e.isActive).length,
+        activeEventsCount: allEvents.filter(isEventActive).length,
         totalGuests: filteredGuests.length,
         checkedInGuests: checkedInGuests.length,
         checkInRate: filteredGuests.length > 0 ? Math.round((checkedInGuests.length / filteredGuests.length) * 100) : 0,
+        heads: countHeads(filteredGuests),
       },
       events: allEvents.map((e) => {
         const eGuests = filteredGuests.filter((g) => g.eventId === e.id);
         const eOrgs = allAssignments.filter((a) => a.eventId === e.id);
         const manager = eventManagers.find((m) => m.id === e.eventManagerId);
-        const categoryBreakdown = {
-          vip: eGuests.filter((g) => g.category === "vip").length,
-          regular: eGuests.filter((g) => g.category === "regular").length,
-          media: eGuests.filter((g) => g.category === "media").length,
-          sponsor: eGuests.filter((g) => g.category === "sponsor").length,
-        };
+        const categoryBreakdown = countByCategory(
+          allCategories.filter((c) => c.eventId === e.id),
+          eGuests
+        );
         return {
           id: e.id,
           name: e.name,
           date: e.date,
           location: e.location,
-          isActive: e.isActive,
+          isActive: isEventActive(e),
           createdAt: e.createdAt,
           managerName: manager?.name || "غير معروف",
           managerId: e.eventManagerId,
@@ -671,6 +1388,8 @@ export class DatabaseStorage implements IStorage {
           checkInRate: eGuests.length > 0 ? Math.round((eGuests.filter((g) => g.isCheckedIn).length / eGuests.length) * 100) : 0,
           organizersCount: eOrgs.length,
           categoryBreakdown,
+          rsvpBreakdown: countRsvpResponses(eGuests),
+          heads: countHeads(eGuests),
         };
       }),
     };
@@ -680,7 +1399,7 @@ export class DatabaseStorage implements IStorage {
     const event = await this.getEvent(eventId);
     if (!event) return null;
 
-    let eventGuests = await db.select().from(guests).where(eq(guests.eventId, eventId));
+    let eventGuests = await this.db.select().from(guests).where(eq(guests.eventId, eventId));
 
     // Filter by check-in date if provided
     if (startDate && checkedInOnly) {
@@ -699,13 +1418,10 @@ export class DatabaseStorage implements IStorage {
 
     const manager = await this.getUser(event.eventManagerId);
     const organizers = await this.getEventOrganizers(eventId);
+    const categories = await this.getGuestCategoriesByEvent(eventId);
+    const fields = await this.getGuestFieldsByEvent(eventId);
 
-    const categoryBreakdown = {
-      vip: eventGuests.filter((g) => g.category === "vip").length,
-      regular: eventGuests.filter((g) => g.category === "regular").length,
-      media: eventGuests.filter((g) => g.category === "media").length,
-      sponsor: eventGuests.filter((g) => g.category === "sponsor").length,
-    };
+    const categoryBreakdown = countByCategory(categories, eventGuests);
 
     return {
       event: {
@@ -713,7 +1429,7 @@ export class DatabaseStorage implements IStorage {
         name: event.name,
         date: event.date,
         location: event.location,
-        isActive: event.isActive,
+        isActive: isEventActive(event),
         managerName: manager?.name,
       },
       summary: {
@@ -721,19 +1437,27 @@ export class DatabaseStorage implements IStorage {
         checkedIn: eventGuests.filter((g) => g.isCheckedIn).length,
         pending: eventGuests.filter((g) => !g.isCheckedIn).length,
         totalCompanions: eventGuests.reduce((sum, g) => sum + (g.companions || 0), 0),
+        companionsCheckedIn: eventGuests.reduce((sum, g) => sum + (g.companionsCheckedIn || 0), 0),
+        heads: countHeads(eventGuests),
         categoryBreakdown,
+        rsvpBreakdown: countRsvpResponses(eventGuests),
       },
       guests: eventGuests.map((g) => ({
         id: g.id,
         name: g.name,
         phone: g.phone,
         category: g.category,
+        categoryName: categoryName(categories, g.category),
         companions: g.companions,
+        companionsCheckedIn: g.companionsCheckedIn,
         notes: g.notes,
+        customFields: customFieldColumns(fields, g.customFields),
         isCheckedIn: g.isCheckedIn,
         checkedInAt: g.checkedInAt,
         qrCode: g.qrCode,
+        rsvpStatus: g.rsvpStatus,
       })),
+      fields: fields.map((f) => f.label),
       organizers: organizers.map((o) => ({
         id: o.id,
         name: o.name,
@@ -743,7 +1467,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAuditReport(startDate?: Date, endDate?: Date, userId?: string, eventId?: string): Promise<any> {
-    let logs = await db.select().from(auditLogs).orderBy(desc(auditLogs.timestamp));
+    let logs = await this.db.select().from(auditLogs).orderBy(desc(auditLogs.timestamp));
 
     if (userId) {
       logs = logs.filter((l) => l.userId === userId);
@@ -758,14 +1482,15 @@ export class DatabaseStorage implements IStorage {
       logs = logs.filter((l) => l.timestamp && new Date(l.timestamp) <= endDate);
     }
 
-    const allUsers = await db.select().from(users);
-    const allEvents = await db.select().from(events);
+    const allUsers = await this.db.select().from(users);
+    const allEvents = await this.db.select().from(events);
 
     return {
       summary: {
         totalActions: logs.length,
         actionTypes: {
           check_in: logs.filter((l) => l.action === "check_in").length,
+          duplicate_check_in: logs.filter((l) => l.action === "duplicate_check_in").length,
           create_event: logs.filter((l) => l.action === "create_event").length,
           update_event: logs.filter((l) => l.action === "update_event").length,
           create_guest: logs.filter((l) => l.action === "create_guest").length,
@@ -780,7 +1505,7 @@ export class DatabaseStorage implements IStorage {
           action: l.action,
           details: l.details,
           timestamp: l.timestamp,
-          userName: user?.name || "غير معروف",
+          userName: l.userId ? user?.name || "غير معروف" : "النظام",
           eventName: event?.name || "غير معروف",
         };
       }),
@@ -788,7 +1513,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllAuditLogs(startDate?: Date, endDate?: Date): Promise<AuditLog[]> {
-    let logs = await db.select().from(auditLogs).orderBy(desc(auditLogs.timestamp));
+    let logs = await this.db.select().from(auditLogs).orderBy(desc(auditLogs.timestamp));
 
     if (startDate) {
       logs = logs.filter((l) => l.timestamp && new Date(l.timestamp) >= startDate);
@@ -802,69 +1527,69 @@ export class DatabaseStorage implements IStorage {
 
   // Site Settings
   async getSiteSettings(): Promise<SiteSettings | undefined> {
-    const [settings] = await db.select().from(siteSettings).limit(1);
+    const [settings] = await this.db.select().from(siteSettings).limit(1);
     return settings;
   }
 
   async updateSiteSettings(data: InsertSiteSettings): Promise<SiteSettings> {
     const existing = await this.getSiteSettings();
     if (existing) {
-      const [updated] = await db
+      const [updated] = await this.db
         .update(siteSettings)
         .set({ ...data, updatedAt: new Date() })
         .where(eq(siteSettings.id, existing.id))
         .returning();
       return updated;
     } else {
-      const [created] = await db.insert(siteSettings).values(data).returning();
+      const [created] = await this.db.insert(siteSettings).values(data).returning();
       return created;
     }
   }
 
   // Capacity Tiers
   async getCapacityTiers(): Promise<CapacityTier[]> {
-    return db.select().from(capacityTiers).orderBy(capacityTiers.sortOrder);
+    return this.db.select().from(capacityTiers).orderBy(capacityTiers.sortOrder);
   }
 
   async getCapacityTier(id: string): Promise<CapacityTier | undefined> {
-    const [tier] = await db.select().from(capacityTiers).where(eq(capacityTiers.id, id));
+    const [tier] = await this.db.select().from(capacityTiers).where(eq(capacityTiers.id, id));
     return tier || undefined;
   }
 
   async createCapacityTier(tier: InsertCapacityTier): Promise<CapacityTier> {
-    const [created] = await db.insert(capacityTiers).values(tier).returning();
+    const [created] = await this.db.insert(capacityTiers).values(tier).returning();
     return created;
   }
 
   async updateCapacityTier(id: string, data: Partial<InsertCapacityTier>): Promise<CapacityTier | undefined> {
-    const [updated] = await db.update(capacityTiers).set(data).where(eq(capacityTiers.id, id)).returning();
+    const [updated] = await this.db.update(capacityTiers).set(data).where(eq(capacityTiers.id, id)).returning();
     return updated || undefined;
   }
 
   async deleteCapacityTier(id: string): Promise<void> {
-    await db.delete(capacityTiers).where(eq(capacityTiers.id, id));
+    await this.db.delete(capacityTiers).where(eq(capacityTiers.id, id));
   }
 
   async getEventCountByManager(managerId: string): Promise<number> {
-    const managerEvents = await db.select().from(events).where(eq(events.eventManagerId, managerId));
+    const managerEvents = await this.db.select().from(events).where(eq(events.eventManagerId, managerId));
     return managerEvents.length;
   }
 
   // User Tier Quotas
   async getUserTierQuotas(userId: string): Promise<UserTierQuota[]> {
-    return db.select().from(userTierQuotas).where(eq(userTierQuotas.userId, userId));
+    return this.db.select().from(userTierQuotas).where(eq(userTierQuotas.userId, userId));
   }
 
   async setUserTierQuota(userId: string, capacityTierId: string, quota: number): Promise<UserTierQuota> {
     // Try to update existing record first
-    const existing = await db.select().from(userTierQuotas)
+    const existing = await this.db.select().from(userTierQuotas)
       .where(and(
         eq(userTierQuotas.userId, userId),
         eq(userTierQuotas.capacityTierId, capacityTierId)
       ));
     
     if (existing.length > 0) {
-      const [updated] = await db.update(userTierQuotas)
+      const [updated] = await this.db.update(userTierQuotas)
         .set({ quota, updatedAt: new Date() })
         .where(and(
           eq(userTierQuotas.userId, userId),
@@ -873,7 +1598,7 @@ export class DatabaseStorage implements IStorage {
         .returning();
       return updated;
     } else {
-      const [created] = await db.insert(userTierQuotas)
+      const [created] = await this.db.insert(userTierQuotas)
         .values({ userId, capacityTierId, quota })
         .returning();
       return created;
@@ -881,17 +1606,205 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteUserTierQuotas(userId: string): Promise<void> {
-    await db.delete(userTierQuotas).where(eq(userTierQuotas.userId, userId));
+    await this.db.delete(userTierQuotas).where(eq(userTierQuotas.userId, userId));
   }
 
   async getEventCountByManagerAndTier(managerId: string, capacityTierId: string): Promise<number> {
-    const managerEvents = await db.select().from(events)
+    const managerEvents = await this.db.select().from(events)
       .where(and(
         eq(events.eventManagerId, managerId),
         eq(events.capacityTierId, capacityTierId)
       ));
     return managerEvents.length;
   }
+
+  // Event Signing Keys
+  async getEventSigningKey(eventId: string): Promise<EventSigningKey | undefined> {
+    const [key] = await this.db.select().from(eventSigningKeys).where(eq(eventSigningKeys.eventId, eventId));
+    return key || undefined;
+  }
+
+  async createEventSigningKey(data: InsertEventSigningKey): Promise<EventSigningKey> {
+    // Two requests may race to create the first key; the unique event id keeps one
+    await this.db.insert(eventSigningKeys).values(data).onConflictDoNothing({ target: eventSigningKeys.eventId });
+    const key = await this.getEventSigningKey(data.eventId);
+    return key!;
+  }
+
+  // Message Templates
+  async getMessageTemplatesByEvent(eventId: string): Promise<MessageTemplate[]> {
+    return this.db.select().from(messageTemplates)
+      .where(eq(messageTemplates.eventId, eventId))
+      .orderBy(asc(messageTemplates.createdAt));
+  }
+
+  async getMessageTemplate(id: string): Promise<MessageTemplate | undefined> {
+    const [template] = await this.db.select().from(messageTemplates).where(eq(messageTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate> {
+    const [created] = await this.db.insert(messageTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateMessageTemplate(id: string, data: Partial<InsertMessageTemplate>): Promise<MessageTemplate | undefined> {
+    const [template] = await this.db.update(messageTemplates).set(data).where(eq(messageTemplates.id, id)).returning();
+    return template || undefined;
+  }
+
+  async deleteMessageTemplate(id: string): Promise<void> {
+    await this.db.delete(messageTemplates).where(eq(messageTemplates.id, id));
+  }
+
+  // Guest Messages
+  async getGuestMessagesByEvent(eventId: string): Promise<GuestMessage[]> {
+    return this.db.select().from(guestMessages)
+      .where(eq(guestMessages.eventId, eventId))
+      .orderBy(desc(guestMessages.createdAt));
+  }
+
+  async createGuestMessages(messages: InsertGuestMessage[]): Promise<GuestMessage[]> {
+    if (messages.length === 0) return [];
+    return this.db.insert(guestMessages).values(messages).returning();
+  }
+
+  async updateGuestMessage(id: string, data: Partial<InsertGuestMessage>): Promise<GuestMessage | undefined> {
+    const [message] = await this.db.update(guestMessages).set(data).where(eq(guestMessages.id, id)).returning();
+    return message || undefined;
+  }
+
+  async getQueuedMessages(eventId: string, limit: number): Promise<GuestMessage[]> {
+    return this.db.select().from(guestMessages)
+      .where(and(eq(guestMessages.eventId, eventId), eq(guestMessages.status, "queued")))
+      .orderBy(asc(guestMessages.createdAt))
+      .limit(limit);
+  }
+
+  async getEventIdsWithQueuedMessages(): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ eventId: guestMessages.eventId })
+      .from(guestMessages)
+      .where(eq(guestMessages.status, "queued"));
+    return rows.map((row) => row.eventId);
+  }
+
+  async requeueFailedMessages(eventId: string): Promise<number> {
+    const requeued = await this.db.update(guestMessages)
+      .set({ status: "queued", error: null })
+      .where(and(eq(guestMessages.eventId, eventId), eq(guestMessages.status, "failed")))
+      .returning({ id: guestMessages.id });
+    return requeued.length;
+  }
+
+  // Guest Registrations
+  async getGuestRegistrationsByEvent(eventId: string): Promise<GuestRegistration[]> {
+    return this.db.select().from(guestRegistrations)
+      .where(eq(guestRegistrations.eventId, eventId))
+      .orderBy(desc(guestRegistrations.createdAt));
+  }
+
+  async createGuestRegistration(registration: InsertGuestRegistration): Promise<GuestRegistration> {
+    const [created] = await this.db.insert(guestRegistrations).values(registration).returning();
+    return created;
+  }
+
+  // Only rows still pending are changed and returned, so two reviewers acting
+  // on the same registrations cannot both approve them
+  async reviewGuestRegistrations(
+    eventId: string,
+    ids: string[],
+    status: RegistrationStatus,
+    reviewedById: string
+  ): Promise<GuestRegistration[]> {
+    if (ids.length === 0) return [];
+    return this.db.update(guestRegistrations)
+      .set({ status, reviewedById, reviewedAt: new Date() })
+      .where(and(
+        eq(guestRegistrations.eventId, eventId),
+        eq(guestRegistrations.status, "pending"),
+        inArray(guestRegistrations.id, ids)
+      ))
+      .returning();
+  }
+
+  async updateGuestRegistration(id: string, data: Partial<InsertGuestRegistration>): Promise<GuestRegistration | undefined> {
+    const [registration] = await this.db.update(guestRegistrations).set(data).where(eq(guestRegistrations.id, id)).returning();
+    return registration || undefined;
+  }
+
+  // Approves pending registrations oldest first, at most `limit` of them, and
+  // adds their guests. Run on a transaction store holding the event's capacity
+  // lock (withGuestCapacity) so the limit still holds when the guests are added.
+  async approveGuestRegistrations(
+    eventId: string,
+    ids: string[],
+    reviewedById: string,
+    limit: number,
+    toGuest: (registration: GuestRegistration) => InsertGuest
+  ): Promise<RegistrationApproval> {
+    if (ids.length === 0) return { approved: [], skippedForCapacity: 0 };
+    const pending = await this.db.select().from(guestRegistrations)
+      .where(and(
+        eq(guestRegistrations.eventId, eventId),
+        eq(guestRegistrations.status, "pending"),
+        inArray(guestRegistrations.id, ids)
+      ))
+      .orderBy(asc(guestRegistrations.createdAt));
+    const toApprove = pending.slice(0, limit);
+
+    const approved: GuestRegistration[] = [];
+    for (const registration of toApprove) {
+      const [guest] = await this.db.insert(guests).values(toGuest(registration)).returning();
+      const [updated] = await this.db.update(guestRegistrations)
+        .set({ status: "approved", reviewedById, reviewedAt: new Date(), guestId: guest.id })
+        .where(eq(guestRegistrations.id, registration.id))
+        .returning();
+      approved.push(updated);
+    }
+    return { approved, skippedForCapacity: pending.length - toApprove.length };
+  }
+
+  // Guest Import Profiles
+  async getGuestImportProfilesByUser(userId: string): Promise<GuestImportProfile[]> {
+    return this.db.select().from(guestImportProfiles)
+      .where(eq(guestImportProfiles.userId, userId))
+      .orderBy(asc(guestImportProfiles.name));
+  }
+
+  async getGuestImportProfile(id: string): Promise<GuestImportProfile | undefined> {
+    const [profile] = await this.db.select().from(guestImportProfiles).where(eq(guestImportProfiles.id, id));
+    return profile || undefined;
+  }
+
+  async createGuestImportProfile(profile: InsertGuestImportProfile): Promise<GuestImportProfile> {
+    const [created] = await this.db.insert(guestImportProfiles).values(profile).returning();
+    return created;
+  }
+
+  async deleteGuestImportProfile(id: string): Promise<void> {
+    await this.db.delete(guestImportProfiles).where(eq(guestImportProfiles.id, id));
+  }
+
+  // Event Templates
+  async getEventTemplatesByUser(userId: string): Promise<EventTemplate[]> {
+    return this.db.select().from(eventTemplates)
+      .where(eq(eventTemplates.userId, userId))
+      .orderBy(asc(eventTemplates.name));
+  }
+
+  async getEventTemplate(id: string): Promise<EventTemplate | undefined> {
+    const [template] = await this.db.select().from(eventTemplates).where(eq(eventTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createEventTemplate(template: InsertEventTemplate): Promise<EventTemplate> {
+    const [created] = await this.db.insert(eventTemplates).values(template).returning();
+    return created;
+  }
+
+  async deleteEventTemplate(id: string): Promise<void> {
+    await this.db.delete(eventTemplates).where(eq(eventTemplates.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,56 @@
+import type { CategoryCount } from "./schema";
+
+// Categories every event starts with. Guests saved before categories became
+// configurable hold these keys, so they are also the fallback labels.
+export const DEFAULT_GUEST_CATEGORIES = [
+  { key: "vip", name: "VIP", color: "#EAB308" },
+  { key: "regular", name: "عادي", color: "#3B82F6" },
+  { key: "media", name: "إعلام", color: "#A855F7" },
+  { key: "sponsor", name: "راعي", color: "#22C55E" },
+];
+
+export const FALLBACK_CATEGORY_COLOR = "#64748B";
+
+type CategoryInfo = { key: string; name: string; color: string };
+
+export function findCategory(
+  categories: CategoryInfo[],
+  key: string | null | undefined
+): CategoryInfo | undefined {
+  if (!key) return undefined;
+  return categories.find((c) => c.key === key) || DEFAULT_GUEST_CATEGORIES.find((c) => c.key === key);
+}
+
+export function categoryName(categories: CategoryInfo[], key: string | null | undefined): string {
+  return findCategory(categories, key)?.name || key || "";
+}
+
+export function categoryColor(categories: CategoryInfo[], key: string | null | undefined): string {
+  return findCategory(categories, key)?.color || FALLBACK_CATEGORY_COLOR;
+}
+
+// Guests counted per category in the given order; keys with no category row,
+// such as those of an event whose categories were never loaded, come last
+export function countByCategory(
+  categories: CategoryInfo[],
+  guestList: { category: string | null }[]
+): CategoryCount[] {
+  const counts = new Map<string, number>();
+  for (const guest of guestList) {
+    const key = guest.category || "";
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const result: CategoryCount[] = categories.map((c) => ({
+    key: c.key,
+    name: c.name,
+    color: c.color,
+    count: counts.get(c.key) || 0,
+  }));
+  counts.forEach((count, key) => {
+    if (key && !categories.some((c) => c.key === key)) {
+      result.push({ key, name: categoryName(categories, key), color: categoryColor(categories, key), count });
+    }
+  });
+  return result;
+}
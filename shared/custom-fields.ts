@@ -0,0 +1,133 @@
+import type { CustomFieldValue, GuestCustomFields, GuestField } from "./schema";
+import { toAsciiDigits } from "./phone";
+
+type FieldInfo = Pick<GuestField, "key" | "label" | "type" | "options">;
+
+const TRUE_WORDS = ["true", "yes", "y", "1", "نعم", "صح", "✓"];
+const FALSE_WORDS = ["false", "no", "n", "0", "لا", "خطأ", "✗"];
+
+// Excel stores dates as days since 1899-12-30; five-digit serials cover 1927-2173
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function utcDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// Dates are stored as YYYY-MM-DD; DD/MM/YYYY and Excel date cells are accepted
+function parseDate(value: string): string | null {
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return utcDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) return utcDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  if (/^\d{5}(\.\d+)?$/.test(value)) {
+    return new Date(EXCEL_EPOCH + Math.floor(Number(value)) * DAY_MS).toISOString().slice(0, 10);
+  }
+  return null;
+}
+
+// Read a field value typed in a form or a spreadsheet cell. Blank values
+// give null (the field is cleared); invalid ones give an error in Arabic.
+export function parseCustomFieldValue(
+  field: FieldInfo,
+  raw: unknown
+): { value: CustomFieldValue | null } | { error: string } {
+  if (raw === undefined || raw === null) return { value: null };
+  if (typeof raw === "boolean") {
+    return field.type === "boolean" ? { value: raw } : { error: `قيمة حقل "${field.label}" غير صالحة` };
+  }
+
+  const text = toAsciiDigits(String(raw)).trim();
+  if (!text) return { value: null };
+
+  switch (field.type) {
+    case "number": {
+      const number = Number(text.replace(/,/g, ""));
+      return Number.isFinite(number) ? { value: number } : { error: `"${text}" ليس رقماً في حقل "${field.label}"` };
+    }
+    case "select": {
+      const option = field.options.find((o) => o.trim().toLowerCase() === text.toLowerCase());
+      return option !== undefined
+        ? { value: option }
+        : { error: `"${text}" ليس من خيارات حقل "${field.label}"` };
+    }
+    case "date": {
+      const date = parseDate(text);
+      return date ? { value: date } : { error: `"${text}" ليس تاريخاً صالحاً في حقل "${field.label}"` };
+    }
+    case "boolean": {
+      const word = text.toLowerCase();
+      if (TRUE_WORDS.includes(word)) return { value: true };
+      if (FALSE_WORDS.includes(word)) return { value: false };
+      return { error: `"${text}" ليست نعم أو لا في حقل "${field.label}"` };
+    }
+    default:
+      return { value: String(raw).trim() };
+  }
+}
+
+// Check submitted values against the event's fields. Only keys present in
+// `input` are returned, with null for cleared fields; unknown keys are dropped.
+export function parseCustomFields(
+  fields: FieldInfo[],
+  input: unknown
+): { values: Record<string, CustomFieldValue | null> } | { error: string } {
+  if (input === undefined || input === null) return { values: {} };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "بيانات الحقول الإضافية غير صالحة" };
+  }
+
+  const values: Record<string, CustomFieldValue | null> = {};
+  for (const field of fields) {
+    if (!(field.key in input)) continue;
+    const result = parseCustomFieldValue(field, (input as Record<string, unknown>)[field.key]);
+    if ("error" in result) return result;
+    values[field.key] = result.value;
+  }
+  return { values };
+}
+
+// Apply parsed values to a guest's stored ones; null removes the field
+export function mergeCustomFields(
+  current: GuestCustomFields | null | undefined,
+  changes: Record<string, CustomFieldValue | null>
+): GuestCustomFields {
+  const merged: GuestCustomFields = { ...(current || {}) };
+  for (const key of Object.keys(changes)) {
+    const value = changes[key];
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+export function formatCustomFieldValue(field: FieldInfo, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return "";
+  if (field.type === "boolean") return value ? "نعم" : "لا";
+  return String(value);
+}
+
+// Field label -> display value, in field order, for exports and reports
+export function customFieldColumns(
+  fields: FieldInfo[],
+  values: GuestCustomFields | null | undefined
+): Record<string, string> {
+  const columns: Record<string, string> = {};
+  for (const field of fields) {
+    columns[field.label] = formatCustomFieldValue(field, values?.[field.key]);
+  }
+  return columns;
+}
+
+// Text the guest list search matches against
+export function customFieldSearchText(values: GuestCustomFields | null | undefined): string {
+  return Object.values(values || {})
+    .filter((value) => typeof value !== "boolean")
+    .join(" ")
+    .toLowerCase();
+}
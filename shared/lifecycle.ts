@@ -0,0 +1,119 @@
+import type { Event, EventStatus } from "./schema";
+import { eventDayRange } from "./sessions";
+
+type ScheduledEvent = Pick<Event, "date" | "endDate" | "startTime" | "endTime">;
+type CheckInWindow = Pick<Event, "status" | "checkInGraceMinutes" | "closedAt"> & ScheduledEvent;
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: "مسودة",
+  published: "منشورة",
+  live: "جارية",
+  closed: "مغلقة",
+  archived: "مؤرشفة",
+};
+
+// Statuses an event may move to from each status
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ["published"],
+  published: ["draft", "live", "closed"],
+  live: ["closed"],
+  closed: ["live", "archived"],
+  archived: ["closed"],
+};
+
+export function canTransition(from: EventStatus, to: EventStatus): boolean {
+  return EVENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Button text for moving an event from one status to another
+export function transitionLabel(from: EventStatus, to: EventStatus): string {
+  switch (to) {
+    case "draft":
+      return "إرجاع إلى المسودة";
+    case "published":
+      return "نشر المناسبة";
+    case "live":
+      return from === "closed" ? "إعادة فتح تسجيل الحضور" : "بدء تسجيل الحضور";
+    case "closed":
+      return from === "archived" ? "إلغاء الأرشفة" : "إغلاق تسجيل الحضور";
+    case "archived":
+      return "أرشفة المناسبة";
+  }
+}
+
+// Organizers see the event and guests can answer invitations
+export function isEventActive(event: Pick<Event, "status">): boolean {
+  return event.status === "published" || event.status === "live";
+}
+
+// Archived events keep their guests and history but accept no changes
+export function isEventReadOnly(event: Pick<Event, "status">): boolean {
+  return event.status === "archived";
+}
+
+// Event times are wall-clock times on the event's calendar days
+export function eventStartsAt(event: ScheduledEvent): Date {
+  const { first } = eventDayRange(event);
+  return new Date(`${first}T${event.startTime || "00:00"}:00`);
+}
+
+// An end time before the start time on a single-day event runs past midnight
+export function eventEndsAt(event: ScheduledEvent): Date {
+  const { last } = eventDayRange(event);
+  const end = new Date(`${last}T${event.endTime || "23:59"}:00`);
+  if (end <= eventStartsAt(event)) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end;
+}
+
+// Status the schedule moves an event to at this moment, or null when it stays:
+// published events go live at the start time and live events close at the end
+export function scheduledStatus(event: ScheduledEvent & Pick<Event, "status">, now: Date = new Date()): EventStatus | null {
+  if (event.status === "published" && now >= eventStartsAt(event)) {
+    return now >= eventEndsAt(event) ? "closed" : "live";
+  }
+  if (event.status === "live" && now >= eventEndsAt(event)) {
+    return "closed";
+  }
+  return null;
+}
+
+// Why nothing can be recorded at the door of an event, or null when guests
+// may at least leave; check-out stays open after check-in closes
+export function checkOutRefusal(event: Pick<Event, "status">): string | null {
+  if (event.status === "draft") return "المناسبة غير منشورة بعد";
+  if (event.status === "archived") return "المناسبة مؤرشفة";
+  return null;
+}
+
+// Oldest offline scan a closed event still accepts, counted back from closing
+const MAX_OFFLINE_SCAN_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Why a guest may not check in at this moment, or null when check-in is open.
+// Early arrivals are let in during the grace period before the start time, and
+// scans taken during the grace period after closing are still accepted. `at`
+// may be the time an offline scan was taken, so a closed event only takes
+// scans dated after check-in opened and not long before it closed.
+export function checkInRefusal(event: CheckInWindow, at: Date = new Date()): string | null {
+  const grace = event.checkInGraceMinutes * 60_000;
+  const tooEarly = at.getTime() < eventStartsAt(event).getTime() - grace
+    ? `يبدأ تسجيل الحضور قبل موعد المناسبة بـ ${event.checkInGraceMinutes} دقيقة`
+    : null;
+  switch (event.status) {
+    case "draft":
+    case "archived":
+      return checkOutRefusal(event);
+    case "live":
+      return null;
+    case "published":
+      return tooEarly;
+    case "closed": {
+      if (!event.closedAt) return "انتهى وقت تسجيل الحضور لهذه المناسبة";
+      const closedAt = new Date(event.closedAt).getTime();
+      if (at.getTime() > closedAt + grace) return "انتهى وقت تسجيل الحضور لهذه المناسبة";
+      if (at.getTime() < closedAt - MAX_OFFLINE_SCAN_AGE_MS) return "مضى وقت طويل على هذا المسح قبل إغلاق تسجيل الحضور";
+      return tooEarly;
+    }
+  }
+}
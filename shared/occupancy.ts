@@ -0,0 +1,42 @@
+import type { Event, Guest, ReentryPolicy } from "./schema";
+
+type PresenceGuest = Pick<Guest, "isCheckedIn" | "checkedOutAt" | "companionsCheckedIn">;
+
+export const REENTRY_POLICY_LABELS: Record<ReentryPolicy, string> = {
+  allowed: "مسموحة دائماً",
+  disallowed: "غير مسموحة",
+  limited: "مسموحة بعدد محدد",
+};
+
+// Checked in and not out since their last entry
+export function isInside(guest: Pick<Guest, "isCheckedIn" | "checkedOutAt">): boolean {
+  return !!guest.isCheckedIn && !guest.checkedOutAt;
+}
+
+// A guest leaves and comes back with the companions admitted with them
+export function partySize(guest: Pick<Guest, "companionsCheckedIn">): number {
+  return 1 + (guest.companionsCheckedIn || 0);
+}
+
+// Guests and people (guests plus their companions) currently in the venue
+export function countInside(guestList: PresenceGuest[]): { guests: number; people: number } {
+  const inside = guestList.filter(isInside);
+  return {
+    guests: inside.length,
+    people: inside.reduce((sum, g) => sum + partySize(g), 0),
+  };
+}
+
+// Why a checked-out guest may not come back in, or null when they may
+export function reentryRefusal(
+  event: Pick<Event, "reentryPolicy" | "reentryLimit">,
+  guest: Pick<Guest, "reentryCount">
+): string | null {
+  if (event.reentryPolicy === "disallowed") {
+    return "إعادة الدخول غير مسموحة في هذه المناسبة";
+  }
+  if (event.reentryPolicy === "limited" && (guest.reentryCount || 0) >= event.reentryLimit) {
+    return `استنفد الضيف مرات إعادة الدخول المسموحة (${event.reentryLimit})`;
+  }
+  return null;
+}
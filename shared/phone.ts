@@ -0,0 +1,54 @@
+// Guest phones are stored in E.164 ("+966501234567"). Numbers written in a
+// national format are read against the default country calling code from the
+// site settings, Saudi Arabia unless changed.
+export const DEFAULT_PHONE_COUNTRY_CODE = "966";
+
+// Arabic-Indic (٠-٩) and Persian (۰-۹) digits are common in pasted lists
+export function toAsciiDigits(value: string): string {
+  return value
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0));
+}
+
+export function phoneDigits(value: string | null | undefined): string {
+  return toAsciiDigits(value || "").replace(/\D/g, "");
+}
+
+// Returns the number in E.164, "" for a blank value, or null when it cannot be
+// a phone number: 0501234567, 501234567, 966501234567, 00966501234567 and
+// +966 50 123 4567 all become +966501234567.
+export function normalizePhone(
+  value: string | null | undefined,
+  countryCode: string = DEFAULT_PHONE_COUNTRY_CODE
+): string | null {
+  const input = toAsciiDigits(value || "").trim();
+  if (!input) return "";
+  if (!/^\+?[\d\s\-().\/]+$/.test(input)) return null;
+
+  let digits = input.replace(/\D/g, "");
+  if (input.startsWith("+")) {
+    // Already international
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith(countryCode) && digits.length - countryCode.length >= 8) {
+    // International without the +
+  } else {
+    digits = countryCode + digits.replace(/^0+/, "");
+  }
+
+  return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+// Key used to compare stored phones, including ones saved before normalization
+export function phoneMatchKey(
+  value: string | null | undefined,
+  countryCode: string = DEFAULT_PHONE_COUNTRY_CODE
+): string {
+  return normalizePhone(value, countryCode) || phoneDigits(value);
+}
+
+// Search text typed in any format ("050 123", "+96650", "٠٥٠١") reduced to the
+// digits that appear in every stored form of the number
+export function phoneSearchDigits(query: string): string {
+  return phoneDigits(query).replace(/^0+/, "");
+}
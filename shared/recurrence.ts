@@ -0,0 +1,79 @@
+import type { Event, Guest, Recurrence, SeriesAttendance, SeriesOccurrence } from "./schema";
+import { partySize } from "./occupancy";
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  weekly: "أسبوعياً",
+  monthly: "شهرياً",
+  custom: "تواريخ محددة",
+};
+
+function utcDay(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function dayString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Days of the occurrences that follow the first one, as YYYY-MM-DD. Monthly
+// occurrences keep the day of the month, or take the last day of a shorter month.
+export function recurrenceDates(first: string, recurrence: Exclude<Recurrence, "custom">, count: number): string[] {
+  const start = utcDay(first);
+  const dates: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const next = new Date(start);
+    if (recurrence === "weekly") {
+      next.setUTCDate(start.getUTCDate() + 7 * i);
+    } else {
+      const month = start.getUTCMonth() + i;
+      const lastDay = new Date(Date.UTC(start.getUTCFullYear(), month + 1, 0)).getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(month);
+      next.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+    }
+    dates.push(dayString(next));
+  }
+  return dates;
+}
+
+// Days picked for a custom series, in order and without repeats; null when one
+// is not after the first occurrence
+export function customRecurrenceDates(first: string, dates: string[]): string[] | null {
+  const unique = Array.from(new Set(dates)).sort();
+  return unique.every((day) => day > first) ? unique : null;
+}
+
+export function summarizeOccurrence(
+  event: Pick<Event, "id" | "name" | "date" | "endDate" | "status">,
+  guestList: Pick<Guest, "isCheckedIn" | "companions" | "companionsCheckedIn">[]
+): SeriesOccurrence {
+  const checkedIn = guestList.filter((g) => g.isCheckedIn);
+  return {
+    id: event.id,
+    name: event.name,
+    date: event.date,
+    endDate: event.endDate,
+    status: event.status,
+    guestCount: guestList.length,
+    checkedInCount: checkedIn.length,
+    expectedPeople: guestList.reduce((sum, g) => sum + 1 + (g.companions || 0), 0),
+    admittedPeople: checkedIn.reduce((sum, g) => sum + partySize(g), 0),
+  };
+}
+
+export function sumAttendance(occurrences: SeriesAttendance[]): SeriesAttendance {
+  return occurrences.reduce(
+    (totals, o) => ({
+      guestCount: totals.guestCount + o.guestCount,
+      checkedInCount: totals.checkedInCount + o.checkedInCount,
+      expectedPeople: totals.expectedPeople + o.expectedPeople,
+      admittedPeople: totals.admittedPeople + o.admittedPeople,
+    }),
+    { guestCount: 0, checkedInCount: 0, expectedPeople: 0, admittedPeople: 0 }
+  );
+}
+
+// Share of invited guests who came, as a whole percentage
+export function attendanceRate(attendance: Pick<SeriesAttendance, "guestCount" | "checkedInCount">): number {
+  return attendance.guestCount ? Math.round((attendance.checkedInCount / attendance.guestCount) * 100) : 0;
+}
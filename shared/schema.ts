@@ -1,17 +1,46 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, pgEnum, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // User roles enum
 export const userRoleEnum = pgEnum("user_role", ["super_admin", "admin", "event_manager", "organizer"]);
 
-// Guest category enum
-export const guestCategoryEnum = pgEnum("guest_category", ["vip", "regular", "media", "sponsor"]);
-
 // Check-in status enum  
 export const checkInStatusEnum = pgEnum("check_in_status", ["pending", "checked_in", "duplicate", "invalid"]);
 
+// Guest RSVP response enum
+export const rsvpStatusEnum = pgEnum("rsvp_status", ["pending", "confirmed", "declined"]);
+
+// Self-registration review enum
+export const registrationStatusEnum = pgEnum("registration_status", ["pending", "approved", "rejected"]);
+
+// What happens when a guest is added with a phone already used in the event:
+// warn adds them anyway and flags it, merge updates the existing guest instead
+export const duplicatePhoneModeEnum = pgEnum("duplicate_phone_mode", ["warn", "merge"]);
+
+// Whether a guest who checked out may scan back in: always, never, or up to
+// the event's reentryLimit times
+export const reentryPolicyEnum = pgEnum("reentry_policy", ["allowed", "disallowed", "limited"]);
+
+// Event lifecycle: drafts are being prepared, published events take RSVPs,
+// live events admit guests, closed events stop check-in and archived events
+// are kept read-only for reports
+export const eventStatusEnum = pgEnum("event_status", ["draft", "published", "live", "closed", "archived"]);
+
+// How the occurrences of an event series repeat
+export const recurrenceEnum = pgEnum("recurrence", ["weekly", "monthly", "custom"]);
+
+// Direction of a guest's pass through the main entrance
+export const movementDirectionEnum = pgEnum("movement_direction", ["in", "out"]);
+
+// Value types of the custom guest fields an event can define
+export const customFieldTypeEnum = pgEnum("custom_field_type", ["text", "number", "select", "date", "boolean"]);
+
+// Invitation message channel and delivery status enums
+export const messageChannelEnum = pgEnum("message_channel", ["whatsapp", "sms", "email"]);
+export const messageStatusEnum = pgEnum("message_status", ["queued", "sent", "failed"]);
+
 // Users table - all system users
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -31,12 +60,43 @@ export const events = pgTable("events", {
   name: text("name").notNull(),
   description: text("description"),
   date: timestamp("date").notNull(),
+  // Last day of a multi-day event; null when the event runs on one day
+  endDate: timestamp("end_date"),
   location: text("location"),
   startTime: text("start_time"),
   endTime: text("end_time"),
   eventManagerId: varchar("event_manager_id").notNull(),
   capacityTierId: varchar("capacity_tier_id"),
-  isActive: boolean("is_active").default(true),
+  // Most companions a guest may bring when answering the RSVP page
+  rsvpMaxCompanions: integer("rsvp_max_companions").default(0),
+  // Public self-registration link (/register/:registrationToken)
+  registrationEnabled: boolean("registration_enabled").default(false),
+  registrationToken: varchar("registration_token").notNull().unique().default(sql`gen_random_uuid()`),
+  duplicatePhoneMode: duplicatePhoneModeEnum("duplicate_phone_mode").notNull().default("warn"),
+  reentryPolicy: reentryPolicyEnum("reentry_policy").notNull().default("allowed"),
+  // Re-entries each guest gets under the limited policy
+  reentryLimit: integer("reentry_limit").notNull().default(1),
+  status: eventStatusEnum("status").notNull().default("published"),
+  // Check-in opens this many minutes before the start time and stays open this
+  // long after the event is closed, for early arrivals and offline scans
+  checkInGraceMinutes: integer("check_in_grace_minutes").notNull().default(60),
+  // When check-in was last closed
+  closedAt: timestamp("closed_at"),
+  // On/off flag of events created before lifecycle statuses; null once
+  // startEventScheduler has moved it into status
+  isActive: boolean("is_active"),
+  // Series the event is an occurrence of; null for one-off events
+  seriesId: varchar("series_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Events repeating on a rule. Each occurrence is a full event of its own,
+// generated from the first one with its guest list and organizer team.
+export const eventSeries = pgTable("event_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  eventManagerId: varchar("event_manager_id").notNull(),
+  recurrence: recurrenceEnum("recurrence").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -46,13 +106,31 @@ export const guests = pgTable("guests", {
   eventId: varchar("event_id").notNull(),
   name: text("name").notNull(),
   phone: text("phone"),
-  category: guestCategoryEnum("category").default("regular"),
+  email: text("email"),
+  // Key of one of the event's guest categories
+  category: text("category").default("regular"),
   companions: integer("companions").default(0),
   notes: text("notes"),
+  // Seating table; the guest and all their companions sit at it
+  tableId: varchar("table_id"),
+  // Access zones granted to this guest on top of those open to their category
+  zoneIds: jsonb("zone_ids").$type<string[]>().notNull().default([]),
+  // Values of the event's custom fields by field key; empty fields are left out
+  customFields: jsonb("custom_fields").$type<GuestCustomFields>().notNull().default({}),
   qrCode: text("qr_code").notNull().unique(),
   isCheckedIn: boolean("is_checked_in").default(false),
+  // Companions admitted so far; they may arrive with the guest or later on the same code
+  companionsCheckedIn: integer("companions_checked_in").notNull().default(0),
   checkedInAt: timestamp("checked_in_at"),
   checkedInBy: varchar("checked_in_by"),
+  // Set while a checked-in guest is out of the venue; cleared when they scan back in
+  checkedOutAt: timestamp("checked_out_at"),
+  // Times the guest came back in after checking out
+  reentryCount: integer("reentry_count").notNull().default(0),
+  // Public RSVP page link credential, independent of the QR token's validity window
+  rsvpToken: varchar("rsvp_token").notNull().unique().default(sql`gen_random_uuid()`),
+  rsvpStatus: rsvpStatusEnum("rsvp_status").default("pending"),
+  rsvpAt: timestamp("rsvp_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -61,14 +139,140 @@ export const eventOrganizers = pgTable("event_organizers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id").notNull(),
   organizerId: varchar("organizer_id").notNull(),
+  // Access zone whose gate the organizer scans at; null for the main entrance
+  zoneId: varchar("zone_id"),
   assignedAt: timestamp("assigned_at").defaultNow(),
 });
 
+// Self-registrations awaiting the event manager's review; approval creates the guest
+export const guestRegistrations = pgTable("guest_registrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  name: text("name").notNull(),
+  phone: text("phone").notNull(),
+  category: text("category").default("regular"),
+  status: registrationStatusEnum("status").notNull().default("pending"),
+  guestId: varchar("guest_id"),
+  reviewedById: varchar("reviewed_by_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Guest categories of an event. Guests store the key, so renaming a category
+// or changing its color never touches guest rows.
+export const guestCategories = pgTable("guest_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  key: text("key").notNull(),
+  name: text("name").notNull(),
+  color: text("color").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("guest_categories_event_key").on(table.eventId, table.key)]);
+
+// Extra guest details an event collects, such as company or dietary needs.
+// The type is fixed once created so stored values always match it.
+export const guestFields = pgTable("guest_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  type: customFieldTypeEnum("type").notNull().default("text"),
+  // Choices of a select field
+  options: jsonb("options").$type<string[]>().notNull().default([]),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("guest_fields_event_key").on(table.eventId, table.key)]);
+
+// Seating tables of an event. A guest takes one seat plus one per companion.
+export const seatingTables = pgTable("seating_tables", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  name: text("name").notNull(),
+  // Optional hall area the table belongs to, such as "القاعة الرئيسية"
+  section: text("section"),
+  capacity: integer("capacity").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Restricted areas of an event, such as a VIP lounge or backstage, each with
+// its own gate. Guests enter if their category is listed or the zone was
+// granted to them individually.
+export const accessZones = pgTable("access_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  name: text("name").notNull(),
+  // Keys of the guest categories allowed in
+  categories: jsonb("categories").$type<string[]>().notNull().default([]),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Admissions at zone gates, tracked apart from the main check-in
+export const zoneEntries = pgTable("zone_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  zoneId: varchar("zone_id").notNull(),
+  guestId: varchar("guest_id").notNull(),
+  enteredAt: timestamp("entered_at").notNull().defaultNow(),
+  enteredBy: varchar("entered_by"),
+}, (table) => [unique("zone_entries_zone_guest").on(table.zoneId, table.guestId)]);
+
+// Days or sessions of an event, each with its own attendance at the main entrance
+export const eventSessions = pgTable("event_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  name: text("name").notNull(),
+  // Calendar day as YYYY-MM-DD, within the event's days
+  date: text("date").notNull(),
+  startTime: text("start_time"),
+  endTime: text("end_time"),
+  speaker: text("speaker"),
+  room: text("room"),
+  // Seats in the room, one per guest; null when attendance is not limited
+  capacity: integer("capacity"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Guests who reserved a seat at a session ahead of the event
+export const sessionRegistrations = pgTable("session_registrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  sessionId: varchar("session_id").notNull(),
+  guestId: varchar("guest_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("session_registrations_session_guest").on(table.sessionId, table.guestId)]);
+
+// Guests present at each session; the guest's own check-in marks their
+// first arrival at the event
+export const sessionAttendance = pgTable("session_attendance", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  sessionId: varchar("session_id").notNull(),
+  guestId: varchar("guest_id").notNull(),
+  checkedInAt: timestamp("checked_in_at").notNull().defaultNow(),
+  checkedInBy: varchar("checked_in_by"),
+}, (table) => [unique("session_attendance_session_guest").on(table.sessionId, table.guestId)]);
+
+// Every pass of a guest's party through the main entrance, in or out
+export const guestMovements = pgTable("guest_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  guestId: varchar("guest_id").notNull(),
+  direction: movementDirectionEnum("direction").notNull(),
+  // The guest plus the companions who passed with them
+  people: integer("people").notNull().default(1),
+  at: timestamp("at").notNull().defaultNow(),
+  byUserId: varchar("by_user_id"),
+});
+
 // Audit log table
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id"),
-  userId: varchar("user_id").notNull(),
+  // Null for actions the system takes on its own, such as scheduled status changes
+  userId: varchar("user_id"),
   action: text("action").notNull(),
   details: text("details"),
   guestId: varchar("guest_id"),
@@ -83,6 +287,15 @@ export const siteSettings = pgTable("site_settings", {
   facebook: text("facebook"),
   twitter: text("twitter"),
   linkedin: text("linkedin"),
+  // Outgoing mail server for email invitations
+  smtpHost: text("smtp_host"),
+  smtpPort: integer("smtp_port"),
+  smtpSecure: boolean("smtp_secure").default(false),
+  smtpUser: text("smtp_user"),
+  smtpPassword: text("smtp_password"),
+  smtpFrom: text("smtp_from"),
+  // Calling code applied to guest phones written without one (e.g. 0501234567)
+  phoneCountryCode: text("phone_country_code").default("966"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -108,6 +321,70 @@ export const userTierQuotas = pgTable("user_tier_quotas", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Per-event Ed25519 key pair used to sign QR invitation tokens
+export const eventSigningKeys = pgTable("event_signing_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull().unique(),
+  publicKey: text("public_key").notNull(),
+  privateKey: text("private_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Invitation message templates per event; body uses Arabic placeholders
+export const messageTemplates = pgTable("message_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  name: text("name").notNull(),
+  channel: messageChannelEnum("channel").notNull().default("whatsapp"),
+  // Email only; the body of an email template is HTML
+  subject: text("subject"),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per message sent to a guest; queued rows survive restarts so bulk sends resume
+export const guestMessages = pgTable("guest_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  guestId: varchar("guest_id").notNull(),
+  templateId: varchar("template_id"),
+  channel: messageChannelEnum("channel").notNull(),
+  recipient: text("recipient").notNull(),
+  subject: text("subject"),
+  body: text("body").notNull(),
+  status: messageStatusEnum("status").notNull().default("queued"),
+  provider: text("provider"),
+  providerMessageId: text("provider_message_id"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  createdById: varchar("created_by_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Saved column mappings for guest imports, reusable across a manager's events
+export const guestImportProfiles = pgTable("guest_import_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  // Preferred sheet; the first sheet is used when a file has no sheet by this name
+  sheetName: text("sheet_name"),
+  mapping: jsonb("mapping").$type<GuestImportMapping>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Settings and setup of an event a manager saved to start new events from
+export const eventTemplates = pgTable("event_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  // Values pre-filled on the new-event form
+  settings: jsonb("settings").$type<EventTemplateSettings>().notNull(),
+  // Categories, fields, zones and message templates given to events made from it
+  setup: jsonb("setup").$type<EventSetup>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   createdBy: one(users, {
@@ -175,6 +452,14 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertEventSchema = createInsertSchema(events).omit({
   id: true,
   createdAt: true,
+  registrationToken: true,
+  closedAt: true,
+  isActive: true,
+});
+
+export const insertEventSeriesSchema = createInsertSchema(eventSeries).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertGuestSchema = createInsertSchema(guests).omit({
@@ -183,6 +468,64 @@ export const insertGuestSchema = createInsertSchema(guests).omit({
   checkedInAt: true,
   checkedInBy: true,
   isCheckedIn: true,
+  checkedOutAt: true,
+  reentryCount: true,
+  rsvpToken: true,
+  rsvpAt: true,
+}).extend({
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  zoneIds: z.array(z.string()).optional(),
+});
+
+export const insertGuestRegistrationSchema = createInsertSchema(guestRegistrations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGuestCategorySchema = createInsertSchema(guestCategories).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSeatingTableSchema = createInsertSchema(seatingTables).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAccessZoneSchema = createInsertSchema(accessZones).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  categories: z.array(z.string()).optional(),
+});
+
+export const insertZoneEntrySchema = createInsertSchema(zoneEntries).omit({
+  id: true,
+});
+
+export const insertGuestMovementSchema = createInsertSchema(guestMovements).omit({
+  id: true,
+});
+
+export const insertEventSessionSchema = createInsertSchema(eventSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSessionAttendanceSchema = createInsertSchema(sessionAttendance).omit({
+  id: true,
+});
+
+export const insertSessionRegistrationSchema = createInsertSchema(sessionRegistrations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGuestFieldSchema = createInsertSchema(guestFields).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  options: z.array(z.string()).optional(),
 });
 
 export const insertEventOrganizerSchema = createInsertSchema(eventOrganizers).omit({
@@ -211,6 +554,48 @@ export const insertUserTierQuotaSchema = createInsertSchema(userTierQuotas).omit
   updatedAt: true,
 });
 
+export const insertEventSigningKeySchema = createInsertSchema(eventSigningKeys).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGuestMessageSchema = createInsertSchema(guestMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const CUSTOM_FIELD_MAPPING_PREFIX = "field:";
+
+// Guest field -> header of the column it is read from. Custom fields are
+// mapped as "field:<key>"; keys the event does not have are ignored.
+const guestImportMappingSchema = z.record(
+  z.union([
+    z.enum(["name", "phone", "email", "category", "companions", "notes"]),
+    z.string().startsWith(CUSTOM_FIELD_MAPPING_PREFIX),
+  ]),
+  z.string()
+);
+
+export const insertGuestImportProfileSchema = createInsertSchema(guestImportProfiles).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  mapping: guestImportMappingSchema,
+});
+
+export const insertEventTemplateSchema = createInsertSchema(eventTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  settings: z.custom<EventTemplateSettings>(),
+  setup: z.custom<EventSetup>(),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -218,12 +603,55 @@ export type User = typeof users.$inferSelect;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type Event = typeof events.$inferSelect;
 
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+export type EventSeries = typeof eventSeries.$inferSelect;
+
 export type InsertGuest = z.infer<typeof insertGuestSchema>;
 export type Guest = typeof guests.$inferSelect;
 
+export type InsertGuestRegistration = z.infer<typeof insertGuestRegistrationSchema>;
+export type GuestRegistration = typeof guestRegistrations.$inferSelect;
+
+export type InsertGuestCategory = z.infer<typeof insertGuestCategorySchema>;
+export type GuestCategory = typeof guestCategories.$inferSelect;
+
+export type InsertSeatingTable = z.infer<typeof insertSeatingTableSchema>;
+export type SeatingTable = typeof seatingTables.$inferSelect;
+
+export type InsertAccessZone = z.infer<typeof insertAccessZoneSchema>;
+export type AccessZone = typeof accessZones.$inferSelect;
+
+export type InsertZoneEntry = z.infer<typeof insertZoneEntrySchema>;
+export type ZoneEntry = typeof zoneEntries.$inferSelect;
+
+export type InsertGuestMovement = z.infer<typeof insertGuestMovementSchema>;
+export type GuestMovement = typeof guestMovements.$inferSelect;
+
+export type InsertEventSession = z.infer<typeof insertEventSessionSchema>;
+export type EventSession = typeof eventSessions.$inferSelect;
+
+export type InsertSessionAttendance = z.infer<typeof insertSessionAttendanceSchema>;
+export type SessionAttendance = typeof sessionAttendance.$inferSelect;
+
+export type InsertSessionRegistration = z.infer<typeof insertSessionRegistrationSchema>;
+export type SessionRegistration = typeof sessionRegistrations.$inferSelect;
+
+export type InsertGuestField = z.infer<typeof insertGuestFieldSchema>;
+export type GuestField = typeof guestFields.$inferSelect;
+export type CustomFieldType = GuestField["type"];
+export type CustomFieldValue = string | number | boolean;
+export type GuestCustomFields = Record<string, CustomFieldValue>;
+
 export type InsertEventOrganizer = z.infer<typeof insertEventOrganizerSchema>;
 export type EventOrganizer = typeof eventOrganizers.$inferSelect;
 
+// An organizer of an event with the gate they scan at
+export type AssignedOrganizer = User & { zoneId: string | null };
+
+// An event as the check-in app sees it; gateZoneId is the zone whose gate the
+// signed-in organizer scans at, null for the main entrance
+export type OrganizerEvent = Event & { gateZoneId: string | null };
+
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 
@@ -236,6 +664,54 @@ export type CapacityTier = typeof capacityTiers.$inferSelect;
 export type InsertUserTierQuota = z.infer<typeof insertUserTierQuotaSchema>;
 export type UserTierQuota = typeof userTierQuotas.$inferSelect;
 
+export type InsertEventSigningKey = z.infer<typeof insertEventSigningKeySchema>;
+export type EventSigningKey = typeof eventSigningKeys.$inferSelect;
+
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+
+export type InsertGuestMessage = z.infer<typeof insertGuestMessageSchema>;
+export type GuestMessage = typeof guestMessages.$inferSelect;
+
+export type InsertGuestImportProfile = z.infer<typeof insertGuestImportProfileSchema>;
+export type GuestImportProfile = typeof guestImportProfiles.$inferSelect;
+
+export type InsertEventTemplate = z.infer<typeof insertEventTemplateSchema>;
+export type EventTemplate = typeof eventTemplates.$inferSelect;
+
+export type EventTemplateSettings = Pick<
+  Event,
+  | "description"
+  | "location"
+  | "startTime"
+  | "endTime"
+  | "capacityTierId"
+  | "rsvpMaxCompanions"
+  | "duplicatePhoneMode"
+  | "reentryPolicy"
+  | "reentryLimit"
+  | "checkInGraceMinutes"
+>;
+
+// What an event is set up with before any guest is added; zones keep the
+// order of the event's zones
+export type EventSetup = {
+  categories: Pick<GuestCategory, "key" | "name" | "color">[];
+  fields: Pick<GuestField, "key" | "label" | "type" | "options">[];
+  zones: Pick<AccessZone, "name" | "categories">[];
+  messageTemplates: Pick<MessageTemplate, "name" | "channel" | "subject" | "body">[];
+};
+
+export type MessageChannel = "whatsapp" | "sms" | "email";
+export type MessageStatus = "queued" | "sent" | "failed";
+export type RsvpStatus = "pending" | "confirmed" | "declined";
+export type RegistrationStatus = "pending" | "approved" | "rejected";
+export type DuplicatePhoneMode = "warn" | "merge";
+export type ReentryPolicy = "allowed" | "disallowed" | "limited";
+export type MovementDirection = "in" | "out";
+export type EventStatus = "draft" | "published" | "live" | "closed" | "archived";
+export type Recurrence = "weekly" | "monthly" | "custom";
+
 // Login schema
 export const loginSchema = z.object({
   username: z.string().min(1, "اسم المستخدم مطلوب"),
@@ -243,3 +719,295 @@ export const loginSchema = z.object({
 });
 
 export type LoginInput = z.infer<typeof loginSchema>;
+
+// Check-in result returned by every check-in endpoint
+export type CheckInStatus = "success" | "duplicate" | "invalid";
+
+export type CheckInResult = {
+  status: CheckInStatus;
+  guest?: Guest;
+  message: string;
+  checkedInAt?: string | Date | null;
+  checkedInBy?: string;
+  // Companions admitted by this request
+  companionsAdmitted?: number;
+  // Access zone of the gate that handled the scan
+  zoneName?: string;
+  // Session the scan was counted for
+  sessionName?: string;
+};
+
+// Signed QR invitation token: "DW1.<payload>.<signature>", both parts base64url.
+// Times are unix seconds; c is the guest category at issue time.
+export const QR_TOKEN_PREFIX = "DW1";
+
+export type QrTokenPayload = {
+  v: 1;
+  g: string;
+  e: string;
+  c: string;
+  nbf: number;
+  exp: number;
+};
+
+export type EventSigningKeyInfo = {
+  eventId: string;
+  algorithm: "Ed25519";
+  publicKey: JsonWebKey;
+};
+
+// Placeholders available in message templates
+export const MESSAGE_PLACEHOLDERS = {
+  name: "{الاسم}",
+  accessCode: "{كود_الدخول}",
+  invitationLink: "{رابط_الدعوة}",
+  rsvpLink: "{رابط_التأكيد}",
+  eventName: "{المناسبة}",
+  eventDate: "{التاريخ}",
+  location: "{الموقع}",
+  // Email only: replaced with the guest's embedded QR image
+  qrImage: "{صورة_QR}",
+} as const;
+
+// What the public RSVP page sees: no ids, codes or contact details
+export type PublicRsvp = {
+  guest: {
+    name: string;
+    companions: number;
+    rsvpStatus: RsvpStatus;
+    rsvpAt: string | Date | null;
+  };
+  event: {
+    name: string;
+    description: string | null;
+    date: string | Date;
+    endDate: string | Date | null;
+    location: string | null;
+    startTime: string | null;
+    endTime: string | null;
+  };
+  maxCompanions: number;
+  isOpen: boolean;
+};
+
+// What the public registration page sees about the event
+export type PublicRegistrationEvent = {
+  name: string;
+  description: string | null;
+  date: string | Date;
+  endDate: string | Date | null;
+  location: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  isOpen: boolean;
+  categories: { key: string; name: string }[];
+};
+
+// Body of the category create and update requests
+export const guestCategorySchema = z.object({
+  name: z.string().trim().min(1, "اسم الفئة مطلوب"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "لون الفئة غير صالح"),
+});
+
+// Body of the custom field create and update requests. The type cannot be
+// changed by an update.
+export const guestFieldSchema = z.object({
+  label: z.string().trim().min(1, "اسم الحقل مطلوب"),
+  type: z.enum(customFieldTypeEnum.enumValues).default("text"),
+  options: z.array(z.string().trim().min(1, "خيارات الحقل لا يمكن أن تكون فارغة")).default([]),
+});
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "نص",
+  number: "رقم",
+  select: "قائمة خيارات",
+  date: "تاريخ",
+  boolean: "نعم / لا",
+};
+
+// Body of the seating table create and update requests
+export const seatingTableSchema = z.object({
+  name: z.string().trim().min(1, "اسم الطاولة مطلوب"),
+  section: z.string().trim().nullable().optional().transform((value) => value || null),
+  capacity: z.number().int("سعة الطاولة يجب أن تكون عدداً صحيحاً").min(1, "سعة الطاولة يجب أن تكون مقعداً واحداً على الأقل"),
+});
+
+// A table with the seats taken by the guests assigned to it
+export type SeatingTableSummary = SeatingTable & {
+  seatsTaken: number;
+  guestCount: number;
+};
+
+// Body of the access zone create and update requests
+export const accessZoneSchema = z.object({
+  name: z.string().trim().min(1, "اسم المنطقة مطلوب"),
+  categories: z.array(z.string()).default([]),
+});
+
+// A zone with how many guests may enter it and how many already did
+export type AccessZoneSummary = AccessZone & {
+  entitledCount: number;
+  enteredCount: number;
+};
+
+// Body of the session create and update requests
+export const eventSessionSchema = z.object({
+  name: z.string().trim().min(1, "اسم الجلسة مطلوب"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "تاريخ الجلسة غير صالح"),
+  startTime: z.string().nullable().optional().transform((value) => value || null),
+  endTime: z.string().nullable().optional().transform((value) => value || null),
+  speaker: z.string().trim().nullable().optional().transform((value) => value || null),
+  room: z.string().trim().nullable().optional().transform((value) => value || null),
+  capacity: z
+    .number()
+    .int("سعة الجلسة يجب أن تكون عدداً صحيحاً")
+    .min(1, "سعة الجلسة يجب أن تكون مقعداً واحداً على الأقل")
+    .nullable()
+    .optional()
+    .transform((value) => value ?? null),
+});
+
+// A session with how many guests attended it, how many reserved a seat and
+// the seats taken by both
+export type EventSessionSummary = EventSession & {
+  attendedCount: number;
+  registeredCount: number;
+  seatsTaken: number;
+};
+
+// Guests of an event per category, in the event's category order
+export type CategoryCount = {
+  key: string;
+  name: string;
+  color: string;
+  count: number;
+};
+
+// Guest fields a spreadsheet column can be mapped to, with their labels
+export const GUEST_IMPORT_FIELDS = {
+  name: "الاسم",
+  phone: "الجوال",
+  email: "البريد الإلكتروني",
+  category: "الفئة",
+  companions: "عدد المرافقين",
+  notes: "ملاحظات",
+} as const;
+
+export type GuestImportField = keyof typeof GUEST_IMPORT_FIELDS;
+
+export type GuestImportMapping = z.infer<typeof guestImportMappingSchema>;
+
+export type CsvEncoding = "utf-8" | "windows-1256";
+
+// Sent with every import request (multipart field "options"); omitted values are detected
+export const guestImportOptionsSchema = z.object({
+  sheet: z.string().optional(),
+  encoding: z.enum(["utf-8", "windows-1256"]).optional(),
+  mapping: guestImportMappingSchema.optional(),
+});
+
+export type GuestImportOptions = z.infer<typeof guestImportOptionsSchema>;
+
+export const guestImportProfileSchema = z.object({
+  name: z.string().trim().min(1, "اسم ملف الاستيراد مطلوب"),
+  sheetName: z.string().nullable().optional(),
+  mapping: guestImportMappingSchema,
+});
+
+// Saves an event's settings and setup as a template under this name
+export const eventTemplateSchema = z.object({
+  name: z.string().trim().min(1, "اسم القالب مطلوب"),
+  eventId: z.string().min(1, "المناسبة مطلوبة"),
+});
+
+// A copy of an event on another day; guests get new access codes
+export const eventDuplicateSchema = z.object({
+  name: z.string().trim().min(1, "اسم المناسبة مطلوب"),
+  date: z.coerce.date({ errorMap: () => ({ message: "تاريخ المناسبة غير صالح" }) }),
+  copyGuests: z.boolean().default(false),
+  copyOrganizers: z.boolean().default(false),
+});
+
+// Most occurrences a series may have, the event it starts from included
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// A day as YYYY-MM-DD that exists on the calendar; 2026-02-31 does not
+const calendarDaySchema = z.string().refine((day) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return false;
+  const date = new Date(`${day}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(day);
+}, "تاريخ المناسبة غير صالح");
+
+// Turns an event into the first occurrence of a series. Weekly and monthly
+// series take the number of occurrences to add after it, custom series their
+// days as YYYY-MM-DD.
+export const eventSeriesSchema = z.object({
+  recurrence: z.enum(recurrenceEnum.enumValues, { errorMap: () => ({ message: "نمط التكرار غير صالح" }) }),
+  count: z.number().int()
+    .min(1, "أضف مناسبة واحدة على الأقل")
+    .max(MAX_SERIES_OCCURRENCES - 1, `لا تزيد السلسلة عن ${MAX_SERIES_OCCURRENCES} مناسبة`)
+    .optional(),
+  dates: z.array(calendarDaySchema)
+    .max(MAX_SERIES_OCCURRENCES - 1, `لا تزيد السلسلة عن ${MAX_SERIES_OCCURRENCES} مناسبة`)
+    .optional(),
+}).refine((data) => (data.recurrence === "custom" ? !!data.dates?.length : !!data.count), {
+  message: "حدد مواعيد المناسبات القادمة",
+});
+
+// Attendance at one occurrence of a series
+export type SeriesOccurrence = Pick<Event, "id" | "name" | "date" | "endDate" | "status"> & {
+  guestCount: number;
+  checkedInCount: number;
+  // Guests plus the companions they may bring, and those admitted so far
+  expectedPeople: number;
+  admittedPeople: number;
+};
+
+export type SeriesAttendance = Pick<SeriesOccurrence, "guestCount" | "checkedInCount" | "expectedPeople" | "admittedPeople">;
+
+// A series with its occurrences in date order and their attendance summed
+export type EventSeriesSummary = EventSeries & {
+  occurrences: SeriesOccurrence[];
+  totals: SeriesAttendance;
+};
+
+// One spreadsheet row checked by the guest import; rows with errors are skipped
+export type GuestImportRow = {
+  rowNumber: number;
+  data: {
+    name: string;
+    phone: string;
+    email: string | null;
+    category: string;
+    companions: number;
+    notes: string;
+    customFields: GuestCustomFields;
+  };
+  errors: string[];
+  warnings: string[];
+  // For valid rows: add a guest, update the event's guest with the same phone
+  // (guestId, only the filled cells in updates), or skip a row folded into an
+  // earlier one. The last two only happen when the event merges duplicates.
+  action: "create" | "update" | "skip";
+  guestId?: string;
+  updates?: Partial<GuestImportRow["data"]>;
+};
+
+export type GuestImportPreview = {
+  sheets: string[];
+  sheet: string;
+  headers: string[];
+  mapping: GuestImportMapping;
+  // Detected or chosen text encoding; null for spreadsheet formats
+  encoding: CsvEncoding | null;
+  rows: GuestImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    withWarnings: number;
+    toCreate: number;
+    toUpdate: number;
+    remainingCapacity: number | null;
+  };
+};
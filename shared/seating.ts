@@ -0,0 +1,48 @@
+import type { Guest, SeatingTable, SeatingTableSummary } from "./schema";
+
+type SeatedGuest = Pick<Guest, "id" | "tableId" | "companions">;
+
+// A guest takes a seat for themselves and one for each companion
+export function seatsForGuest(guest: Pick<Guest, "companions">): number {
+  return 1 + (guest.companions || 0);
+}
+
+export function summarizeTables(tables: SeatingTable[], guestList: SeatedGuest[]): SeatingTableSummary[] {
+  return tables.map((table) => {
+    const seated = guestList.filter((g) => g.tableId === table.id);
+    return {
+      ...table,
+      seatsTaken: seated.reduce((sum, g) => sum + seatsForGuest(g), 0),
+      guestCount: seated.length,
+    };
+  });
+}
+
+// Seat guests at the tables that still have room, in table order. Larger
+// parties are placed first so they are not left without a table with enough
+// free seats, and a guest is never split from their companions.
+export function planSeating(
+  tables: SeatingTableSummary[],
+  guestList: SeatedGuest[]
+): { assignments: Map<string, string>; unplaced: SeatedGuest[] } {
+  const free = new Map<string, number>(tables.map((t) => [t.id, t.capacity - t.seatsTaken]));
+  const assignments = new Map<string, string>();
+  const unplaced: SeatedGuest[] = [];
+
+  const ordered = [...guestList].sort((a, b) => seatsForGuest(b) - seatsForGuest(a));
+  for (const guest of ordered) {
+    const seats = seatsForGuest(guest);
+    const table = tables.find((t) => (free.get(t.id) || 0) >= seats);
+    if (!table) {
+      unplaced.push(guest);
+      continue;
+    }
+    free.set(table.id, free.get(table.id)! - seats);
+    assignments.set(guest.id, table.id);
+  }
+  return { assignments, unplaced };
+}
+
+export function tableLabel(table: Pick<SeatingTable, "name" | "section">): string {
+  return table.section ? `${table.name} - ${table.section}` : table.name;
+}
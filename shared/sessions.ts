@@ -0,0 +1,107 @@
+import type { Event, EventSession, EventSessionSummary, SessionAttendance, SessionRegistration } from "./schema";
+
+type SessionTimes = Pick<EventSession, "date" | "startTime" | "endTime">;
+type SessionGuest = Pick<SessionAttendance | SessionRegistration, "sessionId" | "guestId">;
+
+// Event dates are stored at midnight UTC of the chosen day, as the forms send them
+function eventDayKey(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+// Local calendar day of a moment, in the YYYY-MM-DD form session dates use
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function eventLastDay(event: Pick<Event, "date" | "endDate">): Date {
+  return new Date(event.endDate ?? event.date);
+}
+
+// Day of a single-day event, or first and last day of a multi-day one
+export function formatEventDays(event: { date: string | Date; endDate?: string | Date | null }): string {
+  const first = new Date(event.date).toLocaleDateString("ar-SA");
+  return event.endDate ? `${first} - ${new Date(event.endDate).toLocaleDateString("ar-SA")}` : first;
+}
+
+// First and last day of an event as YYYY-MM-DD, the bounds for session dates
+export function eventDayRange(event: Pick<Event, "date" | "endDate">): { first: string; last: string } {
+  return { first: eventDayKey(event.date), last: eventDayKey(eventLastDay(event)) };
+}
+
+export function isWithinEventDays(event: Pick<Event, "date" | "endDate">, date: string): boolean {
+  const { first, last } = eventDayRange(event);
+  return date >= first && date <= last;
+}
+
+export function sortSessions<T extends SessionTimes>(sessions: T[]): T[] {
+  return [...sessions].sort(
+    (a, b) => a.date.localeCompare(b.date) || (a.startTime || "").localeCompare(b.startTime || "")
+  );
+}
+
+// The session a scan taken at this moment counts for: the one running now,
+// else the last one to have started today, else the first one still to come
+// today. Undefined when no session is held today.
+export function currentSession<T extends SessionTimes>(sessions: T[], now: Date = new Date()): T | undefined {
+  const today = sortSessions(sessions.filter((s) => s.date === dayKey(now)));
+  const time = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+  const started = today.filter((s) => !s.startTime || s.startTime <= time);
+  return (
+    started.find((s) => !s.endTime || time <= s.endTime) ??
+    started[started.length - 1] ??
+    today[0]
+  );
+}
+
+// Session dates are plain calendar days; read them as local midnight
+export function formatSessionDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("ar-SA");
+}
+
+export function sessionLabel(session: Pick<EventSession, "name" | "date">): string {
+  return `${session.name} - ${formatSessionDate(session.date)}`;
+}
+
+// Speaker and room of a session, as listed on the agenda
+export function sessionDetails(session: Pick<EventSession, "speaker" | "room">): string {
+  return [session.speaker, session.room].filter(Boolean).join(" · ");
+}
+
+// Guests holding a seat at a session: everyone who attended it plus those
+// registered ahead who have not arrived yet
+export function sessionSeatHolders(sessionId: string, attendance: SessionGuest[], registrations: SessionGuest[]): Set<string> {
+  const holders = new Set<string>();
+  for (const record of [...attendance, ...registrations]) {
+    if (record.sessionId === sessionId) holders.add(record.guestId);
+  }
+  return holders;
+}
+
+// Why a guest may not attend a session whose room is full, or null when they
+// hold a seat already or one is free
+export function sessionCapacityRefusal(
+  session: Pick<EventSession, "id" | "name" | "capacity">,
+  guestId: string,
+  attendance: SessionGuest[],
+  registrations: SessionGuest[]
+): string | null {
+  if (session.capacity === null) return null;
+  const holders = sessionSeatHolders(session.id, attendance, registrations);
+  if (holders.has(guestId) || holders.size < session.capacity) return null;
+  return `اكتملت مقاعد ${session.name} (${session.capacity} مقعد)، والدخول للمسجلين مسبقاً فقط`;
+}
+
+export function summarizeSessions(
+  sessions: EventSession[],
+  attendance: SessionGuest[],
+  registrations: SessionGuest[]
+): EventSessionSummary[] {
+  return sortSessions(sessions).map((session) => ({
+    ...session,
+    attendedCount: attendance.filter((a) => a.sessionId === session.id).length,
+    registeredCount: registrations.filter((r) => r.sessionId === session.id).length,
+    seatsTaken: sessionSeatHolders(session.id, attendance, registrations).size,
+  }));
+}
@@ -0,0 +1,25 @@
+import type { AccessZone, AccessZoneSummary, Guest, ZoneEntry } from "./schema";
+
+type ZoneGuest = Pick<Guest, "id" | "category" | "zoneIds">;
+
+// A guest may enter a zone open to their category or granted to them individually
+export function canEnterZone(zone: Pick<AccessZone, "id" | "categories">, guest: Pick<Guest, "category" | "zoneIds">): boolean {
+  return (!!guest.category && zone.categories.includes(guest.category)) || (guest.zoneIds || []).includes(zone.id);
+}
+
+export function summarizeZones(
+  zones: AccessZone[],
+  guestList: ZoneGuest[],
+  entries: Pick<ZoneEntry, "zoneId">[]
+): AccessZoneSummary[] {
+  return zones.map((zone) => ({
+    ...zone,
+    entitledCount: guestList.filter((g) => canEnterZone(zone, g)).length,
+    enteredCount: entries.filter((e) => e.zoneId === zone.id).length,
+  }));
+}
+
+export function gateName(zones: Pick<AccessZone, "id" | "name">[], zoneId: string | null | undefined): string {
+  if (!zoneId) return "المدخل الرئيسي";
+  return zones.find((z) => z.id === zoneId)?.name || "منطقة محذوفة";
+}
@@ -1,12 +1,43 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
+import fs from "fs";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
 
+// Emits sw.js from client/service-worker.js with the list of built assets to
+// precache and a per-build version so clients detect new deployments.
+function serviceWorker(): Plugin {
+  const publicAssets = ["/favicon.png", "/manifest.json", "/icons/icon.svg"];
+  return {
+    name: "service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const template = fs.readFileSync(
+        path.resolve(import.meta.dirname, "client", "service-worker.js"),
+        "utf-8",
+      );
+      const precache = [
+        ...publicAssets,
+        ...Object.keys(bundle)
+          .filter((file) => !file.endsWith(".map"))
+          .map((file) => `/${file}`),
+      ];
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: template
+          .replace("__BUILD_VERSION__", Date.now().toString(36))
+          .replace("__PRECACHE_MANIFEST__", JSON.stringify(precache)),
+      });
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
     runtimeErrorOverlay(),
+    serviceWorker(),
     ...(process.env.NODE_ENV !== "production" &&
     process.env.REPL_ID !== undefined
       ? [